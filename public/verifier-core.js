@@ -1 +1,2 @@
-(()=>{var g="123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz",u=r=>Array.from(r).map(i=>i.toString(16).padStart(2,"0")).join("");async function o(r){let i=typeof r=="string"?new TextEncoder().encode(r):r,n=await crypto.subtle.digest("SHA-256",i);return u(new Uint8Array(n))}function l(r){let i=0n;for(let e of r)i=(i<<8n)+BigInt(e);let n="";for(;i>0n;){let e=Number(i%58n);n=g[e]+n,i/=58n}for(let e=0;e<r.length&&r[e]===0;e++)n="1"+n;return n}async function d(r,i=0){let n=new Uint8Array(1+r.length);n[0]=i,n.set(r,1);let e=await crypto.subtle.digest("SHA-256",n),t=await crypto.subtle.digest("SHA-256",e),f=new Uint8Array(t).slice(0,4),a=new Uint8Array(n.length+4);return a.set(n),a.set(f,n.length),l(a)}async function s(r){let i=await o(r+"\u03C6"),n=new Uint8Array(20);for(let e=0;e<20;e++)n[e]=parseInt(i.slice(e*2,e*2+2),16);return d(n,0)}function c(r,i,n,e,t){return`${r}|${i}|${n}|${e}|${t??""}`}var m=(r,i,n,e,t)=>c(r,i,n,e,t??void 0),S={sha256HexCanon:o,derivePhiKeyFromSigCanon:s,verifierSigmaString:m};Object.defineProperty(globalThis,"KaiVerifier",{value:S,writable:!1,enumerable:!1,configurable:!0});})();
+(()=>{var ka=Object.create;var Ot=Object.defineProperty;var va=Object.getOwnPropertyDescriptor;var Ea=Object.getOwnPropertyNames;var wa=Object.getPrototypeOf,Ia=Object.prototype.hasOwnProperty;var O=(e,t)=>()=>(t||e((t={exports:{}}).exports,t),t.exports);var xa=(e,t,n,r)=>{if(t&&typeof t=="object"||typeof t=="function")for(let i of Ea(t))!Ia.call(e,i)&&i!==n&&Ot(e,i,{get:()=>t[i],enumerable:!(r=va(t,i))||r.enumerable});return e};var Aa=(e,t,n)=>(n=e!=null?ka(wa(e)):{},xa(t||!e||!e.__esModule?Ot(n,"default",{value:e,enumerable:!0}):n,e));var ie=O(L=>{"use strict";var Zo=typeof Uint8Array<"u"&&typeof Uint16Array<"u"&&typeof Int32Array<"u";function Yo(e,t){return Object.prototype.hasOwnProperty.call(e,t)}L.assign=function(e){for(var t=Array.prototype.slice.call(arguments,1);t.length;){var n=t.shift();if(n){if(typeof n!="object")throw new TypeError(n+"must be non-object");for(var r in n)Yo(n,r)&&(e[r]=n[r])}}return e};L.shrinkBuf=function(e,t){return e.length===t?e:e.subarray?e.subarray(0,t):(e.length=t,e)};var Go={arraySet:function(e,t,n,r,i){if(t.subarray&&e.subarray){e.set(t.subarray(n,n+r),i);return}for(var a=0;a<r;a++)e[i+a]=t[n+a]},flattenChunks:function(e){var t,n,r,i,a,o;for(r=0,t=0,n=e.length;t<n;t++)r+=e[t].length;for(o=new Uint8Array(r),i=0,t=0,n=e.length;t<n;t++)a=e[t],o.set(a,i),i+=a.length;return o}},Wo={arraySet:function(e,t,n,r,i){for(var a=0;a<r;a++)e[i+a]=t[n+a]},flattenChunks:function(e){return[].concat.apply([],e)}};L.setTyped=function(e){e?(L.Buf8=Uint8Array,L.Buf16=Uint16Array,L.Buf32=Int32Array,L.assign(L,Go)):(L.Buf8=Array,L.Buf16=Array,L.Buf32=Array,L.assign(L,Wo))};L.setTyped(Zo)});var Xr=O(Ue=>{"use strict";var qo=ie(),jo=4,Mr=0,Rr=1,Xo=2;function Le(e){for(var t=e.length;--t>=0;)e[t]=0}var Jo=0,Cr=1,Qo=2,es=3,ns=258,at=29,an=256,en=an+1+at,Oe=30,ot=19,Hr=2*en+1,Ie=15,Qn=16,ts=7,st=256,Or=16,Lr=17,Ur=18,rt=[0,0,0,0,0,0,0,0,1,1,1,1,2,2,2,2,3,3,3,3,4,4,4,4,5,5,5,5,0],In=[0,0,0,0,1,1,2,2,3,3,4,4,5,5,6,6,7,7,8,8,9,9,10,10,11,11,12,12,13,13],rs=[0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,2,3,7],Vr=[16,17,18,0,8,7,9,6,10,5,11,4,12,3,13,2,14,1,15],is=512,ae=new Array((en+2)*2);Le(ae);var Qe=new Array(Oe*2);Le(Qe);var nn=new Array(is);Le(nn);var tn=new Array(ns-es+1);Le(tn);var ut=new Array(at);Le(ut);var xn=new Array(Oe);Le(xn);function et(e,t,n,r,i){this.static_tree=e,this.extra_bits=t,this.extra_base=n,this.elems=r,this.max_length=i,this.has_stree=e&&e.length}var $r,zr,Fr;function nt(e,t){this.dyn_tree=e,this.max_code=0,this.stat_desc=t}function Zr(e){return e<256?nn[e]:nn[256+(e>>>7)]}function rn(e,t){e.pending_buf[e.pending++]=t&255,e.pending_buf[e.pending++]=t>>>8&255}function $(e,t,n){e.bi_valid>Qn-n?(e.bi_buf|=t<<e.bi_valid&65535,rn(e,e.bi_buf),e.bi_buf=t>>Qn-e.bi_valid,e.bi_valid+=n-Qn):(e.bi_buf|=t<<e.bi_valid&65535,e.bi_valid+=n)}function J(e,t,n){$(e,n[t*2],n[t*2+1])}function Yr(e,t){var n=0;do n|=e&1,e>>>=1,n<<=1;while(--t>0);return n>>>1}function as(e){e.bi_valid===16?(rn(e,e.bi_buf),e.bi_buf=0,e.bi_valid=0):e.bi_valid>=8&&(e.pending_buf[e.pending++]=e.bi_buf&255,e.bi_buf>>=8,e.bi_valid-=8)}function os(e,t){var n=t.dyn_tree,r=t.max_code,i=t.stat_desc.static_tree,a=t.stat_desc.has_stree,o=t.stat_desc.extra_bits,s=t.stat_desc.extra_base,d=t.stat_desc.max_length,u,l,k,p,h,b,m=0;for(p=0;p<=Ie;p++)e.bl_count[p]=0;for(n[e.heap[e.heap_max]*2+1]=0,u=e.heap_max+1;u<Hr;u++)l=e.heap[u],p=n[n[l*2+1]*2+1]+1,p>d&&(p=d,m++),n[l*2+1]=p,!(l>r)&&(e.bl_count[p]++,h=0,l>=s&&(h=o[l-s]),b=n[l*2],e.opt_len+=b*(p+h),a&&(e.static_len+=b*(i[l*2+1]+h)));if(m!==0){do{for(p=d-1;e.bl_count[p]===0;)p--;e.bl_count[p]--,e.bl_count[p+1]+=2,e.bl_count[d]--,m-=2}while(m>0);for(p=d;p!==0;p--)for(l=e.bl_count[p];l!==0;)k=e.heap[--u],!(k>r)&&(n[k*2+1]!==p&&(e.opt_len+=(p-n[k*2+1])*n[k*2],n[k*2+1]=p),l--)}}function Gr(e,t,n){var r=new Array(Ie+1),i=0,a,o;for(a=1;a<=Ie;a++)r[a]=i=i+n[a-1]<<1;for(o=0;o<=t;o++){var s=e[o*2+1];s!==0&&(e[o*2]=Yr(r[s]++,s))}}function ss(){var e,t,n,r,i,a=new Array(Ie+1);for(n=0,r=0;r<at-1;r++)for(ut[r]=n,e=0;e<1<<rt[r];e++)tn[n++]=r;for(tn[n-1]=r,i=0,r=0;r<16;r++)for(xn[r]=i,e=0;e<1<<In[r];e++)nn[i++]=r;for(i>>=7;r<Oe;r++)for(xn[r]=i<<7,e=0;e<1<<In[r]-7;e++)nn[256+i++]=r;for(t=0;t<=Ie;t++)a[t]=0;for(e=0;e<=143;)ae[e*2+1]=8,e++,a[8]++;for(;e<=255;)ae[e*2+1]=9,e++,a[9]++;for(;e<=279;)ae[e*2+1]=7,e++,a[7]++;for(;e<=287;)ae[e*2+1]=8,e++,a[8]++;for(Gr(ae,en+1,a),e=0;e<Oe;e++)Qe[e*2+1]=5,Qe[e*2]=Yr(e,5);$r=new et(ae,rt,an+1,en,Ie),zr=new et(Qe,In,0,Oe,Ie),Fr=new et(new Array(0),rs,0,ot,ts)}function Wr(e){var t;for(t=0;t<en;t++)e.dyn_ltree[t*2]=0;for(t=0;t<Oe;t++)e.dyn_dtree[t*2]=0;for(t=0;t<ot;t++)e.bl_tree[t*2]=0;e.dyn_ltree[st*2]=1,e.opt_len=e.static_len=0,e.last_lit=e.matches=0}function qr(e){e.bi_valid>8?rn(e,e.bi_buf):e.bi_valid>0&&(e.pending_buf[e.pending++]=e.bi_buf),e.bi_buf=0,e.bi_valid=0}function us(e,t,n,r){qr(e),r&&(rn(e,n),rn(e,~n)),qo.arraySet(e.pending_buf,e.window,t,n,e.pending),e.pending+=n}function Tr(e,t,n,r){var i=t*2,a=n*2;return e[i]<e[a]||e[i]===e[a]&&r[t]<=r[n]}function tt(e,t,n){for(var r=e.heap[n],i=n<<1;i<=e.heap_len&&(i<e.heap_len&&Tr(t,e.heap[i+1],e.heap[i],e.depth)&&i++,!Tr(t,r,e.heap[i],e.depth));)e.heap[n]=e.heap[i],n=i,i<<=1;e.heap[n]=r}function Kr(e,t,n){var r,i,a=0,o,s;if(e.last_lit!==0)do r=e.pending_buf[e.d_buf+a*2]<<8|e.pending_buf[e.d_buf+a*2+1],i=e.pending_buf[e.l_buf+a],a++,r===0?J(e,i,t):(o=tn[i],J(e,o+an+1,t),s=rt[o],s!==0&&(i-=ut[o],$(e,i,s)),r--,o=Zr(r),J(e,o,n),s=In[o],s!==0&&(r-=xn[o],$(e,r,s)));while(a<e.last_lit);J(e,st,t)}function it(e,t){var n=t.dyn_tree,r=t.stat_desc.static_tree,i=t.stat_desc.has_stree,a=t.stat_desc.elems,o,s,d=-1,u;for(e.heap_len=0,e.heap_max=Hr,o=0;o<a;o++)n[o*2]!==0?(e.heap[++e.heap_len]=d=o,e.depth[o]=0):n[o*2+1]=0;for(;e.heap_len<2;)u=e.heap[++e.heap_len]=d<2?++d:0,n[u*2]=1,e.depth[u]=0,e.opt_len--,i&&(e.static_len-=r[u*2+1]);for(t.max_code=d,o=e.heap_len>>1;o>=1;o--)tt(e,n,o);u=a;do o=e.heap[1],e.heap[1]=e.heap[e.heap_len--],tt(e,n,1),s=e.heap[1],e.heap[--e.heap_max]=o,e.heap[--e.heap_max]=s,n[u*2]=n[o*2]+n[s*2],e.depth[u]=(e.depth[o]>=e.depth[s]?e.depth[o]:e.depth[s])+1,n[o*2+1]=n[s*2+1]=u,e.heap[1]=u++,tt(e,n,1);while(e.heap_len>=2);e.heap[--e.heap_max]=e.heap[1],os(e,t),Gr(n,d,e.bl_count)}function Nr(e,t,n){var r,i=-1,a,o=t[1],s=0,d=7,u=4;for(o===0&&(d=138,u=3),t[(n+1)*2+1]=65535,r=0;r<=n;r++)a=o,o=t[(r+1)*2+1],!(++s<d&&a===o)&&(s<u?e.bl_tree[a*2]+=s:a!==0?(a!==i&&e.bl_tree[a*2]++,e.bl_tree[Or*2]++):s<=10?e.bl_tree[Lr*2]++:e.bl_tree[Ur*2]++,s=0,i=a,o===0?(d=138,u=3):a===o?(d=6,u=3):(d=7,u=4))}function Dr(e,t,n){var r,i=-1,a,o=t[1],s=0,d=7,u=4;for(o===0&&(d=138,u=3),r=0;r<=n;r++)if(a=o,o=t[(r+1)*2+1],!(++s<d&&a===o)){if(s<u)do J(e,a,e.bl_tree);while(--s!==0);else a!==0?(a!==i&&(J(e,a,e.bl_tree),s--),J(e,Or,e.bl_tree),$(e,s-3,2)):s<=10?(J(e,Lr,e.bl_tree),$(e,s-3,3)):(J(e,Ur,e.bl_tree),$(e,s-11,7));s=0,i=a,o===0?(d=138,u=3):a===o?(d=6,u=3):(d=7,u=4)}}function ls(e){var t;for(Nr(e,e.dyn_ltree,e.l_desc.max_code),Nr(e,e.dyn_dtree,e.d_desc.max_code),it(e,e.bl_desc),t=ot-1;t>=3&&e.bl_tree[Vr[t]*2+1]===0;t--);return e.opt_len+=3*(t+1)+5+5+4,t}function cs(e,t,n,r){var i;for($(e,t-257,5),$(e,n-1,5),$(e,r-4,4),i=0;i<r;i++)$(e,e.bl_tree[Vr[i]*2+1],3);Dr(e,e.dyn_ltree,t-1),Dr(e,e.dyn_dtree,n-1)}function fs(e){var t=4093624447,n;for(n=0;n<=31;n++,t>>>=1)if(t&1&&e.dyn_ltree[n*2]!==0)return Mr;if(e.dyn_ltree[18]!==0||e.dyn_ltree[20]!==0||e.dyn_ltree[26]!==0)return Rr;for(n=32;n<an;n++)if(e.dyn_ltree[n*2]!==0)return Rr;return Mr}var Br=!1;function ds(e){Br||(ss(),Br=!0),e.l_desc=new nt(e.dyn_ltree,$r),e.d_desc=new nt(e.dyn_dtree,zr),e.bl_desc=new nt(e.bl_tree,Fr),e.bi_buf=0,e.bi_valid=0,Wr(e)}function jr(e,t,n,r){$(e,(Jo<<1)+(r?1:0),3),us(e,t,n,!0)}function hs(e){$(e,Cr<<1,3),J(e,st,ae),as(e)}function ps(e,t,n,r){var i,a,o=0;e.level>0?(e.strm.data_type===Xo&&(e.strm.data_type=fs(e)),it(e,e.l_desc),it(e,e.d_desc),o=ls(e),i=e.opt_len+3+7>>>3,a=e.static_len+3+7>>>3,a<=i&&(i=a)):i=a=n+5,n+4<=i&&t!==-1?jr(e,t,n,r):e.strategy===jo||a===i?($(e,(Cr<<1)+(r?1:0),3),Kr(e,ae,Qe)):($(e,(Qo<<1)+(r?1:0),3),cs(e,e.l_desc.max_code+1,e.d_desc.max_code+1,o+1),Kr(e,e.dyn_ltree,e.dyn_dtree)),Wr(e),r&&qr(e)}function gs(e,t,n){return e.pending_buf[e.d_buf+e.last_lit*2]=t>>>8&255,e.pending_buf[e.d_buf+e.last_lit*2+1]=t&255,e.pending_buf[e.l_buf+e.last_lit]=n&255,e.last_lit++,t===0?e.dyn_ltree[n*2]++:(e.matches++,t--,e.dyn_ltree[(tn[n]+an+1)*2]++,e.dyn_dtree[Zr(t)*2]++),e.last_lit===e.lit_bufsize-1}Ue._tr_init=ds;Ue._tr_stored_block=jr;Ue._tr_flush_block=ps;Ue._tr_tally=gs;Ue._tr_align=hs});var lt=O((Sf,Jr)=>{"use strict";function _s(e,t,n,r){for(var i=e&65535|0,a=e>>>16&65535|0,o=0;n!==0;){o=n>2e3?2e3:n,n-=o;do i=i+t[r++]|0,a=a+i|0;while(--o);i%=65521,a%=65521}return i|a<<16|0}Jr.exports=_s});var ct=O((kf,Qr)=>{"use strict";function ys(){for(var e,t=[],n=0;n<256;n++){e=n;for(var r=0;r<8;r++)e=e&1?3988292384^e>>>1:e>>>1;t[n]=e}return t}var ms=ys();function bs(e,t,n,r){var i=ms,a=r+n;e^=-1;for(var o=r;o<a;o++)e=e>>>8^i[(e^t[o])&255];return e^-1}Qr.exports=bs});var An=O((vf,ei)=>{"use strict";ei.exports={2:"need dictionary",1:"stream end",0:"","-1":"file error","-2":"stream error","-3":"data error","-4":"insufficient memory","-5":"buffer error","-6":"incompatible version"}});var li=O(ne=>{"use strict";var U=ie(),F=Xr(),ii=lt(),he=ct(),Ss=An(),Me=0,ks=1,vs=3,me=4,ni=5,ee=0,ti=1,Z=-2,Es=-3,ft=-5,ws=-1,Is=1,Pn=2,xs=3,As=4,Ps=0,Ms=2,Kn=8,Rs=9,Ts=15,Ks=8,Ns=29,Ds=256,ht=Ds+1+Ns,Bs=30,Cs=19,Hs=2*ht+1,Os=15,A=3,_e=258,q=_e+A+1,Ls=32,Nn=42,pt=69,Mn=73,Rn=91,Tn=103,xe=113,sn=666,B=1,un=2,Ae=3,ze=4,Us=3;function ye(e,t){return e.msg=Ss[t],t}function ri(e){return(e<<1)-(e>4?9:0)}function ge(e){for(var t=e.length;--t>=0;)e[t]=0}function pe(e){var t=e.state,n=t.pending;n>e.avail_out&&(n=e.avail_out),n!==0&&(U.arraySet(e.output,t.pending_buf,t.pending_out,n,e.next_out),e.next_out+=n,t.pending_out+=n,e.total_out+=n,e.avail_out-=n,t.pending-=n,t.pending===0&&(t.pending_out=0))}function C(e,t){F._tr_flush_block(e,e.block_start>=0?e.block_start:-1,e.strstart-e.block_start,t),e.block_start=e.strstart,pe(e.strm)}function M(e,t){e.pending_buf[e.pending++]=t}function on(e,t){e.pending_buf[e.pending++]=t>>>8&255,e.pending_buf[e.pending++]=t&255}function Vs(e,t,n,r){var i=e.avail_in;return i>r&&(i=r),i===0?0:(e.avail_in-=i,U.arraySet(t,e.input,e.next_in,i,n),e.state.wrap===1?e.adler=ii(e.adler,t,i,n):e.state.wrap===2&&(e.adler=he(e.adler,t,i,n)),e.next_in+=i,e.total_in+=i,i)}function ai(e,t){var n=e.max_chain_length,r=e.strstart,i,a,o=e.prev_length,s=e.nice_match,d=e.strstart>e.w_size-q?e.strstart-(e.w_size-q):0,u=e.window,l=e.w_mask,k=e.prev,p=e.strstart+_e,h=u[r+o-1],b=u[r+o];e.prev_length>=e.good_match&&(n>>=2),s>e.lookahead&&(s=e.lookahead);do if(i=t,!(u[i+o]!==b||u[i+o-1]!==h||u[i]!==u[r]||u[++i]!==u[r+1])){r+=2,i++;do;while(u[++r]===u[++i]&&u[++r]===u[++i]&&u[++r]===u[++i]&&u[++r]===u[++i]&&u[++r]===u[++i]&&u[++r]===u[++i]&&u[++r]===u[++i]&&u[++r]===u[++i]&&r<p);if(a=_e-(p-r),r=p-_e,a>o){if(e.match_start=t,o=a,a>=s)break;h=u[r+o-1],b=u[r+o]}}while((t=k[t&l])>d&&--n!==0);return o<=e.lookahead?o:e.lookahead}function Pe(e){var t=e.w_size,n,r,i,a,o;do{if(a=e.window_size-e.lookahead-e.strstart,e.strstart>=t+(t-q)){U.arraySet(e.window,e.window,t,t,0),e.match_start-=t,e.strstart-=t,e.block_start-=t,r=e.hash_size,n=r;do i=e.head[--n],e.head[n]=i>=t?i-t:0;while(--r);r=t,n=r;do i=e.prev[--n],e.prev[n]=i>=t?i-t:0;while(--r);a+=t}if(e.strm.avail_in===0)break;if(r=Vs(e.strm,e.window,e.strstart+e.lookahead,a),e.lookahead+=r,e.lookahead+e.insert>=A)for(o=e.strstart-e.insert,e.ins_h=e.window[o],e.ins_h=(e.ins_h<<e.hash_shift^e.window[o+1])&e.hash_mask;e.insert&&(e.ins_h=(e.ins_h<<e.hash_shift^e.window[o+A-1])&e.hash_mask,e.prev[o&e.w_mask]=e.head[e.ins_h],e.head[e.ins_h]=o,o++,e.insert--,!(e.lookahead+e.insert<A)););}while(e.lookahead<q&&e.strm.avail_in!==0)}function $s(e,t){var n=65535;for(n>e.pending_buf_size-5&&(n=e.pending_buf_size-5);;){if(e.lookahead<=1){if(Pe(e),e.lookahead===0&&t===Me)return B;if(e.lookahead===0)break}e.strstart+=e.lookahead,e.lookahead=0;var r=e.block_start+n;if((e.strstart===0||e.strstart>=r)&&(e.lookahead=e.strstart-r,e.strstart=r,C(e,!1),e.strm.avail_out===0)||e.strstart-e.block_start>=e.w_size-q&&(C(e,!1),e.strm.avail_out===0))return B}return e.insert=0,t===me?(C(e,!0),e.strm.avail_out===0?Ae:ze):(e.strstart>e.block_start&&(C(e,!1),e.strm.avail_out===0),B)}function dt(e,t){for(var n,r;;){if(e.lookahead<q){if(Pe(e),e.lookahead<q&&t===Me)return B;if(e.lookahead===0)break}if(n=0,e.lookahead>=A&&(e.ins_h=(e.ins_h<<e.hash_shift^e.window[e.strstart+A-1])&e.hash_mask,n=e.prev[e.strstart&e.w_mask]=e.head[e.ins_h],e.head[e.ins_h]=e.strstart),n!==0&&e.strstart-n<=e.w_size-q&&(e.match_length=ai(e,n)),e.match_length>=A)if(r=F._tr_tally(e,e.strstart-e.match_start,e.match_length-A),e.lookahead-=e.match_length,e.match_length<=e.max_lazy_match&&e.lookahead>=A){e.match_length--;do e.strstart++,e.ins_h=(e.ins_h<<e.hash_shift^e.window[e.strstart+A-1])&e.hash_mask,n=e.prev[e.strstart&e.w_mask]=e.head[e.ins_h],e.head[e.ins_h]=e.strstart;while(--e.match_length!==0);e.strstart++}else e.strstart+=e.match_length,e.match_length=0,e.ins_h=e.window[e.strstart],e.ins_h=(e.ins_h<<e.hash_shift^e.window[e.strstart+1])&e.hash_mask;else r=F._tr_tally(e,0,e.window[e.strstart]),e.lookahead--,e.strstart++;if(r&&(C(e,!1),e.strm.avail_out===0))return B}return e.insert=e.strstart<A-1?e.strstart:A-1,t===me?(C(e,!0),e.strm.avail_out===0?Ae:ze):e.last_lit&&(C(e,!1),e.strm.avail_out===0)?B:un}function Ve(e,t){for(var n,r,i;;){if(e.lookahead<q){if(Pe(e),e.lookahead<q&&t===Me)return B;if(e.lookahead===0)break}if(n=0,e.lookahead>=A&&(e.ins_h=(e.ins_h<<e.hash_shift^e.window[e.strstart+A-1])&e.hash_mask,n=e.prev[e.strstart&e.w_mask]=e.head[e.ins_h],e.head[e.ins_h]=e.strstart),e.prev_length=e.match_length,e.prev_match=e.match_start,e.match_length=A-1,n!==0&&e.prev_length<e.max_lazy_match&&e.strstart-n<=e.w_size-q&&(e.match_length=ai(e,n),e.match_length<=5&&(e.strategy===Is||e.match_length===A&&e.strstart-e.match_start>4096)&&(e.match_length=A-1)),e.prev_length>=A&&e.match_length<=e.prev_length){i=e.strstart+e.lookahead-A,r=F._tr_tally(e,e.strstart-1-e.prev_match,e.prev_length-A),e.lookahead-=e.prev_length-1,e.prev_length-=2;do++e.strstart<=i&&(e.ins_h=(e.ins_h<<e.hash_shift^e.window[e.strstart+A-1])&e.hash_mask,n=e.prev[e.strstart&e.w_mask]=e.head[e.ins_h],e.head[e.ins_h]=e.strstart);while(--e.prev_length!==0);if(e.match_available=0,e.match_length=A-1,e.strstart++,r&&(C(e,!1),e.strm.avail_out===0))return B}else if(e.match_available){if(r=F._tr_tally(e,0,e.window[e.strstart-1]),r&&C(e,!1),e.strstart++,e.lookahead--,e.strm.avail_out===0)return B}else e.match_available=1,e.strstart++,e.lookahead--}return e.match_available&&(r=F._tr_tally(e,0,e.window[e.strstart-1]),e.match_available=0),e.insert=e.strstart<A-1?e.strstart:A-1,t===me?(C(e,!0),e.strm.avail_out===0?Ae:ze):e.last_lit&&(C(e,!1),e.strm.avail_out===0)?B:un}function zs(e,t){for(var n,r,i,a,o=e.window;;){if(e.lookahead<=_e){if(Pe(e),e.lookahead<=_e&&t===Me)return B;if(e.lookahead===0)break}if(e.match_length=0,e.lookahead>=A&&e.strstart>0&&(i=e.strstart-1,r=o[i],r===o[++i]&&r===o[++i]&&r===o[++i])){a=e.strstart+_e;do;while(r===o[++i]&&r===o[++i]&&r===o[++i]&&r===o[++i]&&r===o[++i]&&r===o[++i]&&r===o[++i]&&r===o[++i]&&i<a);e.match_length=_e-(a-i),e.match_length>e.lookahead&&(e.match_length=e.lookahead)}if(e.match_length>=A?(n=F._tr_tally(e,1,e.match_length-A),e.lookahead-=e.match_length,e.strstart+=e.match_length,e.match_length=0):(n=F._tr_tally(e,0,e.window[e.strstart]),e.lookahead--,e.strstart++),n&&(C(e,!1),e.strm.avail_out===0))return B}return e.insert=0,t===me?(C(e,!0),e.strm.avail_out===0?Ae:ze):e.last_lit&&(C(e,!1),e.strm.avail_out===0)?B:un}function Fs(e,t){for(var n;;){if(e.lookahead===0&&(Pe(e),e.lookahead===0)){if(t===Me)return B;break}if(e.match_length=0,n=F._tr_tally(e,0,e.window[e.strstart]),e.lookahead--,e.strstart++,n&&(C(e,!1),e.strm.avail_out===0))return B}return e.insert=0,t===me?(C(e,!0),e.strm.avail_out===0?Ae:ze):e.last_lit&&(C(e,!1),e.strm.avail_out===0)?B:un}function Q(e,t,n,r,i){this.good_length=e,this.max_lazy=t,this.nice_length=n,this.max_chain=r,this.func=i}var $e;$e=[new Q(0,0,0,0,$s),new Q(4,4,8,4,dt),new Q(4,5,16,8,dt),new Q(4,6,32,32,dt),new Q(4,4,16,16,Ve),new Q(8,16,32,32,Ve),new Q(8,16,128,128,Ve),new Q(8,32,128,256,Ve),new Q(32,128,258,1024,Ve),new Q(32,258,258,4096,Ve)];function Zs(e){e.window_size=2*e.w_size,ge(e.head),e.max_lazy_match=$e[e.level].max_lazy,e.good_match=$e[e.level].good_length,e.nice_match=$e[e.level].nice_length,e.max_chain_length=$e[e.level].max_chain,e.strstart=0,e.block_start=0,e.lookahead=0,e.insert=0,e.match_length=e.prev_length=A-1,e.match_available=0,e.ins_h=0}function Ys(){this.strm=null,this.status=0,this.pending_buf=null,this.pending_buf_size=0,this.pending_out=0,this.pending=0,this.wrap=0,this.gzhead=null,this.gzindex=0,this.method=Kn,this.last_flush=-1,this.w_size=0,this.w_bits=0,this.w_mask=0,this.window=null,this.window_size=0,this.prev=null,this.head=null,this.ins_h=0,this.hash_size=0,this.hash_bits=0,this.hash_mask=0,this.hash_shift=0,this.block_start=0,this.match_length=0,this.prev_match=0,this.match_available=0,this.strstart=0,this.match_start=0,this.lookahead=0,this.prev_length=0,this.max_chain_length=0,this.max_lazy_match=0,this.level=0,this.strategy=0,this.good_match=0,this.nice_match=0,this.dyn_ltree=new U.Buf16(Hs*2),this.dyn_dtree=new U.Buf16((2*Bs+1)*2),this.bl_tree=new U.Buf16((2*Cs+1)*2),ge(this.dyn_ltree),ge(this.dyn_dtree),ge(this.bl_tree),this.l_desc=null,this.d_desc=null,this.bl_desc=null,this.bl_count=new U.Buf16(Os+1),this.heap=new U.Buf16(2*ht+1),ge(this.heap),this.heap_len=0,this.heap_max=0,this.depth=new U.Buf16(2*ht+1),ge(this.depth),this.l_buf=0,this.lit_bufsize=0,this.last_lit=0,this.d_buf=0,this.opt_len=0,this.static_len=0,this.matches=0,this.insert=0,this.bi_buf=0,this.bi_valid=0}function oi(e){var t;return!e||!e.state?ye(e,Z):(e.total_in=e.total_out=0,e.data_type=Ms,t=e.state,t.pending=0,t.pending_out=0,t.wrap<0&&(t.wrap=-t.wrap),t.status=t.wrap?Nn:xe,e.adler=t.wrap===2?0:1,t.last_flush=Me,F._tr_init(t),ee)}function si(e){var t=oi(e);return t===ee&&Zs(e.state),t}function Gs(e,t){return!e||!e.state||e.state.wrap!==2?Z:(e.state.gzhead=t,ee)}function ui(e,t,n,r,i,a){if(!e)return Z;var o=1;if(t===ws&&(t=6),r<0?(o=0,r=-r):r>15&&(o=2,r-=16),i<1||i>Rs||n!==Kn||r<8||r>15||t<0||t>9||a<0||a>As)return ye(e,Z);r===8&&(r=9);var s=new Ys;return e.state=s,s.strm=e,s.wrap=o,s.gzhead=null,s.w_bits=r,s.w_size=1<<s.w_bits,s.w_mask=s.w_size-1,s.hash_bits=i+7,s.hash_size=1<<s.hash_bits,s.hash_mask=s.hash_size-1,s.hash_shift=~~((s.hash_bits+A-1)/A),s.window=new U.Buf8(s.w_size*2),s.head=new U.Buf16(s.hash_size),s.prev=new U.Buf16(s.w_size),s.lit_bufsize=1<<i+6,s.pending_buf_size=s.lit_bufsize*4,s.pending_buf=new U.Buf8(s.pending_buf_size),s.d_buf=1*s.lit_bufsize,s.l_buf=3*s.lit_bufsize,s.level=t,s.strategy=a,s.method=n,si(e)}function Ws(e,t){return ui(e,t,Kn,Ts,Ks,Ps)}function qs(e,t){var n,r,i,a;if(!e||!e.state||t>ni||t<0)return e?ye(e,Z):Z;if(r=e.state,!e.output||!e.input&&e.avail_in!==0||r.status===sn&&t!==me)return ye(e,e.avail_out===0?ft:Z);if(r.strm=e,n=r.last_flush,r.last_flush=t,r.status===Nn)if(r.wrap===2)e.adler=0,M(r,31),M(r,139),M(r,8),r.gzhead?(M(r,(r.gzhead.text?1:0)+(r.gzhead.hcrc?2:0)+(r.gzhead.extra?4:0)+(r.gzhead.name?8:0)+(r.gzhead.comment?16:0)),M(r,r.gzhead.time&255),M(r,r.gzhead.time>>8&255),M(r,r.gzhead.time>>16&255),M(r,r.gzhead.time>>24&255),M(r,r.level===9?2:r.strategy>=Pn||r.level<2?4:0),M(r,r.gzhead.os&255),r.gzhead.extra&&r.gzhead.extra.length&&(M(r,r.gzhead.extra.length&255),M(r,r.gzhead.extra.length>>8&255)),r.gzhead.hcrc&&(e.adler=he(e.adler,r.pending_buf,r.pending,0)),r.gzindex=0,r.status=pt):(M(r,0),M(r,0),M(r,0),M(r,0),M(r,0),M(r,r.level===9?2:r.strategy>=Pn||r.level<2?4:0),M(r,Us),r.status=xe);else{var o=Kn+(r.w_bits-8<<4)<<8,s=-1;r.strategy>=Pn||r.level<2?s=0:r.level<6?s=1:r.level===6?s=2:s=3,o|=s<<6,r.strstart!==0&&(o|=Ls),o+=31-o%31,r.status=xe,on(r,o),r.strstart!==0&&(on(r,e.adler>>>16),on(r,e.adler&65535)),e.adler=1}if(r.status===pt)if(r.gzhead.extra){for(i=r.pending;r.gzindex<(r.gzhead.extra.length&65535)&&!(r.pending===r.pending_buf_size&&(r.gzhead.hcrc&&r.pending>i&&(e.adler=he(e.adler,r.pending_buf,r.pending-i,i)),pe(e),i=r.pending,r.pending===r.pending_buf_size));)M(r,r.gzhead.extra[r.gzindex]&255),r.gzindex++;r.gzhead.hcrc&&r.pending>i&&(e.adler=he(e.adler,r.pending_buf,r.pending-i,i)),r.gzindex===r.gzhead.extra.length&&(r.gzindex=0,r.status=Mn)}else r.status=Mn;if(r.status===Mn)if(r.gzhead.name){i=r.pending;do{if(r.pending===r.pending_buf_size&&(r.gzhead.hcrc&&r.pending>i&&(e.adler=he(e.adler,r.pending_buf,r.pending-i,i)),pe(e),i=r.pending,r.pending===r.pending_buf_size)){a=1;break}r.gzindex<r.gzhead.name.length?a=r.gzhead.name.charCodeAt(r.gzindex++)&255:a=0,M(r,a)}while(a!==0);r.gzhead.hcrc&&r.pending>i&&(e.adler=he(e.adler,r.pending_buf,r.pending-i,i)),a===0&&(r.gzindex=0,r.status=Rn)}else r.status=Rn;if(r.status===Rn)if(r.gzhead.comment){i=r.pending;do{if(r.pending===r.pending_buf_size&&(r.gzhead.hcrc&&r.pending>i&&(e.adler=he(e.adler,r.pending_buf,r.pending-i,i)),pe(e),i=r.pending,r.pending===r.pending_buf_size)){a=1;break}r.gzindex<r.gzhead.comment.length?a=r.gzhead.comment.charCodeAt(r.gzindex++)&255:a=0,M(r,a)}while(a!==0);r.gzhead.hcrc&&r.pending>i&&(e.adler=he(e.adler,r.pending_buf,r.pending-i,i)),a===0&&(r.status=Tn)}else r.status=Tn;if(r.status===Tn&&(r.gzhead.hcrc?(r.pending+2>r.pending_buf_size&&pe(e),r.pending+2<=r.pending_buf_size&&(M(r,e.adler&255),M(r,e.adler>>8&255),e.adler=0,r.status=xe)):r.status=xe),r.pending!==0){if(pe(e),e.avail_out===0)return r.last_flush=-1,ee}else if(e.avail_in===0&&ri(t)<=ri(n)&&t!==me)return ye(e,ft);if(r.status===sn&&e.avail_in!==0)return ye(e,ft);if(e.avail_in!==0||r.lookahead!==0||t!==Me&&r.status!==sn){var d=r.strategy===Pn?Fs(r,t):r.strategy===xs?zs(r,t):$e[r.level].func(r,t);if((d===Ae||d===ze)&&(r.status=sn),d===B||d===Ae)return e.avail_out===0&&(r.last_flush=-1),ee;if(d===un&&(t===ks?F._tr_align(r):t!==ni&&(F._tr_stored_block(r,0,0,!1),t===vs&&(ge(r.head),r.lookahead===0&&(r.strstart=0,r.block_start=0,r.insert=0))),pe(e),e.avail_out===0))return r.last_flush=-1,ee}return t!==me?ee:r.wrap<=0?ti:(r.wrap===2?(M(r,e.adler&255),M(r,e.adler>>8&255),M(r,e.adler>>16&255),M(r,e.adler>>24&255),M(r,e.total_in&255),M(r,e.total_in>>8&255),M(r,e.total_in>>16&255),M(r,e.total_in>>24&255)):(on(r,e.adler>>>16),on(r,e.adler&65535)),pe(e),r.wrap>0&&(r.wrap=-r.wrap),r.pending!==0?ee:ti)}function js(e){var t;return!e||!e.state?Z:(t=e.state.status,t!==Nn&&t!==pt&&t!==Mn&&t!==Rn&&t!==Tn&&t!==xe&&t!==sn?ye(e,Z):(e.state=null,t===xe?ye(e,Es):ee))}function Xs(e,t){var n=t.length,r,i,a,o,s,d,u,l;if(!e||!e.state||(r=e.state,o=r.wrap,o===2||o===1&&r.status!==Nn||r.lookahead))return Z;for(o===1&&(e.adler=ii(e.adler,t,n,0)),r.wrap=0,n>=r.w_size&&(o===0&&(ge(r.head),r.strstart=0,r.block_start=0,r.insert=0),l=new U.Buf8(r.w_size),U.arraySet(l,t,n-r.w_size,r.w_size,0),t=l,n=r.w_size),s=e.avail_in,d=e.next_in,u=e.input,e.avail_in=n,e.next_in=0,e.input=t,Pe(r);r.lookahead>=A;){i=r.strstart,a=r.lookahead-(A-1);do r.ins_h=(r.ins_h<<r.hash_shift^r.window[i+A-1])&r.hash_mask,r.prev[i&r.w_mask]=r.head[r.ins_h],r.head[r.ins_h]=i,i++;while(--a);r.strstart=i,r.lookahead=A-1,Pe(r)}return r.strstart+=r.lookahead,r.block_start=r.strstart,r.insert=r.lookahead,r.lookahead=0,r.match_length=r.prev_length=A-1,r.match_available=0,e.next_in=d,e.input=u,e.avail_in=s,r.wrap=o,ee}ne.deflateInit=Ws;ne.deflateInit2=ui;ne.deflateReset=si;ne.deflateResetKeep=oi;ne.deflateSetHeader=Gs;ne.deflate=qs;ne.deflateEnd=js;ne.deflateSetDictionary=Xs;ne.deflateInfo="pako deflate (from Nodeca project)"});var gt=O(Fe=>{"use strict";var Dn=ie(),ci=!0,fi=!0;try{String.fromCharCode.apply(null,[0])}catch{ci=!1}try{String.fromCharCode.apply(null,new Uint8Array(1))}catch{fi=!1}var ln=new Dn.Buf8(256);for(oe=0;oe<256;oe++)ln[oe]=oe>=252?6:oe>=248?5:oe>=240?4:oe>=224?3:oe>=192?2:1;var oe;ln[254]=ln[254]=1;Fe.string2buf=function(e){var t,n,r,i,a,o=e.length,s=0;for(i=0;i<o;i++)n=e.charCodeAt(i),(n&64512)===55296&&i+1<o&&(r=e.charCodeAt(i+1),(r&64512)===56320&&(n=65536+(n-55296<<10)+(r-56320),i++)),s+=n<128?1:n<2048?2:n<65536?3:4;for(t=new Dn.Buf8(s),a=0,i=0;a<s;i++)n=e.charCodeAt(i),(n&64512)===55296&&i+1<o&&(r=e.charCodeAt(i+1),(r&64512)===56320&&(n=65536+(n-55296<<10)+(r-56320),i++)),n<128?t[a++]=n:n<2048?(t[a++]=192|n>>>6,t[a++]=128|n&63):n<65536?(t[a++]=224|n>>>12,t[a++]=128|n>>>6&63,t[a++]=128|n&63):(t[a++]=240|n>>>18,t[a++]=128|n>>>12&63,t[a++]=128|n>>>6&63,t[a++]=128|n&63);return t};function di(e,t){if(t<65534&&(e.subarray&&fi||!e.subarray&&ci))return String.fromCharCode.apply(null,Dn.shrinkBuf(e,t));for(var n="",r=0;r<t;r++)n+=String.fromCharCode(e[r]);return n}Fe.buf2binstring=function(e){return di(e,e.length)};Fe.binstring2buf=function(e){for(var t=new Dn.Buf8(e.length),n=0,r=t.length;n<r;n++)t[n]=e.charCodeAt(n);return t};Fe.buf2string=function(e,t){var n,r,i,a,o=t||e.length,s=new Array(o*2);for(r=0,n=0;n<o;){if(i=e[n++],i<128){s[r++]=i;continue}if(a=ln[i],a>4){s[r++]=65533,n+=a-1;continue}for(i&=a===2?31:a===3?15:7;a>1&&n<o;)i=i<<6|e[n++]&63,a--;if(a>1){s[r++]=65533;continue}i<65536?s[r++]=i:(i-=65536,s[r++]=55296|i>>10&1023,s[r++]=56320|i&1023)}return di(s,r)};Fe.utf8border=function(e,t){var n;for(t=t||e.length,t>e.length&&(t=e.length),n=t-1;n>=0&&(e[n]&192)===128;)n--;return n<0||n===0?t:n+ln[e[n]]>t?n:t}});var _t=O((If,hi)=>{"use strict";function Js(){this.input=null,this.next_in=0,this.avail_in=0,this.total_in=0,this.output=null,this.next_out=0,this.avail_out=0,this.total_out=0,this.msg="",this.state=null,this.data_type=2,this.adler=0}hi.exports=Js});var yi=O(dn=>{"use strict";var cn=li(),fn=ie(),mt=gt(),bt=An(),Qs=_t(),_i=Object.prototype.toString,eu=0,yt=4,Ze=0,pi=1,gi=2,nu=-1,tu=0,ru=8;function Re(e){if(!(this instanceof Re))return new Re(e);this.options=fn.assign({level:nu,method:ru,chunkSize:16384,windowBits:15,memLevel:8,strategy:tu,to:""},e||{});var t=this.options;t.raw&&t.windowBits>0?t.windowBits=-t.windowBits:t.gzip&&t.windowBits>0&&t.windowBits<16&&(t.windowBits+=16),this.err=0,this.msg="",this.ended=!1,this.chunks=[],this.strm=new Qs,this.strm.avail_out=0;var n=cn.deflateInit2(this.strm,t.level,t.method,t.windowBits,t.memLevel,t.strategy);if(n!==Ze)throw new Error(bt[n]);if(t.header&&cn.deflateSetHeader(this.strm,t.header),t.dictionary){var r;if(typeof t.dictionary=="string"?r=mt.string2buf(t.dictionary):_i.call(t.dictionary)==="[object ArrayBuffer]"?r=new Uint8Array(t.dictionary):r=t.dictionary,n=cn.deflateSetDictionary(this.strm,r),n!==Ze)throw new Error(bt[n]);this._dict_set=!0}}Re.prototype.push=function(e,t){var n=this.strm,r=this.options.chunkSize,i,a;if(this.ended)return!1;a=t===~~t?t:t===!0?yt:eu,typeof e=="string"?n.input=mt.string2buf(e):_i.call(e)==="[object ArrayBuffer]"?n.input=new Uint8Array(e):n.input=e,n.next_in=0,n.avail_in=n.input.length;do{if(n.avail_out===0&&(n.output=new fn.Buf8(r),n.next_out=0,n.avail_out=r),i=cn.deflate(n,a),i!==pi&&i!==Ze)return this.onEnd(i),this.ended=!0,!1;(n.avail_out===0||n.avail_in===0&&(a===yt||a===gi))&&(this.options.to==="string"?this.onData(mt.buf2binstring(fn.shrinkBuf(n.output,n.next_out))):this.onData(fn.shrinkBuf(n.output,n.next_out)))}while((n.avail_in>0||n.avail_out===0)&&i!==pi);return a===yt?(i=cn.deflateEnd(this.strm),this.onEnd(i),this.ended=!0,i===Ze):(a===gi&&(this.onEnd(Ze),n.avail_out=0),!0)};Re.prototype.onData=function(e){this.chunks.push(e)};Re.prototype.onEnd=function(e){e===Ze&&(this.options.to==="string"?this.result=this.chunks.join(""):this.result=fn.flattenChunks(this.chunks)),this.chunks=[],this.err=e,this.msg=this.strm.msg};function St(e,t){var n=new Re(t);if(n.push(e,!0),n.err)throw n.msg||bt[n.err];return n.result}function iu(e,t){return t=t||{},t.raw=!0,St(e,t)}function au(e,t){return t=t||{},t.gzip=!0,St(e,t)}dn.Deflate=Re;dn.deflate=St;dn.deflateRaw=iu;dn.gzip=au});var bi=O((Af,mi)=>{"use strict";var Bn=30,ou=12;mi.exports=function(t,n){var r,i,a,o,s,d,u,l,k,p,h,b,m,w,S,R,T,E,g,P,I,c,f,_,y;r=t.state,i=t.next_in,_=t.input,a=i+(t.avail_in-5),o=t.next_out,y=t.output,s=o-(n-t.avail_out),d=o+(t.avail_out-257),u=r.dmax,l=r.wsize,k=r.whave,p=r.wnext,h=r.window,b=r.hold,m=r.bits,w=r.lencode,S=r.distcode,R=(1<<r.lenbits)-1,T=(1<<r.distbits)-1;e:do{m<15&&(b+=_[i++]<<m,m+=8,b+=_[i++]<<m,m+=8),E=w[b&R];n:for(;;){if(g=E>>>24,b>>>=g,m-=g,g=E>>>16&255,g===0)y[o++]=E&65535;else if(g&16){P=E&65535,g&=15,g&&(m<g&&(b+=_[i++]<<m,m+=8),P+=b&(1<<g)-1,b>>>=g,m-=g),m<15&&(b+=_[i++]<<m,m+=8,b+=_[i++]<<m,m+=8),E=S[b&T];t:for(;;){if(g=E>>>24,b>>>=g,m-=g,g=E>>>16&255,g&16){if(I=E&65535,g&=15,m<g&&(b+=_[i++]<<m,m+=8,m<g&&(b+=_[i++]<<m,m+=8)),I+=b&(1<<g)-1,I>u){t.msg="invalid distance too far back",r.mode=Bn;break e}if(b>>>=g,m-=g,g=o-s,I>g){if(g=I-g,g>k&&r.sane){t.msg="invalid distance too far back",r.mode=Bn;break e}if(c=0,f=h,p===0){if(c+=l-g,g<P){P-=g;do y[o++]=h[c++];while(--g);c=o-I,f=y}}else if(p<g){if(c+=l+p-g,g-=p,g<P){P-=g;do y[o++]=h[c++];while(--g);if(c=0,p<P){g=p,P-=g;do y[o++]=h[c++];while(--g);c=o-I,f=y}}}else if(c+=p-g,g<P){P-=g;do y[o++]=h[c++];while(--g);c=o-I,f=y}for(;P>2;)y[o++]=f[c++],y[o++]=f[c++],y[o++]=f[c++],P-=3;P&&(y[o++]=f[c++],P>1&&(y[o++]=f[c++]))}else{c=o-I;do y[o++]=y[c++],y[o++]=y[c++],y[o++]=y[c++],P-=3;while(P>2);P&&(y[o++]=y[c++],P>1&&(y[o++]=y[c++]))}}else if((g&64)===0){E=S[(E&65535)+(b&(1<<g)-1)];continue t}else{t.msg="invalid distance code",r.mode=Bn;break e}break}}else if((g&64)===0){E=w[(E&65535)+(b&(1<<g)-1)];continue n}else if(g&32){r.mode=ou;break e}else{t.msg="invalid literal/length code",r.mode=Bn;break e}break}}while(i<a&&o<d);P=m>>3,i-=P,m-=P<<3,b&=(1<<m)-1,t.next_in=i,t.next_out=o,t.avail_in=i<a?5+(a-i):5-(i-a),t.avail_out=o<d?257+(d-o):257-(o-d),r.hold=b,r.bits=m}});var xi=O((Pf,Ii)=>{"use strict";var Si=ie(),Ye=15,ki=852,vi=592,Ei=0,kt=1,wi=2,su=[3,4,5,6,7,8,9,10,11,13,15,17,19,23,27,31,35,43,51,59,67,83,99,115,131,163,195,227,258,0,0],uu=[16,16,16,16,16,16,16,16,17,17,17,17,18,18,18,18,19,19,19,19,20,20,20,20,21,21,21,21,16,72,78],lu=[1,2,3,4,5,7,9,13,17,25,33,49,65,97,129,193,257,385,513,769,1025,1537,2049,3073,4097,6145,8193,12289,16385,24577,0,0],cu=[16,16,16,16,17,17,18,18,19,19,20,20,21,21,22,22,23,23,24,24,25,25,26,26,27,27,28,28,29,29,64,64];Ii.exports=function(t,n,r,i,a,o,s,d){var u=d.bits,l=0,k=0,p=0,h=0,b=0,m=0,w=0,S=0,R=0,T=0,E,g,P,I,c,f=null,_=0,y,K=new Si.Buf16(Ye+1),v=new Si.Buf16(Ye+1),H=null,re=0,We,ue,be;for(l=0;l<=Ye;l++)K[l]=0;for(k=0;k<i;k++)K[n[r+k]]++;for(b=u,h=Ye;h>=1&&K[h]===0;h--);if(b>h&&(b=h),h===0)return a[o++]=1<<24|64<<16|0,a[o++]=1<<24|64<<16|0,d.bits=1,0;for(p=1;p<h&&K[p]===0;p++);for(b<p&&(b=p),S=1,l=1;l<=Ye;l++)if(S<<=1,S-=K[l],S<0)return-1;if(S>0&&(t===Ei||h!==1))return-1;for(v[1]=0,l=1;l<Ye;l++)v[l+1]=v[l]+K[l];for(k=0;k<i;k++)n[r+k]!==0&&(s[v[n[r+k]]++]=k);if(t===Ei?(f=H=s,y=19):t===kt?(f=su,_-=257,H=uu,re-=257,y=256):(f=lu,H=cu,y=-1),T=0,k=0,l=p,c=o,m=b,w=0,P=-1,R=1<<b,I=R-1,t===kt&&R>ki||t===wi&&R>vi)return 1;for(;;){We=l-w,s[k]<y?(ue=0,be=s[k]):s[k]>y?(ue=H[re+s[k]],be=f[_+s[k]]):(ue=96,be=0),E=1<<l-w,g=1<<m,p=g;do g-=E,a[c+(T>>w)+g]=We<<24|ue<<16|be|0;while(g!==0);for(E=1<<l-1;T&E;)E>>=1;if(E!==0?(T&=E-1,T+=E):T=0,k++,--K[l]===0){if(l===h)break;l=n[r+s[k]]}if(l>b&&(T&I)!==P){for(w===0&&(w=b),c+=p,m=l-w,S=1<<m;m+w<h&&(S-=K[m+w],!(S<=0));)m++,S<<=1;if(R+=1<<m,t===kt&&R>ki||t===wi&&R>vi)return 1;P=T&I,a[P]=b<<24|m<<16|c-o|0}}return T!==0&&(a[c+T]=l-w<<24|64<<16|0),d.bits=b,0}});var sa=O(j=>{"use strict";var z=ie(),At=lt(),te=ct(),fu=bi(),hn=xi(),du=0,Ji=1,Qi=2,Ai=4,hu=5,Cn=6,Te=0,pu=1,gu=2,Y=-2,ea=-3,Pt=-4,_u=-5,Pi=8,na=1,Mi=2,Ri=3,Ti=4,Ki=5,Ni=6,Di=7,Bi=8,Ci=9,Hi=10,Ln=11,se=12,vt=13,Oi=14,Et=15,Li=16,Ui=17,Vi=18,$i=19,Hn=20,On=21,zi=22,Fi=23,Zi=24,Yi=25,Gi=26,wt=27,Wi=28,qi=29,N=30,Mt=31,yu=32,mu=852,bu=592,Su=15,ku=Su;function ji(e){return(e>>>24&255)+(e>>>8&65280)+((e&65280)<<8)+((e&255)<<24)}function vu(){this.mode=0,this.last=!1,this.wrap=0,this.havedict=!1,this.flags=0,this.dmax=0,this.check=0,this.total=0,this.head=null,this.wbits=0,this.wsize=0,this.whave=0,this.wnext=0,this.window=null,this.hold=0,this.bits=0,this.length=0,this.offset=0,this.extra=0,this.lencode=null,this.distcode=null,this.lenbits=0,this.distbits=0,this.ncode=0,this.nlen=0,this.ndist=0,this.have=0,this.next=null,this.lens=new z.Buf16(320),this.work=new z.Buf16(288),this.lendyn=null,this.distdyn=null,this.sane=0,this.back=0,this.was=0}function ta(e){var t;return!e||!e.state?Y:(t=e.state,e.total_in=e.total_out=t.total=0,e.msg="",t.wrap&&(e.adler=t.wrap&1),t.mode=na,t.last=0,t.havedict=0,t.dmax=32768,t.head=null,t.hold=0,t.bits=0,t.lencode=t.lendyn=new z.Buf32(mu),t.distcode=t.distdyn=new z.Buf32(bu),t.sane=1,t.back=-1,Te)}function ra(e){var t;return!e||!e.state?Y:(t=e.state,t.wsize=0,t.whave=0,t.wnext=0,ta(e))}function ia(e,t){var n,r;return!e||!e.state||(r=e.state,t<0?(n=0,t=-t):(n=(t>>4)+1,t<48&&(t&=15)),t&&(t<8||t>15))?Y:(r.window!==null&&r.wbits!==t&&(r.window=null),r.wrap=n,r.wbits=t,ra(e))}function aa(e,t){var n,r;return e?(r=new vu,e.state=r,r.window=null,n=ia(e,t),n!==Te&&(e.state=null),n):Y}function Eu(e){return aa(e,ku)}var Xi=!0,It,xt;function wu(e){if(Xi){var t;for(It=new z.Buf32(512),xt=new z.Buf32(32),t=0;t<144;)e.lens[t++]=8;for(;t<256;)e.lens[t++]=9;for(;t<280;)e.lens[t++]=7;for(;t<288;)e.lens[t++]=8;for(hn(Ji,e.lens,0,288,It,0,e.work,{bits:9}),t=0;t<32;)e.lens[t++]=5;hn(Qi,e.lens,0,32,xt,0,e.work,{bits:5}),Xi=!1}e.lencode=It,e.lenbits=9,e.distcode=xt,e.distbits=5}function oa(e,t,n,r){var i,a=e.state;return a.window===null&&(a.wsize=1<<a.wbits,a.wnext=0,a.whave=0,a.window=new z.Buf8(a.wsize)),r>=a.wsize?(z.arraySet(a.window,t,n-a.wsize,a.wsize,0),a.wnext=0,a.whave=a.wsize):(i=a.wsize-a.wnext,i>r&&(i=r),z.arraySet(a.window,t,n-r,i,a.wnext),r-=i,r?(z.arraySet(a.window,t,n-r,r,0),a.wnext=r,a.whave=a.wsize):(a.wnext+=i,a.wnext===a.wsize&&(a.wnext=0),a.whave<a.wsize&&(a.whave+=i))),0}function Iu(e,t){var n,r,i,a,o,s,d,u,l,k,p,h,b,m,w=0,S,R,T,E,g,P,I,c,f=new z.Buf8(4),_,y,K=[16,17,18,0,8,7,9,6,10,5,11,4,12,3,13,2,14,1,15];if(!e||!e.state||!e.output||!e.input&&e.avail_in!==0)return Y;n=e.state,n.mode===se&&(n.mode=vt),o=e.next_out,i=e.output,d=e.avail_out,a=e.next_in,r=e.input,s=e.avail_in,u=n.hold,l=n.bits,k=s,p=d,c=Te;e:for(;;)switch(n.mode){case na:if(n.wrap===0){n.mode=vt;break}for(;l<16;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(n.wrap&2&&u===35615){n.check=0,f[0]=u&255,f[1]=u>>>8&255,n.check=te(n.check,f,2,0),u=0,l=0,n.mode=Mi;break}if(n.flags=0,n.head&&(n.head.done=!1),!(n.wrap&1)||(((u&255)<<8)+(u>>8))%31){e.msg="incorrect header check",n.mode=N;break}if((u&15)!==Pi){e.msg="unknown compression method",n.mode=N;break}if(u>>>=4,l-=4,I=(u&15)+8,n.wbits===0)n.wbits=I;else if(I>n.wbits){e.msg="invalid window size",n.mode=N;break}n.dmax=1<<I,e.adler=n.check=1,n.mode=u&512?Hi:se,u=0,l=0;break;case Mi:for(;l<16;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(n.flags=u,(n.flags&255)!==Pi){e.msg="unknown compression method",n.mode=N;break}if(n.flags&57344){e.msg="unknown header flags set",n.mode=N;break}n.head&&(n.head.text=u>>8&1),n.flags&512&&(f[0]=u&255,f[1]=u>>>8&255,n.check=te(n.check,f,2,0)),u=0,l=0,n.mode=Ri;case Ri:for(;l<32;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}n.head&&(n.head.time=u),n.flags&512&&(f[0]=u&255,f[1]=u>>>8&255,f[2]=u>>>16&255,f[3]=u>>>24&255,n.check=te(n.check,f,4,0)),u=0,l=0,n.mode=Ti;case Ti:for(;l<16;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}n.head&&(n.head.xflags=u&255,n.head.os=u>>8),n.flags&512&&(f[0]=u&255,f[1]=u>>>8&255,n.check=te(n.check,f,2,0)),u=0,l=0,n.mode=Ki;case Ki:if(n.flags&1024){for(;l<16;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}n.length=u,n.head&&(n.head.extra_len=u),n.flags&512&&(f[0]=u&255,f[1]=u>>>8&255,n.check=te(n.check,f,2,0)),u=0,l=0}else n.head&&(n.head.extra=null);n.mode=Ni;case Ni:if(n.flags&1024&&(h=n.length,h>s&&(h=s),h&&(n.head&&(I=n.head.extra_len-n.length,n.head.extra||(n.head.extra=new Array(n.head.extra_len)),z.arraySet(n.head.extra,r,a,h,I)),n.flags&512&&(n.check=te(n.check,r,h,a)),s-=h,a+=h,n.length-=h),n.length))break e;n.length=0,n.mode=Di;case Di:if(n.flags&2048){if(s===0)break e;h=0;do I=r[a+h++],n.head&&I&&n.length<65536&&(n.head.name+=String.fromCharCode(I));while(I&&h<s);if(n.flags&512&&(n.check=te(n.check,r,h,a)),s-=h,a+=h,I)break e}else n.head&&(n.head.name=null);n.length=0,n.mode=Bi;case Bi:if(n.flags&4096){if(s===0)break e;h=0;do I=r[a+h++],n.head&&I&&n.length<65536&&(n.head.comment+=String.fromCharCode(I));while(I&&h<s);if(n.flags&512&&(n.check=te(n.check,r,h,a)),s-=h,a+=h,I)break e}else n.head&&(n.head.comment=null);n.mode=Ci;case Ci:if(n.flags&512){for(;l<16;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(u!==(n.check&65535)){e.msg="header crc mismatch",n.mode=N;break}u=0,l=0}n.head&&(n.head.hcrc=n.flags>>9&1,n.head.done=!0),e.adler=n.check=0,n.mode=se;break;case Hi:for(;l<32;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}e.adler=n.check=ji(u),u=0,l=0,n.mode=Ln;case Ln:if(n.havedict===0)return e.next_out=o,e.avail_out=d,e.next_in=a,e.avail_in=s,n.hold=u,n.bits=l,gu;e.adler=n.check=1,n.mode=se;case se:if(t===hu||t===Cn)break e;case vt:if(n.last){u>>>=l&7,l-=l&7,n.mode=wt;break}for(;l<3;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}switch(n.last=u&1,u>>>=1,l-=1,u&3){case 0:n.mode=Oi;break;case 1:if(wu(n),n.mode=Hn,t===Cn){u>>>=2,l-=2;break e}break;case 2:n.mode=Ui;break;case 3:e.msg="invalid block type",n.mode=N}u>>>=2,l-=2;break;case Oi:for(u>>>=l&7,l-=l&7;l<32;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if((u&65535)!==(u>>>16^65535)){e.msg="invalid stored block lengths",n.mode=N;break}if(n.length=u&65535,u=0,l=0,n.mode=Et,t===Cn)break e;case Et:n.mode=Li;case Li:if(h=n.length,h){if(h>s&&(h=s),h>d&&(h=d),h===0)break e;z.arraySet(i,r,a,h,o),s-=h,a+=h,d-=h,o+=h,n.length-=h;break}n.mode=se;break;case Ui:for(;l<14;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(n.nlen=(u&31)+257,u>>>=5,l-=5,n.ndist=(u&31)+1,u>>>=5,l-=5,n.ncode=(u&15)+4,u>>>=4,l-=4,n.nlen>286||n.ndist>30){e.msg="too many length or distance symbols",n.mode=N;break}n.have=0,n.mode=Vi;case Vi:for(;n.have<n.ncode;){for(;l<3;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}n.lens[K[n.have++]]=u&7,u>>>=3,l-=3}for(;n.have<19;)n.lens[K[n.have++]]=0;if(n.lencode=n.lendyn,n.lenbits=7,_={bits:n.lenbits},c=hn(du,n.lens,0,19,n.lencode,0,n.work,_),n.lenbits=_.bits,c){e.msg="invalid code lengths set",n.mode=N;break}n.have=0,n.mode=$i;case $i:for(;n.have<n.nlen+n.ndist;){for(;w=n.lencode[u&(1<<n.lenbits)-1],S=w>>>24,R=w>>>16&255,T=w&65535,!(S<=l);){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(T<16)u>>>=S,l-=S,n.lens[n.have++]=T;else{if(T===16){for(y=S+2;l<y;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(u>>>=S,l-=S,n.have===0){e.msg="invalid bit length repeat",n.mode=N;break}I=n.lens[n.have-1],h=3+(u&3),u>>>=2,l-=2}else if(T===17){for(y=S+3;l<y;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}u>>>=S,l-=S,I=0,h=3+(u&7),u>>>=3,l-=3}else{for(y=S+7;l<y;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}u>>>=S,l-=S,I=0,h=11+(u&127),u>>>=7,l-=7}if(n.have+h>n.nlen+n.ndist){e.msg="invalid bit length repeat",n.mode=N;break}for(;h--;)n.lens[n.have++]=I}}if(n.mode===N)break;if(n.lens[256]===0){e.msg="invalid code -- missing end-of-block",n.mode=N;break}if(n.lenbits=9,_={bits:n.lenbits},c=hn(Ji,n.lens,0,n.nlen,n.lencode,0,n.work,_),n.lenbits=_.bits,c){e.msg="invalid literal/lengths set",n.mode=N;break}if(n.distbits=6,n.distcode=n.distdyn,_={bits:n.distbits},c=hn(Qi,n.lens,n.nlen,n.ndist,n.distcode,0,n.work,_),n.distbits=_.bits,c){e.msg="invalid distances set",n.mode=N;break}if(n.mode=Hn,t===Cn)break e;case Hn:n.mode=On;case On:if(s>=6&&d>=258){e.next_out=o,e.avail_out=d,e.next_in=a,e.avail_in=s,n.hold=u,n.bits=l,fu(e,p),o=e.next_out,i=e.output,d=e.avail_out,a=e.next_in,r=e.input,s=e.avail_in,u=n.hold,l=n.bits,n.mode===se&&(n.back=-1);break}for(n.back=0;w=n.lencode[u&(1<<n.lenbits)-1],S=w>>>24,R=w>>>16&255,T=w&65535,!(S<=l);){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(R&&(R&240)===0){for(E=S,g=R,P=T;w=n.lencode[P+((u&(1<<E+g)-1)>>E)],S=w>>>24,R=w>>>16&255,T=w&65535,!(E+S<=l);){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}u>>>=E,l-=E,n.back+=E}if(u>>>=S,l-=S,n.back+=S,n.length=T,R===0){n.mode=Gi;break}if(R&32){n.back=-1,n.mode=se;break}if(R&64){e.msg="invalid literal/length code",n.mode=N;break}n.extra=R&15,n.mode=zi;case zi:if(n.extra){for(y=n.extra;l<y;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}n.length+=u&(1<<n.extra)-1,u>>>=n.extra,l-=n.extra,n.back+=n.extra}n.was=n.length,n.mode=Fi;case Fi:for(;w=n.distcode[u&(1<<n.distbits)-1],S=w>>>24,R=w>>>16&255,T=w&65535,!(S<=l);){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if((R&240)===0){for(E=S,g=R,P=T;w=n.distcode[P+((u&(1<<E+g)-1)>>E)],S=w>>>24,R=w>>>16&255,T=w&65535,!(E+S<=l);){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}u>>>=E,l-=E,n.back+=E}if(u>>>=S,l-=S,n.back+=S,R&64){e.msg="invalid distance code",n.mode=N;break}n.offset=T,n.extra=R&15,n.mode=Zi;case Zi:if(n.extra){for(y=n.extra;l<y;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}n.offset+=u&(1<<n.extra)-1,u>>>=n.extra,l-=n.extra,n.back+=n.extra}if(n.offset>n.dmax){e.msg="invalid distance too far back",n.mode=N;break}n.mode=Yi;case Yi:if(d===0)break e;if(h=p-d,n.offset>h){if(h=n.offset-h,h>n.whave&&n.sane){e.msg="invalid distance too far back",n.mode=N;break}h>n.wnext?(h-=n.wnext,b=n.wsize-h):b=n.wnext-h,h>n.length&&(h=n.length),m=n.window}else m=i,b=o-n.offset,h=n.length;h>d&&(h=d),d-=h,n.length-=h;do i[o++]=m[b++];while(--h);n.length===0&&(n.mode=On);break;case Gi:if(d===0)break e;i[o++]=n.length,d--,n.mode=On;break;case wt:if(n.wrap){for(;l<32;){if(s===0)break e;s--,u|=r[a++]<<l,l+=8}if(p-=d,e.total_out+=p,n.total+=p,p&&(e.adler=n.check=n.flags?te(n.check,i,p,o-p):At(n.check,i,p,o-p)),p=d,(n.flags?u:ji(u))!==n.check){e.msg="incorrect data check",n.mode=N;break}u=0,l=0}n.mode=Wi;case Wi:if(n.wrap&&n.flags){for(;l<32;){if(s===0)break e;s--,u+=r[a++]<<l,l+=8}if(u!==(n.total&4294967295)){e.msg="incorrect length check",n.mode=N;break}u=0,l=0}n.mode=qi;case qi:c=pu;break e;case N:c=ea;break e;case Mt:return Pt;case yu:default:return Y}return e.next_out=o,e.avail_out=d,e.next_in=a,e.avail_in=s,n.hold=u,n.bits=l,(n.wsize||p!==e.avail_out&&n.mode<N&&(n.mode<wt||t!==Ai))&&oa(e,e.output,e.next_out,p-e.avail_out)?(n.mode=Mt,Pt):(k-=e.avail_in,p-=e.avail_out,e.total_in+=k,e.total_out+=p,n.total+=p,n.wrap&&p&&(e.adler=n.check=n.flags?te(n.check,i,p,e.next_out-p):At(n.check,i,p,e.next_out-p)),e.data_type=n.bits+(n.last?64:0)+(n.mode===se?128:0)+(n.mode===Hn||n.mode===Et?256:0),(k===0&&p===0||t===Ai)&&c===Te&&(c=_u),c)}function xu(e){if(!e||!e.state)return Y;var t=e.state;return t.window&&(t.window=null),e.state=null,Te}function Au(e,t){var n;return!e||!e.state||(n=e.state,(n.wrap&2)===0)?Y:(n.head=t,t.done=!1,Te)}function Pu(e,t){var n=t.length,r,i,a;return!e||!e.state||(r=e.state,r.wrap!==0&&r.mode!==Ln)?Y:r.mode===Ln&&(i=1,i=At(i,t,n,0),i!==r.check)?ea:(a=oa(e,t,n,n),a?(r.mode=Mt,Pt):(r.havedict=1,Te))}j.inflateReset=ra;j.inflateReset2=ia;j.inflateResetKeep=ta;j.inflateInit=Eu;j.inflateInit2=aa;j.inflate=Iu;j.inflateEnd=xu;j.inflateGetHeader=Au;j.inflateSetDictionary=Pu;j.inflateInfo="pako inflate (from Nodeca project)"});var Rt=O((Rf,ua)=>{"use strict";ua.exports={Z_NO_FLUSH:0,Z_PARTIAL_FLUSH:1,Z_SYNC_FLUSH:2,Z_FULL_FLUSH:3,Z_FINISH:4,Z_BLOCK:5,Z_TREES:6,Z_OK:0,Z_STREAM_END:1,Z_NEED_DICT:2,Z_ERRNO:-1,Z_STREAM_ERROR:-2,Z_DATA_ERROR:-3,Z_BUF_ERROR:-5,Z_NO_COMPRESSION:0,Z_BEST_SPEED:1,Z_BEST_COMPRESSION:9,Z_DEFAULT_COMPRESSION:-1,Z_FILTERED:1,Z_HUFFMAN_ONLY:2,Z_RLE:3,Z_FIXED:4,Z_DEFAULT_STRATEGY:0,Z_BINARY:0,Z_TEXT:1,Z_UNKNOWN:2,Z_DEFLATED:8}});var ca=O((Tf,la)=>{"use strict";function Mu(){this.text=0,this.time=0,this.xflags=0,this.os=0,this.extra=null,this.extra_len=0,this.name="",this.comment="",this.hcrc=0,this.done=!1}la.exports=Mu});var da=O(gn=>{"use strict";var Ge=sa(),pn=ie(),Un=gt(),D=Rt(),Tt=An(),Ru=_t(),Tu=ca(),fa=Object.prototype.toString;function Ke(e){if(!(this instanceof Ke))return new Ke(e);this.options=pn.assign({chunkSize:16384,windowBits:0,to:""},e||{});var t=this.options;t.raw&&t.windowBits>=0&&t.windowBits<16&&(t.windowBits=-t.windowBits,t.windowBits===0&&(t.windowBits=-15)),t.windowBits>=0&&t.windowBits<16&&!(e&&e.windowBits)&&(t.windowBits+=32),t.windowBits>15&&t.windowBits<48&&(t.windowBits&15)===0&&(t.windowBits|=15),this.err=0,this.msg="",this.ended=!1,this.chunks=[],this.strm=new Ru,this.strm.avail_out=0;var n=Ge.inflateInit2(this.strm,t.windowBits);if(n!==D.Z_OK)throw new Error(Tt[n]);if(this.header=new Tu,Ge.inflateGetHeader(this.strm,this.header),t.dictionary&&(typeof t.dictionary=="string"?t.dictionary=Un.string2buf(t.dictionary):fa.call(t.dictionary)==="[object ArrayBuffer]"&&(t.dictionary=new Uint8Array(t.dictionary)),t.raw&&(n=Ge.inflateSetDictionary(this.strm,t.dictionary),n!==D.Z_OK)))throw new Error(Tt[n])}Ke.prototype.push=function(e,t){var n=this.strm,r=this.options.chunkSize,i=this.options.dictionary,a,o,s,d,u,l=!1;if(this.ended)return!1;o=t===~~t?t:t===!0?D.Z_FINISH:D.Z_NO_FLUSH,typeof e=="string"?n.input=Un.binstring2buf(e):fa.call(e)==="[object ArrayBuffer]"?n.input=new Uint8Array(e):n.input=e,n.next_in=0,n.avail_in=n.input.length;do{if(n.avail_out===0&&(n.output=new pn.Buf8(r),n.next_out=0,n.avail_out=r),a=Ge.inflate(n,D.Z_NO_FLUSH),a===D.Z_NEED_DICT&&i&&(a=Ge.inflateSetDictionary(this.strm,i)),a===D.Z_BUF_ERROR&&l===!0&&(a=D.Z_OK,l=!1),a!==D.Z_STREAM_END&&a!==D.Z_OK)return this.onEnd(a),this.ended=!0,!1;n.next_out&&(n.avail_out===0||a===D.Z_STREAM_END||n.avail_in===0&&(o===D.Z_FINISH||o===D.Z_SYNC_FLUSH))&&(this.options.to==="string"?(s=Un.utf8border(n.output,n.next_out),d=n.next_out-s,u=Un.buf2string(n.output,s),n.next_out=d,n.avail_out=r-d,d&&pn.arraySet(n.output,n.output,s,d,0),this.onData(u)):this.onData(pn.shrinkBuf(n.output,n.next_out))),n.avail_in===0&&n.avail_out===0&&(l=!0)}while((n.avail_in>0||n.avail_out===0)&&a!==D.Z_STREAM_END);return a===D.Z_STREAM_END&&(o=D.Z_FINISH),o===D.Z_FINISH?(a=Ge.inflateEnd(this.strm),this.onEnd(a),this.ended=!0,a===D.Z_OK):(o===D.Z_SYNC_FLUSH&&(this.onEnd(D.Z_OK),n.avail_out=0),!0)};Ke.prototype.onData=function(e){this.chunks.push(e)};Ke.prototype.onEnd=function(e){e===D.Z_OK&&(this.options.to==="string"?this.result=this.chunks.join(""):this.result=pn.flattenChunks(this.chunks)),this.chunks=[],this.err=e,this.msg=this.strm.msg};function Kt(e,t){var n=new Ke(t);if(n.push(e,!0),n.err)throw n.msg||Tt[n.err];return n.result}function Ku(e,t){return t=t||{},t.raw=!0,Kt(e,t)}gn.Inflate=Ke;gn.inflate=Kt;gn.inflateRaw=Ku;gn.ungzip=Kt});var ga=O((Nf,pa)=>{"use strict";var Nu=ie().assign,Du=yi(),Bu=da(),Cu=Rt(),ha={};Nu(ha,Du,Bu,Cu);pa.exports=ha});var Pa="123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz",Ma=e=>Array.from(e).map(t=>t.toString(16).padStart(2,"0")).join("");async function Vn(e){let t=typeof e=="string"?new TextEncoder().encode(e):e,n=await crypto.subtle.digest("SHA-256",t);return Ma(new Uint8Array(n))}function Ra(e){let t=0n;for(let r of e)t=(t<<8n)+BigInt(r);let n="";for(;t>0n;){let r=Number(t%58n);n=Pa[r]+n,t/=58n}for(let r=0;r<e.length&&e[r]===0;r++)n="1"+n;return n}async function Ta(e,t=0){let n=new Uint8Array(1+e.length);n[0]=t,n.set(e,1);let r=await crypto.subtle.digest("SHA-256",n),i=await crypto.subtle.digest("SHA-256",r),a=new Uint8Array(i).slice(0,4),o=new Uint8Array(n.length+4);return o.set(n),o.set(a,n.length),Ra(o)}async function Lt(e){let t=await Vn(e+"\u03C6"),n=new Uint8Array(20);for(let r=0;r<20;r++)n[r]=parseInt(t.slice(r*2,r*2+2),16);return Ta(n,0)}function Ut(e,t,n,r,i){return`${e}|${t}|${n}|${r}|${i??""}`}var $a={};var G=17491270421n,Se=11000000n,qe=484000000n,De=17424000000n,Vt=Math.round((3+Math.sqrt(5))*1e3),rl=BigInt("5236067977499789696409173668731276235440618359611525724270897245"),il=10n**60n,al=BigInt("190983005625052575897706582817180941139845410097118568932275689"),ol=10n**60n,Ka=($a.env?.VITE_KAI_API_URL||"https://klock.kaiturah.com").replace(/\/+$/,""),sl=`${Ka}/kai`,Be=["Solhara","Aquaris","Flamora","Verdari","Sonari","Kaelith"],$n={Solhara:"Root",Aquaris:"Sacral",Flamora:"Solar Plexus",Verdari:"Heart",Sonari:"Throat",Kaelith:"Crown"};var Na=(e,t)=>{let n=e/t;return e%t===0n||e>=0n?n:n-1n};var _n=Na;function Da(e,t,n){let r=t<=2n?e-1n:e,i=t<=2n?t+12n:t,a=_n(r>=0n?r:r-399n,400n),o=r-a*400n,s=_n(153n*(i-3n)+2n,5n)+n-1n,d=o*365n+_n(o,4n)-_n(o,100n)+s;return a*146097n+d-719468n}var ul=Math.PI/180,ll=1/(2*Math.PI);var je=[{name:"Aethon",desc:"Resurrection fire: Root awakening"},{name:"Virelai",desc:"Waters of becoming: Emotional emergence"},{name:"Solari",desc:"Solar ignition: Radiant embodiment"},{name:"Amarin",desc:"Heart bloom: Sacred balance"},{name:"Kaelus",desc:"Voice of stars: Resonant expression"},{name:"Umbriel",desc:"Divine remembrance: Crown alignment"},{name:"Noctura",desc:"Light spiral: Celestial flow"},{name:"Liora",desc:"Eternal mirror: Infinite now"}];var Ba=6,Ca=7,Ha=Ba*Ca,Oa=8,cl=Ha*Oa;var La=2024n,Ua=5n,Va=11n,fl=Da(La,Ua,Va);var ke=1000000n,Ce=(e,t)=>{let n=e/t,r=e%t;return r===0n||r>0n==t>0n?n:n-1n};var le=6,mn=7,He=8,Ee=le*mn,X=Ee*He,bn=["Ignition","Integration","Harmonization","Reflection","Purification","Dream"],$t=36/bn.length;var ce={pulse:ke,step:Se,beat:qe,day:G,week:G*BigInt(le),month:G*BigInt(Ee),year:G*BigInt(X)},kl=[["years",ce.year],["months",ce.month],["weeks",ce.week],["days",ce.day],["beats",ce.beat],["steps",ce.step],["pulses",ce.pulse],["micro",1n]];var Wa=Be.map(e=>$n[e]),qa=je.map(e=>e.name);var ja=G-De,Pl=Number((ja-1n)/Se);var Xa=e=>e.replace(/[.*+?^${}()|[\]\\]/g,"\\$&"),Sn=e=>`(${[...e].sort((t,n)=>n.length-t.length).map(Xa).join("|")})`,Ml={K:"(-?\\d+)",Y:"(-?\\d+)",M:"(\\d)",MM:"(\\d{2})",MMMM:Sn(qa),D:"(\\d{1,2})",DD:"(\\d{2})",W:Sn(Be),C:Sn(Wa),A:Sn(bn),B:"(\\d{1,2})",BB:"(\\d{2})",S:"(\\d{1,2})",SS:"(\\d{2})",p:"(\\d{1,2})",pp:"(\\d{2})","%":"(\\d{1,3}\\.\\d{2})"};var Ja=1584,Bl={pulse:-Ce(-BigInt(X)*G,ke),step:BigInt(X*Ja),beat:BigInt(X*36),day:BigInt(X),week:BigInt(X/le),month:BigInt(He),year:1n},Cl={byMonth:[1,He],byWeekOfMonth:[1,mn],byWeekday:[0,le-1],byDayOfMonth:[1,Ee],byBeat:[0,35],byStep:[0,43],byPulseInStep:[0,10]};var Zn="https://schema.phi.network/sigil/v1",Yn="application/phi.kairos.sigil+svg",Ft=2e3;var no=e=>Array.from(e).map(t=>t.toString(16).padStart(2,"0")).join(""),Zt=e=>{let t=new Uint8Array(e.length>>1);for(let n=0;n<t.length;n++)t[n]=parseInt(e.slice(n*2,n*2+2),16);return t};async function V(e){let t=typeof e=="string"?new TextEncoder().encode(e):e,n=await crypto.subtle.digest("SHA-256",t);return no(new Uint8Array(n))}var to="123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";function ro(e){let t=0n;for(let r of e)t=(t<<8n)+BigInt(r);let n="";for(;t>0n;){let r=Number(t%58n);n=to[r]+n,t/=58n}for(let r=0;r<e.length&&e[r]===0;r++)n="1"+n;return n}async function Yt(e,t=0){let n=new Uint8Array(1+e.length);n[0]=t,n.set(e,1);let r=await crypto.subtle.digest("SHA-256",n),i=await crypto.subtle.digest("SHA-256",r),a=new Uint8Array(i).slice(0,4),o=new Uint8Array(n.length+4);return o.set(n),o.set(a,n.length),ro(o)}var vn={encode(e){return btoa(String.fromCharCode(...e)).replace(/\+/g,"-").replace(/\//g,"_").replace(/=+$/g,"")},decode(e){let t=e.replace(/-/g,"+").replace(/_/g,"/")+"===".slice((e.length+3)%4),n=atob(t),r=new Uint8Array(n.length);for(let i=0;i<n.length;i++)r[i]=n.charCodeAt(i);return r}};async function Gt(e){let t=vn.decode(e),n=new Uint8Array(await crypto.subtle.digest("SHA-256",t));return Yt(n.slice(0,20),0)}async function io(e,t){let n=new TextEncoder().encode(e+"|"+t);return V(n)}async function ao(e){if(e.length===0)return"0".repeat(64);let t=e.slice();for(;t.length>1;){let n=[];for(let r=0;r<t.length;r+=2){let i=t[r],a=r+1<t.length?t[r+1]:t[r],[o,s]=i<=a?[i,a]:[a,i];n.push(await io(o,s))}t=n}return t[0]}var oo=/^[0-9a-f]{64}$/i;function Wt(e,...t){let n=new Uint8Array(1+32*t.length);return n[0]=e,t.forEach((r,i)=>{if(!oo.test(r))throw new Error("Merkle v2 leaves must be 32-byte hex hashes");n.set(Zt(r),1+32*i)}),n}var so=e=>V(Wt(0,e)),uo=(e,t)=>V(Wt(1,e,t));function lo(e){let t=1;for(;t*2<e;)t*=2;return t}async function Gn(e,t,n){if(n-t===1)return e[t];let r=lo(n-t);return uo(await Gn(e,t,t+r),await Gn(e,t+r,n))}async function co(e){if(e.length===0)return V(new Uint8Array(0));let t=await Promise.all(e.map(so));return Gn(t,0,t.length)}async function qt(e,t=1){return t===2?co(e):ao(e)}var fo=["Root","Sacral","Solar Plexus","Heart","Throat","Third Eye","Crown"],ho=fo.reduce((e,t)=>(e[t.toLowerCase()]=t,e),{});function jt(e){if(typeof e!="string")return null;let t=e.trim().toLowerCase();return ho[t]??null}function W(e){if(e===null||typeof e!="object")return JSON.stringify(e);if(Array.isArray(e))return"["+e.map(W).join(",")+"]";let t=e;return"{"+Object.keys(t).sort().map(r=>JSON.stringify(r)+":"+W(t[r])).join(",")+"}"}function Xt(e,t){t.unlockAtPulse!=null&&(e.unlockAtPulse=t.unlockAtPulse),t.refundAfterPulse!=null&&(e.refundAfterPulse=t.refundAfterPulse)}function po(e){let t={senderSignature:e.senderSignature,senderStamp:e.senderStamp,senderKaiPulse:e.senderKaiPulse};return e.payload&&(t.payload={name:e.payload.name,mime:e.payload.mime,size:e.payload.size}),e.receiverSignature&&(t.receiverSignature=e.receiverSignature),e.receiverStamp&&(t.receiverStamp=e.receiverStamp),e.receiverKaiPulse!=null&&(t.receiverKaiPulse=e.receiverKaiPulse),Xt(t,e),e.refunded&&(t.refunded=!0),t}async function Jt(e){return V(JSON.stringify(po(e)))}function go(e){let t={senderSignature:e.senderSignature,senderStamp:e.senderStamp,senderKaiPulse:e.senderKaiPulse};return e.payload&&(t.payload={name:e.payload.name,mime:e.payload.mime,size:e.payload.size}),Xt(t,e),t}async function Wn(e){return V(JSON.stringify(go(e)))}async function Qt(e,t,n={}){let{hardenedIndex:r,keyChainLength:i=0}=n,a=e.multisig&&r!==void 0&&r>=e.multisig.since?e.multisig:null,o=e.zkOwner&&r!==void 0&&r>=e.zkOwner.since?e.zkOwner:null,s={pulse:e.pulse??0,beat:e.beat??0,stepIndex:e.stepIndex??0,chakraDay:e.chakraDay??"",kaiSignature:e.kaiSignature??"",creatorPublicKey:e.creatorPublicKey??"",cumulativeTransfers:t??e.cumulativeTransfers??0,segments:(e.segments??[]).map(d=>({index:d.index,root:d.root,cid:d.cid,count:d.count})),segmentsMerkleRoot:e.segmentsMerkleRoot??"",...a?{multisig:{threshold:a.threshold,signers:a.signers,since:a.since,adoptedAtPulse:a.adoptedAtPulse??null,adoptedBy:a.adoptedBy??"",adoptionSig:a.adoptionSig??""}}:{},...o?{zkOwner:{commitment:o.commitment,since:o.since}}:{},...i>0?{keyChain:await V(W((e.keyChain??[]).slice(0,i)))}:{}};return V(W(s))}function qn(e){return(e.segments??[]).reduce((t,n)=>t+(n.count||0),0)}async function er(e){return e.segmentSize??(e.segmentSize=Ft),typeof e.cumulativeTransfers!="number"&&(e.cumulativeTransfers=qn(e)+(e.transfers?.length??0)),(e.segments?.length??0)>0&&!e.segmentsMerkleRoot&&(e.segmentsMerkleRoot=await qt((e.segments??[]).map(t=>t.root),e.merkleVersion??1)),e}function nr(e,t){let n=jt(e.chakraDay)??"Root",r={v:1,type:"send",sigil:{pulse:e.pulse??0,beat:e.beat??0,stepIndex:e.stepIndex??0,chakraDay:n,kaiSignature:e.kaiSignature??""},previousHeadRoot:t.previousHeadRoot,senderKaiPulse:t.senderKaiPulse,senderPubKey:t.senderPubKey,nonce:t.nonce,transferLeafHashSend:t.transferLeafHashSend,...t.multisig?{multisig:{threshold:t.multisig.threshold,signers:t.multisig.signers}}:{},...t.unlockAtPulse!=null?{unlockAtPulse:t.unlockAtPulse}:{},...t.refundAfterPulse!=null?{refundAfterPulse:t.refundAfterPulse}:{}};return new TextEncoder().encode(W(r))}function tr(e){let t={v:1,type:"receive",link:e.senderSig,previousHeadRoot:e.previousHeadRoot,receiverKaiPulse:e.receiverKaiPulse,receiverPubKey:e.receiverPubKey,transferLeafHashReceive:e.transferLeafHashReceive,...e.refund?{refund:!0}:{}};return new TextEncoder().encode(W(t))}async function fe(e){return V(W(e))}var _o={name:"ECDSA",namedCurve:"P-256"},yo={name:"ECDSA",hash:"SHA-256"};function mo(e){return e.buffer.slice(e.byteOffset,e.byteOffset+e.byteLength)}async function bo(e){return crypto.subtle.importKey("spki",e,_o,!0,["verify"])}async function de(e,t,n){let r=await bo(mo(vn.decode(e))),i=vn.decode(n);return crypto.subtle.verify(yo,r,i,t)}var ko=/^[A-Za-z0-9_-]+$/;function vo(e){let t=e.type==="rotate"?{type:e.type,v:e.v,from:e.from,to:e.to,pulse:e.pulse}:{type:e.type,v:e.v,key:e.key,pulse:e.pulse,by:e.by};return new TextEncoder().encode(W(t))}async function rr(e,t){try{return await de(e,vo(t),t.sig)}catch{return!1}}async function Eo(e,t){let n=[{key:e,from:null,until:null,revokedAt:null}],r=[];for(let[i,a]of t.entries()){let o=s=>r.push(`statement #${i+1}: ${s}`);if(a?.v!==1||!Number.isInteger(a.pulse)||typeof a.sig!="string"){o("malformed");continue}if(a.type==="rotate"){let s=n[n.length-1];typeof a.to!="string"||!ko.test(a.to)?o("rotation target is not a base64url SPKI"):a.from!==s.key?o("rotation does not start at the current owner key"):s.from!==null&&a.pulse<=s.from?o("rotation pulse must follow the previous rotation"):s.revokedAt!==null&&a.pulse>=s.revokedAt?o("rotation signed after its key was revoked"):n.some(d=>d.key===a.to)?o("rotation returns to an earlier key"):await rr(a.from,a)?(s.until=a.pulse,n.push({key:a.to,from:a.pulse,until:null,revokedAt:null})):o("rotation signature invalid")}else if(a.type==="revoke"){let s=n.findIndex(u=>u.key===a.key),d=n.findIndex(u=>u.key===a.by);if(s<0)o("revokes a key outside the chain");else if(d<s)o("revocation must be signed by the key itself or a later chain key");else if(!await rr(a.by,a))o("revocation signature invalid");else{let u=n[s];u.revokedAt=u.revokedAt===null?a.pulse:Math.min(u.revokedAt,a.pulse)}}else o(`unknown statement type ${String(a.type)}`)}return{epochs:n,errors:r}}async function ir(e){return!e.creatorPublicKey||!(e.keyChain?.length??0)?null:Eo(e.creatorPublicKey,e.keyChain??[])}function En(e,t,n){let r="outside";for(let i of e.epochs)if(i.key===t&&!(i.from!==null&&n<i.from||i.until!==null&&n>=i.until))if(i.revokedAt!==null&&n>=i.revokedAt)r="revoked";else return"valid";return r}function ar(e,t){let n=null;for(let r of(e??[]).slice(0,t))Number.isInteger(r?.pulse)&&(n===null||r.pulse>n)&&(n=r.pulse);return n}var wo=/^[A-Za-z0-9_-]+$/;function or(e){return!Array.isArray(e.signers)||e.signers.length===0?"policy has no signers":e.signers.some(t=>typeof t!="string"||!wo.test(t))?"policy signer is not a base64url SPKI":new Set(e.signers).size!==e.signers.length?"policy lists a signer twice":!Number.isInteger(e.threshold)||e.threshold<1||e.threshold>e.signers.length?`threshold must be 1\u2026${e.signers.length}`:!Number.isInteger(e.since)||e.since<0?"policy start index is invalid":null}function Io(e,t){let n={type:"multisig-adopt",v:1,kaiSignature:e.kaiSignature??"",threshold:t.threshold,signers:t.signers,since:t.since,pulse:t.adoptedAtPulse??null,by:t.adoptedBy??""};return new TextEncoder().encode(W(n))}async function sr(e,t){let n=e.multisig;if(!n)return null;if(!n.adoptedBy||!n.adoptionSig||!Number.isInteger(n.adoptedAtPulse))return"policy adoption is unsigned";let r=n.adoptedAtPulse;if(!(t?En(t,n.adoptedBy,r)==="valid":n.adoptedBy===e.creatorPublicKey))return`policy was adopted by a key that is not the owner key at pulse ${r}`;let a=e.hardenedTransfers?.[n.since-1]?.senderKaiPulse;if(typeof a=="number"&&r<a)return`policy adoption predates transfer #${n.since}`;let o=!1;try{o=await de(n.adoptedBy,Io(e,n),n.adoptionSig)}catch{o=!1}return o?null:"policy adoption signature invalid"}function jn(e,t){let n=e.multisig;return n&&t>=n.since?n:void 0}function Xn(e,t,n){let r=jn(e,n);return nr(e,{previousHeadRoot:t.previousHeadRoot,senderKaiPulse:t.senderKaiPulse??0,senderPubKey:t.senderPubKey??"",nonce:t.nonce??"",transferLeafHashSend:t.transferLeafHashSend??"",multisig:r&&{threshold:r.threshold,signers:r.signers},unlockAtPulse:t.unlockAtPulse,refundAfterPulse:t.refundAfterPulse})}async function ur(e,t,n,r){let i={threshold:r.threshold,valid:[],invalid:[],unknown:[]},a=Xn(e,t,n),o=new Set;for(let{pubKey:s,sig:d}of[{pubKey:t.senderPubKey,sig:t.senderSig},...t.senderCoSigs??[]]){if(!s||o.has(s))continue;if(o.add(s),!r.signers.includes(s)){i.unknown.push(s);continue}let u=!1;try{u=await de(s,a,d)}catch{u=!1}(u?i.valid:i.invalid).push(s)}return i}function Jn(e){let t={};return e.unlockAtPulse!=null&&(t.unlockAtPulse=e.unlockAtPulse),e.refundAfterPulse!=null&&(t.refundAfterPulse=e.refundAfterPulse),t}function lr(e){return e.unlockAtPulse!=null||e.refundAfterPulse!=null}function cr(e,t){return e.unlockAtPulse===t.unlockAtPulse&&e.refundAfterPulse===t.refundAfterPulse}function fr(e,t){let{unlockAtPulse:n,refundAfterPulse:r}=e;return n!=null&&(!Number.isInteger(n)||n<t)?"unlockAtPulse must be a whole pulse at or after the send":r!=null&&(!Number.isInteger(r)||r<=t)?"refundAfterPulse must be a whole pulse after the send":n!=null&&r!=null&&r<=n?"refundAfterPulse must come after unlockAtPulse":null}function dr(e,t=e.receiverPubKey===e.senderPubKey){let n=e.receiverKaiPulse??0;return e.refund?e.refundAfterPulse==null?{code:"ESCROW_REFUND_INVALID",message:"reclaim on a transfer with no refundAfterPulse"}:n<e.refundAfterPulse?{code:"ESCROW_REFUND_INVALID",message:`reclaimed at pulse ${n}, before refundAfterPulse ${e.refundAfterPulse}`}:t?null:{code:"ESCROW_REFUND_INVALID",message:"reclaim not signed by the sender key"}:e.unlockAtPulse!=null&&n<e.unlockAtPulse?{code:"TIMELOCK_RECEIVE_EARLY",message:`received at pulse ${n}, before unlockAtPulse ${e.unlockAtPulse}`}:e.refundAfterPulse!=null&&n>=e.refundAfterPulse?{code:"ESCROW_RECEIVE_LATE",message:`received at pulse ${n}, at or after refundAfterPulse ${e.refundAfterPulse}`}:null}var Xe=e=>typeof e=="object"&&e!==null,hr=e=>typeof e=="string"||typeof e=="number"||typeof e=="bigint";function xo(e){return Xe(e)}function Ao(e){return Xe(e)}function Po(e){return Array.isArray(e)?e.every(hr):Xe(e)?Object.values(e).every(t=>hr(t)):!1}var Mo=["groth16","plonk"],Ro=e=>Mo.includes(e);function To(e){return typeof e=="object"&&e!==null&&"verify"in e&&typeof e.verify=="function"}function pr(e,t){if(!Xe(e))return null;let n=e[t]??(Xe(e.default)?e.default[t]:void 0);return To(n)?n:null}async function Ko(e){let t=typeof window<"u"?pr(window.snarkjs,e):null;if(t)return t;try{return pr(await import("snarkjs"),e)}catch{}return null}async function _r(e){if(!Ro(e.scheme))return!1;let t=await Ko(e.scheme);if(!t)return null;let n=e.vkey;if(!xo(n)||(n.protocol??"groth16")!==e.scheme||!Po(e.publicSignals)||!Ao(e.proof))return!1;try{return!!await t.verify(n,e.publicSignals,e.proof)}catch{return!1}}var wn="sigil-proof",we="sigil-nullifier-v1",No=21888242871839275222246405745257275088548364400416034343698204186575808495617n;async function gr(e){let t=/^(0x)?[0-9a-f]+$/i.test(e)?e.replace(/^0x/i,""):await V(e);return BigInt(`0x${t}`)%No}function Do(e){return e.canonicalHash||e.kaiSignature||void 0}async function Bo(e){return{pulse:String(e.pulse),canonicalHash:(await gr(e.canonicalHash)).toString(),nonce:(await gr(e.nonce)).toString()}}function Je(e){if(!Array.isArray(e)||e.length!==5||!e.every(o=>typeof o=="string"&&/^\d+$/.test(o)))return null;let[t,n,r,i,a]=e;return{nullifier:t,expectedHash:n,pulse:r,canonicalHash:i,nonce:a}}async function yr(e,t,n,r){let i=Je(r.publicSignals);if(!i)return"public signals are not [nullifier, expectedHash, pulse, canonicalHash, nonce]";let a=Do(e);if(!a)return"sigil has no canonicalHash to bind";let o=n==="send"?t.senderKaiPulse:t.receiverKaiPulse,s=await Bo({pulse:o??-1,canonicalHash:a,nonce:t.nonce??""});return i.pulse!==s.pulse?`proof is bound to pulse ${i.pulse}, not the ${n} pulse ${o}`:i.canonicalHash!==s.canonicalHash?"proof is bound to a different sigil canonicalHash":i.nonce!==s.nonce?"proof is bound to a different transfer nonce":null}function Co(e,t){let n=e.zkOwner;return n&&t>=n.since?n:void 0}function mr(e,t,n){let r=Co(e,t);if(!r)return"sigil pins no owner commitment for this entry";let i=Je(n.publicSignals);return!i||i.expectedHash!==r.commitment?"proof opens a commitment other than the sigil owner's":null}var br="sigil-balance-v1";var Sr={protocol:"groth16",curve:"bn128",nPublic:0,vk_alpha_1:["17123947097407990379025645011288213778460369895991245703402655578436069645446","20509500679838607371109422927997099635358726228405831138188095760401158572026","1"],vk_beta_2:[["3255880209934265239225608658538866619254909493046933133436528783160944338354","17773209291801897751434474618417318898636701047860139897450302908631507855324"],["13766662292552086768362891211844647921585336375594763320044682629270311834447","310240390936261512736270225006016674384829029816067442805496585599674628301"],["1","0"]],vk_gamma_2:[["10857046999023057135944570762232829481370756359578518086990519993285655852781","11559732032986387107991004021392285783925812861821192530917403151452391805634"],["8495653923123431417604973247489272438418190587263600148770280649306958101930","4082367875863433681332203403145435568316851327593401208105741076214120093531"],["1","0"]],vk_delta_2:[["5706475380487103654510278073356332651227213409822202156374141178765100995138","12089253309837067573832847366837265799583631249759670862633724740357046607500"],["7523552108490467233231665537639427887098741671011053907404449266251435301938","12020217768030875594276851543846789093127030362497199782153610395914467482404"],["1","0"]],vk_alphabeta_12:[[["400527482793528847265198866298224860378528822573752165296439033180573347066","6201573211474845808267450859874265887329107457157747304789632684115794066499"],["7348049041549774293978947879154297054780644477882721913086936578455287227363","8951041218167795543413293004196535799840307692179619827571589180415080111607"],["9323459383449362925767553456766095388037437748464808732433800182528566084095","18232605928865636911608957997792784736680683584850120572629634268022958860815"]],[["9435930399351602365244248101126079533182935067304493383359911507290114576335","19218789354454752309533887735514393664424194914993074874287103852979183691710"],["14427947871574157021836846278889070286804535113700790840946158956515782627862","9991047686116560590453450237385530244706244784549362990618042963811982116506"],["4061456464136088817397297270604754818647843733727040043606625483670349328098","10779301097995182363675788306815599102204792255478038718011337722598649037067"]]],IC:[["17123962374303581641207317959175643265463595606429892637635322067998132344614","12910063235871199469001790280006224003872671203631607619299751438233435909639","1"]]};var kr={protocol:"groth16",curve:"bn128",nPublic:5,vk_alpha_1:["17123947097407990379025645011288213778460369895991245703402655578436069645446","20509500679838607371109422927997099635358726228405831138188095760401158572026","1"],vk_beta_2:[["3255880209934265239225608658538866619254909493046933133436528783160944338354","17773209291801897751434474618417318898636701047860139897450302908631507855324"],["13766662292552086768362891211844647921585336375594763320044682629270311834447","310240390936261512736270225006016674384829029816067442805496585599674628301"],["1","0"]],vk_gamma_2:[["10857046999023057135944570762232829481370756359578518086990519993285655852781","11559732032986387107991004021392285783925812861821192530917403151452391805634"],["8495653923123431417604973247489272438418190587263600148770280649306958101930","4082367875863433681332203403145435568316851327593401208105741076214120093531"],["1","0"]],vk_delta_2:[["6450074844016791634516510330985365727691751047129123845934941012066777263033","2907771310130100508766877872604212568388330315027668745072398330191316603984"],["14769209791996053305759985040341166218368768356745292848172958533973947259670","4495295787236052080366391496128327922707185567338135950396325091519850465304"],["1","0"]],vk_alphabeta_12:[[["400527482793528847265198866298224860378528822573752165296439033180573347066","6201573211474845808267450859874265887329107457157747304789632684115794066499"],["7348049041549774293978947879154297054780644477882721913086936578455287227363","8951041218167795543413293004196535799840307692179619827571589180415080111607"],["9323459383449362925767553456766095388037437748464808732433800182528566084095","18232605928865636911608957997792784736680683584850120572629634268022958860815"]],[["9435930399351602365244248101126079533182935067304493383359911507290114576335","19218789354454752309533887735514393664424194914993074874287103852979183691710"],["14427947871574157021836846278889070286804535113700790840946158956515782627862","9991047686116560590453450237385530244706244784549362990618042963811982116506"],["4061456464136088817397297270604754818647843733727040043606625483670349328098","10779301097995182363675788306815599102204792255478038718011337722598649037067"]]],IC:[["16384821943922638522017801160730522680780872638680841993289942020763061841279","21497376676543287371930599381353276636001514495406733490075266964014110891456","1"],["19222454319590190844461880469093293944162170586439704155989668463470955301359","3235627319955776033316947116521270573048951755120917666223516780495357656468","1"],["19001961302911607879142039664145585137402560373879576521495605792286881081106","2612195942761102167529536807254609784383753031423375455561359450566311771163","1"],["459983620421265453014514901190282545917272049575812373667706409631137758912","2967405767930167654350283591288636743292395645132404969858504484938002966009","1"],["6015539413542096644972480901350903301700574206581450280765266415170194201499","18358615994760089944064180236375245527357837092065079827842139540028179881604","1"],["12123981520953254648344100782861263928359108795544439243424229963993890535052","10410595624788880531201597275263048196570284002554247119669822919199554648709","1"]]};var vr={protocol:"plonk",curve:"bn128",nPublic:5,power:11,k1:"2",k2:"3",Qm:["13723056619936284655639300678478683241685710720191415684752974189388190042006","16499842214801477015949774882184053452392577431871505562611833097334245708477","1"],Ql:["13183435551248364351012962583002690267068947903102421552234479783158654562589","277831960151146959704309548314017519271632846763311697086327960269224094012","1"],Qr:["20396719804382067376899697108668471562230630968180009781921272569652937745140","14292002630232623132066172503493282542609067977308632155170380697878779271187","1"],Qo:["6410424849888571625424261743779487117138532558443555542133898603146897821913","2567247435231525074762134536679553755016507998962779218829754987467291526688","1"],Qc:["11703020975912548138329413930347070782181197098738962300995844173811502105410","9355410658993418626799847670714633872184358483982788515581365590756187712996","1"],S1:["5512911697676632292250374611705432589125925743773818577562663170949518828684","10806356397281250039194760739842638770838549224803777604070479363199515535619","1"],S2:["10112060703613853483375331987455952049756671898403577170992346786699369356069","3170940593333515026637564203508878277328457194589784670644337725410436966774","1"],S3:["309513818309526699329184373698659021358948149861935404176313698005901079361","17821098582841610115275502898416052021094025158922475039700572577429079906668","1"],X_2:[["9917147333873274402032729419777715677871460042684221576587679067264825743363","12467280965441962132760352786325992619077489043248240089492410480676134990499"],["7896996615369063139924749090858299358144785226533506210756180448825884854081","6895140551657648873007422673656085674149939857520535972072277166874152232306"],["1","0"]],w:"1120550406532664055539694724667294622065367841900378087843176726913374367458"};var Er={protocol:"groth16",curve:"bn128",nPublic:4,vk_alpha_1:["17123947097407990379025645011288213778460369895991245703402655578436069645446","20509500679838607371109422927997099635358726228405831138188095760401158572026","1"],vk_beta_2:[["3255880209934265239225608658538866619254909493046933133436528783160944338354","17773209291801897751434474618417318898636701047860139897450302908631507855324"],["13766662292552086768362891211844647921585336375594763320044682629270311834447","310240390936261512736270225006016674384829029816067442805496585599674628301"],["1","0"]],vk_gamma_2:[["10857046999023057135944570762232829481370756359578518086990519993285655852781","11559732032986387107991004021392285783925812861821192530917403151452391805634"],["8495653923123431417604973247489272438418190587263600148770280649306958101930","4082367875863433681332203403145435568316851327593401208105741076214120093531"],["1","0"]],vk_delta_2:[["13181819469491204390584483881000230301020438165785838381541565193550649912394","20254215564688294651293602106100889980353198435720428338578398294644313876637"],["9732332222182531409666946061774830255914573115080055268366277657070173872447","8424769194766411986991679708413235954428988780754131492282707748198627309379"],["1","0"]],vk_alphabeta_12:[[["400527482793528847265198866298224860378528822573752165296439033180573347066","6201573211474845808267450859874265887329107457157747304789632684115794066499"],["7348049041549774293978947879154297054780644477882721913086936578455287227363","8951041218167795543413293004196535799840307692179619827571589180415080111607"],["9323459383449362925767553456766095388037437748464808732433800182528566084095","18232605928865636911608957997792784736680683584850120572629634268022958860815"]],[["9435930399351602365244248101126079533182935067304493383359911507290114576335","19218789354454752309533887735514393664424194914993074874287103852979183691710"],["14427947871574157021836846278889070286804535113700790840946158956515782627862","9991047686116560590453450237385530244706244784549362990618042963811982116506"],["4061456464136088817397297270604754818647843733727040043606625483670349328098","10779301097995182363675788306815599102204792255478038718011337722598649037067"]]],IC:[["18950430927439071416706394888094460330041682666078236028025954699898634561494","8624222035209736939550209593539476470792531598797118272999652053542917856808","1"],["16858799295175369058084876099793131803166189978457065511358489323824440161224","6598453440342350705859872125806918489985368349671277670877547236522672099704","1"],["7194561137144441145121765438078909717560350192508358194404248076530528735300","9987881018867228271395523581999498368561047225138996989778439358999074617679","1"],["15436631002733089144390876705834491037919082954822503056728835354399803724295","6895946275379916707012887428934361299681786423641541860257328518284129121773","1"],["1149008900714451467793195492879038365503076432075712541334149650026434969191","10082032215238290359562976147308546104320332774075254173297721469868713954983","1"]]};var Vo="kairos:zk:vkeys",$o="kairos:zk:vkey-pins",wr=null;function zo(){return wr??(wr=Promise.all([{circuit:wn,label:"SigilProof (zk/verification_key.json)",vkey:Sr},{circuit:we,label:"SigilNullifier (zk/sigil_nullifier_verification_key.json)",vkey:kr},{circuit:we,label:"SigilNullifier \xB7 PLONK (zk/sigil_nullifier_plonk_verification_key.json)",vkey:vr},{circuit:br,label:"SigilBalance (zk/sigil_balance_verification_key.json)",vkey:Er}].map(async e=>({...e,source:"bundled",hash:await fe(e.vkey),vkey:e.vkey})))),wr}function Ir(e,t){try{let n=typeof localStorage<"u"?localStorage.getItem(e):null;return n?JSON.parse(n):t}catch{return t}}var Fo=e=>typeof e?.hash=="string"&&typeof e.circuit=="string"&&typeof e.vkey=="object"&&e.vkey!==null;async function Ar(){let e=[...await zo()],t=Ir(Vo,[]);for(let r of Array.isArray(t)?t:[])!Fo(r)||e.some(i=>i.hash===r.hash)||e.push({...r,label:String(r.label??r.circuit),source:"imported"});let n=Ir($o,{});return{entries:e,pins:typeof n=="object"&&n!==null?n:{}}}var xr=e=>e.vkey.protocol??"groth16";function Pr(e,t,n,r){let i=e.pins[t]??[];if(r){let o=e.entries.find(s=>s.hash===r);return o?o.circuit!==t||xr(o)!==n?{status:"unpinned",hash:r}:i.length>0&&!i.includes(r)?{status:"unpinned",hash:r}:{status:"trusted",hash:r,vkeys:[o.vkey]}:{status:"unknown",hash:r}}let a=e.entries.filter(o=>xr(o)===n&&o.circuit===t&&(i.length===0||i.includes(o.hash)));return a.length>0?{status:"trusted",vkeys:a.map(o=>o.vkey)}:{status:"unknown"}}var Nt=Aa(ga(),1);function Hu(e){if(typeof window<"u"&&typeof window.atob=="function"){let t=window.atob(e),n=new Uint8Array(t.length);for(let r=0;r<t.length;r++)n[r]=t.charCodeAt(r);return n}return new Uint8Array(Buffer.from(e,"base64"))}function _a(e){let t=Hu(e);return(0,Nt.ungzip)(t)}function Ne(e,t){let n=e.match(new RegExp(`${t}="([^"]+)"`,"i"));return n?n[1]:void 0}function Dt(e,t){let n=Ne(e,t);if(!n)return;let r=Number(n);return Number.isFinite(r)?r:void 0}function Ou(e){if(typeof DOMParser>"u")return Vu(e);try{let n=new DOMParser().parseFromString(e,"image/svg+xml").querySelector("metadata");return n?n.textContent??null:null}catch{return null}}var Lu={lt:"<",gt:">",amp:"&",quot:'"',apos:"'"};function Uu(e){return e.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,(t,n)=>{if(n[0]==="#"){let r=n[1]==="x"||n[1]==="X"?parseInt(n.slice(2),16):parseInt(n.slice(1),10);return Number.isFinite(r)?String.fromCodePoint(r):t}return Lu[n.toLowerCase()]??t})}function Vu(e){let t=e.match(/<metadata\b[^>]*>([\s\S]*?)<\/metadata>/i);if(!t)return null;let n="";for(let r of t[1].matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>|<[^>]*>|[^<]+/g))r[1]!==void 0?n+=r[1]:r[0][0]!=="<"&&(n+=Uu(r[0]));return n}function $u(e){let t=e.trim();return t.startsWith("<![CDATA[")?t.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g,"$1"):t}var zu="application/vnd.kai-sigil+json",Bt=e=>typeof e=="object"&&e!==null;function Fu(e){if(!(typeof e.contentType=="string"?e.contentType:"").startsWith(zu)||typeof e.payload!="string")return null;let n={};try{let s=JSON.parse(new TextDecoder().decode(_a(e.payload)));Bt(s)&&(n=s)}catch{}let r=Bt(e.header)?e.header:{},i=s=>typeof s=="number"&&Number.isFinite(s)?s:void 0,a=s=>typeof s=="string"&&s?s:void 0,o={...e};return o.pulse=i(n.pulse)??i(n.kaiPulse)??i(r.pulse),o.beat=i(n.beat),o.stepIndex=i(n.stepIndex),o.chakraDay=a(n.chakraDay),o.chakraGate=a(n.chakraGate),o.kaiSignature=a(n.kaiSignature),o.userPhiKey=a(n.phikey)??a(r.creatorId),o}function ya(e){let t={},n=Ou(e);if(n)try{let a=JSON.parse($u(n));Bt(a)&&(t=Fu(a)??a)}catch{}if(t.pulse??(t.pulse=Dt(e,"data-pulse")),t.beat??(t.beat=Dt(e,"data-beat")),t.stepIndex??(t.stepIndex=Dt(e,"data-step-index")),t.frequencyHz??(t.frequencyHz=(()=>{let a=Ne(e,"data-frequency-hz");return a?Number(a):void 0})()),t.chakraGate??(t.chakraGate=Ne(e,"data-chakra-gate")),!t.chakraDay){let a=Ne(e,"data-harmonic-day")||Ne(e,"data-chakra-day");a&&(t.chakraDay=a)}t.kaiSignature??(t.kaiSignature=Ne(e,"data-kai-signature")),t.userPhiKey??(t.userPhiKey=Ne(e,"data-phi-key"));let r=!t["@context"]||t["@context"]===Zn,i=!t.type||t.type===Yn;return{meta:t,contextOk:r,typeOk:i}}var Zu={PREV_HEAD_MISMATCH:"error",NONCE_INVALID:"error",SEND_LEAF_MISMATCH:"error",SEND_SIG_INVALID:"error",RECEIVE_LEAF_MISMATCH:"error",RECEIVE_SIG_INVALID:"error",ZK_SEND_STAMP_MISMATCH:"error",ZK_SEND_FAILED:"error",ZK_RECEIVE_STAMP_MISMATCH:"error",ZK_RECEIVE_FAILED:"error",ZK_NULLIFIER_BINDING_MISMATCH:"error",ZK_NULLIFIER_REUSED:"error",ZK_NULLIFIER_OWNER_MISMATCH:"error",ZK_VKEY_NOT_PINNED:"error",MULTISIG_POLICY_INVALID:"error",MULTISIG_POLICY_UNAUTHORIZED:"error",MULTISIG_THRESHOLD_UNMET:"error",MULTISIG_SIG_INVALID:"error",TIMELOCK_TERMS_INVALID:"error",TIMELOCK_RECEIVE_EARLY:"error",ESCROW_RECEIVE_LATE:"error",ESCROW_REFUND_INVALID:"error",KEY_CHAIN_INVALID:"error",KEY_NOT_AUTHORIZED:"error",KEY_REVOKED:"error",ZK_UNAVAILABLE:"warning",ZK_VKEY_UNKNOWN:"warning",MULTISIG_UNKNOWN_SIGNER:"warning",SENDER_PULSE_DECREASED:"warning",PHI_ANCHOR_MISMATCH:"info",PHI_ANCHOR_UNDECODABLE:"info"},Yu={PREV_HEAD_MISMATCH:"previousHeadRoot does not match the head snapshot",NONCE_INVALID:"nonce invalid (expected 16-byte hex)",SEND_LEAF_MISMATCH:"sender-side leaf hash mismatch",SEND_SIG_INVALID:"send signature invalid",RECEIVE_LEAF_MISMATCH:"receive leaf hash mismatch",RECEIVE_SIG_INVALID:"receive signature invalid",ZK_SEND_STAMP_MISMATCH:"ZK SEND stamp/bundle hash mismatch",ZK_SEND_FAILED:"ZK SEND verification failed",ZK_RECEIVE_STAMP_MISMATCH:"ZK RECEIVE stamp/bundle hash mismatch",ZK_RECEIVE_FAILED:"ZK RECEIVE verification failed",ZK_NULLIFIER_BINDING_MISMATCH:"ZK nullifier proof is not bound to this transfer's pulse, nonce and sigil",ZK_NULLIFIER_REUSED:"ZK nullifier already used earlier in this lineage (replayed proof)",ZK_NULLIFIER_OWNER_MISMATCH:"ZK nullifier proof does not open the sigil's owner commitment",ZK_VKEY_NOT_PINNED:"ZK proof uses a registry verifying key that is not pinned for its circuit",MULTISIG_POLICY_INVALID:"multisig policy is malformed",MULTISIG_POLICY_UNAUTHORIZED:"multisig policy adoption is not signed by the owner key valid at its pulse",MULTISIG_THRESHOLD_UNMET:"SEND lacks the multisig threshold of signer signatures",MULTISIG_SIG_INVALID:"multisig co-signature invalid",TIMELOCK_TERMS_INVALID:"timelock / escrow terms are malformed",TIMELOCK_RECEIVE_EARLY:"received before unlockAtPulse",ESCROW_RECEIVE_LATE:"received at or after refundAfterPulse",ESCROW_REFUND_INVALID:"sender reclaim does not satisfy the escrow terms",KEY_CHAIN_INVALID:"owner key chain statement invalid",KEY_NOT_AUTHORIZED:"signed by a key that is not the owner key at that pulse",KEY_REVOKED:"signed by an owner key revoked at that pulse",MULTISIG_UNKNOWN_SIGNER:"SEND carries a signature from a key outside the multisig policy",ZK_UNAVAILABLE:"ZK proof present but no verifier available for its proof scheme",ZK_VKEY_UNKNOWN:"ZK proof uses a verifying key outside the local registry (not verified)",SENDER_PULSE_DECREASED:"senderKaiPulse decreased",PHI_ANCHOR_MISMATCH:"\u03A6 anchor does not derive from creatorPublicKey",PHI_ANCHOR_UNDECODABLE:"creatorPublicKey could not be decoded for the \u03A6 anchor"};function x(e,t,n){return{code:e,severity:Zu[e],index:t,message:n??Yu[e]}}function Gu(e){return e.index===null?"head":`transfer #${e.index+1}`}function Wu(e){let t=Gu(e);return`${e.severity} ${e.code} ${t} \u2014 ${e.message}`}function Ct(e){let t=a=>e.issues.filter(o=>o.severity===a).length,n=t("error"),r=t("warning"),i=e.ok?`${e.count} hardened transfer(s) verified`:`${n} error(s) across ${e.count} hardened transfer(s)`;return r>0?`${i} \xB7 ${r} warning(s)`:i}function ma(e){return[`v${e.version} \xB7 ${Ct(e)}`,...e.issues.map(Wu)].join(`
+`)}function qu(e,t=16){return/^[0-9a-f]+$/i.test(e)&&e.length===t*2}var ju=8,Xu=()=>new Promise(e=>typeof requestAnimationFrame=="function"?requestAnimationFrame(()=>e()):setTimeout(e,0));async function ba(e,t,n,r){let i=await fe(t.publicSignals),a=await fe(t.proof),o=t.vkey??n,s=o?await fe(o):void 0,d=t.circuit===we?Je(t.publicSignals)?.nullifier:void 0,u=!!e&&e.scheme===t.scheme&&(e.curve?e.curve===(t.curve??"BLS12-381"):!0)&&e.publicHash===i&&e.proofHash===a&&(e.vkeyHash?e.vkeyHash===s:!0)&&e.circuit===t.circuit&&(e.nullifier?e.nullifier===d:!0),l=e?.vkeyHash??(t.vkey?await fe(t.vkey):void 0),k=Pr(r,t.circuit??wn,t.scheme,l),p;if(k.status==="trusted"){for(let h of k.vkeys)if(p=await _r({scheme:t.scheme,proof:t.proof,publicSignals:t.publicSignals,vkey:h}),p!==!1)break}return e&&(e.verified=p===!0),{present:!0,stampHashOk:u,verified:p,vkey:k.status,...k.hash?{vkeyHash:k.hash}:{},...d?{nullifier:d}:{}}}async function Ju(e){let t=e.hardenedTransfers??[],n=e.transfers??[],r=[],i=[],a=0,o=0;if(e.creatorPublicKey&&e.userPhiKey)try{await Gt(e.creatorPublicKey)!==e.userPhiKey&&r.push(x("PHI_ANCHOR_MISMATCH",null))}catch{r.push(x("PHI_ANCHOR_UNDECODABLE",null))}let s=await ir(e);(e.keyChain?.length??0)>0&&!e.creatorPublicKey&&r.push(x("KEY_CHAIN_INVALID",null,"key chain has no creatorPublicKey to anchor it"));for(let c of s?.errors??[])r.push(x("KEY_CHAIN_INVALID",null,`key chain ${c}`));let d=e.keyChain?.length??0;t.forEach((c,f)=>{let _=c.keyChainLength??0;!Number.isInteger(_)||_<0||_>d?r.push(x("KEY_CHAIN_INVALID",f,`key chain removed or truncated: this transfer pinned ${_} statement(s), the head has ${d}`)):f>0&&_<(t[f-1].keyChainLength??0)&&r.push(x("KEY_CHAIN_INVALID",f,"transfer pins fewer key chain statements than the one before it"));let y=ar(e.keyChain,_);if(y===null)return;let K=[["SEND",c.senderKaiPulse??0]];c.receiverSig&&K.push(["RECEIVE",c.receiverKaiPulse??0]);for(let[v,H]of K)H<y&&r.push(x("KEY_CHAIN_INVALID",f,`${v} pulse ${H} predates the key chain statement at pulse ${y} it pinned`))});let u=e.multisig?or(e.multisig):null;u&&r.push(x("MULTISIG_POLICY_INVALID",null,`multisig policy is malformed: ${u}`));let l=await sr(e,s);l&&r.push(x("MULTISIG_POLICY_UNAUTHORIZED",null,`multisig ${l}`));let k=(c,f,_,y)=>{let K=s?En(s,c,f):"valid";return K==="valid"?null:K==="revoked"?x("KEY_REVOKED",y,`${_} key is revoked at pulse ${f}`):x("KEY_NOT_AUTHORIZED",y,`${_} key is not the owner key at pulse ${f}`)},p=qn(e),h=Promise.all(t.map((c,f)=>Qt(e,p+f,{hardenedIndex:f,keyChainLength:c.keyChainLength}))),b=Promise.all(t.map(async(c,f)=>n[f]?Wn(n[f]):null)),m=Promise.all(t.map(async(c,f)=>n[f]?Jt(n[f]):null)),[w,S,R]=await Promise.all([h,b,m]),T=e.zkVerifyingKey??(typeof window<"u"?window.SIGIL_ZK_VKEY:void 0),E=await Ar(),g=(c,f,_)=>{let y=c.vkeyHash?` ${c.vkeyHash.slice(0,16)}\u2026`:"";c.vkey==="unknown"?r.push(x("ZK_VKEY_UNKNOWN",f,`ZK ${_} verifying key${y} is not in the registry`)):r.push(x("ZK_VKEY_NOT_PINNED",f,`ZK ${_} verifying key${y} is not pinned for its circuit`))},P=new Map,I=async(c,f,_,y,K)=>{if(y.circuit!==we&&K?.circuit!==we)return;let v=_.toUpperCase(),H=r.length,re=await yr(e,c,_,y);re&&r.push(x("ZK_NULLIFIER_BINDING_MISMATCH",f,`ZK ${v} ${re}`));let We=mr(e,f,y);We&&r.push(x("ZK_NULLIFIER_OWNER_MISMATCH",f,`ZK ${v} ${We}`));let ue=Je(y.publicSignals)?.nullifier;if(!ue)return;let be=P.get(ue);be?r.push(x("ZK_NULLIFIER_REUSED",f,`ZK ${v} nullifier already used by ${be}`)):P.set(ue,`transfer #${f+1} ${_}`),K&&r.length>H&&(K.verified=!1)};for(let c=0;c<t.length;c++){c>0&&c%ju===0&&await Xu();let f=t[c],_={index:c,prevHeadOk:!1,send:{sigOk:!1,leafOk:"missing-window"}};_.prevHeadOk=f.previousHeadRoot===w[c],_.prevHeadOk||r.push(x("PREV_HEAD_MISMATCH",c)),(typeof f.nonce!="string"||!qu(f.nonce,16))&&r.push(x("NONCE_INVALID",c)),S[c]&&(_.send.leafOk=f.transferLeafHashSend===S[c],_.send.leafOk||r.push(x("SEND_LEAF_MISMATCH",c)));{let v=Xn(e,f,c);try{_.send.sigOk=!!f.senderPubKey&&await de(f.senderPubKey,v,f.senderSig)}catch{_.send.sigOk=!1}_.send.sigOk||r.push(x("SEND_SIG_INVALID",c))}let y=l?void 0:jn(e,c);if(!y){let v=k(f.senderPubKey??"",f.senderKaiPulse??0,"SEND",c);v&&r.push(v)}if(y&&!u){let v=await ur(e,f,c,y);_.send.multisig={threshold:v.threshold,valid:v.valid.length};for(let H of v.invalid)H!==f.senderPubKey&&r.push(x("MULTISIG_SIG_INVALID",c,`multisig co-signature invalid (${H.slice(0,12)}\u2026)`));v.unknown.length>0&&r.push(x("MULTISIG_UNKNOWN_SIGNER",c)),v.valid.length<v.threshold&&r.push(x("MULTISIG_THRESHOLD_UNMET",c,`${v.valid.length} of ${v.threshold} required signer signatures`))}let K=Jn(f);if(lr(K)){_.send.terms=K;let v=fr(K,f.senderKaiPulse??0);v&&r.push(x("TIMELOCK_TERMS_INVALID",c,`timelock / escrow terms are malformed: ${v}`))}if(n[c]&&!cr(K,Jn(n[c]))&&r.push(x("TIMELOCK_TERMS_INVALID",c,"window transfer terms differ from the signed SEND")),f.receiverSig&&f.receiverPubKey){_.receive={sigOk:!1,leafOk:"missing-window"},f.refund&&(_.receive.refund=!0),R[c]&&(_.receive.leafOk=f.transferLeafHashReceive===R[c],_.receive.leafOk||r.push(x("RECEIVE_LEAF_MISMATCH",c)));let v=tr({previousHeadRoot:f.previousHeadRoot,senderSig:f.senderSig,receiverKaiPulse:f.receiverKaiPulse??0,receiverPubKey:f.receiverPubKey,transferLeafHashReceive:f.transferLeafHashReceive??"",refund:f.refund});try{_.receive.sigOk=await de(f.receiverPubKey,v,f.receiverSig)}catch{_.receive.sigOk=!1}_.receive.sigOk||r.push(x("RECEIVE_SIG_INVALID",c));let H=k(f.receiverPubKey,f.receiverKaiPulse??0,"RECEIVE",c);H&&r.push(H);let re=dr(f,f.receiverPubKey===f.senderPubKey||!!s&&!H);re&&r.push(x(re.code,c,re.message)),n[c]&&!!n[c].refunded!=!!f.refund&&r.push(x("ESCROW_REFUND_INVALID",c,"window transfer and RECEIVE disagree on the reclaim"))}if(f.zkSendBundle){let v=await ba(f.zkSend,f.zkSendBundle,T,E);_.send.zk=v,v.stampHashOk||r.push(x("ZK_SEND_STAMP_MISMATCH",c)),v.vkey!=="trusted"?g(v,c,"SEND"):v.verified===!0?a++:v.verified===!1?r.push(x("ZK_SEND_FAILED",c)):r.push(x("ZK_UNAVAILABLE",c,`ZK SEND proof present but no ${f.zkSendBundle.scheme} verifier available`)),await I(f,c,"send",f.zkSendBundle,f.zkSend)}else f.zkSend&&(_.send.zk={present:!1});if(f.zkReceiveBundle){_.receive||(_.receive={sigOk:!1,leafOk:"missing-window"});let v=await ba(f.zkReceive,f.zkReceiveBundle,T,E);_.receive.zk=v,v.stampHashOk||r.push(x("ZK_RECEIVE_STAMP_MISMATCH",c)),v.vkey!=="trusted"?g(v,c,"RECEIVE"):v.verified===!0?o++:v.verified===!1?r.push(x("ZK_RECEIVE_FAILED",c)):r.push(x("ZK_UNAVAILABLE",c,`ZK RECEIVE proof present but no ${f.zkReceiveBundle.scheme} verifier available`)),await I(f,c,"receive",f.zkReceiveBundle,f.zkReceive)}c>0&&t[c-1].senderKaiPulse!=null&&f.senderKaiPulse!=null&&f.senderKaiPulse<t[c-1].senderKaiPulse&&r.push(x("SENDER_PULSE_DECREASED",c)),i.push(_)}return{version:1,ok:r.every(c=>c.severity!=="error"),count:t.length,issues:r,entries:i,zk:{sendVerified:a,receiveVerified:o,unavailable:r.some(c=>c.code==="ZK_UNAVAILABLE"),unknownVkeys:r.filter(c=>c.code==="ZK_VKEY_UNKNOWN").length}}}async function Sa(e){let{meta:t}=ya(e);return(t.hardenedTransfers??[]).length===0?null:Ju(await er(t))}var Qu=(e,t,n,r,i)=>Ut(e,t,n,r,i??void 0),el={sha256HexCanon:Vn,derivePhiKeyFromSigCanon:Lt,verifierSigmaString:Qu,verifySovereignSvg:Sa,formatVerifyReport:ma,summarizeVerifyReport:Ct,reportVersion:1};Object.defineProperty(globalThis,"KaiVerifier",{value:el,writable:!1,enumerable:!1,configurable:!0});})();
@@ -1,7 +1,10 @@
 // SovereignSolar.ts — offline sunrise anchor + solar + eternal mapping (no geolocation, no network)
-// Engine: exact integers in μpulses + φ bridge via decimal.js (no drift; no float rounding in core)
+// Engine: exact integers in μpulses via the kai-klok-core φ bridge (no drift; no float rounding in core)
+// Anchor: a stored location (lat/lon → NOAA sunrise per day) wins; otherwise the manual sunrise offset.
 
 import Decimal from "decimal.js";
+import { microPulseToMs, msToMicroPulse } from "./lib/kai-klok-core";
+import { sunEventsForDate, type SunriseKind } from "./utils/kai_pulse";
 
 // ──────────────────────────────────────────────────────────────
 // Canon constants (Kai-Klok KKS-1.0)
@@ -156,21 +159,14 @@ function toDecimal(v: OffsetInput): Decimal {
   return v instanceof Decimal ? v : new Decimal(v as number | string);
 }
 
-// φ-bridge: Chronos (Unix ms) → μpulses since GENESIS, exact to 1 μpulse
+// φ-bridge: Chronos (Unix ms) → μpulses since GENESIS (shared core bridge; same value as getKaiPulse)
 function muSinceGenesis(unixMs: number): bigint {
-  const deltaS = new Decimal(unixMs).minus(GENESIS_TS).div(1000);
-  const pulses = deltaS.div(BREATH_SEC_DEC);            // (s) / (3+√5) ⇒ pulses (Decimal)
-  const micro  = pulses.mul(1_000_000);                 // ⇒ μpulses (Decimal)
-  const floored = micro.toDecimalPlaces(0, Decimal.ROUND_FLOOR);
-  return BigInt(floored.toString());                   // exact integer μpulses
+  return msToMicroPulse(unixMs);
 }
 
 // μpulses → Unix ms (for UI-only timestamps; rounded to nearest ms, ties-to-even)
 function unixMsFromMu(mu: bigint): number {
-  const pulses = new Decimal(mu.toString()).div(1_000_000); // pulses (Decimal)
-  const seconds = pulses.mul(BREATH_SEC_DEC);               // seconds (Decimal)
-  const ms = seconds.mul(1000).plus(GENESIS_TS);
-  return Number(ms.toNearest(1, Decimal.ROUND_HALF_EVEN).toString());
+  return microPulseToMs(mu);
 }
 
 // ──────────────────────────────────────────────────────────────
@@ -230,12 +226,108 @@ export function setSunriseFromLocalHHMM(hhmm: string, now = new Date()) {
   setSunriseOffsetSec(offsetSec);
 }
 
+// ──────────────────────────────────────────────────────────────
+/** Local storage (sunrise location model) — typed or picked from the offline city table */
+// ──────────────────────────────────────────────────────────────
+const KEY_LOCATION = "kai.sunrise.location"; // JSON { lat, lon, name? }
+
+export type SunriseLocation = {
+  lat: number;   // decimal degrees, north positive
+  lon: number;   // decimal degrees, east positive
+  name?: string; // display only
+};
+
+const isValidLocation = (v: unknown): v is SunriseLocation => {
+  if (typeof v !== "object" || v === null) return false;
+  const { lat, lon } = v as Record<string, unknown>;
+  return (
+    typeof lat === "number" && Number.isFinite(lat) && lat >= -90 && lat <= 90 &&
+    typeof lon === "number" && Number.isFinite(lon) && lon >= -180 && lon <= 180
+  );
+};
+
+/** Read the persisted sunrise location (null → manual offset model). */
+export function getSunriseLocation(): SunriseLocation | null {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(KEY_LOCATION) ?? "null");
+    return isValidLocation(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Persist a sunrise location (null clears it). Returns false for out-of-range coordinates. */
+export function setSunriseLocation(loc: SunriseLocation | null): boolean {
+  if (loc === null) {
+    localStorage.removeItem(KEY_LOCATION);
+    return true;
+  }
+  if (!isValidLocation(loc)) return false;
+  const name = loc.name?.trim();
+  localStorage.setItem(KEY_LOCATION, JSON.stringify({ lat: loc.lat, lon: loc.lon, ...(name ? { name } : {}) }));
+  return true;
+}
+
+// ──────────────────────────────────────────────────────────────
+// Location anchors — real sunrise for each day (μpulse)
+// ──────────────────────────────────────────────────────────────
+const MS_PER_EARTH_DAY = 86_400_000;
+const POLAR_ANCHOR_MS = 6 * 3_600_000; // polar fallback: 6h before solar noon
+
+export type PolarState = "polar-day" | "polar-night";
+
+type SolarWindow = {
+  muLast: bigint;
+  muNext: bigint;
+  muNow: bigint;
+  polar: PolarState | null; // set when the current day has no true sunrise
+};
+
+type SunAnchor = { mu: bigint; kind: SunriseKind };
+
+/**
+ * Day anchor for one UTC calendar date at a location: the NOAA sunrise, or —
+ * when the sun never crosses the horizon (polar day / polar night) — local
+ * apparent 06:00 (solar noon − 6h), so every day still has exactly one boundary.
+ */
+function sunAnchorForUtcDate(dayMs: number, loc: SunriseLocation): SunAnchor {
+  const d = new Date(dayMs);
+  const ev = sunEventsForDate(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), loc.lat, loc.lon);
+  const ms = ev.sunriseMs ?? ev.transitMs - POLAR_ANCHOR_MS;
+  return { mu: muSinceGenesis(Math.round(ms)), kind: ev.kind };
+}
+
+/** Sunrise→sunrise window around `now` from real per-day sunrises at `loc`. */
+function muSolarWindowLocation(now: Date, loc: SunriseLocation): SolarWindow {
+  const muNow = muSinceGenesis(now.getTime());
+  const utcMid = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  // Anchors of neighbouring UTC dates bracket `now` for any longitude.
+  const anchors: SunAnchor[] = [];
+  for (let k = -2; k <= 2; k++) anchors.push(sunAnchorForUtcDate(utcMid + k * MS_PER_EARTH_DAY, loc));
+  anchors.sort((a, b) => (a.mu < b.mu ? -1 : a.mu > b.mu ? 1 : 0));
+
+  let last = anchors[0];
+  let next = anchors[anchors.length - 1];
+  for (const a of anchors) {
+    if (a.mu <= muNow) last = a;
+    else {
+      next = a;
+      break;
+    }
+  }
+  return { muLast: last.mu, muNext: next.mu, muNow, polar: last.kind === "rise" ? null : last.kind };
+}
+
 // ──────────────────────────────────────────────────────────────
 // Exact φ-day tiling windows (μpulse); choose daily or genesis anchor
 // ──────────────────────────────────────────────────────────────
 
 /** Genesis-anchored: first local sunrise ≥ GENESIS_TS (exact). */
 function muGenesisFirstSunriseLocal(): bigint {
+  const loc = getSunriseLocation();
+  if (loc) return muSolarWindowLocation(new Date(GENESIS_TS), loc).muNext;
+
   const offSec = getSunriseOffsetSecDec();
   const g = new Date(GENESIS_TS);
   const utcMid0 = Date.UTC(g.getUTCFullYear(), g.getUTCMonth(), g.getUTCDate());
@@ -249,18 +341,18 @@ function muGenesisFirstSunriseLocal(): bigint {
 }
 
 /** GENESIS-tiling window: phase-locked to muGenesisFirstSunriseLocal. */
-function muSolarWindowGenesis(now = new Date()) {
+function muSolarWindowGenesis(now = new Date()): SolarWindow {
   const muFirst = muGenesisFirstSunriseLocal();
   const muNow = muSinceGenesis(now.getTime());
   const diff = muNow - muFirst;
   const k = diff >= 0n ? diff / MU_PER_DAY : -(((-diff) + MU_PER_DAY - 1n) / MU_PER_DAY);
   const muLast = muFirst + k * MU_PER_DAY;
   const muNext = muLast + MU_PER_DAY;
-  return { muLast, muNext, muNow };
+  return { muLast, muNext, muNow, polar: null };
 }
 
 /** DAILY-anchored window: today’s UTC-midnight + stored offset (feels like old impl). */
-function muSolarWindowDaily(now = new Date()) {
+function muSolarWindowDaily(now = new Date()): SolarWindow {
   const offSec = getSunriseOffsetSecDec();
   const muNow  = muSinceGenesis(now.getTime());
 
@@ -279,20 +371,31 @@ function muSolarWindowDaily(now = new Date()) {
     muLast = muCand - MU_PER_DAY;
     muNext = muCand;
   }
-  return { muLast, muNext, muNow };
+  return { muLast, muNext, muNow, polar: null };
 }
 
-/** Active window selector (daily by default). */
-function muSolarWindow(now = new Date()) {
+/** Active window selector: stored location first, else offset model (daily by default). */
+function muSolarWindow(now = new Date()): SolarWindow {
+  const loc = getSunriseLocation();
+  if (loc) return muSolarWindowLocation(now, loc);
   return USE_DAILY_ANCHOR ? muSolarWindowDaily(now) : muSolarWindowGenesis(now);
 }
 
+/** μpulses into the current window, rescaled onto one φ-day (identity for the offset model). */
+function muIntoPhiDay({ muLast, muNext, muNow }: SolarWindow): bigint {
+  const muSpan = muNext - muLast;
+  const muInto = muNow - muLast;
+  return muSpan === MU_PER_DAY ? muInto : (muInto * MU_PER_DAY) / muSpan;
+}
+
 /** UI helper: Date window (rounded to nearest ms, UI-only). */
 export function getSolarWindow(now = new Date()) {
-  const { muLast, muNext } = muSolarWindow(now);
+  const { muLast, muNext, polar } = muSolarWindow(now);
   return {
     lastSunrise: new Date(unixMsFromMu(muLast)),
     nextSunrise: new Date(unixMsFromMu(muNext)),
+    polar,
+    source: getSunriseLocation() ? ("location" as const) : ("offset" as const),
   };
 }
 
@@ -330,9 +433,9 @@ export function getKaiPulseToday(now = new Date()): {
   dayPercent: number;              // 0..100 (soft display)
   percentIntoStep: number;         // 0..100 (soft display)
 } {
-  const { muLast, muNext, muNow } = muSolarWindow(now);
-  const muSpan = muNext - muLast; // == MU_PER_DAY
-  const muInto = muNow - muLast;  // 0..μSpan
+  const win = muSolarWindow(now);
+  const muSpan = win.muNext - win.muLast; // == MU_PER_DAY (offset) or sunrise→sunrise (location)
+  const muInto = muIntoPhiDay(win);       // 0..MU_PER_DAY (rescaled)
 
   // Integer pulses in day (whole number for UI; also returned as kaiPulseToday)
   const kaiPulseTodayInt = Number(muInto / MU_PER_PULSE);
@@ -352,7 +455,7 @@ export function getKaiPulseToday(now = new Date()): {
   const muInStep = muInBeat - BigInt(stepIndex) * MU_PER_GRID_STEP;   // 0..(11e6-1)
 
   // Soft-display percentages (clamped; not used for indexes)
-  const dayPercent = clamp01((Number(muInto) / Number(muSpan)) * 100);
+  const dayPercent = clamp01((Number(win.muNow - win.muLast) / Number(muSpan)) * 100);
   const percentIntoStep = clamp01((Number(muInStep) / Number(MU_PER_GRID_STEP)) * 100);
 
   return {
@@ -373,8 +476,12 @@ export function getSolarAlignedCounters(now = new Date()) {
   const { muLast } = muSolarWindow(now);
   const muFirst = muGenesisFirstSunriseLocal();
 
-  // exact integer day count since genesis sunrise (φ-day length)
-  const daysSinceGenesis0 = Number((muLast - muFirst) / MU_PER_DAY); // 0..∞
+  // Offset model: exact integer day count since genesis sunrise (φ-day length).
+  // Location model: one day per real sunrise — anchors stay within half a day of
+  // the same solar hour, so rounding the Earth-day distance counts them exactly.
+  const daysSinceGenesis0 = getSunriseLocation()
+    ? Math.round((unixMsFromMu(muLast) - unixMsFromMu(muFirst)) / MS_PER_EARTH_DAY)
+    : Number((muLast - muFirst) / MU_PER_DAY); // 0..∞
   const solarAlignedDay = daysSinceGenesis0 + 1; // 1..∞
 
   // Wrap to current Kairos year (336 = 8 × 42)
@@ -490,10 +597,8 @@ export function getDisplayAlignedCounters(now = new Date()) {
 /** 6 equal solar arcs per day (exact via μ scaling; UI returns name) */
 // ──────────────────────────────────────────────────────────────
 export function getSolarArcName(now = new Date()): string {
-  const { muLast, muNext, muNow } = muSolarWindow(now);
-  const muSpan = muNext - muLast;
-  const muInto = imod(muNow - muLast, MU_PER_DAY);
-  const arcIndex = Number((muInto * 6n) / muSpan); // exact 0..5
+  const muInto = imod(muIntoPhiDay(muSolarWindow(now)), MU_PER_DAY);
+  const arcIndex = Number((muInto * 6n) / MU_PER_DAY); // exact 0..5
   return [
     "Ignition Ark",
     "Integration Ark",
@@ -0,0 +1,233 @@
+// src/cli/kai-verify.ts
+// `kai-verify` — headless sigil verification for pipelines (no browser).
+//
+//   kai-verify <file.svg|dir>…                 verify sigils (directories recurse for *.svg)
+//         --format text|json|junit             report format (default: text; --json = --format json)
+//         --out <path>                         write the report to a file instead of stdout
+//         --strict                             treat warnings (unprovable offline) as failures
+//
+// Exit codes: 0 ok · 1 runtime error · 2 usage error · otherwise the OR of every
+// failing check class: 4 metadata/unreadable · 8 kai signature · 16 canonical hash
+// · 32 v14 lineage · 64 segment roots · 128 ZK stamps.
+
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { checkSigilSvg, type SigilCheck, type SigilCheckId, type SigilCheckReport } from "../verifier/sigilCheck";
+
+// ─────────────────────────────────────────────────────────────
+// ERRORS / EXIT CODES
+// ─────────────────────────────────────────────────────────────
+class KaiVerifyUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KaiVerifyUsageError";
+  }
+}
+
+const EXIT_RUNTIME = 1;
+const EXIT_USAGE = 2;
+const EXIT_BITS: Record<SigilCheckId, number> = {
+  metadata: 4,
+  "kai-signature": 8,
+  "phi-key": 0, // informational only
+  "canonical-hash": 16,
+  "lineage-v14": 32,
+  segments: 64,
+  zk: 128,
+};
+
+const FORMATS = ["text", "json", "junit"] as const;
+type Format = (typeof FORMATS)[number];
+
+const USAGE = `Usage: kai-verify <file.svg|dir>… [options]
+
+Verifies sigil SVGs offline: metadata, Kai signature (Σ), canonical hash,
+segment roots, v14 hardened lineage and ZK stamps.
+
+Options:
+  --format <f>      ${FORMATS.join(" | ")} (default: text)
+  --json            same as --format json
+  --out <path>      write the report to a file instead of stdout
+  --strict          treat warnings as failures
+  -h, --help        show this help
+
+Exit codes:
+  0 all sigils verified    1 runtime error    2 usage error
+  otherwise the sum of failing classes:
+  4 metadata / unreadable   8 kai signature   16 canonical hash
+  32 v14 lineage            64 segment roots  128 ZK stamps`;
+
+// ─────────────────────────────────────────────────────────────
+// INPUT
+// ─────────────────────────────────────────────────────────────
+/** Expand files/directories into a sorted, de-duplicated list of .svg paths. */
+async function collectSvgPaths(inputs: string[]): Promise<string[]> {
+  const out = new Set<string>();
+  const walk = async (dir: string) => {
+    for (const ent of await readdir(dir, { withFileTypes: true })) {
+      const p = join(dir, ent.name);
+      if (ent.isDirectory()) await walk(p);
+      else if (ent.isFile() && /\.svg$/i.test(ent.name)) out.add(p);
+    }
+  };
+  for (const input of inputs) {
+    const s = await stat(input).catch(() => null);
+    if (!s) throw new KaiVerifyUsageError(`No such file or directory: ${input}`);
+    if (s.isDirectory()) await walk(input);
+    else out.add(input);
+  }
+  if (out.size === 0) throw new KaiVerifyUsageError(`No .svg files found in: ${inputs.join(", ")}`);
+  return [...out].sort();
+}
+
+// ─────────────────────────────────────────────────────────────
+// REPORT
+// ─────────────────────────────────────────────────────────────
+type FileResult = SigilCheckReport & { file: string; exitCode: number };
+
+async function verifyFile(file: string, strict: boolean): Promise<FileResult> {
+  let report: SigilCheckReport;
+  try {
+    report = await checkSigilSvg(await readFile(file, "utf8"));
+  } catch (err) {
+    const detail = `unreadable: ${err instanceof Error ? err.message : String(err)}`;
+    report = { ok: false, transfers: 0, hardenedTransfers: 0, checks: [{ id: "metadata", status: "fail", detail }] };
+  }
+  if (strict) {
+    report.checks = report.checks.map((c) => (c.status === "warn" && EXIT_BITS[c.id] ? { ...c, status: "fail" } : c));
+    report.ok = report.checks.every((c) => c.status !== "fail");
+  }
+  const exitCode = report.checks.reduce((code, c) => (c.status === "fail" ? code | EXIT_BITS[c.id] : code), 0);
+  return { file, ...report, exitCode };
+}
+
+const xml = (s: string) =>
+  s.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c] ?? c);
+
+function renderJunit(results: FileResult[]): string {
+  const count = (status: SigilCheck["status"]) =>
+    results.reduce((n, r) => n + r.checks.filter((c) => c.status === status).length, 0);
+  const tests = results.reduce((n, r) => n + r.checks.length, 0);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="kai-verify" tests="${tests}" failures="${count("fail")}" skipped="${count("skip")}">`,
+  ];
+  for (const r of results) {
+    const failures = r.checks.filter((c) => c.status === "fail").length;
+    const skipped = r.checks.filter((c) => c.status === "skip").length;
+    lines.push(
+      `  <testsuite name="${xml(r.file)}" tests="${r.checks.length}" failures="${failures}" skipped="${skipped}">`,
+    );
+    for (const c of r.checks) {
+      const open = `    <testcase classname="${xml(r.file)}" name="${c.id}"`;
+      if (c.status === "pass") {
+        lines.push(`${open}/>`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      if (c.status === "fail") {
+        const body = [c.expected && `expected: ${c.expected}`, c.actual && `actual:   ${c.actual}`].filter(Boolean).join("\n");
+        lines.push(`      <failure message="${xml(c.detail)}" type="${c.id}">${xml(body)}</failure>`);
+      } else if (c.status === "skip") {
+        lines.push(`      <skipped message="${xml(c.detail)}"/>`);
+      } else {
+        lines.push(`      <system-out>warning: ${xml(c.detail)}</system-out>`);
+      }
+      lines.push(`    </testcase>`);
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`);
+  return lines.join("\n");
+}
+
+const MARK: Record<SigilCheck["status"], string> = { pass: "✔", fail: "✘", warn: "!", skip: "·" };
+
+function renderText(results: FileResult[], exitCode: number): string {
+  const blocks = results.map((r) => {
+    const head = `${r.ok ? "PASS" : "FAIL"}  ${r.file}${r.pulse !== undefined ? `  (pulse ${r.pulse})` : ""}`;
+    const checks = r.checks.map((c) => {
+      const diff = c.status === "fail" && c.expected ? `\n        expected ${c.expected}\n        actual   ${c.actual ?? "(none)"}` : "";
+      return `  ${MARK[c.status]} ${c.id.padEnd(14)} ${c.detail}${diff}`;
+    });
+    return [head, ...checks].join("\n");
+  });
+  const failed = results.filter((r) => !r.ok).length;
+  blocks.push(`${results.length - failed}/${results.length} sigil(s) verified · exit ${exitCode}`);
+  return blocks.join("\n\n");
+}
+
+// ─────────────────────────────────────────────────────────────
+// MAIN
+// ─────────────────────────────────────────────────────────────
+async function run(argv: string[]): Promise<number | null> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "text" },
+      json: { type: "boolean", default: false },
+      out: { type: "string" },
+      strict: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) return null;
+  const format = (values.json ? "json" : values.format) as Format;
+  if (!FORMATS.includes(format)) {
+    throw new KaiVerifyUsageError(`Unknown format "${values.format}" (expected ${FORMATS.join(", ")})`);
+  }
+  if (positionals.length === 0) throw new KaiVerifyUsageError("No input files or directories given");
+
+  const files = await collectSvgPaths(positionals);
+  const results: FileResult[] = [];
+  for (const file of files) results.push(await verifyFile(file, values.strict));
+  const exitCode = results.reduce((code, r) => code | r.exitCode, 0);
+
+  const report =
+    format === "json"
+      ? JSON.stringify(
+          {
+            tool: "kai-verify",
+            version: 1,
+            ok: exitCode === 0,
+            exitCode,
+            summary: { files: results.length, failed: results.filter((r) => !r.ok).length },
+            results,
+          },
+          null,
+          2,
+        )
+      : format === "junit"
+        ? renderJunit(results)
+        : renderText(results, exitCode);
+
+  if (values.out) await writeFile(resolve(values.out), `${report}\n`, "utf8");
+  else console.log(report);
+  return exitCode;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const json = argv.includes("--json") || argv.includes("--format=json");
+  try {
+    const code = await run(argv);
+    if (code === null) {
+      console.log(USAGE);
+      return;
+    }
+    process.exitCode = code;
+  } catch (err) {
+    // parseArgs signals unknown flags / missing values with a TypeError carrying ERR_PARSE_ARGS_*
+    const code = (err as { code?: unknown }).code;
+    const usage =
+      err instanceof KaiVerifyUsageError || (typeof code === "string" && code.startsWith("ERR_PARSE_ARGS"));
+    const message = err instanceof Error ? err.message : String(err);
+    if (json) console.error(JSON.stringify({ error: usage ? "USAGE" : "ERROR", message }));
+    else console.error(`kai-verify: ${message}${usage ? "\nRun \"kai-verify --help\" for usage." : ""}`);
+    process.exitCode = usage ? EXIT_USAGE : EXIT_RUNTIME;
+  }
+}
+
+void main();
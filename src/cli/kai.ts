@@ -0,0 +1,303 @@
+// src/cli/kai.ts
+// `kai` — command-line access to the Kai-Klok engine (offline, φ-exact).
+//
+//   kai now                          eternal + solar counters for this moment
+//   kai pulse [<ISO>]                ISO-8601 instant → pulse (default: now)
+//   kai iso <pulse>                  pulse → ISO-8601 instant of its first millisecond
+//   kai lattice [<pulse|ISO>]        beat / step / pulse-in-step / calendar position
+//   kai next [<pulse|ISO>]           upcoming boundaries (--unit beat,day --count 3)
+//   kai sign <pulse> [<intention>]   computeKaiSignature (Poseidon ⊕ BLAKE3)
+//   kai turah [<pulse|ISO>]          generateKaiTurah phrase for the moment
+//
+// Every command accepts --json. Exit codes: 0 ok · 1 runtime error · 2 usage error.
+
+import { parseArgs } from "node:util";
+import {
+  KAIROS_PATTERNS,
+  KAI_UNITS,
+  MICRO_PER_PULSE,
+  calendarFromMicroPulse,
+  decodeMicroPulse,
+  floorDivBig,
+  formatKairos,
+  getHarmonicLabels,
+  getKaiMicroPulse,
+  microPulsesSinceGenesis,
+  monthName,
+  msAtMicroPulse,
+  nextBoundary,
+  type KaiUnit,
+} from "../lib/kai-klok-core";
+import { buildKaiKlockResponse, momentFromPulse, parseSignedIsoToEpochMs } from "../utils/kai_pulse";
+import { computeKaiSignature, SYSTEM_INTENTION } from "../utils/kai";
+import { generateKaiTurah } from "../utils/kai_turah";
+
+// ─────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────
+class KaiCliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KaiCliUsageError";
+  }
+}
+
+const USAGE = `Usage: kai <command> [args] [--json]
+
+Commands:
+  now                          eternal + solar counters for this moment
+  pulse [<ISO>]                ISO-8601 instant → pulse (default: now)
+  iso <pulse>                  pulse → ISO-8601 instant of its first millisecond
+  lattice [<pulse|ISO>]        beat / step / calendar position (default: now)
+  next [<pulse|ISO>]           upcoming boundaries
+        --unit <u[,u…]>        ${KAI_UNITS.join(" | ")} (default: beat,day)
+        --count <n>            boundaries per unit (default: 3)
+  sign <pulse> [<intention>]   kai_signature (default intention: "${SYSTEM_INTENTION}")
+  turah [<pulse|ISO>]          Kai-Turah phrase for the moment
+
+Options:
+  --json                       machine-readable output
+  -h, --help                   show this help`;
+
+// ─────────────────────────────────────────────────────────────
+// INPUT
+// ─────────────────────────────────────────────────────────────
+const INT_RE = /^-?\d+$/;
+
+/** μpulses of a pulse integer or ISO instant (omitted → now). */
+function parseInstant(raw: string | undefined): bigint {
+  if (raw === undefined) return getKaiMicroPulse();
+  if (INT_RE.test(raw)) return BigInt(raw) * MICRO_PER_PULSE;
+  return microPulsesSinceGenesis(parseIso(raw));
+}
+
+function parseIso(raw: string): bigint {
+  try {
+    return parseSignedIsoToEpochMs(raw);
+  } catch {
+    throw new KaiCliUsageError(`Not a pulse or ISO-8601 instant: ${raw}`);
+  }
+}
+
+function parsePulse(raw: string | undefined): number {
+  if (raw === undefined || !INT_RE.test(raw)) {
+    throw new KaiCliUsageError(`Expected an integer pulse, got: ${raw ?? "(nothing)"}`);
+  }
+  const n = Number(raw);
+  if (!Number.isSafeInteger(n)) throw new KaiCliUsageError(`Pulse out of range: ${raw}`);
+  return n;
+}
+
+const pulseOf = (pμ: bigint): number => Number(floorDivBig(pμ, MICRO_PER_PULSE));
+const isoAt = (pμ: bigint): string => new Date(msAtMicroPulse(pμ)).toISOString();
+
+// ─────────────────────────────────────────────────────────────
+// COMMANDS (each returns a JSON-able value + its human rendering)
+// ─────────────────────────────────────────────────────────────
+type Output = { json: unknown; text: string };
+
+const rows = (pairs: ReadonlyArray<[string, string | number]>): string => {
+  const width = Math.max(...pairs.map(([k]) => k.length));
+  return pairs.map(([k, v]) => `${k.padEnd(width)}  ${v}`).join("\n");
+};
+
+function lattice(pμ: bigint) {
+  const m = decodeMicroPulse(pμ);
+  const cal = calendarFromMicroPulse(pμ);
+  const { day, arc } = getHarmonicLabels(m);
+  return {
+    pulse: m.pulse,
+    micro: pμ.toString(),
+    iso: isoAt(pμ),
+    beat: m.beat,
+    step: m.step,
+    pulseInStep: m.pulseInStep,
+    weekday: day,
+    arc,
+    dayOfMonth: cal.dayOfMonth,
+    weekOfMonth: cal.weekOfMonth + 1,
+    month: cal.monthIndex + 1,
+    monthName: monthName(cal.monthIndex),
+    year: cal.year + 1,
+    day: cal.day,
+    pulsesIntoDay: cal.pulsesIntoDay,
+    seal: formatKairos(pμ, KAIROS_PATTERNS.calendar),
+  };
+}
+
+function latticeText(l: ReturnType<typeof lattice>): string {
+  return rows([
+    ["Seal", l.seal],
+    ["Pulse", l.pulse],
+    ["ISO", l.iso],
+    ["Beat:Step", `${l.beat}:${String(l.step).padStart(2, "0")} (pulse ${l.pulseInStep}/11 in step)`],
+    ["Day", `${l.weekday} · D${l.dayOfMonth} · week ${l.weekOfMonth}`],
+    ["Month", `M${l.month} ${l.monthName}`],
+    ["Year", `Y${l.year}`],
+    ["Arc", l.arc],
+    ["Pulses into day", l.pulsesIntoDay],
+  ]);
+}
+
+async function cmdNow(): Promise<Output> {
+  const pμ = getKaiMicroPulse();
+  const eternal = lattice(pμ);
+  const r = await buildKaiKlockResponse(BigInt(msAtMicroPulse(pμ)));
+  const solar = {
+    weekday: r.solarHarmonicDay,
+    dayOfMonth: r.solarDayOfMonth,
+    weekOfMonth: r.solar_week_index + 1,
+    weekName: r.solar_week_name,
+    month: r.solarMonthIndex + 1,
+    monthName: r.solar_month_name,
+    beatStep: r.solarChakraStepString,
+    dayStart: r.solar_day_start_iso,
+  };
+  const text = [
+    latticeText(eternal),
+    "",
+    "Solar (Greenwich sunrise):",
+    rows([
+      ["Day", `${solar.weekday} · D${solar.dayOfMonth} · week ${solar.weekOfMonth} (${solar.weekName})`],
+      ["Month", `M${solar.month} ${solar.monthName}`],
+      ["Day began", solar.dayStart],
+    ]),
+  ].join("\n");
+  return { json: { eternal, solar }, text };
+}
+
+function cmdPulse(arg: string | undefined): Output {
+  const pμ = arg === undefined ? getKaiMicroPulse() : microPulsesSinceGenesis(parseIso(arg));
+  const pulse = pulseOf(pμ);
+  return { json: { pulse, micro: pμ.toString(), iso: arg ?? isoAt(pμ) }, text: String(pulse) };
+}
+
+function cmdIso(arg: string | undefined): Output {
+  const pulse = parsePulse(arg);
+  const iso = isoAt(BigInt(pulse) * MICRO_PER_PULSE);
+  return { json: { pulse, iso }, text: iso };
+}
+
+function cmdLattice(arg: string | undefined): Output {
+  const l = lattice(parseInstant(arg));
+  return { json: l, text: latticeText(l) };
+}
+
+function cmdNext(arg: string | undefined, unitsRaw: string, countRaw: string): Output {
+  const units = unitsRaw.split(",").map((u) => u.trim()).filter(Boolean);
+  for (const u of units) {
+    if (!KAI_UNITS.includes(u as KaiUnit)) {
+      throw new KaiCliUsageError(`Unknown unit "${u}" (expected ${KAI_UNITS.join(", ")})`);
+    }
+  }
+  if (!/^\d+$/.test(countRaw) || Number(countRaw) < 1) {
+    throw new KaiCliUsageError(`--count must be a positive integer, got: ${countRaw}`);
+  }
+  const count = Number(countRaw);
+  const from = parseInstant(arg);
+
+  const boundaries: Record<string, Array<{ pulse: number; micro: string; iso: string; seal: string }>> = {};
+  for (const unit of units as KaiUnit[]) {
+    const list: (typeof boundaries)[string] = [];
+    let at = from;
+    for (let i = 0; i < count; i++) {
+      at = nextBoundary(at, unit);
+      list.push({
+        pulse: pulseOf(at),
+        micro: at.toString(),
+        iso: isoAt(at),
+        seal: formatKairos(at, KAIROS_PATTERNS.calendar),
+      });
+    }
+    boundaries[unit] = list;
+  }
+
+  const text = Object.entries(boundaries)
+    .map(([unit, list]) =>
+      [`Next ${unit} boundaries:`, ...list.map((b) => `  ${b.iso}  pulse ${b.pulse}  ${b.seal}`)].join("\n"),
+    )
+    .join("\n\n");
+  return { json: { from: pulseOf(from), boundaries }, text };
+}
+
+async function cmdSign(pulseArg: string | undefined, intention: string | undefined): Promise<Output> {
+  const pulse = parsePulse(pulseArg);
+  const signature = await computeKaiSignature(pulse, intention ?? SYSTEM_INTENTION);
+  return { json: { pulse, intention: intention ?? SYSTEM_INTENTION, signature }, text: signature };
+}
+
+function cmdTurah(arg: string | undefined): Output {
+  const pulse = pulseOf(parseInstant(arg));
+  const turah = generateKaiTurah(momentFromPulse(pulse));
+  const text = rows([
+    ["Phrase", turah.line],
+    ["Primary", `${turah.name} — ${turah.gloss}`],
+    ...(turah.paired ? [["Paired", `${turah.paired.name} — ${turah.paired.gloss}`] as [string, string]] : []),
+    ["Breath", turah.breath],
+    ["Pulse", pulse],
+  ]);
+  return { json: { pulse, ...turah }, text: `${text}\n\n${turah.explanation}` };
+}
+
+// ─────────────────────────────────────────────────────────────
+// MAIN
+// ─────────────────────────────────────────────────────────────
+async function run(argv: string[]): Promise<Output | null> {
+  // Negative pulses / signed ISO years ("-42", "-0044-03-15T…") are values, not flags.
+  const NEG = "\u0000";
+  const { values, positionals: raw } = parseArgs({
+    args: argv.map((a) => (/^-\d/.test(a) ? NEG + a : a)),
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      unit: { type: "string", default: "beat,day" },
+      count: { type: "string", default: "3" },
+    },
+  });
+  const positionals = raw.map((p) => (p.startsWith(NEG) ? p.slice(NEG.length) : p));
+  const [command, a, b] = positionals;
+  if (values.help || command === undefined || command === "help") return null;
+
+  switch (command) {
+    case "now":
+      return cmdNow();
+    case "pulse":
+      return cmdPulse(a);
+    case "iso":
+      return cmdIso(a);
+    case "lattice":
+      return cmdLattice(a);
+    case "next":
+      return cmdNext(a, values.unit, values.count);
+    case "sign":
+      return cmdSign(a, b);
+    case "turah":
+      return cmdTurah(a);
+    default:
+      throw new KaiCliUsageError(`Unknown command: ${command}`);
+  }
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const json = argv.includes("--json");
+  try {
+    const out = await run(argv);
+    if (out === null) {
+      console.log(USAGE);
+      return;
+    }
+    console.log(json ? JSON.stringify(out.json, null, 2) : out.text);
+  } catch (err) {
+    // parseArgs signals unknown flags / missing values with a TypeError carrying ERR_PARSE_ARGS_*
+    const code = (err as { code?: unknown }).code;
+    const usage = err instanceof KaiCliUsageError || (typeof code === "string" && code.startsWith("ERR_PARSE_ARGS"));
+    const message = err instanceof Error ? err.message : String(err);
+    if (json) console.error(JSON.stringify({ error: usage ? "USAGE" : "ERROR", message }));
+    else console.error(`kai: ${message}${usage ? "\nRun \"kai --help\" for usage." : ""}`);
+    process.exitCode = usage ? 2 : 1;
+  }
+}
+
+void main();
@@ -19,6 +19,8 @@ import React, {
 import type { FC } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import "./DayDetailModal.css";
+import { dayNotePulse, dayNotesKey, migrateLegacyDayNotes } from "../utils/kairosIcs";
+import { decodeCalendar, decodeMoment, getKaiPulse } from "../lib/kai-klok-core";
 
 /* ══════════════ Types ══════════════ */
 export interface HarmonicDayInfo {
@@ -45,14 +47,6 @@ export type SaveKaiNote = (n: {
 const TOTAL_BEATS = 36;           // 0 … 35
 const BEATS_PER_CHAPTER = 12;     // → 3 chapters
 const STEPS_PER_BEAT = 44;        // steps 0..43
-const PULSE_MS = (3 + Math.sqrt(5)) * 1000; // ≈ 5236 ms
-
-/* Exact mapping constants to align with WeekKalendarModal */
-const DAY_PULSES = 17_491.270_421;
-const BEAT_PULSES = DAY_PULSES / 36; // ≈ 486.98 pulses per beat (step blocks are 11 pulses)
-
-/* Local storage key for per-day editor (independent of global dock) */
-const STORAGE_PREFIX = "kai_notes_";
 
 /* 4 step-categories per beat (11 each) — 0-based */
 const STEP_GROUPS: Array<{ idx: number; start: number; end: number; title: string }> = [
@@ -63,7 +57,8 @@ const STEP_GROUPS: Array<{ idx: number; start: number; end: number; title: strin
 ];
 
 /* ══════════════ Helpers ══════════════ */
-const storageKey = (p: number): string => `${STORAGE_PREFIX}${p}`;
+/* Per-day editor storage (independent of global dock; shared with ICS export) */
+const storageKey = dayNotesKey;
 
 type RawNote = Record<string, unknown>;
 const isRecord = (v: unknown): v is Record<string, unknown> =>
@@ -72,6 +67,7 @@ const isRecord = (v: unknown): v is Record<string, unknown> =>
 /** Parse & sanitize notes from storage without using `any`. */
 const loadNotes = (p: number): Note[] => {
   try {
+    migrateLegacyDayNotes();
     const raw = localStorage.getItem(storageKey(p));
     if (!raw) return [];
     const parsed = JSON.parse(raw) as unknown;
@@ -113,12 +109,8 @@ const saveNotes = (p: number, n: Note[]): void => {
   }
 };
 
-/* Map Beat:Step → absolute pulse (integer) within the given day */
-const beatStepToPulse = (dayStartPulse: number, beat: number, step: number): number => {
-  const beatBase = Math.floor(BEAT_PULSES * beat);
-  const stepOffset = step * 11; // 11 whole pulses per step bucket
-  return Math.floor(dayStartPulse + beatBase + stepOffset);
-};
+/* Map Beat:Step → absolute pulse (integer) within the given day (same mapping the ICS export uses) */
+const beatStepToPulse = dayNotePulse;
 
 /* ══════════════ Animation variants ══════════════ */
 const collapseVariants = {
@@ -217,13 +209,15 @@ const DayDetailModal: FC<{
     });
   }, []);
 
-  /* ───────── refs + scroll-to-current-step (coarse) ───────── */
+  /* ───────── refs + scroll-to-current-step (today only) ───────── */
   const listRef = useRef<HTMLDivElement>(null);
 
   const scrollToApproxCurrent = useCallback(() => {
     if (openChapter === -1 || openBeat == null) return;
-    const msOffset = Date.now() - day.startPulse * PULSE_MS;
-    const globalStepIdx = Math.max(0, Math.floor(msOffset / PULSE_MS)); // coarse
+    const pulse = getKaiPulse();
+    if (decodeCalendar(pulse).day !== decodeCalendar(day.startPulse).day) return; // not today
+    const { beat, step } = decodeMoment(pulse);
+    const globalStepIdx = beat * STEPS_PER_BEAT + step;
     const el = listRef.current?.querySelector<HTMLElement>(
       `[data-step-index="${globalStepIdx}"]`
     );
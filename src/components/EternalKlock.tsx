@@ -12,6 +12,7 @@ import SolarAnchoredDial from "./SolarAnchoredDial";
 // ⬇️ Sovereign Solar imports (offline, no geolocation / suncalc)
 import useSovereignSolarClock from "../utils/useSovereignSolarClock";
 import { getSolarAlignedCounters, getSolarWindow } from "../SovereignSolar";
+import { subscribeKaiBoundary } from "../utils/kaiScheduler";
 
 /* ────────────────────────────────────────────────
    Types (no `any`)
@@ -611,46 +612,13 @@ function buildOfflinePayload(now: Date = new Date()): KlockData {
 }
 
 /* ─────────────────────────────────────────────────────────────────────────────
-   Additions: anti-sleep + cross-page Solar sync + pulse-aligned scheduler
+   Additions: anti-sleep + cross-page Solar sync (pulse ticks: utils/kaiScheduler)
    ───────────────────────────────────────────────────────────────────────────── */
 
-// Compute ms until next exact Kai Pulse boundary from genesis
-const MS_PER_PULSE = KAI_PULSE_DURATION * 1000;
-function msToNextPulse(nowMs: number): number {
-  const elapsed = nowMs - ETERNAL_GENESIS_PULSE;
-  const nextIndex = Math.floor(elapsed / MS_PER_PULSE) + 1;
-  const nextMs = ETERNAL_GENESIS_PULSE + nextIndex * MS_PER_PULSE;
-  const dt = nextMs - nowMs;
-  return Math.max(0, Math.min(dt, MS_PER_PULSE));
-}
-
 // Broadcast keys/channels for Solar sync
 const SOLAR_BROADCAST_KEY = 'SOVEREIGN_SOLAR_LAST_UPDATE';
 const SOLAR_BC_NAME = 'SOVEREIGN_SOLAR_SYNC';
 
-/** Create a tiny inline Worker that ticks each pulse boundary as a background fallback. */
-function makePulseWorker(): Worker | null {
-  try {
-    const code = `
-      const GEN=${ETERNAL_GENESIS_PULSE};
-      const DUR=${MS_PER_PULSE};
-      function sched(){
-        const now=Date.now();
-        const elapsed=now-GEN;
-        const next=GEN+Math.ceil(elapsed/DUR)*DUR;
-        const delay=Math.max(0, next-now);
-        setTimeout(()=>{ postMessage(Date.now()); sched(); }, delay);
-      }
-      sched();
-    `;
-    const blob = new Blob([code], { type: 'application/javascript' });
-    const url = URL.createObjectURL(blob);
-    return new Worker(url);
-  } catch {
-    return null; // not available in this environment
-  }
-}
-
 // ──────────────────────────────────────────────────────────────────────────────
 // Main Component: EternalKlock
 // ──────────────────────────────────────────────────────────────────────────────
@@ -673,9 +641,6 @@ export const EternalKlock: React.FC = () => {
 
   // ⬇️ NEW REFS: anti-sleep + schedulers + solar sync
   const wakeRef = useRef<WakeLockSentinelLike | null>(null);
-  const timeoutRef = useRef<number | null>(null);
-  const workerRef = useRef<Worker | null>(null);
-  const runningRef = useRef<boolean>(false);
   const lastSolarVersionRef = useRef<string | null>(null);
   const solarRxRef = useRef<BroadcastChannel | null>(null);
   const solarTxRef = useRef<BroadcastChannel | null>(null);
@@ -826,52 +791,21 @@ export const EternalKlock: React.FC = () => {
   const [sealCopied, setSealCopied] = useState(false);
   const sealToastTimer = useRef<number | null>(null);
 
-  // ⏱️ Your original ~φ-breath interval (kept intact)
+  /* 🔥 Pulse-aligned ticks from the shared boundary scheduler (worker-backed,
+     sleep/visibility-safe). Resync after sleep arrives as a regular pulse event. */
   useEffect(() => {
     refreshKlock();
-    const interval = window.setInterval(() => {
+    return subscribeKaiBoundary('pulse', () => {
       refreshKlock();
       setGlowPulse(true);
-      window.setTimeout(() => setGlowPulse(false), 1000);
-    }, 5300);
-    return () => window.clearInterval(interval);
+      window.setTimeout(() => setGlowPulse(false), 220);
+    });
   }, []);
 
-  /* 🔥 Pulse-aligned scheduler (ticks at every Kai pulse boundary). */
+  // On visibility regain / pageshow / navigation: re-read solar sync + wake lock
   useEffect(() => {
-    runningRef.current = true;
-
-    const scheduleNext = () => {
-      if (!runningRef.current) return;
-      const delay = msToNextPulse(Date.now());
-      timeoutRef.current = window.setTimeout(() => {
-        refreshKlock();
-        setGlowPulse(true);
-        window.setTimeout(() => setGlowPulse(false), 220);
-        scheduleNext();
-      }, delay);
-    };
-
-    // Start inline worker fallback (helps when tab is deprioritized)
-    workerRef.current = makePulseWorker();
-    if (workerRef.current) {
-      workerRef.current.onmessage = () => {
-        if (!runningRef.current) return;
-        refreshKlock();
-        setGlowPulse(true);
-        window.setTimeout(() => setGlowPulse(false), 220);
-      };
-    }
-
-    // Initial refresh + schedule
-    refreshKlock();
-    scheduleNext();
-
-    // On visibility regain / pageshow, snap to now
     const onShow = () => {
       checkSolarVersionAndRefresh();
-      if (timeoutRef.current) window.clearTimeout(timeoutRef.current);
-      scheduleNext();
       void acquireWakeLock();
     };
 
@@ -882,9 +816,6 @@ export const EternalKlock: React.FC = () => {
     window.addEventListener('hashchange', onShow, { passive: true });
 
     return () => {
-      runningRef.current = false;
-      if (timeoutRef.current) window.clearTimeout(timeoutRef.current);
-      if (workerRef.current) { workerRef.current.terminate(); workerRef.current = null; }
       document.removeEventListener('visibilitychange', onShow);
       window.removeEventListener('focus', onShow);
       window.removeEventListener('pageshow', onShow);
@@ -1681,6 +1612,17 @@ D{(klock.solarDayOfMonth ?? "—")} / M{(klock.solarMonthIndex ?? "—")}{" "}
                 window.setTimeout(() => refreshKlock(), 200);
                 window.setTimeout(() => refreshKlock(), 800);
               }}
+              onLocationChange={() => {
+                // Location-computed sunrises replace the manual offset override
+                solarOverrideRef.current = null;
+                setSolarOverrideSec(null);
+
+                try { localStorage.setItem(SOLAR_BROADCAST_KEY, String(Date.now())); } catch { void 0; }
+                try { window.dispatchEvent(new Event('solar:updated')); } catch { void 0; }
+                try { solarTxRef.current?.postMessage({ type: 'solar:updated', t: Date.now() }); } catch { void 0; }
+
+                refreshKlock();
+              }}
             />
           </div>
         </div>,
@@ -8,29 +8,28 @@
 import React, { useState, useEffect, useRef } from "react";
 import html2canvas from "html2canvas";
 import { SigilRenderer } from "./SigilRenderer";
+import {
+  BEATS_DAY,
+  PULSE_MS,
+  PULSES_STEP,
+  STEPS_BEAT,
+  decodeMoment,
+  msToPulse,
+} from "../lib/kai-klok-core";
 
 /* ═════  H A R M O N I C   C O N S T A N T S  ═══════════════════ */
-const PHI = (1 + Math.sqrt(5)) / 2;
-const PULSE_DURATION = 8.472 / PHI; // ≈ 5.236 s
-const GENESIS_UTC = Date.UTC(2024, 4, 10, 6, 45, 40);
-const BEATS_PER_DAY = 36;
-const BEAT_PULSE_COUNT = 485.87;
-const STEPS_PER_BEAT = 44;
-const STEP_PULSE_COUNT = BEAT_PULSE_COUNT / STEPS_PER_BEAT;
+const PULSE_DURATION = PULSE_MS / 1000; // ≈ 5.236 s (UI cadence only)
 
-/* ── Utility: convert Date → Eternal Pulse # ─────────────────── */
+/* ── Utility: convert Date → Eternal Pulse # (φ-exact core) ──── */
 function getEternalPulseFromDateLocal(d: Date): number {
-  const diffSec = (d.getTime() - GENESIS_UTC) / 1_000;
-  return Math.floor(diffSec / PULSE_DURATION);
+  return msToPulse(d.getTime());
 }
 
 /* ── Utility: pulse → beat, step, step % ─────────────────────── */
 function pulseToBeatStep(pulse: number) {
-  const beatIdx = Math.floor(pulse / BEAT_PULSE_COUNT) % BEATS_PER_DAY;
-  const pulsesIntoBeat = pulse - beatIdx * BEAT_PULSE_COUNT;
-  const stepIdx = Math.floor(pulsesIntoBeat / STEP_PULSE_COUNT);
-  const stepPct = pulsesIntoBeat / BEAT_PULSE_COUNT;
-  return { beatIdx, stepIdx, stepPct };
+  const { beat, step, pulseInStep } = decodeMoment(pulse);
+  const stepPct = (step + pulseInStep / PULSES_STEP) / STEPS_BEAT;
+  return { beatIdx: beat, stepIdx: step, stepPct };
 }
 
 /* ═════  C O M P O N E N T  ═════════════════════════════════════ */
@@ -89,7 +88,7 @@ export const KairosGlyphViewer: React.FC = () => {
             <h2>Kairos Sigil — {date.toUTCString()}</h2>
             <p>
               Eternal Pulse&nbsp;<strong>{pulse}</strong> • Beat{" "}
-              {beat + 1}/{BEATS_PER_DAY} • Step {step + 1}/{STEPS_PER_BEAT} (
+              {beat + 1}/{BEATS_DAY} • Step {step + 1}/{STEPS_BEAT} (
               {(stepPct * 100).toFixed(2)}%)
             </p>
 
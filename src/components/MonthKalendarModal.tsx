@@ -31,6 +31,18 @@ import {
 } from "framer-motion";
 
 import "./MonthKalendarModal.css";
+import {
+  MICRO_PER_PULSE,
+  N_DAY_MICRO,
+  PULSE_MS,
+  calendarFromMicroPulse,
+  decodeCalendar,
+  dayStartPulse,
+  decodeMicroPulse,
+  msToMicroPulse,
+  msToPulse,
+} from "../lib/kai-klok-core";
+import { nextKaiPulseAtMs } from "../utils/kaiScheduler";
 import DayDetailModal from "./DayDetailModal";
 import type { HarmonicDayInfo } from "./DayDetailModal";
 
@@ -61,20 +73,9 @@ interface Props {
 }
 
 /* ══════════ constants ══════════ */
-const PULSE_MS   = (3 + Math.sqrt(5)) * 1000; // ≈ 5236 ms
-const DAY_PULSES = 17_491.270_421;
+const DAY_PULSES = Number(N_DAY_MICRO) / Number(MICRO_PER_PULSE); // 17_491.270421 (kai-klok-core)
 const PHI        = (1 + Math.sqrt(5)) / 2;
 
-/* μpulse-accurate timing (SigilModal parity) */
-const GENESIS_TS      = Date.UTC(2024, 4, 10, 6, 45, 41, 888);
-const KAI_PULSE_SEC   = 3 + Math.sqrt(5);
-const PULSE_MS_EXACT  = KAI_PULSE_SEC * 1000;
-
-const ONE_PULSE_MICRO        = 1_000_000n;
-const N_DAY_MICRO            = 17_491_270_421n;     // exact μpulses/day
-const PULSES_PER_STEP_MICRO  = 11_000_000n;         // 11 pulses/step
-const MU_PER_BEAT_EXACT      = (N_DAY_MICRO + 18n) / 36n; // ties-to-even
-
 /* Canonical weekday pigments (fixed per day) */
 const COLOR:Record<Day,string>={
   Solhara:"#ff0024", Aquaris:"#ff6f00", Flamora:"#ffd600",
@@ -119,24 +120,6 @@ const applySpiralHue = (arc: string | undefined) => {
 
 /* ── μpulse helpers ────────────────────────────────────────────── */
 const pad2 = (n:number)=>String(n).padStart(2,"0");
-const imod = (n:bigint,m:bigint)=>((n%m)+m)%m;
-function floorDiv(n:bigint,d:bigint):bigint{
-  const q=n/d, r=n%d;
-  return (r!==0n && (r>0n)!==(d>0n)) ? q-1n : q;
-}
-function roundTiesToEvenBigInt(x:number):bigint{
-  if(!Number.isFinite(x)) return 0n;
-  const s = x<0?-1:1, ax=Math.abs(x), i=Math.trunc(ax), f=ax-i;
-  if(f<0.5) return BigInt(s*i);
-  if(f>0.5) return BigInt(s*(i+1));
-  return BigInt(s*(i%2===0?i:i+1));
-}
-function microPulsesSinceGenesis(date:Date):bigint{
-  const deltaSec=(date.getTime()-GENESIS_TS)/1000;
-  const pulses = deltaSec / KAI_PULSE_SEC;
-  const micro  = pulses   * 1_000_000;
-  return roundTiesToEvenBigInt(micro);
-}
 
 type LocalKai = {
   beat:number; step:number; pulsesIntoDay:number;
@@ -147,30 +130,20 @@ type LocalKai = {
 };
 
 function computeLocalKai(now:Date):LocalKai{
-  const pμ_total  = microPulsesSinceGenesis(now);
-  const pμ_in_day = imod(pμ_total, N_DAY_MICRO);
-  const dayIndex  = floorDiv(pμ_total, N_DAY_MICRO);
+  const pμ = msToMicroPulse(now.getTime());
+  const { beat, step } = decodeMicroPulse(pμ);
+  const cal = calendarFromMicroPulse(pμ);
 
-  const beat = Number(floorDiv(pμ_in_day, MU_PER_BEAT_EXACT)); // 0..35
-  const pμ_in_beat = pμ_in_day - BigInt(beat) * MU_PER_BEAT_EXACT;
-
-  const step = Math.min(Math.max(Number(floorDiv(pμ_in_beat, PULSES_PER_STEP_MICRO)),0),43);
-  const pulsesIntoDay = Number(floorDiv(pμ_in_day, ONE_PULSE_MICRO));
-
-  const weekdayIdx = Number(imod(dayIndex, 6n));
   const WEEKDAY: readonly Day[] = ["Solhara","Aquaris","Flamora","Verdari","Sonari","Kaelith"];
-  const weekday = WEEKDAY[weekdayIdx];
-
-  const dayIndexNum = Number(dayIndex);
-  const dayOfMonth = ((dayIndexNum % 42) + 42) % 42 + 1;
-  const monthIndex0 = Math.floor(dayIndexNum / 42) % 8;
-  const monthIndex1 = ((monthIndex0 + 8) % 8) + 1;
+  const weekday = WEEKDAY[cal.weekdayIndex];
 
+  const dayOfMonth = cal.dayOfMonth;
+  const monthIndex1 = cal.monthIndex + 1;
   const monthDayIndex = dayOfMonth - 1;
   const chakraStepString = `${beat}:${pad2(step)}`;
   const sealText = `${chakraStepString} — D${dayOfMonth}/M${monthIndex1}`;
 
-  return { beat, step, pulsesIntoDay, dayOfMonth, monthIndex1, weekday, sealText, monthDayIndex, chakraStepString };
+  return { beat, step, pulsesIntoDay: cal.pulsesIntoDay, dayOfMonth, monthIndex1, weekday, sealText, monthDayIndex, chakraStepString };
 }
 
 /* ══════════ Atlantean Glyph Close (kept) ══════════ */
@@ -247,10 +220,14 @@ const MonthKalendarModal:FC<Props>=({
   /* Sync hue when provided */
   useEffect(()=>{ if (spiralArc) applySpiralHue(spiralArc); }, [spiralArc]);
 
-  /* Notes → day index set (0..41) */
+  /* Notes (incl. repeating-note occurrences) → day-of-month index set (0..41) for this month */
   const noteSet = useMemo(()=>{
+    const cur = decodeCalendar(msToPulse(Date.now()));
     const s = new Set<number>();
-    notes.forEach(n => s.add(Math.floor(n.pulse / DAY_PULSES)));
+    notes.forEach(n => {
+      const cal = decodeCalendar(n.pulse);
+      if (cal.year === cur.year && cal.monthIndex === cur.monthIndex) s.add(cal.dayOfMonth - 1);
+    });
     return s;
   },[notes]);
 
@@ -298,11 +275,6 @@ const MonthKalendarModal:FC<Props>=({
   const timeoutRef = useRef<number | null>(null);
   const targetBoundaryRef = useRef<number>(0);
   const epochNow = () => performance.timeOrigin + performance.now();
-  const computeNextBoundary = (nowMs:number) => {
-    const elapsed = nowMs - GENESIS_TS;
-    const periods = Math.ceil(elapsed / PULSE_MS_EXACT);
-    return GENESIS_TS + periods * PULSE_MS_EXACT;
-  };
   const clearAlignedTimer = () => {
     if (timeoutRef.current !== null) {
       clearTimeout(timeoutRef.current);
@@ -322,20 +294,18 @@ const MonthKalendarModal:FC<Props>=({
       const nowMs = epochNow();
 
       if (nowMs >= targetBoundaryRef.current) {
-        const missed = Math.floor((nowMs - targetBoundaryRef.current) / PULSE_MS_EXACT);
-        for (let i = 0; i <= missed; i++) {
-          const k = computeLocalKai(new Date());
-          setLocalKai(k);
-          setMonthProg(k.monthDayIndex + Math.min(1, Math.max(0, k.pulsesIntoDay / DAY_PULSES)));
-          targetBoundaryRef.current += PULSE_MS_EXACT;
-        }
+        // one repaint per wake-up, however many pulses were missed (exact core boundaries)
+        const k = computeLocalKai(new Date());
+        setLocalKai(k);
+        setMonthProg(k.monthDayIndex + Math.min(1, Math.max(0, k.pulsesIntoDay / DAY_PULSES)));
+        targetBoundaryRef.current = nextKaiPulseAtMs(nowMs);
       }
 
       const delay = Math.max(0, targetBoundaryRef.current - epochNow());
       timeoutRef.current = window.setTimeout(fire, delay) as unknown as number;
     };
 
-    targetBoundaryRef.current = computeNextBoundary(epochNow());
+    targetBoundaryRef.current = nextKaiPulseAtMs(epochNow());
     const initialDelay = Math.max(0, targetBoundaryRef.current - epochNow());
     timeoutRef.current = window.setTimeout(fire, initialDelay) as unknown as number;
   };
@@ -395,12 +365,8 @@ const MonthKalendarModal:FC<Props>=({
   /* ── day modal open (exactly like Week) ───────────────────────── */
   const monthDayStartPulse = (targetIdx: number): number => {
     const curIdx = localKai?.monthDayIndex ?? initIdx;
-    const pulsesIntoDay =
-      (typeof initialData?.eternalKaiPulseToday === "number"
-        ? initialData!.eternalKaiPulseToday
-        : localKai?.pulsesIntoDay) ?? 0;
-    const todayZero = Math.floor(pulsesIntoDay / DAY_PULSES) * DAY_PULSES; // => 0 (intentional)
-    return todayZero + (targetIdx - curIdx) * DAY_PULSES;
+    const todayPulse = initialData?.eternalKaiPulseToday ?? msToPulse(Date.now());
+    return dayStartPulse(decodeCalendar(todayPulse).day + targetIdx - curIdx);
   };
 
   const suppressBackdropUntilRef = useRef<number>(0);
@@ -5,6 +5,12 @@ import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import type React from "react";
 import type { FC } from "react";
 import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
+import {
+  GENESIS_TS,
+  calendarFromMicroPulse,
+  decodeMicroPulse,
+  msToMicroPulse,
+} from "../lib/kai-klok-core";
 
 /* ══════════════ Public types ══════════════ */
 export interface Note {
@@ -31,60 +37,22 @@ interface NoteModalProps {
   onClose: () => void;
 }
 
-/* ══════════════ Kai timing (μpulse parity with Week/Month) ══════════════ */
-const GENESIS_TS = Date.UTC(2024, 4, 10, 6, 45, 41, 888);
+/* ══════════════ Kai timing (shared kai-klok-core engine) ══════════════ */
 const KAI_PULSE_SEC = 3 + Math.sqrt(5);
-const PULSE_MS_EXACT = KAI_PULSE_SEC * 1000;
-
-const ONE_PULSE_MICRO = 1_000_000n;
-const N_DAY_MICRO = 17_491_270_421n;        // exact μpulses/day
-const PULSES_PER_STEP_MICRO = 11_000_000n;  // 11 pulses per (0-based) step
-const MU_PER_BEAT_EXACT = (N_DAY_MICRO + 18n) / 36n; // ties-to-even
-
-function roundTiesToEvenBigInt(x: number): bigint {
-  if (!Number.isFinite(x)) return 0n;
-  const s = x < 0 ? -1 : 1;
-  const ax = Math.abs(x);
-  const i = Math.trunc(ax);
-  const f = ax - i;
-  if (f < 0.5) return BigInt(s * i);
-  if (f > 0.5) return BigInt(s * (i + 1));
-  return BigInt(s * (i % 2 === 0 ? i : i + 1));
-}
-const imod = (n: bigint, m: bigint) => ((n % m) + m) % m;
-function floorDiv(n: bigint, d: bigint): bigint {
-  const q = n / d;
-  const r = n % d;
-  return r !== 0n && (r > 0n) !== (d > 0n) ? q - 1n : q;
-}
-function microPulsesSinceGenesis(date: Date): bigint {
-  const deltaSec = (date.getTime() - GENESIS_TS) / 1000;
-  const pulses = deltaSec / KAI_PULSE_SEC;
-  const micro = pulses * 1_000_000;
-  return roundTiesToEvenBigInt(micro);
-}
+const PULSE_MS_EXACT = KAI_PULSE_SEC * 1000; // scheduler cadence only
 
 type LocalKai = {
   beat: number;           // 0..35
   step: number;           // 0..43 (0-based)
   pulsesIntoDay: number;  // whole pulses into current day (float truncated)
-  livePulseApprox: number;// total pulse since genesis (approx, rounded)
+  livePulseApprox: number;// total pulse since genesis (φ-exact, floored)
 };
 
 function computeLocalKai(now: Date): LocalKai {
-  const pμ_total = microPulsesSinceGenesis(now);
-  const pμ_in_day = imod(pμ_total, N_DAY_MICRO);
-
-  const beat = Number(floorDiv(pμ_in_day, MU_PER_BEAT_EXACT)); // 0..35
-  const pμ_in_beat = pμ_in_day - BigInt(beat) * MU_PER_BEAT_EXACT;
-
-  const rawStep = Number(floorDiv(pμ_in_beat, PULSES_PER_STEP_MICRO));
-  const step = Math.min(Math.max(rawStep, 0), 43);
-
-  const pulsesIntoDay = Number(floorDiv(pμ_in_day, ONE_PULSE_MICRO));
-  const livePulseApprox = Number(floorDiv(pμ_total, ONE_PULSE_MICRO));
-
-  return { beat, step, pulsesIntoDay, livePulseApprox };
+  const pμ = msToMicroPulse(now.getTime());
+  const { pulse, beat, step } = decodeMicroPulse(pμ);
+  const { pulsesIntoDay } = calendarFromMicroPulse(pμ);
+  return { beat, step, pulsesIntoDay, livePulseApprox: pulse };
 }
 
 /* ══════════════ Pretty helpers ══════════════ */
@@ -1,19 +1,17 @@
 import { useState, useEffect } from "react";
 import { getKaiPulseEternalInt } from "../../../SovereignSolar";
+import { subscribeKaiBoundary } from "../../../utils/kaiScheduler";
 
 /**
  * React hook that returns the current Kai-Klok pulse, updating in sync with φ.
- * Internally polls every 5.236 seconds, matching pulse length.
+ * Driven by the shared boundary scheduler, so it flips exactly on each pulse.
  */
 export function useKaiPulse(): number {
   const [pulse, setPulse] = useState<number>(() => getKaiPulseEternalInt());
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      setPulse(getKaiPulseEternalInt());
-    }, 5236); // 5.236 seconds
-
-    return () => clearInterval(interval);
+    setPulse(getKaiPulseEternalInt());
+    return subscribeKaiBoundary("pulse", () => setPulse(getKaiPulseEternalInt()));
   }, []);
 
   return pulse;
@@ -1,22 +1,20 @@
 import type { SigilMetadata } from "../types/SigilMetadata";
+import { subscribeKaiBoundary } from "../../../utils/kaiScheduler";
 
 type BeaconCallback = (sigil: SigilMetadata) => void;
 
 const CHANNEL_NAME = "sigil-beacon";
 let beaconChannel: BroadcastChannel | null = null;
 
-type IntervalID = ReturnType<typeof setInterval>;
-
-interface WindowWithBeaconInterval extends Window {
-  __SIGIL_BEACON_INTERVAL__?: IntervalID;
-}
+let stopBeaconLoop: (() => void) | null = null;
 
 /**
- * Starts broadcasting your current presence sigil on a loop.
+ * Starts broadcasting your current presence sigil on every Kai pulse boundary
+ * (or every `everyPulses` pulses).
  */
 export function startSigilBeacon(
   sigil: SigilMetadata,
-  intervalMs: number = 5236
+  everyPulses: number = 1
 ): void {
   if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") return;
 
@@ -32,10 +30,11 @@ export function startSigilBeacon(
 
   send();
 
-  const id = setInterval(send, intervalMs);
-
-  // Safe attachment to window
-  (window as WindowWithBeaconInterval).__SIGIL_BEACON_INTERVAL__ = id;
+  const every = Math.max(1, Math.floor(everyPulses));
+  stopBeaconLoop?.();
+  stopBeaconLoop = subscribeKaiBoundary("pulse", (ev) => {
+    if (ev.pulse % every === 0 || ev.skipped > 0) send();
+  });
 }
 
 /**
@@ -60,10 +59,9 @@ export function listenForBeacons(onReceive: BeaconCallback): void {
  * Stops the beacon loop and listener.
  */
 export function stopSigilBeacon(): void {
-  const win = window as WindowWithBeaconInterval;
-  if (win.__SIGIL_BEACON_INTERVAL__ !== undefined) {
-    clearInterval(win.__SIGIL_BEACON_INTERVAL__);
-    delete win.__SIGIL_BEACON_INTERVAL__;
+  if (stopBeaconLoop) {
+    stopBeaconLoop();
+    stopBeaconLoop = null;
   }
 
   if (beaconChannel) {
@@ -31,6 +31,8 @@ import { StargateViewer } from "./StargateViewer";
 import VerifierStamper from "./VerifierStamper/VerifierStamper";
 import SealMomentModal from "./SealMomentModal";
 import { makeSigilUrl, type SigilSharePayload } from "../utils/sigilUrl";
+import { parseKairosSeal, pulseToMs } from "../lib/kai-klok-core";
+import { msToNextKaiPulse, subscribeKaiBoundary } from "../utils/kaiScheduler";
 import "./SigilModal.css";
 
 /* html2canvas typing compatibility (no `any`, extra-props allowed) */
@@ -461,27 +463,13 @@ function buildLocalKairosLike(now: Date): KaiApiResponseLike {
 }
 
 /* ═════════════ High-precision φ-pulse countdown (6 decimals) ═════════════
-   NOTE: unchanged API, but it reads the same boundary math the scheduler uses.
+   NOTE: unchanged API; reads the shared scheduler's exact next boundary.
 */
 function useKaiPulseCountdown(active: boolean) {
   const [secsLeft, setSecsLeft] = useState<number | null>(active ? KAI_PULSE_SEC : null);
-  const nextRef = useRef<number>(0);
-  const rafRef  = useRef<number | null>(null);
-  const intRef  = useRef<number | null>(null);
-
-  const epochNow = () => performance.timeOrigin + performance.now();
-
-  const computeNextBoundary = (nowMs: number) => {
-    const elapsed = nowMs - GENESIS_TS;
-    const periods = Math.ceil(elapsed / PULSE_MS);
-    return GENESIS_TS + periods * PULSE_MS;
-  };
 
   useEffect(() => {
     if (!active) {
-      if (rafRef.current) cancelAnimationFrame(rafRef.current);
-      if (intRef.current) clearInterval(intRef.current);
-      rafRef.current = null; intRef.current = null;
       setSecsLeft(null);
       return;
     }
@@ -491,51 +479,14 @@ function useKaiPulseCountdown(active: boolean) {
       document.documentElement.style.setProperty("--kai-pulse", `${PULSE_MS}ms`);
     }
 
-    nextRef.current = computeNextBoundary(epochNow());
-
+    // rAF pauses while hidden; on return the first frame reads the exact boundary again.
+    let raf = 0;
     const tick = () => {
-      const now = epochNow();
-
-      if (now >= nextRef.current) {
-        const missed = Math.floor((now - nextRef.current) / PULSE_MS) + 1;
-        nextRef.current += missed * PULSE_MS;
-      }
-      const diffMs = Math.max(0, nextRef.current - now);
-      setSecsLeft(diffMs / 1000);
-      rafRef.current = requestAnimationFrame(tick);
-    };
-
-    rafRef.current = requestAnimationFrame(tick);
-
-    const onVis = () => {
-      if (document.visibilityState === 'hidden') {
-        if (rafRef.current) cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
-        if (!intRef.current) {
-          intRef.current = window.setInterval(() => {
-            const now = Date.now();
-            if (now >= nextRef.current) {
-              const missed = Math.floor((now - nextRef.current) / PULSE_MS) + 1;
-              nextRef.current += missed * PULSE_MS;
-            }
-            setSecsLeft(Math.max(0, (nextRef.current - now) / 1000));
-          }, 33);
-        }
-      } else {
-        if (intRef.current) { clearInterval(intRef.current); intRef.current = null; }
-        if (rafRef.current) cancelAnimationFrame(rafRef.current);
-        nextRef.current = computeNextBoundary(epochNow());
-        rafRef.current = requestAnimationFrame(tick);
-      }
-    };
-
-    document.addEventListener('visibilitychange', onVis);
-
-    return () => {
-      document.removeEventListener('visibilitychange', onVis);
-      if (rafRef.current) cancelAnimationFrame(rafRef.current);
-      if (intRef.current) clearInterval(intRef.current);
+      setSecsLeft(msToNextKaiPulse() / 1000);
+      raf = requestAnimationFrame(tick);
     };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
   }, [active]);
 
   return secsLeft;
@@ -748,9 +699,8 @@ const SigilModal: FC<Props> = ({ initialPulse = 0, onClose }) => {
   const sigilRef = useRef<KaiSigilHandle | null>(null);
   const anchorRef = useRef(Date.now());
 
-  /* NEW: boundary-aligned scheduler refs */
-  const timeoutRef = useRef<number | null>(null);
-  const targetBoundaryRef = useRef<number>(0);
+  /* NEW: live subscription to the shared boundary scheduler */
+  const liveUnsubRef = useRef<(() => void) | null>(null);
 
   /* ── HARD-LOCK shielding ───────────────────────────────── */
   useEffect(() => {
@@ -829,50 +779,23 @@ const SigilModal: FC<Props> = ({ initialPulse = 0, onClose }) => {
     syncCloseBtn();
   }, []);
 
-  /* ═════════════ perfectly aligned φ-boundary scheduler ═════════════ */
-  const epochNow = () => performance.timeOrigin + performance.now();
-  const computeNextBoundary = (nowMs: number) => {
-    const elapsed = nowMs - GENESIS_TS;
-    const periods = Math.ceil(elapsed / PULSE_MS);
-    return GENESIS_TS + periods * PULSE_MS;
-  };
-
+  /* ═════════════ perfectly aligned φ-boundary ticks (shared scheduler) ═════════════ */
   const clearAlignedTimer = () => {
-    if (timeoutRef.current !== null) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
+    if (liveUnsubRef.current) {
+      liveUnsubRef.current();
+      liveUnsubRef.current = null;
     }
   };
 
   const scheduleAlignedTick = useCallback(() => {
     clearAlignedTimer();
-    // Establish the next boundary and sync CSS vars
-    const now = epochNow();
-    targetBoundaryRef.current = computeNextBoundary(now);
-    syncGlobalPulseVars(now);
-
-    const fire = () => {
-      // On fire, catch up any missed boundaries (sleep/wake) and apply state
-      const nowMs = epochNow();
-
-      // Number of boundaries that passed since the last target (0+)
-      const missed = Math.floor((nowMs - targetBoundaryRef.current) / PULSE_MS);
-      // Always run at least once
-      const runs = Math.max(0, missed) + 1;
-
-      for (let i = 0; i < runs; i++) {
-        queryKai();
-        targetBoundaryRef.current += PULSE_MS;
-      }
-
-      // Reschedule precisely for the next boundary
-      const delay = Math.max(0, targetBoundaryRef.current - epochNow());
-      timeoutRef.current = window.setTimeout(fire, delay) as unknown as number;
-    };
-
-    // First schedule to the upcoming boundary
-    const initialDelay = Math.max(0, targetBoundaryRef.current - now);
-    timeoutRef.current = window.setTimeout(fire, initialDelay) as unknown as number;
+    syncGlobalPulseVars(Date.now());
+    // One event per boundary; after sleep/hidden tabs the scheduler emits a single
+    // catch-up event, and queryKai() always computes from "now".
+    liveUnsubRef.current = subscribeKaiBoundary("pulse", (ev) => {
+      syncGlobalPulseVars(ev.atMs);
+      queryKai();
+    });
   }, [queryKai]);
 
   /* ── public live control: startLive() uses aligned scheduler only ─────── */
@@ -893,17 +816,6 @@ const SigilModal: FC<Props> = ({ initialPulse = 0, onClose }) => {
     };
   }, [startLive]);
 
-  /* ── visibility changes: re-align boundary and countdown in sync ──────── */
-  useEffect(() => {
-    const onVis = () => {
-      if (document.visibilityState === "visible" && !dateISO) {
-        scheduleAlignedTick();
-      }
-    };
-    document.addEventListener("visibilitychange", onVis);
-    return () => document.removeEventListener("visibilitychange", onVis);
-  }, [dateISO, scheduleAlignedTick]);
-
   /* ── datetime picker (UNCHANGED UX) ───────────────────── */
   const onDateChange = (e: ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value;
@@ -930,6 +842,18 @@ const SigilModal: FC<Props> = ({ initialPulse = 0, onClose }) => {
     queryKai(buildBreathIso(dateISO, idx));
   };
 
+  /* ── pasted seal (“Kaelith · 21:17”) → static moment ──── */
+  const onSealJump = (text: string): boolean => {
+    const range = parseKairosSeal(text);
+    if (!range) return false;
+    const iso = new Date(pulseToMs(range.startPulse)).toISOString();
+    if (intervalRef.current) clearInterval(intervalRef.current);
+    clearAlignedTimer();
+    setDateISO(iso.slice(0, 16));
+    queryKai(iso);
+    return true;
+  };
+
   /* ── “Now” reset ───────────────────────────────────────── */
   const resetToNow = () => {
     const card =
@@ -1144,6 +1068,7 @@ const SigilModal: FC<Props> = ({ initialPulse = 0, onClose }) => {
             solarColor={solarColor}
             eternalColor={eternalArkColor}
             eternalArkLabel={kairos?.eternalChakraArc || "Ignition Ark"}
+            onSealJump={onSealJump}
           />
 
           {dateISO && (
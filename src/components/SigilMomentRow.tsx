@@ -2,6 +2,8 @@
 import React, {
   type FC,
   type ChangeEvent,
+  type ClipboardEvent,
+  type KeyboardEvent,
   useMemo,
   useRef,
   useEffect,
@@ -17,6 +19,7 @@ export interface Props {
   solarColor?: string;           // default #ffd600
   eternalColor?: string;         // default #8beaff (fallback)
   eternalArkLabel?: string;      // e.g. "Ignition Ark"
+  onSealJump?: (text: string) => boolean; // pasted seal ("Kaelith · 21:17"); false if unrecognized
 }
 
 const clampPct = (n: number) => Math.max(0, Math.min(100, n));
@@ -53,6 +56,7 @@ const SigilMomentRow: FC<Props> = ({
   eternalPercent,
   eternalColor = "#8beaff",
   eternalArkLabel = "Eternal Ark",
+  onSealJump,
 }) => {
   const eternalPct = useMemo(() => clampPct(eternalPercent), [eternalPercent]);
 
@@ -71,6 +75,27 @@ const SigilMomentRow: FC<Props> = ({
   // Unitless 0..1 fill (CRITICAL so the bar fully matches %)
   const eternalFillVars: WithVars = { "--fill": (eternalPct / 100).toFixed(6) };
 
+  // ===== Paste-a-seal jump =====
+  const [sealText, setSealText] = useState("");
+  const [sealBad, setSealBad] = useState(false);
+
+  const submitSeal = (text: string): boolean => {
+    if (!onSealJump || !text.trim()) return false;
+    const ok = onSealJump(text);
+    setSealBad(!ok);
+    return ok;
+  };
+  const onSealKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") submitSeal(sealText);
+  };
+  const onSealPaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData("text");
+    if (submitSeal(text)) {
+      e.preventDefault();
+      setSealText(text.trim());
+    }
+  };
+
   // ===== Pulse-boundary "explosion" =====
   const [boom, setBoom] = useState(false);
   const prevSecs = useRef<number | undefined>(undefined);
@@ -121,6 +146,28 @@ const SigilMomentRow: FC<Props> = ({
         </label>
       </div>
 
+      {onSealJump && (
+        <div className="input-row sigil-row">
+          <label className="sigil-label">
+            <span className="sigil-label__text">or paste seal:</span>&nbsp;
+            <input
+              className="sigil-input"
+              type="text"
+              placeholder="Kaelith · 21:17"
+              value={sealText}
+              aria-invalid={sealBad}
+              title={sealBad ? "Unrecognized seal" : "Paste a Kairos seal and press Enter"}
+              onChange={(e) => {
+                setSealText(e.target.value);
+                setSealBad(false);
+              }}
+              onKeyDown={onSealKeyDown}
+              onPaste={onSealPaste}
+            />
+          </label>
+        </div>
+      )}
+
       <div className="sigil-bars" role="group" aria-label="Day progress">
         <div className="sigil-bar">
           <div className="sigil-bar__head">
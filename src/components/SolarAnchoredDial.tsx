@@ -1,5 +1,6 @@
 // SolarAnchoredDial.tsx — Offline, sunrise-anchored dial + controls
 // Drop-in child component for EternalKlock.tsx (no geolocation, no network)
+// Sunrise source: typed lat/lon or the offline city table, else a manual offset.
 
 import React, { useEffect, useMemo, useState } from "react";
 import KaiKlock from "./KaiKlock";
@@ -11,15 +12,20 @@ import {
   SOLAR_DAY_NAMES,
   MONTHS,
   HARMONIC_DAY_PULSES,
-  BREATH_SEC,
   getKaiPulseEternal,
   getKaiPulseToday,
   getSolarAlignedCounters,
   getSolarArcName,
+  getSolarWindow,
+  getSunriseLocation,
   getSunriseOffsetSec,
   setSunriseFromLocalHHMM,
+  setSunriseLocation,
   tapSunroseNow,
+  type SunriseLocation,
 } from "../SovereignSolar";
+import { SOLAR_CITIES } from "../utils/solarCities";
+import { subscribeKaiBoundary } from "../utils/kaiScheduler";
 
 /* Types */
 type ChakraStep = {
@@ -40,10 +46,15 @@ export type SolarAnchoredDialProps = {
   showControls?: boolean;
   className?: string;
   onSunriseChange?: (offsetSec: number) => void;
+  onLocationChange?: (location: SunriseLocation | null) => void;
 };
 
 /* Helpers */
 const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+const fmtCoord = (v: number, pos: string, neg: string) => `${Math.abs(v).toFixed(2)}°${v < 0 ? neg : pos}`;
+const locationLabel = (loc: SunriseLocation) =>
+  `${loc.name ? `${loc.name} · ` : ""}${fmtCoord(loc.lat, "N", "S")} ${fmtCoord(loc.lon, "E", "W")}`;
+const fmtLocalTime = (d: Date) => d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 const chakraColor = (ark: string) => {
   switch (ark) {
     case "Ignition Ark":      return "#ff0033";
@@ -60,14 +71,19 @@ const SolarAnchoredDial: React.FC<SolarAnchoredDialProps> = ({
   showControls = true,
   className = "",
   onSunriseChange,
+  onLocationChange,
 }) => {
   const [glowPulse, setGlowPulse] = useState(false);
   const [now, setNow] = useState<Date>(new Date());
   const [hhmm, setHhmm] = useState("");
   const [offsetPreview, setOffsetPreview] = useState<number | null>(null);
   const [showExplainer, setShowExplainer] = useState(false);
+  const [location, setLocation] = useState<SunriseLocation | null>(() => getSunriseLocation());
+  const [latText, setLatText] = useState(() => (location ? String(location.lat) : ""));
+  const [lonText, setLonText] = useState(() => (location ? String(location.lon) : ""));
+  const [coordError, setCoordError] = useState(false);
 
-  // φ tick
+  // φ tick — exact pulse boundaries from the shared scheduler
   useEffect(() => {
     const tick = () => {
       setNow(new Date());
@@ -75,8 +91,7 @@ const SolarAnchoredDial: React.FC<SolarAnchoredDialProps> = ({
       setTimeout(() => setGlowPulse(false), 750);
     };
     tick();
-    const id = setInterval(tick, Math.round(BREATH_SEC * 1000));
-    return () => clearInterval(id);
+    return subscribeKaiBoundary("pulse", tick);
   }, []);
 
   // Core numbers
@@ -105,6 +120,7 @@ const SolarAnchoredDial: React.FC<SolarAnchoredDialProps> = ({
   const solarArcName = useMemo(() => getSolarArcName(now), [now]);
 
   const counters = useMemo(() => getSolarAlignedCounters(now), [now]);
+  const solarWindow = useMemo(() => getSolarWindow(now), [now]);
   const solarWeekDayName =
   counters.dayName ??
   SOLAR_DAY_NAMES[((counters.solarAlignedWeekDayIndex ?? 0) % 6 + 6) % 6];
@@ -148,9 +164,43 @@ const SolarAnchoredDial: React.FC<SolarAnchoredDialProps> = ({
   // Sunrise offset
   const offsetSec = getSunriseOffsetSec();
 
+  // Location (manual offset handlers below switch back to offset mode)
+  const applyLocation = (loc: SunriseLocation | null) => {
+    if (!setSunriseLocation(loc)) {
+      setCoordError(true);
+      return;
+    }
+    setCoordError(false);
+    setLocation(loc);
+    setLatText(loc ? String(loc.lat) : "");
+    setLonText(loc ? String(loc.lon) : "");
+    onLocationChange?.(loc);
+    setNow(new Date());
+  };
+
+  const clearLocation = () => {
+    if (location) applyLocation(null);
+  };
+
+  const handlePickCity: React.ChangeEventHandler<HTMLSelectElement> = (e) => {
+    const city = SOLAR_CITIES.find((c) => c.name === e.target.value);
+    if (city) applyLocation({ lat: city.lat, lon: city.lon, name: city.name });
+  };
+
+  const handleApplyCoords = () => {
+    const lat = Number(latText.trim());
+    const lon = Number(lonText.trim());
+    if (!latText.trim() || !lonText.trim() || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+      setCoordError(true);
+      return;
+    }
+    applyLocation({ lat, lon });
+  };
+
   // Handlers
   const handleApplyHHMM = () => {
     if (!hhmm) return;
+    clearLocation();
     setSunriseFromLocalHHMM(hhmm, new Date());
     setHhmm("");
     const off = getSunriseOffsetSec();
@@ -160,6 +210,7 @@ const SolarAnchoredDial: React.FC<SolarAnchoredDialProps> = ({
   };
 
   const handleTapSunrose = () => {
+    clearLocation();
     tapSunroseNow(new Date());
     const off = getSunriseOffsetSec();
     setOffsetPreview(off);
@@ -219,9 +270,19 @@ const handleHHMMMaskedChange: React.ChangeEventHandler<HTMLInputElement> = (e) =
 
             <div className="panel-text">
               <strong>Solar Sync</strong>
-              <span className="panel-sub">
-                Sunrise offset (UTC): <code>{offsetPreview ?? offsetSec}s</code>
-              </span>
+              {location ? (
+                <span className="panel-sub">
+                  Sunrise at <code>{locationLabel(location)}</code>:{" "}
+                  {solarWindow.polar
+                    ? `${solarWindow.polar === "polar-day" ? "polar day" : "polar night"} (solar 06:00 ${fmtLocalTime(solarWindow.lastSunrise)})`
+                    : fmtLocalTime(solarWindow.lastSunrise)}
+                  {" → "}{fmtLocalTime(solarWindow.nextSunrise)}
+                </span>
+              ) : (
+                <span className="panel-sub">
+                  Sunrise offset (UTC): <code>{offsetPreview ?? offsetSec}s</code>
+                </span>
+              )}
             </div>
 
             {/* (Right-side “?” removed) */}
@@ -267,6 +328,62 @@ const handleHHMMMaskedChange: React.ChangeEventHandler<HTMLInputElement> = (e) =
             </div>
           </div>
 
+          {/* Location */}
+          <div className="row input-row">
+            <label htmlFor="sunriseCity" className="label">Location (computes sunrise every day)</label>
+            <div className="input-group">
+              <select
+                id="sunriseCity"
+                className="time-input"
+                value={location?.name && SOLAR_CITIES.some((c) => c.name === location.name) ? location.name : ""}
+                onChange={handlePickCity}
+                onClick={(e) => e.stopPropagation()}
+                style={{ fontSize: 17 }}
+              >
+                <option value="">{location ? "Custom coordinates" : "Pick a city…"}</option>
+                {SOLAR_CITIES.map((c) => (
+                  <option key={c.name} value={c.name}>{c.name}</option>
+                ))}
+              </select>
+              {location && (
+                <button className="btn" onClick={() => applyLocation(null)} type="button" title="Use the manual sunrise offset">
+                  Clear
+                </button>
+              )}
+            </div>
+            <div className="input-group">
+              <input
+                className="time-input"
+                type="text"
+                inputMode="decimal"
+                aria-label="Latitude (°N, negative for south)"
+                aria-invalid={coordError}
+                placeholder="lat 51.48"
+                value={latText}
+                onChange={(e) => { setLatText(e.target.value); setCoordError(false); }}
+                onClick={(e) => e.stopPropagation()}
+                onFocus={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                style={{ width: 96, fontSize: 17, lineHeight: 1.4 }}
+              />
+              <input
+                className="time-input"
+                type="text"
+                inputMode="decimal"
+                aria-label="Longitude (°E, negative for west)"
+                aria-invalid={coordError}
+                placeholder="lon -0.01"
+                value={lonText}
+                onChange={(e) => { setLonText(e.target.value); setCoordError(false); }}
+                onClick={(e) => e.stopPropagation()}
+                onFocus={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                style={{ width: 96, fontSize: 17, lineHeight: 1.4 }}
+              />
+              <button className="btn save" onClick={handleApplyCoords} type="button">Set</button>
+            </div>
+          </div>
+
           {/* Explainer (hidden until toggled) */}
           <div
             id="solar-explainer"
@@ -279,6 +396,12 @@ const handleHHMMMaskedChange: React.ChangeEventHandler<HTMLInputElement> = (e) =
               to the next (fixed at <strong>{HARMONIC_DAY_PULSES.toFixed(6)}</strong> Breathes).
               Re-tap “Sun rose now” or enter your local sunrise anytime to re-calibrate. 
             </p>
+            <p className="hint">
+              Or set a location (typed or from the built-in city list — still offline): each day then
+              runs from that place’s computed sunrise to the next. In polar day or polar night, when the
+              sun never crosses the horizon, the day turns at solar 06:00 (six hours before solar noon).
+              Tapping “Sun rose now” or saving a time switches back to the manual offset.
+            </p>
           </div>
         </div>
       )}
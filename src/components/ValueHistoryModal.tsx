@@ -1,6 +1,7 @@
 // src/components/ValueHistoryModal.tsx
 import { useEffect, useMemo, useRef, useState } from "react";
 import "./ValueHistoryModal.css";
+import { BEATS_DAY, N_DAY_MICRO, msToMicroPulse } from "../lib/kai-klok-core";
 
 /** Kairos series point: t = absolute *fractional* beat since genesis, v = value (Φ) */
 export type Point = { t: number; v: number };
@@ -16,18 +17,14 @@ const RANGE_BEATS: Record<RangeKey, number> = {
 };
 
 /* ─────────────────────────────────────────────────────────────
-   Eternal Kai constants (aligns with SovereignSolar canon)
-   Pulses/day × breath seconds (3 + √5) → day length; /36 → ms/beat
+   Eternal Kai beats via kai-klok-core (φ-exact μpulse bridge)
+   One beat = 1/36 of the harmonic day (N_DAY_MICRO μpulses)
    ───────────────────────────────────────────────────────────── */
-const HARMONIC_DAY_PULSES = 17491.270421;     // pulses per day
-const BREATH_SEC = 3 + Math.sqrt(5);          // 5.2360679…
-const BEATS_PER_DAY = 36;
-const MS_PER_BEAT = (HARMONIC_DAY_PULSES * BREATH_SEC * 1000) / BEATS_PER_DAY; // ≈ 2_544_041.137 ms
-const GENESIS_TS = 1715323541888;             // 2024-05-10T06:45:41.888Z
+const MICRO_PER_BEAT = Number(N_DAY_MICRO) / BEATS_DAY; // ≈ 485_868_622.8 μpulses
 
 /** Convert epoch-ms → absolute fractional beats since genesis. */
 function msToAbsBeat(ms: number): number {
-  return (ms - GENESIS_TS) / MS_PER_BEAT;
+  return Number(msToMicroPulse(ms)) / MICRO_PER_BEAT;
 }
 
 /** Normalize any epoch-ms series to Kai beats. */
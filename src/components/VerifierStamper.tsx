@@ -1,7 +1,7 @@
 /* ────────────────────────────────────────────────────────────────
    VerifierStamper.tsx · Divine Sovereign Transfer Gate (mobile-first)
    v14.3 — Sovereign hardening+++ (ECDSA + optional ZK bind)
-   • Auto-loads /verification_key.json into window.SIGIL_ZK_VKEY
+   • ZK stamps verify against the bundled / imported verifying-key registry only
    • Parallel hardened lineage (ECDSA P-256) over canonical leaves
    • Optional Groth16 ZK stamps bound to the same leaves, fully offline verified
    • Fully offline verifiable; zero network trust
@@ -21,11 +21,11 @@ import { buildValueSeal, type SigilMetadataLite, type ValueSeal } from "../utils
 import { makeSigilUrl, type SigilSharePayloadLoose } from "../utils/sigilUrl";
 import { encodeSigilHistory } from "../utils/sigilUrl";
 import type { SigilTransferLite } from "../utils/sigilUrl";
+import { getKaiPulse } from "../lib/kai-klok-core";
+import { verifyZkOnHead } from "./VerifierStamper/verifySovereignOffline";
 
 /* ═════════════════ CONSTANTS ═════════════════ */
-const PULSE_MS = 5_236 as const;
-const GENESIS_TS = Date.UTC(2024, 4, 10, 6, 45, 41, 888);
-const kaiPulseNow = () => Math.floor((Date.now() - GENESIS_TS) / PULSE_MS);
+const kaiPulseNow = () => getKaiPulse();
 
 const SIGIL_CTX = "https://schema.phi.network/sigil/v1" as const;
 const SIGIL_TYPE = "application/phi.kairos.sigil+svg" as const;
@@ -54,6 +54,11 @@ interface SigilTransfer {
   receiverSignature?: string;
   receiverStamp?: string; // hash(receiverSig|senderStamp|nowPulse)
   receiverKaiPulse?: number;
+
+  // Timelock / escrow terms (mirrors VerifierStamper/types)
+  unlockAtPulse?: number;
+  refundAfterPulse?: number;
+  refunded?: boolean;
 }
 
 /* ───────────────── v14 add-only hardened lineage ─────────────── */
@@ -64,6 +69,7 @@ type HashHex = string;
 interface ZkBundle {
   scheme: "groth16" | string;
   curve?: string; // e.g. "BLS12-381"
+  circuit?: string; // "sigil-nullifier-v1" (mirrors VerifierStamper/types)
   proof: unknown;
   publicSignals: unknown;
   vkey?: unknown; // optional inline vkey
@@ -76,6 +82,8 @@ interface ZkStamp {
   publicHash: HashHex; // sha256(stable(publicSignals))
   proofHash: HashHex; // sha256(stable(proof))
   vkeyHash?: HashHex; // sha256(stable(vkey)) if provided
+  circuit?: string;
+  nullifier?: string;
   verified?: boolean; // set by offline verifier
 }
 
@@ -91,6 +99,10 @@ interface HardenedTransferV14 {
   transferLeafHashSend: HashHex; // hash over sender-side leaf (sender fields + payload only)
 
   // Optional ZK proof & stamp for SEND (bound to sender-side leaf)
+  senderCoSigs?: { pubKey: B64uSPKI; sig: string }[]; // mirrors VerifierStamper/types (multisig)
+  keyChainLength?: number; // mirrors VerifierStamper/types (owner key chain pin)
+  unlockAtPulse?: number; // mirrors VerifierStamper/types (timelock / escrow)
+  refundAfterPulse?: number;
   zkSend?: ZkStamp;
   zkSendBundle?: ZkBundle;
 
@@ -98,6 +110,7 @@ interface HardenedTransferV14 {
   receiverPubKey?: B64uSPKI; // base64url(SPKI)
   receiverSig?: string; // base64url(ECDSA over canonical RECEIVE)
   receiverKaiPulse?: number;
+  refund?: boolean;
 
   // Full leaf after receive (includes receiver fields)
   transferLeafHashReceive?: HashHex;
@@ -113,6 +126,7 @@ interface SegmentEntry {
   root: HashHex; // merkle root over that segment's transfers
   cid: HashHex; // SHA-256 of the segment JSON blob
   count: number; // transfers in this segment
+  merkleVersion?: 1 | 2; // tree version of `root` (absent = 1)
 }
 
 interface SegmentFile {
@@ -177,6 +191,7 @@ interface SigilMetadata {
   transfersWindowRoot?: HashHex; // merkle root over current head-window transfers
   cumulativeTransfers?: number; // total transfers across segments + head-window
   headHashAtSeal?: HashHex; // last head snapshot hash at segment seal
+  merkleVersion?: 1 | 2; // mirrors VerifierStamper/types (head tree version; absent = 1)
 
   // page-style extras
   canonicalHash?: string;
@@ -184,6 +199,19 @@ interface SigilMetadata {
 
   /* v14 parallel hardened lineage (add-only; legacy untouched) */
   hardenedTransfers?: HardenedTransferV14[];
+  multisig?: {
+    threshold: number;
+    signers: B64uSPKI[];
+    since: number;
+    adoptedAtPulse?: number;
+    adoptedBy?: B64uSPKI;
+    adoptionSig?: string;
+  }; // mirrors VerifierStamper/types
+  keyChain?: ( // mirrors VerifierStamper/types (owner key rotation / revocation)
+    | { type: "rotate"; v: 1; from: B64uSPKI; to: B64uSPKI; pulse: number; sig: string }
+    | { type: "revoke"; v: 1; key: B64uSPKI; pulse: number; by: B64uSPKI; sig: string }
+  )[];
+  zkOwner?: { commitment: string; since: number }; // mirrors VerifierStamper/types (ZK owner commitment)
   transfersWindowRootV14?: HashHex;
 
   /* Optional inline verifying key for ZK proofs (non-breaking) */
@@ -324,10 +352,6 @@ async function signB64u(priv: CryptoKey, msg: Uint8Array) {
   const sig = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, priv, msg);
   return b64u.encode(new Uint8Array(sig));
 }
-async function verifySig(pubB64u: string, msg: Uint8Array, sigB64u: string): Promise<boolean> {
-  const pub = await importPub(b64u.decode(pubB64u).buffer);
-  return crypto.subtle.verify({ name: "ECDSA", hash: "SHA-256" }, pub, b64u.decode(sigB64u), msg);
-}
 
 /* ═════════════ HELPERS ═════════════ */
 const fileToPayload = (file: File): Promise<SigilPayload> =>
@@ -850,7 +874,7 @@ async function verifyHistorical(head: SigilMetadata, bundle: SegmentProofBundle
 
 /* ═════════════ OPTIONAL ZK: lightweight glue (no hard dep) ═════════════
    • If you have snarkjs installed, we’ll try to import it at runtime.
-   • We look for a verifying key either in meta.zkVerifyingKey or window.SIGIL_ZK_VKEY.
+   • Proofs are only verified against registry keys (VerifierStamper/vkeyRegistry); others are reported, never passed.
    • Regardless, we bind proofs via hashes (public+proof+vkey) so lineage is immutable.
 ────────────────────────────────────────────────────────────────── */
 declare global {
@@ -878,122 +902,6 @@ declare global {
 async function hashAny(x: unknown): Promise<HashHex> {
   return sha256Hex(stableStringify(x));
 }
-/* ─────────── Groth16 minimal structural types ─────────── */
-type JsonValue = string | number | boolean | null | { [k: string]: JsonValue } | JsonValue[];
-
-type Groth16VerifyingKey = { protocol?: "groth16"; curve?: string } & Record<string, JsonValue>;
-type Groth16Proof = Record<string, JsonValue>;
-type Groth16PublicSignals = readonly (string | number | bigint)[] | Record<string, string | number | bigint>;
-
-/* Narrowing helpers */
-const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
-const isScalar = (v: unknown): v is string | number | bigint => typeof v === "string" || typeof v === "number" || typeof v === "bigint";
-function isVerifyingKey(v: unknown): v is Groth16VerifyingKey {
-  return isObject(v); // permissive; we only need object shape
-}
-function isProof(v: unknown): v is Groth16Proof {
-  return isObject(v);
-}
-function isPublicSignals(v: unknown): v is Groth16PublicSignals {
-  if (Array.isArray(v)) return v.every(isScalar);
-  if (!isObject(v)) return false;
-  return Object.values(v).every(iscalar => isScalar(iscalar));
-}
-
-/* ─────────── Optional snarkjs loader that Vite won't pre-resolve ─────────── */
-// If you don't already have it, you can keep a minimal type locally:
-export interface Groth16 {
-  verify: (...args: unknown[]) => Promise<boolean> | boolean;
-  // (add other groth16 members if you use them)
-}
-
-// Safe runtime guard (no `any`)
-function isGroth16(x: unknown): x is Groth16 {
-  return typeof x === "object" &&
-    x !== null &&
-    "verify" in x &&
-    typeof (x as { verify?: unknown }).verify === "function";
-}
-
-async function loadGroth16(): Promise<Groth16 | null> {
-  // 2) Try dynamic import without letting Vite analyze/resolve it
-  try {
-    const spec = "snarkjs";
-    type SnarkjsDynamic = { groth16?: unknown; default?: { groth16?: unknown } };
-    const mod = (await import(/* @vite-ignore */ spec)) as unknown as SnarkjsDynamic;
-
-    const candidate = mod.groth16 ?? mod.default?.groth16;
-    if (isGroth16(candidate)) {
-      return candidate;
-    }
-  } catch {
-    // Not installed / failed to import — optional
-  }
-  return null;
-}
-
-/* Optionally type the global if you plan to use a CDN build */
-declare global {
-  interface Window {
-    snarkjs?: { groth16?: Groth16 };
-  }
-}
-
-/** Best-effort Groth16 verifier. Returns null if snarkjs is not available. */
-async function tryVerifyGroth16(args: {
-  proof: unknown;
-  publicSignals: unknown;
-  vkey?: unknown;
-  fallbackVkey?: unknown;
-}): Promise<boolean | null> {
-  // Load optional groth16 (global or dynamic import)
-  const groth16 = await loadGroth16();
-  if (!groth16) return null;
-
-  const vkeyCandidate = args.vkey ?? args.fallbackVkey;
-  if (!isVerifyingKey(vkeyCandidate)) return false;
-  if (!isPublicSignals(args.publicSignals)) return false;
-  if (!isProof(args.proof)) return false;
-
-  const ok = await groth16.verify(
-    vkeyCandidate as Groth16VerifyingKey,
-    args.publicSignals as Groth16PublicSignals,
-    args.proof as Groth16Proof
-  );
-  return !!ok;
-}
-
-/** Eagerly verify any ZK bundles on the head (best-effort, offline) */
-async function verifyZkOnHead(m: SigilMetadata): Promise<void> {
-  const vkeyInline = m.zkVerifyingKey;
-  const vkeyWindow = typeof window !== "undefined" ? window.SIGIL_ZK_VKEY : undefined;
-  const fallbackVkey = vkeyInline ?? vkeyWindow;
-
-  const hs = m.hardenedTransfers ?? [];
-  for (let i = 0; i < hs.length; i++) {
-    const t = hs[i];
-
-    if (t.zkSendBundle) {
-      const res = await tryVerifyGroth16({
-        proof: t.zkSendBundle.proof,
-        publicSignals: t.zkSendBundle.publicSignals,
-        vkey: t.zkSendBundle.vkey,
-        fallbackVkey,
-      });
-      if (t.zkSend) t.zkSend.verified = res === true;
-    }
-    if (t.zkReceiveBundle) {
-      const res = await tryVerifyGroth16({
-        proof: t.zkReceiveBundle.proof,
-        publicSignals: t.zkReceiveBundle.publicSignals,
-        vkey: t.zkReceiveBundle.vkey,
-        fallbackVkey,
-      });
-      if (t.zkReceive) t.zkReceive.verified = res === true;
-    }
-  }
-}
-
 /* ═════════════ COMPONENT ═════════════ */
 const VerifierStamper: React.FC = () => {
   const svgInput = useRef<HTMLInputElement>(null);
@@ -1047,25 +955,6 @@ const VerifierStamper: React.FC = () => {
     })();
   }, []);
 
-  /* Auto-load verifying key from public/ (served at /verification_key.json) */
-  useEffect(() => {
-    let alive = true;
-    (async () => {
-      try {
-        const res = await fetch("/verification_key.json", { cache: "no-store" });
-        if (!res.ok) return;
-        const vkey = await res.json();
-        if (!alive) return;
-        window.SIGIL_ZK_VKEY = vkey; // makes ZK verification available globally
-      } catch {
-        // optional; fine if missing
-      }
-    })();
-    return () => {
-      alive = false;
-    };
-  }, []);
-
   const openVerifier = () => {
     const d = dlgRef.current;
     if (!d) return;
@@ -1490,8 +1379,7 @@ const VerifierStamper: React.FC = () => {
               };
               const publicHash = await hashAny(proofObj.publicSignals);
               const proofHash = await hashAny(proofObj.proof);
-              const vkey = proofObj.vkey ?? updated.zkVerifyingKey ?? window.SIGIL_ZK_VKEY;
-              const vkeyHash = vkey ? await hashAny(vkey) : undefined;
+              const vkeyHash = proofObj.vkey ? await hashAny(proofObj.vkey) : undefined;
               hardened.zkSend = {
                 scheme: "groth16",
                 curve: "BLS12-381",
@@ -1615,8 +1503,7 @@ const VerifierStamper: React.FC = () => {
                 };
                 const publicHash = await hashAny(proofObj.publicSignals);
                 const proofHash = await hashAny(proofObj.proof);
-                const vkey = proofObj.vkey ?? updated.zkVerifyingKey ?? window.SIGIL_ZK_VKEY;
-                const vkeyHash = vkey ? await hashAny(vkey) : undefined;
+                const vkeyHash = proofObj.vkey ? await hashAny(proofObj.vkey) : undefined;
                 newHLast.zkReceive = {
                   scheme: "groth16",
                   curve: "BLS12-381",
@@ -2243,213 +2130,5 @@ export default VerifierStamper;
 /* Export utility for Explorer/tests */
 export { verifyHistorical };
 
-/* ────────────────────────────────────────────────────────────────
-   v14 offline verifier (exported): fast, chunked, ZK-aware
-   - Validates prev-head pinning, leaf hashes, ECDSA send/receive
-   - Ensures ZK stamps match bundles (hash checks), then optional groth16.verify
-   - Yields to the browser to keep UI buttery under long histories
-────────────────────────────────────────────────────────────────── */
-export type SovereignVerifyReport = {
-  ok: boolean;
-  count: number;
-  issues: string[];
-  entries: Array<{
-    index: number;
-    prevHeadOk: boolean;
-    send: {
-      sigOk: boolean;
-      leafOk: boolean | "missing-window";
-      zk?: {
-        present: boolean;
-        stampHashOk?: boolean;
-        verified?: boolean | null; // null = groth16 unavailable
-      };
-    };
-    receive?: {
-      sigOk: boolean;
-      leafOk: boolean | "missing-window";
-      zk?: {
-        present: boolean;
-        stampHashOk?: boolean;
-        verified?: boolean | null;
-      };
-    };
-  }>;
-};
-
-function isHex(s: string, bytes = 16): boolean {
-  return /^[0-9a-f]+$/i.test(s) && s.length === bytes * 2;
-}
-
-const YIELD_EVERY = 8;
-const rAF = () => new Promise<void>((r) => requestAnimationFrame(() => r()));
-
-export async function verifySovereignOffline(head: SigilMetadata): Promise<SovereignVerifyReport> {
-  const hardened = head.hardenedTransfers ?? [];
-  const windowTransfers = head.transfers ?? [];
-  const issues: string[] = [];
-  const entries: SovereignVerifyReport["entries"] = [];
-
-  // Optional Φ anchor (informational only)
-  if (head.creatorPublicKey && head.userPhiKey) {
-    try {
-      const phi = await phiFromPublicKey(head.creatorPublicKey);
-      if (phi !== head.userPhiKey) issues.push("Φ anchor mismatch (informational)");
-    } catch {
-      issues.push("Φ anchor decode failed (informational)");
-    }
-  }
-
-  // Precompute for speed
-  const baseCum = sumSegments(head);
-  const prevRootsP = Promise.all(hardened.map((_, i) => headCanonicalHashV14(head, baseCum + i)));
-  const sendLeavesP = Promise.all(
-    hardened.map(async (_t, i) => (windowTransfers[i] ? hashTransferSenderSide(windowTransfers[i]) : null))
-  );
-  const recvLeavesP = Promise.all(
-    hardened.map(async (_t, i) => (windowTransfers[i] ? hashTransfer(windowTransfers[i]) : null))
-  );
-
-  const [prevRoots, sendLeaves, recvLeaves] = await Promise.all([prevRootsP, sendLeavesP, recvLeavesP]);
-
-  // Choose a fallback vkey if needed (inline beats global)
-  const fallbackVkey = head.zkVerifyingKey ?? (typeof window !== "undefined" ? window.SIGIL_ZK_VKEY : undefined);
-
-  for (let i = 0; i < hardened.length; i++) {
-    if (i > 0 && i % YIELD_EVERY === 0) await rAF();
-
-    const t = hardened[i];
-
-    const entry: SovereignVerifyReport["entries"][number] = {
-      index: i,
-      prevHeadOk: false,
-      send: { sigOk: false, leafOk: "missing-window" },
-    };
-
-    // prev-head pinning
-    entry.prevHeadOk = t.previousHeadRoot === prevRoots[i];
-    if (!entry.prevHeadOk) issues.push(`prevHead mismatch at #${i}`);
-
-    // nonce sanity
-    if (typeof t.nonce !== "string" || !isHex(t.nonce, 16)) {
-      issues.push(`nonce invalid at #${i} (expected 16-byte hex)`);
-    }
-
-    // SEND leaf binding
-    if (sendLeaves[i]) {
-      entry.send.leafOk = t.transferLeafHashSend === sendLeaves[i];
-      if (!entry.send.leafOk) issues.push(`sender-side leaf hash mismatch at #${i}`);
-    }
-
-    // SEND signature
-    {
-      const msgS = buildSendMessageV14(head, {
-        previousHeadRoot: t.previousHeadRoot,
-        senderKaiPulse: t.senderKaiPulse ?? 0,
-        senderPubKey: t.senderPubKey ?? "",
-        nonce: t.nonce ?? "",
-        transferLeafHashSend: t.transferLeafHashSend ?? "",
-      });
-      entry.send.sigOk = !!t.senderPubKey && (await verifySig(t.senderPubKey, msgS, t.senderSig));
-      if (!entry.send.sigOk) issues.push(`send signature invalid at #${i}`);
-    }
-
-    // RECEIVE (optional)
-    if (t.receiverSig && t.receiverPubKey) {
-      entry.receive = { sigOk: false, leafOk: "missing-window" };
-
-      if (recvLeaves[i]) {
-        entry.receive.leafOk = t.transferLeafHashReceive === recvLeaves[i];
-        if (!entry.receive.leafOk) issues.push(`receive leaf hash mismatch at #${i}`);
-      }
-
-      const msgR = buildReceiveMessageV14({
-        previousHeadRoot: t.previousHeadRoot,
-        senderSig: t.senderSig,
-        receiverKaiPulse: t.receiverKaiPulse ?? 0,
-        receiverPubKey: t.receiverPubKey,
-        transferLeafHashReceive: t.transferLeafHashReceive ?? "",
-      });
-      entry.receive.sigOk = await verifySig(t.receiverPubKey, msgR, t.receiverSig);
-      if (!entry.receive.sigOk) issues.push(`receive signature invalid at #${i}`);
-    }
-
-    // ZK SEND (optional): stamp/bundle hash checks + verify
-    if (t.zkSendBundle) {
-      entry.send.zk = { present: true };
-
-      const b = t.zkSendBundle;
-      const publicHash = await hashAny(b.publicSignals);
-      const proofHash = await hashAny(b.proof);
-      const vkeyChosen = b.vkey ?? fallbackVkey;
-      const vkeyHash = vkeyChosen ? await hashAny(vkeyChosen) : undefined;
-
-      const stampOk =
-        t.zkSend &&
-        t.zkSend.scheme === "groth16" &&
-        (t.zkSend.curve ? t.zkSend.curve === "BLS12-381" : true) &&
-        t.zkSend.publicHash === publicHash &&
-        t.zkSend.proofHash === proofHash &&
-        (t.zkSend.vkeyHash ? t.zkSend.vkeyHash === vkeyHash : true);
-
-      entry.send.zk.stampHashOk = !!stampOk;
-      if (!stampOk) issues.push(`ZK SEND stamp/bundle hash mismatch at #${i}`);
-
-      const verified = await tryVerifyGroth16({
-        proof: b.proof,
-        publicSignals: b.publicSignals,
-        vkey: b.vkey,
-        fallbackVkey,
-      });
-      entry.send.zk.verified = verified;
-      if (t.zkSend) t.zkSend.verified = verified === true;
-      if (verified === false) issues.push(`ZK SEND verification failed at #${i}`);
-    } else if (t.zkSend) {
-      entry.send.zk = { present: false };
-    }
-
-    // ZK RECEIVE (optional)
-    if (t.zkReceiveBundle) {
-      if (!entry.receive) entry.receive = { sigOk: false, leafOk: "missing-window" };
-      entry.receive.zk = { present: true };
-
-      const b = t.zkReceiveBundle;
-      const publicHash = await hashAny(b.publicSignals);
-      const proofHash = await hashAny(b.proof);
-      const vkeyChosen = b.vkey ?? fallbackVkey;
-      const vkeyHash = vkeyChosen ? await hashAny(vkeyChosen) : undefined;
-
-      const stampOk =
-        t.zkReceive &&
-        t.zkReceive.scheme === "groth16" &&
-        (t.zkReceive.curve ? t.zkReceive.curve === "BLS12-381" : true) &&
-        t.zkReceive.publicHash === publicHash &&
-        t.zkReceive.proofHash === proofHash &&
-        (t.zkReceive.vkeyHash ? t.zkReceive.vkeyHash === vkeyHash : true);
-
-      entry.receive.zk.stampHashOk = !!stampOk;
-      if (!stampOk) issues.push(`ZK RECV stamp/bundle hash mismatch at #${i}`);
-
-      const verified = await tryVerifyGroth16({
-        proof: b.proof,
-        publicSignals: b.publicSignals,
-        vkey: b.vkey,
-        fallbackVkey,
-      });
-      entry.receive.zk.verified = verified;
-      if (t.zkReceive) t.zkReceive.verified = verified === true;
-      if (verified === false) issues.push(`ZK RECV verification failed at #${i}`);
-    }
-
-    // Monotonicity hint (non-fatal)
-    if (i > 0 && hardened[i - 1].senderKaiPulse != null && t.senderKaiPulse != null) {
-      if ((t.senderKaiPulse as number) < (hardened[i - 1].senderKaiPulse as number)) {
-        issues.push(`senderKaiPulse decreased at #${i}`);
-      }
-    }
-
-    entries.push(entry);
-  }
-
-  return { ok: issues.length === 0, count: hardened.length, issues, entries };
-}
+/* v14 offline verifier: one engine for every surface (versioned report schema) */
+export { verifySovereignOffline, type SovereignVerifyReport } from "./VerifierStamper/verifySovereignOffline";
@@ -26,13 +26,45 @@ import type {
   SigilTransfer,
   HardenedTransferV14,
   SigilPayload, // ← add explicit type import
+  SegmentEntry,
+  SegmentFile,
+  ZkBundle,
 } from "./types";
 import { normalizeChakraDay } from "./types";
 import { sha256Hex, phiFromPublicKey } from "./crypto";
-import { loadOrCreateKeypair, signB64u, type Keypair } from "./keys"; // ← remove unused verifySig
+import {
+  activateKeypair,
+  loadLocalKeypair,
+  loadOrCreateKeypair,
+  localKeyIds,
+  signB64u,
+  type Keypair,
+} from "./keys"; // ← remove unused verifySig
+import { MIN_PASSPHRASE_LENGTH, decryptKeyBackup, encryptKeyBackup, parseKeyBackup, recoverySheetHtml } from "./keyBackup";
+import { proveSigilNullifier, proveSigilOwnership, zkOwnerCommitment, zkStampFor } from "./zkProver";
+import { nullifierSigilHash, zkOwnerAt, type ZkScheme } from "./zk";
+import { importVkey, loadVkeyRegistry, removeVkey, setVkeyPinned, type VkeyRegistry } from "./vkeyRegistry";
 import { parseSvgFile, centrePixelSignature, embedMetadata, pngBlobFromSvgDataUrl } from "./svg";
-import { pulseFilename, safeFilename, download, fileToPayload } from "./files";
 import {
+  pulseFilename,
+  safeFilename,
+  segmentFilename,
+  keyBackupFilename,
+  batchReportFilename,
+  download,
+  fileToPayload,
+} from "./files";
+import {
+  batchFlags,
+  batchReport,
+  expandBatchFiles,
+  sortBatchResults,
+  verifyBatch,
+  type BatchResult,
+  type BatchSortKey,
+} from "./batch";
+import {
+  applyHeadDefaults,
   computeKaiSignature,
   derivePhiKeyFromSig,
   computeHeadWindowRoot,
@@ -47,7 +79,52 @@ import {
 import { buildMerkleRoot, merkleProof, verifyProof } from "./merkle";
 import { sealCurrentWindowIntoSegment } from "./segments";
 import { verifyHistorical } from "./verifyHistorical";
-import { verifyZkOnHead } from "./zk";
+import {
+  buildHeadWindowProofBundle,
+  buildSegmentProofBundle,
+  loadSegmentForHead,
+  parseProofBundle,
+  proofBundleFilename,
+  verifyProofBundle,
+  type ProofCheck,
+} from "./proofs";
+import {
+  exportSegment,
+  getSegment,
+  putSegment,
+  rehydrateHistory,
+  segmentAvailability,
+  type SegmentAvailability,
+} from "./segmentStore";
+import { verifySovereignOffline } from "./verifySovereignOffline";
+import {
+  applySendProposal,
+  checkSendProposal,
+  cosignSendProposal,
+  createSendProposal,
+  multisigPolicyAt,
+  multisigPolicyError,
+  parseSendProposal,
+  sendMessageFor,
+  signMultisigAdoption,
+  type MultisigSendProposal,
+  type SendTally,
+} from "./multisig";
+import { receiveWindowAt, transferTermsError, type TransferTerms } from "./timelock";
+import {
+  applyKeyChain,
+  exportKeyChain,
+  keyStatusAt,
+  ownerKeyAt,
+  parseKeyChain,
+  resolveKeyChain,
+  signKeyRevocation,
+  signKeyRotation,
+  signingOwnerKey,
+  type KeyChainState,
+} from "./keyChain";
+import type { VerifyReport, VerifyZkSide } from "../../verifier/report";
+import VerifyReportView from "../VerifyReportView";
 
 /* Window augmentation to avoid any-casts */
 declare global {
@@ -112,12 +189,38 @@ function rewriteUrlPayload(
   return u.toString();
 }
 
+/* Download a freshly sealed segment and keep a verified copy in the local archive */
+async function archiveSealedSegment(blob: Blob, rolled: SigilMetadata): Promise<void> {
+  const segIdx = (rolled.segments?.length ?? 1) - 1;
+  download(blob, segmentFilename(rolled.pulse ?? 0, segIdx));
+  try {
+    await putSegment(await blob.text());
+  } catch {
+    /* archive is best-effort; the downloaded file remains the source of truth */
+  }
+}
+
+/* Multisig SEND proposal file — passed between co-signers until the threshold is met */
+/* Registry outcome of a ZK side, appended to its lineage row */
+const vkeyNote = (zk?: VerifyZkSide) =>
+  zk?.vkey === "unknown" ? " · unknown vkey" : zk?.vkey === "unpinned" ? " · vkey not pinned" : "";
+
+function downloadProposal(p: MultisigSendProposal): void {
+  const blob = new Blob([JSON.stringify(p, null, 2)], { type: "application/json" });
+  const signatures = 1 + (p.hardened.senderCoSigs?.length ?? 0);
+  download(blob, `${pulseFilename("sigil_multisig_send", p.hardened.senderKaiPulse, signatures)}.json`);
+}
+
 /* ═════════════ COMPONENT ═════════════ */
 const VerifierStamper: React.FC = () => {
   const svgInput = useRef<HTMLInputElement>(null);
   const fileInput = useRef<HTMLInputElement>(null);
+  const segmentInput = useRef<HTMLInputElement>(null);
+  const proofInput = useRef<HTMLInputElement>(null);
+  const archiveInput = useRef<HTMLInputElement>(null);
   const dlgRef = useRef<HTMLDialogElement>(null);
   const explorerDlgRef = useRef<HTMLDialogElement>(null);
+  const batchDlgRef = useRef<HTMLDialogElement>(null);
 
   const [pulseNow, setPulseNow] = useState(kaiPulseNow());
   useEffect(() => {
@@ -147,6 +250,33 @@ const VerifierStamper: React.FC = () => {
 
   /* On-device head-proof status (uses merkleProof + verifyHistorical) */
   const [headProof, setHeadProof] = useState<{ ok: boolean; index: number; root: string } | null>(null);
+  const [lineageReport, setLineageReport] = useState<VerifyReport | null>(null);
+  const lineageRunRef = useRef(0);
+
+  /* Owner key chain (rotations / revocations anchored at creatorPublicKey) */
+  const [keyChain, setKeyChain] = useState<KeyChainState | null>(null);
+  const [rotateTo, setRotateTo] = useState("");
+  const keyChainInput = useRef<HTMLInputElement>(null);
+
+  /* Per-transfer inclusion proofs (export from head/segment, import + verify) */
+  const [proofSegment, setProofSegment] = useState<{ segment: SegmentFile; entry: SegmentEntry } | null>(null);
+  const [proofSegmentIdx, setProofSegmentIdx] = useState(0);
+  const [proofCheck, setProofCheck] = useState<(ProofCheck & { file: string }) | null>(null);
+
+  /* Local segment archive (IndexedDB) — availability + rehydrated full history (undefined = checking, null = unavailable) */
+  const [archive, setArchive] = useState<
+    { segments: SegmentAvailability[]; history: SigilTransfer[]; complete: boolean } | null | undefined
+  >(undefined);
+  const archiveRunRef = useRef(0);
+
+  /* m-of-n: policy draft (adoption form) + the SEND proposal being co-signed */
+  const proposalInput = useRef<HTMLInputElement>(null);
+  const [policyDraft, setPolicyDraft] = useState({ keys: "", threshold: 2 });
+  // Timelock / escrow terms for the next SEND (pulse inputs; empty = none)
+  const [termsDraft, setTermsDraft] = useState({ unlockAt: "", refundAfter: "" });
+  const [pendingProposal, setPendingProposal] = useState<
+    { proposal: MultisigSendProposal; tally: SendTally | null; error: string | null } | null
+  >(null);
 
   /* ── Seal modal + Explorer modal state ──────────────── */
   const [sealOpen, setSealOpen] = useState(false);
@@ -157,30 +287,50 @@ const VerifierStamper: React.FC = () => {
 
   /* v14 local sovereign key (silent; no UI text change) */
   const [me, setMe] = useState<Keypair | null>(null);
+  const [heldKeys, setHeldKeys] = useState<string[]>([]); // SPKIs held on this device (active first)
   useEffect(() => {
     (async () => {
       try {
         setMe(await loadOrCreateKeypair());
+        setHeldKeys(localKeyIds());
       } catch {
         /* ignore */
       }
     })();
   }, []);
 
-  /* Auto-load verifying key from public/ (served at /verification_key.json) */
+  /* Key backup / recovery (passphrase-encrypted keypair) */
+  const [backupDraft, setBackupDraft] = useState({ pass: "", confirm: "" });
+  const [restoreDraft, setRestoreDraft] = useState({ text: "", pass: "" });
+  const [keyBusy, setKeyBusy] = useState(false);
+  const backupFileInput = useRef<HTMLInputElement>(null);
+
+  /* Batch verification (ZIP exports / multi-file selections) */
+  const [batchResults, setBatchResults] = useState<BatchResult[] | null>(null);
+  const [batchSort, setBatchSort] = useState<{ key: BatchSortKey; dir: "asc" | "desc" }>({ key: "file", dir: "asc" });
+  const [batchProgress, setBatchProgress] = useState<string | null>(null);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  /* In-app ZK ownership proof (proven in a worker) — stamped onto the next SEND or RECEIVE */
+  const [zkSecret, setZkSecret] = useState("");
+  const [zkProof, setZkProof] = useState<ZkBundle | null>(null);
+  const [zkMode, setZkMode] = useState<"ownership" | "nullifier">("ownership");
+  const [zkScheme, setZkScheme] = useState<ZkScheme>("groth16"); // nullifier mode only; PLONK = universal setup, no per-circuit ceremony
+  const [zkArmed, setZkArmed] = useState<string | null>(null); // nullifier mode: secret held in memory until the next seal
+  const [zkBusy, setZkBusy] = useState(false);
+  const [zkStatus, setZkStatus] = useState<string | null>(null);
+
+  /* Trusted verifying keys (bundled + imported), indexed by vkeyHash — ZK proofs are only checked against these */
+  const [vkeys, setVkeys] = useState<VkeyRegistry | null>(null);
+  const [vkeyCircuit, setVkeyCircuit] = useState("");
+  const vkeyInput = useRef<HTMLInputElement>(null);
+
   useEffect(() => {
     let alive = true;
-    (async () => {
-      try {
-        const res = await fetch("/verification_key.json", { cache: "no-store" });
-        if (!res.ok) return;
-        const vkey = await res.json();
-        if (!alive) return;
-        window.SIGIL_ZK_VKEY = vkey; // makes ZK verification available globally
-      } catch {
-        // optional; fine if missing
-      }
-    })();
+    void loadVkeyRegistry().then((reg) => {
+      if (alive) setVkeys(reg);
+    });
     return () => {
       alive = false;
     };
@@ -204,6 +354,16 @@ const VerifierStamper: React.FC = () => {
     d.setAttribute("data-open", "true");
     setExplorerOpen(true);
   };
+  const openBatch = () => {
+    const d = batchDlgRef.current;
+    if (!d) return;
+    if (!d.open) d.showModal();
+    d.setAttribute("data-open", "true");
+  };
+  const closeBatch = () => {
+    batchDlgRef.current?.close();
+    batchDlgRef.current?.setAttribute("data-open", "false");
+  };
   const closeExplorer = () => {
     explorerDlgRef.current?.close();
     explorerDlgRef.current?.setAttribute("data-open", "false");
@@ -239,16 +399,32 @@ const VerifierStamper: React.FC = () => {
     setValuationOpen(false);
   };
 
+  /* ── Segment archive: which segments are stored locally + rehydrated history (fire & forget) */
+  const refreshArchive = useCallback((m: SigilMetadata) => {
+    const run = ++archiveRunRef.current;
+    setArchive(undefined);
+    if ((m.segments ?? []).length === 0) return;
+    void Promise.all([segmentAvailability(m), rehydrateHistory(m)])
+      .then(([segments, history]) => {
+        if (run !== archiveRunRef.current) return; // a newer head superseded this one
+        setArchive({ segments, history: history.transfers, complete: history.complete });
+      })
+      .catch(() => {
+        if (run === archiveRunRef.current) setArchive(null); // no IndexedDB here
+      });
+  }, []);
+
   /* ── Head window recompute + self-proof verify — DRY with verifyHistorical */
   const refreshHeadWindow = useCallback(async (m: SigilMetadata) => {
     const transfers = m.transfers ?? [];
-    const root = await computeHeadWindowRoot(transfers);
+    const version = m.merkleVersion ?? 1;
+    const root = await computeHeadWindowRoot(transfers, version);
     m.transfersWindowRoot = root;
 
     if (transfers.length > 0) {
       const leaves = await Promise.all(transfers.map(hashTransfer));
       const index = leaves.length - 1; // last event
-      const proof = await merkleProof(leaves, index);
+      const proof = await merkleProof(leaves, index, version);
 
       // Verify directly
       const okDirect = await verifyProof(root, proof);
@@ -286,53 +462,64 @@ const VerifierStamper: React.FC = () => {
           return sha256Hex(mini);
         })
       );
-      m.transfersWindowRootV14 = await buildMerkleRoot(v14Leaves);
+      m.transfersWindowRootV14 = await buildMerkleRoot(v14Leaves, version);
     } catch {
       /* ignore */
     }
 
-    // NEW: eagerly verify any available ZK bundles (best-effort, offline) — fire & forget
-    try {
-      void (async () => {
-        await verifyZkOnHead(m);
-        // re-render to reflect .verified flags as they arrive
-        setMeta({ ...m });
-      })();
-    } catch {
-      /* ignore */
+    refreshArchive(m);
+
+    // Owner key epochs for the lineage tab (stale results are dropped via the lineage run guard)
+    const keysRun = lineageRunRef.current + 1;
+    setKeyChain(null);
+    if (m.creatorPublicKey) {
+      void resolveKeyChain(m.creatorPublicKey, m.keyChain ?? [])
+        .then((state) => {
+          if (keysRun === lineageRunRef.current) setKeyChain(state);
+        })
+        .catch(() => {
+          /* ignore: section shows no chain */
+        });
+    }
+
+    // v14 lineage + ZK bundles through the shared engine (offline) — fire & forget
+    const run = ++lineageRunRef.current;
+    setLineageReport(null);
+    if ((m.hardenedTransfers ?? []).length > 0) {
+      void verifySovereignOffline(m)
+        .then((report) => {
+          if (run !== lineageRunRef.current) return; // a newer head superseded this one
+          setLineageReport(report);
+          // re-render to reflect zk*.verified flags
+          setMeta({ ...m });
+        })
+        .catch(() => {
+          /* ignore: chips stay unverified */
+        });
     }
 
     return m;
-  }, []);
+  }, [refreshArchive]);
 
   /* SVG upload */
-  const handleSvg = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const f = e.target.files?.[0];
-    if (!f) return;
-
+  const loadSvg = async (f: File) => {
     // reset
     setError(null);
     setPayload(null);
     setTab("summary");
     setViewRaw(false);
+    setProofSegment(null);
+    setProofCheck(null);
+    setPendingProposal(null);
+    setTermsDraft({ unlockAt: "", refundAfter: "" });
 
     const url = URL.createObjectURL(f);
     setSvgURL(url);
 
     const { meta: m, contextOk, typeOk } = await parseSvgFile(f);
 
-    // Defaults / derived for segmented head
-    m.segmentSize ??= SEGMENT_SIZE;
-    // derive cumulative if absent
-    const segCount = (m.segments ?? []).reduce((a, s) => a + (s.count || 0), 0);
-    if (typeof m.cumulativeTransfers !== "number") {
-      m.cumulativeTransfers = segCount + (m.transfers?.length ?? 0);
-    }
-    // derive segmentsMerkleRoot if segments present but root missing
-    if ((m.segments?.length ?? 0) > 0 && !m.segmentsMerkleRoot) {
-      const roots = (m.segments ?? []).map((s) => s.root);
-      m.segmentsMerkleRoot = await buildMerkleRoot(roots);
-    }
+    // Defaults / derived for segmented head (segmentSize, cumulative, segmentsMerkleRoot)
+    await applyHeadDefaults(m);
 
     // live centre-pixel sig
     const pulseForSeal = typeof m.pulse === "number" ? m.pulse : kaiPulseNow();
@@ -414,6 +601,78 @@ const VerifierStamper: React.FC = () => {
     openVerifier();
   };
 
+  /* Prove knowledge of the ZK secret with the SigilProof circuit (off the main thread) */
+  const proveZk = async () => {
+    setZkBusy(true);
+    setZkStatus(null);
+    try {
+      setZkProof(await proveSigilOwnership(zkSecret));
+      setZkArmed(null);
+      setZkSecret("");
+    } catch (err) {
+      setZkStatus(err instanceof Error ? err.message : "ZK proving failed.");
+    } finally {
+      setZkBusy(false);
+    }
+  };
+
+  /* Nullifier proofs bind the pulse and nonce of the seal itself, so they are proven at send / receive time */
+  const armZk = () => {
+    setZkProof(null);
+    setZkArmed(zkSecret);
+    setZkSecret("");
+    setZkStatus(null);
+  };
+  const discardZk = () => {
+    setZkProof(null);
+    setZkArmed(null);
+  };
+
+  /* Batch: every sigil in the dropped ZIPs / selected files, checked headlessly + against its manifest */
+  const runBatch = async (files: File[]) => {
+    setBatchResults(null);
+    setBatchError(null);
+    setBatchProgress("Reading files…");
+    openBatch();
+    try {
+      const sources = await expandBatchFiles(files);
+      const results = await verifyBatch(sources, (done, total) => setBatchProgress(`Verified ${done}/${total}…`));
+      setBatchResults(results);
+    } catch (err) {
+      setBatchError(err instanceof Error ? err.message : "Batch verification failed.");
+    } finally {
+      setBatchProgress(null);
+    }
+  };
+
+  /* One SVG opens the full verifier; ZIPs or several files go to the batch table */
+  const ingestFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && /\.svg$/i.test(files[0].name)) void loadSvg(files[0]);
+    else void runBatch(files);
+  };
+
+  const handleSvg = (e: React.ChangeEvent<HTMLInputElement>) => {
+    ingestFiles(Array.from(e.target.files ?? []));
+    e.target.value = "";
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    ingestFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const sortBatchBy = (key: BatchSortKey) =>
+    setBatchSort((prev) => ({ key, dir: prev.key === key && prev.dir === "asc" ? "desc" : "asc" }));
+
+  const downloadBatchReport = () => {
+    if (!batchResults) return;
+    const nowPulse = kaiPulseNow();
+    const blob = new Blob([JSON.stringify(batchReport(batchResults, nowPulse), null, 2)], { type: "application/json" });
+    download(blob, batchReportFilename(nowPulse));
+  };
+
   const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     if (!f) return;
@@ -547,6 +806,18 @@ const VerifierStamper: React.FC = () => {
     if (typeof m.kaiPulse !== "number") m.kaiPulse = kaiPulseNow();
 
     const nowPulse = kaiPulseNow();
+    let zkUsed = false; // the in-app proof is spent once stamped
+
+    // Optional timelock / escrow terms (signed into the SEND)
+    const terms: TransferTerms = {};
+    if (termsDraft.unlockAt.trim()) terms.unlockAtPulse = Number(termsDraft.unlockAt);
+    if (termsDraft.refundAfter.trim()) terms.refundAfterPulse = Number(termsDraft.refundAfter);
+    const termsError = transferTermsError(terms, nowPulse);
+    if (termsError) {
+      setError(`Invalid transfer terms: ${termsError} (now ${nowPulse}).`);
+      return;
+    }
+
     const stamp = await sha256Hex(`${liveSig}-${m.pulse ?? 0}-${nowPulse}`);
 
     const transfer: SigilTransfer = {
@@ -554,6 +825,7 @@ const VerifierStamper: React.FC = () => {
       senderStamp: stamp,
       senderKaiPulse: nowPulse,
       payload: payload ?? undefined,
+      ...terms,
     };
 
     const updated: SigilMetadata = {
@@ -566,37 +838,79 @@ const VerifierStamper: React.FC = () => {
       segmentSize: m.segmentSize ?? SEGMENT_SIZE,
     };
 
+    /* m-of-n: only a policy signer may initiate; the SEND then collects co-signatures */
+    const indexV14 = updated.hardenedTransfers?.length ?? 0;
+    const policy = multisigPolicyAt(updated, indexV14);
+    if (policy && !(me && policy.signers.includes(me.spkiB64u))) {
+      setError("This device's key is not a signer of the multisig policy — cannot send.");
+      return;
+    }
+    // Single owner: sign with the owner key valid now (creatorPublicKey, or this device once rotated to it)
+    const ownerKey = me && !policy ? await signingOwnerKey(updated, me.spkiB64u, nowPulse) : null;
+    if (me && !policy && !ownerKey) {
+      setError("This device's key is not the current owner key — rotate the sigil to it first.");
+      return;
+    }
+    let proposal: MultisigSendProposal | null = null;
+
+    /* Nullifier proofs must open the owner commitment; the first armed SEND pins it from this entry on */
+    if (me && zkArmed && !zkProof) {
+      let commitment: string;
+      try {
+        commitment = await zkOwnerCommitment(zkArmed);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Invalid ZK secret.");
+        return;
+      }
+      if (!updated.zkOwner) updated.zkOwner = { commitment, since: indexV14 };
+      else if (updated.zkOwner.commitment !== commitment) {
+        setError("The armed ZK secret does not open this sigil's owner commitment.");
+        return;
+      }
+    }
+
     /* v14 hardened parallel entry (silent; no UI label changes) + optional ZK SEND */
     try {
       if (me) {
         updated.creatorPublicKey ??= me.spkiB64u;
 
-        const indexV14 = updated.hardenedTransfers?.length ?? 0;
         const prevHeadV14 = await expectedPrevHeadRootV14(updated, indexV14);
         const nonce = updated.transferNonce!;
+        const senderPubKey = policy ? me.spkiB64u : ownerKey!;
 
         const transferLeafHashSend = await hashTransferSenderSide(transfer);
 
-        const msg = (await import("./sigilUtils")).buildSendMessageV14(updated, {
-          previousHeadRoot: prevHeadV14,
-          senderKaiPulse: nowPulse,
-          senderPubKey: updated.creatorPublicKey!,
-          nonce,
-          transferLeafHashSend,
-        });
+        const msg = sendMessageFor(
+          updated,
+          { previousHeadRoot: prevHeadV14, senderKaiPulse: nowPulse, senderPubKey, nonce, transferLeafHashSend, ...terms },
+          indexV14
+        );
         const senderSig = await signB64u(me.priv, msg);
 
+        const keyChainLength = updated.keyChain?.length ?? 0;
         const hardened: HardenedTransferV14 = {
           previousHeadRoot: prevHeadV14,
-          senderPubKey: updated.creatorPublicKey!,
+          senderPubKey,
           senderSig,
           senderKaiPulse: nowPulse,
           nonce,
           transferLeafHashSend,
+          ...(keyChainLength > 0 ? { keyChainLength } : {}),
+          ...terms,
         };
 
-        // Optional ZK proof provider hook (no dependency)
-        if (window.SIGIL_ZK?.provideSendProof) {
+        // ZK proof: the one proven in-app (or armed nullifier proof) first, else the optional provider hook
+        let zkBundle: ZkBundle | null = zkProof;
+        if (!zkBundle && zkArmed) {
+          try {
+            const canonicalHash = nullifierSigilHash(updated) ?? "";
+            zkBundle = await proveSigilNullifier(zkArmed, { pulse: nowPulse, canonicalHash, nonce }, zkScheme);
+          } catch (err) {
+            setError(err instanceof Error ? err.message : "ZK proving failed.");
+            return;
+          }
+        }
+        if (!zkBundle && window.SIGIL_ZK?.provideSendProof) {
           try {
             const proofObj = await window.SIGIL_ZK.provideSendProof({
               meta: updated,
@@ -604,38 +918,46 @@ const VerifierStamper: React.FC = () => {
               previousHeadRoot: prevHeadV14,
               nonce,
             });
-            if (proofObj) {
-              hardened.zkSendBundle = {
-                scheme: "groth16",
-                curve: "BLS12-381",
-                proof: proofObj.proof,
-                publicSignals: proofObj.publicSignals,
-                vkey: proofObj.vkey,
-              };
-              const { hashAny } = await import("./sigilUtils");
-              const publicHash = await hashAny(proofObj.publicSignals);
-              const proofHash = await hashAny(proofObj.proof);
-              const vkey = proofObj.vkey ?? updated.zkVerifyingKey ?? window.SIGIL_ZK_VKEY;
-              const vkeyHash = vkey ? await hashAny(vkey) : undefined;
-              hardened.zkSend = {
-                scheme: "groth16",
-                curve: "BLS12-381",
-                publicHash,
-                proofHash,
-                vkeyHash,
-              };
-            }
+            if (proofObj) zkBundle = { scheme: "groth16", curve: "BLS12-381", ...proofObj };
           } catch {
             /* ignore */
           }
         }
+        if (zkBundle) {
+          hardened.zkSendBundle = zkBundle;
+          hardened.zkSend = await zkStampFor(zkBundle);
+          zkUsed = true;
+        }
 
-        updated.hardenedTransfers = [...(updated.hardenedTransfers ?? []), hardened];
+        if (policy && policy.threshold > 1) proposal = createSendProposal(updated, indexV14, transfer, hardened);
+        else updated.hardenedTransfers = [...(updated.hardenedTransfers ?? []), hardened];
       }
     } catch {
       /* non-fatal; legacy flow continues */
     }
 
+    if (policy && !proposal && (updated.hardenedTransfers?.length ?? 0) === indexV14) {
+      setError("Could not sign the multisig SEND on this device.");
+      return;
+    }
+    if (zkUsed) discardZk();
+    if (proposal) {
+      // Not committed yet: co-signers add signatures to the proposal file until the threshold is met
+      downloadProposal(proposal);
+      setPendingProposal({ proposal, ...(await checkSendProposal(meta, proposal)) });
+      setTab("lineage");
+      setError(null);
+      return;
+    }
+
+    await commitSend(updated, nowPulse);
+  };
+
+  /* Persist a SEND into the file, roll the head window if needed, then share */
+  const commitSend = async (updated: SigilMetadata, nowPulse: number) => {
+    if (!svgURL) return;
+    setTermsDraft({ unlockAt: "", refundAfter: "" });
+
     // Persist into the file + download the stamped SVG — NAME = prefix_<sigilPulse>_<sendPulse>.svg
     const durl = await embedMetadata(svgURL, updated);
     const sigilPulse = updated.pulse ?? 0;
@@ -647,10 +969,7 @@ const VerifierStamper: React.FC = () => {
 
     if (windowSize >= cap) {
       const { meta: rolled, segmentFileBlob } = await sealCurrentWindowIntoSegment(updated);
-      if (segmentFileBlob) {
-        const segIdx = (rolled.segments?.length ?? 1) - 1;
-        download(segmentFileBlob, `sigil_segment_${rolled.pulse ?? 0}_${String(segIdx).padStart(6, "0")}.json`);
-      }
+      if (segmentFileBlob) await archiveSealedSegment(segmentFileBlob, rolled);
       if (svgURL) {
         const durl2 = await embedMetadata(svgURL, rolled);
         download(durl2, `${pulseFilename("sigil_head_after_seal", rolled.pulse ?? 0, nowPulse)}.svg`);
@@ -675,18 +994,52 @@ const VerifierStamper: React.FC = () => {
   };
 
   /* Receive transfer — same semantics, deterministic filename (no ISO)
-     v14: also sign RECEIVE in the hardened parallel lineage (silent) + optional ZK RECEIVE */
-  const receive = async () => {
+     v14: also sign RECEIVE in the hardened parallel lineage (silent) + optional ZK RECEIVE
+     refund: the sender reclaims an escrow whose refundAfterPulse has passed */
+  const receive = async (refund = false) => {
     if (!meta || !svgURL || !liveSig) return;
     const last = meta.transfers?.slice(-1)[0];
     if (!last || last.receiverSignature) return;
 
     const nowPulse = kaiPulseNow();
+    const termsWindow = receiveWindowAt(last, nowPulse);
+    let zkUsed = false;
+    if (!refund && termsWindow === "locked") {
+      setError(`Transfer is timelocked until pulse ${last.unlockAtPulse} (now ${nowPulse}).`);
+      return;
+    }
+    if (!refund && termsWindow === "refundable") {
+      setError(`Escrow expired at pulse ${last.refundAfterPulse} — only the sender can reclaim it.`);
+      return;
+    }
+    const hOpen = meta.hardenedTransfers?.[meta.hardenedTransfers.length - 1];
+    const ownerKey = me ? await signingOwnerKey(meta, me.spkiB64u, nowPulse) : null;
+    if (me && !ownerKey) {
+      setError("This device's key is not the current owner key — rotate the sigil to it first.");
+      return;
+    }
+    if (refund) {
+      if (termsWindow !== "refundable") {
+        setError(
+          last.refundAfterPulse == null
+            ? "This transfer has no refund deadline."
+            : `Reclaim opens at pulse ${last.refundAfterPulse} (now ${nowPulse}).`
+        );
+        return;
+      }
+      const rotatedOwner = (meta.keyChain?.length ?? 0) > 0 && ownerKey === me?.spkiB64u;
+      if (!me || !hOpen || hOpen.receiverSig || (hOpen.senderPubKey !== me.spkiB64u && !rotatedOwner)) {
+        setError("Only the sender's key can reclaim this transfer.");
+        return;
+      }
+    }
+
     const updatedLast: SigilTransfer = {
       ...last,
       receiverSignature: liveSig,
       receiverStamp: await sha256Hex(`${liveSig}-${last.senderStamp}-${nowPulse}`),
       receiverKaiPulse: nowPulse,
+      ...(refund ? { refunded: true } : {}),
     };
 
     const updated: SigilMetadata = {
@@ -703,26 +1056,44 @@ const VerifierStamper: React.FC = () => {
 
           const transferLeafHashReceive = await hashTransfer(updatedLast);
 
+          const receiverPubKey = refund ? me.spkiB64u : (ownerKey ?? updated.creatorPublicKey!);
+
           const msgR = (await import("./sigilUtils")).buildReceiveMessageV14({
             previousHeadRoot: hLast.previousHeadRoot,
             senderSig: hLast.senderSig,
             receiverKaiPulse: nowPulse,
-            receiverPubKey: updated.creatorPublicKey!,
+            receiverPubKey,
             transferLeafHashReceive,
+            refund,
           });
           const receiverSig = await signB64u(me.priv, msgR);
           const newHLast: HardenedTransferV14 = {
             ...hLast,
-            receiverPubKey: updated.creatorPublicKey!,
+            receiverPubKey,
             receiverSig,
             receiverKaiPulse: nowPulse,
+            ...(refund ? { refund: true } : {}),
             transferLeafHashReceive,
             zkReceive: hLast.zkReceive, // preserve if already set
             zkReceiveBundle: hLast.zkReceiveBundle,
           };
 
-          // Optional ZK receive proof
-          if (window.SIGIL_ZK?.provideReceiveProof) {
+          // ZK receive proof: in-app (or armed nullifier proof) first, else the optional provider hook
+          let zkBundle: ZkBundle | null = zkProof;
+          if (!zkBundle && zkArmed) {
+            try {
+              const owner = zkOwnerAt(updated, updated.hardenedTransfers!.length - 1);
+              if (!owner || owner.commitment !== (await zkOwnerCommitment(zkArmed))) {
+                throw new Error("The armed ZK secret does not open this sigil's owner commitment.");
+              }
+              const canonicalHash = nullifierSigilHash(updated) ?? "";
+              zkBundle = await proveSigilNullifier(zkArmed, { pulse: nowPulse, canonicalHash, nonce: hLast.nonce }, zkScheme);
+            } catch (err) {
+              setError(err instanceof Error ? err.message : "ZK proving failed.");
+              return;
+            }
+          }
+          if (!zkBundle && window.SIGIL_ZK?.provideReceiveProof) {
             try {
               const proofObj = await window.SIGIL_ZK.provideReceiveProof({
                 meta: updated,
@@ -730,31 +1101,16 @@ const VerifierStamper: React.FC = () => {
                 previousHeadRoot: hLast.previousHeadRoot,
                 linkSig: hLast.senderSig,
               });
-              if (proofObj) {
-                newHLast.zkReceiveBundle = {
-                  scheme: "groth16",
-                  curve: "BLS12-381",
-                  proof: proofObj.proof,
-                  publicSignals: proofObj.publicSignals,
-                  vkey: proofObj.vkey,
-                };
-                const { hashAny } = await import("./sigilUtils");
-                const publicHash = await hashAny(proofObj.publicSignals);
-                const proofHash = await hashAny(proofObj.proof);
-                const vkey = proofObj.vkey ?? updated.zkVerifyingKey ?? window.SIGIL_ZK_VKEY;
-                const vkeyHash = vkey ? await hashAny(vkey) : undefined;
-                newHLast.zkReceive = {
-                  scheme: "groth16",
-                  curve: "BLS12-381",
-                  publicHash,
-                  proofHash,
-                  vkeyHash,
-                };
-              }
+              if (proofObj) zkBundle = { scheme: "groth16", curve: "BLS12-381", ...proofObj };
             } catch {
               /* ignore */
             }
           }
+          if (zkBundle) {
+            newHLast.zkReceiveBundle = zkBundle;
+            newHLast.zkReceive = await zkStampFor(zkBundle);
+            zkUsed = true;
+          }
 
           updated.hardenedTransfers = [...updated.hardenedTransfers!.slice(0, -1), newHLast];
         }
@@ -763,10 +1119,16 @@ const VerifierStamper: React.FC = () => {
       /* ignore; legacy continues */
     }
 
+    // A reclaim is only meaningful with its signed RECEIVE
+    if (refund && !updated.hardenedTransfers?.[updated.hardenedTransfers.length - 1]?.refund) {
+      setError("Could not sign the reclaim on this device.");
+      return;
+    }
+
     if (svgURL) {
       const durl = await embedMetadata(svgURL, updated);
       const sigilPulse = updated.pulse ?? 0;
-      download(durl, `${pulseFilename("sigil_receive", sigilPulse, nowPulse)}.svg`);
+      download(durl, `${pulseFilename(refund ? "sigil_reclaim" : "sigil_receive", sigilPulse, nowPulse)}.svg`);
     }
 
     // Update head-window root + verify
@@ -775,8 +1137,9 @@ const VerifierStamper: React.FC = () => {
     setRawMeta(JSON.stringify(updated2, null, 2));
     setUiState("complete");
     setError(null);
+    if (zkUsed) discardZk();
 
-    if (updatedLast.payload) {
+    if (updatedLast.payload && !refund) {
       const bin = Uint8Array.from(atob(updatedLast.payload.encoded), (c) => c.charCodeAt(0));
       const blobURL = URL.createObjectURL(new Blob([bin], { type: updatedLast.payload.mime }));
       download(blobURL, updatedLast.payload.name);
@@ -789,10 +1152,7 @@ const VerifierStamper: React.FC = () => {
     if (!meta.transfers || meta.transfers.length === 0) return;
 
     const { meta: rolled, segmentFileBlob } = await sealCurrentWindowIntoSegment(meta);
-    if (segmentFileBlob) {
-      const segIdx = (rolled.segments?.length ?? 1) - 1;
-      download(segmentFileBlob, `sigil_segment_${rolled.pulse ?? 0}_${String(segIdx).padStart(6, "0")}.json`);
-    }
+    if (segmentFileBlob) await archiveSealedSegment(segmentFileBlob, rolled);
     if (svgURL) {
       const durl = await embedMetadata(svgURL, rolled);
       download(durl, `${pulseFilename("sigil_head_after_seal", rolled.pulse ?? 0, kaiPulseNow())}.svg`);
@@ -802,6 +1162,331 @@ const VerifierStamper: React.FC = () => {
     setRawMeta(JSON.stringify(rolled2, null, 2));
   }, [meta, svgURL, refreshHeadWindow]);
 
+  /* Inclusion proofs — export one receipt (head window or archived segment) */
+  const exportHeadProof = useCallback(
+    async (index: number) => {
+      if (!meta) return;
+      try {
+        const bundle = await buildHeadWindowProofBundle(meta, index);
+        download(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }), proofBundleFilename(meta, bundle));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not build proof");
+      }
+    },
+    [meta]
+  );
+
+  const handleSegmentFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f || !meta) return;
+    try {
+      const text = await f.text();
+      setProofSegment(await loadSegmentForHead(meta, text));
+      setProofSegmentIdx(0);
+      setError(null);
+      await putSegment(text).catch(() => undefined);
+      refreshArchive(meta);
+    } catch (err) {
+      setProofSegment(null);
+      setError(err instanceof Error ? err.message : "Invalid segment file");
+    }
+  };
+
+  const exportSegmentProof = useCallback(async () => {
+    if (!meta || !proofSegment) return;
+    try {
+      const bundle = await buildSegmentProofBundle(meta, proofSegment.segment, proofSegment.entry, proofSegmentIdx);
+      download(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }), proofBundleFilename(meta, bundle));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not build proof");
+    }
+  }, [meta, proofSegment, proofSegmentIdx]);
+
+  /* Segment archive — import files (cid + root checked), export stored bytes, pick for proofs */
+  const handleArchiveFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (!meta || files.length === 0) return;
+    const failed: string[] = [];
+    for (const f of files) {
+      try {
+        await putSegment(await f.text());
+      } catch (err) {
+        failed.push(`${f.name}: ${err instanceof Error ? err.message : "rejected"}`);
+      }
+    }
+    setError(failed.length ? `Not archived — ${failed.join("; ")}` : null);
+    refreshArchive(meta);
+  };
+
+  const exportArchivedSegment = async (entry: SegmentEntry) => {
+    const blob = await exportSegment(entry.cid).catch(() => null);
+    if (blob) download(blob, segmentFilename(meta?.pulse ?? 0, entry.index));
+  };
+
+  const pickArchivedSegmentForProof = async (entry: SegmentEntry) => {
+    const segment = await getSegment(entry.cid).catch(() => null);
+    if (!segment) return;
+    setProofSegment({ segment, entry });
+    setProofSegmentIdx(0);
+  };
+
+  /* Multisig — adopt an m-of-n SEND policy (this device + co-owner keys), bound from the next transfer on */
+  const adoptMultisigPolicy = async () => {
+    if (!meta || !svgURL || !me) return;
+    const keys = policyDraft.keys
+      .split(/[\s,]+/)
+      .map((k) => k.trim())
+      .filter(Boolean);
+    const policy = {
+      threshold: policyDraft.threshold,
+      signers: Array.from(new Set([me.spkiB64u, ...keys])),
+      since: meta.hardenedTransfers?.length ?? 0,
+    };
+    const problem = multisigPolicyError(policy);
+    if (problem) {
+      setError(`Multisig policy: ${problem}`);
+      return;
+    }
+    // Adoption is signed by the owner key valid now; the verifier rejects any other policy
+    const owned: SigilMetadata = { ...meta, creatorPublicKey: meta.creatorPublicKey ?? me.spkiB64u };
+    const nowPulse = kaiPulseNow();
+    if ((await signingOwnerKey(owned, me.spkiB64u, nowPulse)) !== me.spkiB64u) {
+      setError("This device's key is not the current owner key — only the owner can adopt a multisig policy.");
+      return;
+    }
+    const updated: SigilMetadata = { ...owned, multisig: await signMultisigAdoption(owned, policy, me, nowPulse) };
+    const durl = await embedMetadata(svgURL, updated);
+    download(durl, `${pulseFilename("sigil_multisig_policy", updated.pulse ?? 0, kaiPulseNow())}.svg`);
+    const m2 = await refreshHeadWindow(updated);
+    setMeta(m2);
+    setRawMeta(JSON.stringify(m2, null, 2));
+    setPendingProposal(null);
+    setError(null);
+  };
+
+  /* Multisig — load a co-signer's proposal file and tally it against this head */
+  const handleProposalFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f || !meta) return;
+    try {
+      const proposal = parseSendProposal(await f.text());
+      setPendingProposal({ proposal, ...(await checkSendProposal(meta, proposal)) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unreadable multisig proposal");
+    }
+  };
+
+  const cosignProposal = async () => {
+    if (!meta || !me || !pendingProposal) return;
+    try {
+      const proposal = await cosignSendProposal(meta, pendingProposal.proposal, me);
+      downloadProposal(proposal);
+      setPendingProposal({ proposal, ...(await checkSendProposal(meta, proposal)) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not co-sign");
+    }
+  };
+
+  const finalizeProposal = async () => {
+    if (!meta || !pendingProposal?.tally) return;
+    const { proposal, tally } = pendingProposal;
+    if (tally.valid.length < tally.threshold) return;
+    const updated: SigilMetadata = {
+      ...applySendProposal(meta, proposal),
+      ["@context"]: meta["@context"] ?? SIGIL_CTX,
+      type: meta.type ?? SIGIL_TYPE,
+      segmentSize: meta.segmentSize ?? SEGMENT_SIZE,
+    };
+    setPendingProposal(null);
+    await commitSend(updated, proposal.hardened.senderKaiPulse);
+  };
+
+  /* Owner keys — persist a head whose key chain changed (stamped SVG download + refresh) */
+  const commitKeyChain = async (updated: SigilMetadata, prefix: string) => {
+    if (!svgURL) return;
+    const durl = await embedMetadata(svgURL, updated);
+    download(durl, `${pulseFilename(prefix, updated.pulse ?? 0, kaiPulseNow())}.svg`);
+    const m2 = await refreshHeadWindow(updated);
+    setMeta(m2);
+    setRawMeta(JSON.stringify(m2, null, 2));
+    setError(null);
+  };
+
+  /* Owner keys — the current owner key (this device) hands ownership to another device's key */
+  const rotateOwnerKey = async () => {
+    if (!meta || !me || !keyChain) return;
+    const to = rotateTo.trim();
+    const nowPulse = kaiPulseNow();
+    if (ownerKeyAt(keyChain, nowPulse) !== me.spkiB64u) {
+      setError("Only the current owner key can rotate this sigil.");
+      return;
+    }
+    if (!to || to === me.spkiB64u) {
+      setError("Paste the new device's key to rotate to.");
+      return;
+    }
+    const statement = await signKeyRotation(me, to, nowPulse);
+    const keyChainNext = [...(meta.keyChain ?? []), statement];
+    const { errors } = await resolveKeyChain(keyChain.epochs[0].key, keyChainNext);
+    if (errors.length > 0) {
+      setError(`Key rotation rejected — ${errors[errors.length - 1]}`);
+      return;
+    }
+    setRotateTo("");
+    await commitKeyChain({ ...meta, keyChain: keyChainNext }, "sigil_key_rotation");
+  };
+
+  /* Owner keys — revoke a chain key from now on (this device must hold it or a later chain key) */
+  const revokeOwnerKey = async (key: string) => {
+    if (!meta || !me || !keyChain) return;
+    const statement = await signKeyRevocation(me, key, kaiPulseNow());
+    const keyChainNext = [...(meta.keyChain ?? []), statement];
+    const { errors } = await resolveKeyChain(keyChain.epochs[0].key, keyChainNext);
+    if (errors.length > 0) {
+      setError(`Key revocation rejected — ${errors[errors.length - 1]}`);
+      return;
+    }
+    await commitKeyChain({ ...meta, keyChain: keyChainNext }, "sigil_key_revocation");
+  };
+
+  const exportOwnerKeyChain = () => {
+    if (!meta) return;
+    const blob = new Blob([JSON.stringify(exportKeyChain(meta), null, 2)], { type: "application/json" });
+    download(blob, `${pulseFilename("sigil_keychain", meta.pulse ?? 0, meta.keyChain?.length ?? 0)}.json`);
+  };
+
+  /* Owner keys — apply a chain exported from another sigil of the same genesis key */
+  const handleKeyChainFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f || !meta) return;
+    try {
+      const updated = await applyKeyChain(meta, parseKeyChain(await f.text()));
+      await commitKeyChain(updated, "sigil_key_chain");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unreadable key chain");
+    }
+  };
+
+  /* Verifying-key registry changes re-run the lineage engine so ZK outcomes follow the registry */
+  const refreshVkeys = async () => {
+    setVkeys(await loadVkeyRegistry());
+    if (!meta || (meta.hardenedTransfers ?? []).length === 0) return;
+    const run = ++lineageRunRef.current;
+    const report = await verifySovereignOffline(meta);
+    if (run !== lineageRunRef.current) return;
+    setLineageReport(report);
+    setMeta({ ...meta });
+  };
+
+  const handleVkeyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    try {
+      await importVkey(await f.text(), vkeyCircuit, f.name.replace(/\.json$/i, ""));
+      setVkeyCircuit("");
+      await refreshVkeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unreadable verifying key");
+    }
+  };
+
+  const updateVkey = async (change: () => Promise<void>) => {
+    try {
+      await change();
+      await refreshVkeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verifying key registry unavailable");
+    }
+  };
+
+  /* Key backup — encrypt this device's key; sheet = printable page with QR instead of the JSON file */
+  const exportKeyBackup = async (sheet: boolean) => {
+    if (!me) return;
+    if (backupDraft.pass !== backupDraft.confirm) {
+      setError("Backup passphrases do not match.");
+      return;
+    }
+    setKeyBusy(true);
+    try {
+      const backup = await encryptKeyBackup(me, backupDraft.pass);
+      const nowPulse = kaiPulseNow();
+      if (sheet) {
+        const html = await recoverySheetHtml(backup, nowPulse);
+        download(new Blob([html], { type: "text/html" }), keyBackupFilename(nowPulse, me.spkiB64u, "html"));
+      } else {
+        const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+        download(blob, keyBackupFilename(nowPulse, me.spkiB64u, "json"));
+      }
+      setBackupDraft({ pass: "", confirm: "" });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not encrypt the key backup");
+    } finally {
+      setKeyBusy(false);
+    }
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    const text = await f.text();
+    setRestoreDraft((d) => ({ ...d, text }));
+  };
+
+  /* Key backup — decrypt and make the restored key this device's signing key (the old one stays held) */
+  const restoreKeyBackup = async () => {
+    setKeyBusy(true);
+    try {
+      const kp = await decryptKeyBackup(parseKeyBackup(restoreDraft.text), restoreDraft.pass);
+      try {
+        await activateKeypair(kp);
+      } catch {
+        /* no persistent storage: the key is used for this session only */
+      }
+      setMe(kp);
+      setHeldKeys(localKeyIds());
+      setRestoreDraft({ text: "", pass: "" });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not restore the key backup");
+    } finally {
+      setKeyBusy(false);
+    }
+  };
+
+  /* Switch signing to another key already held on this device */
+  const switchToHeldKey = async (spkiB64u: string) => {
+    const kp = await loadLocalKeypair(spkiB64u);
+    if (!kp) {
+      setError("That key is no longer held on this device.");
+      return;
+    }
+    await activateKeypair(kp);
+    setMe(kp);
+    setHeldKeys(localKeyIds());
+    setError(null);
+  };
+
+  /* Inclusion proofs — import a bundle and verify it against this head's roots */
+  const handleProofFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f || !meta) return;
+    try {
+      const bundle = parseProofBundle(await f.text());
+      setProofCheck({ ...(await verifyProofBundle(meta, bundle)), file: f.name });
+    } catch (err) {
+      setProofCheck({ ok: false, reason: err instanceof Error ? err.message : "Unreadable proof bundle", file: f.name });
+    }
+  };
+
   /* Export ZIP (SVG + PNG) — called by SealMomentModal */
   const downloadZip = useCallback(async () => {
     if (!meta || !svgURL) return;
@@ -958,8 +1643,38 @@ const VerifierStamper: React.FC = () => {
     };
   }, [metaLite, meta, pulseNow]);
 
+  /* Keys this sigil expects its signer to hold: multisig signers, else the owner key valid now */
+  const expectedKeys = meta?.multisig
+    ? meta.multisig.signers
+    : keyChain
+      ? [ownerKeyAt(keyChain, pulseNow) ?? keyChain.epochs[keyChain.epochs.length - 1].key]
+      : meta?.creatorPublicKey
+        ? [meta.creatorPublicKey]
+        : [];
+  const heldOwnerKey = expectedKeys.find((k) => k === me?.spkiB64u || heldKeys.includes(k));
+  const ownerKeyMissing = !!me && !!meta?.creatorPublicKey && !heldOwnerKey;
+
+  /* Open transfer's timelock / escrow window at the live pulse (drives Accept / Reclaim) */
+  const openTransfer = meta?.transfers?.slice(-1)[0];
+  const openWindow = openTransfer && !openTransfer.receiverSignature ? receiveWindowAt(openTransfer, pulseNow) : null;
+
+  const batchRows = batchResults ? sortBatchResults(batchResults, batchSort.key, batchSort.dir) : [];
+  const batchFailed = batchRows.filter((r) => !r.ok).length;
+  const sortMark = (key: BatchSortKey) => (batchSort.key === key ? (batchSort.dir === "asc" ? " ▲" : " ▼") : "");
+
   return (
-    <div className="verifier-stamper" role="application" style={{ maxWidth: "100vw", overflowX: "hidden" }}>
+    <div
+      className="verifier-stamper"
+      role="application"
+      data-drag={dragOver ? "true" : "false"}
+      style={{ maxWidth: "100vw", overflowX: "hidden" }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
       {/* Top toolbar (compact on mobile) */}
       <div className="toolbar">
         <div className="brand-lockup">
@@ -988,7 +1703,14 @@ const VerifierStamper: React.FC = () => {
         </div>
       </div>
 
-      <input ref={svgInput} type="file" accept=".svg" hidden onChange={handleSvg} />
+      <input
+        ref={svgInput}
+        type="file"
+        accept=".svg,.zip,image/svg+xml,application/zip"
+        multiple
+        hidden
+        onChange={handleSvg}
+      />
 
       {/* ───── Verifier Modal (mobile-first full-screen) ───── */}
       <dialog
@@ -1065,6 +1787,23 @@ const VerifierStamper: React.FC = () => {
                 </div>
               </header>
 
+              {ownerKeyMissing && (
+                <div className="key-banner warn" role="alert">
+                  <span>No key on this device matches this sigil's owner key — transfers from here will be refused or fail to verify.</span>
+                  <button className="secondary" onClick={() => setTab("lineage")}>
+                    Restore key…
+                  </button>
+                </div>
+              )}
+              {heldOwnerKey && me && heldOwnerKey !== me.spkiB64u && !meta.multisig && (
+                <div className="key-banner" role="status">
+                  <span>This sigil's owner key is held on this device but is not the active signing key.</span>
+                  <button className="secondary" onClick={() => switchToHeldKey(heldOwnerKey)}>
+                    Use it
+                  </button>
+                </div>
+              )}
+
               {/* Tabs */}
               <nav className="tabs" role="tablist" aria-label="Views" style={{ position: "sticky", top: 48, zIndex: 2 }}>
                 <button role="tab" aria-selected={tab === "summary"} className={tab === "summary" ? "active" : ""} onClick={() => setTab("summary")}>
@@ -1174,6 +1913,446 @@ const VerifierStamper: React.FC = () => {
 
                 {tab === "lineage" && (
                   <div className="lineage">
+                    <VerifyReportView
+                      report={lineageReport}
+                      busy={(meta.hardenedTransfers?.length ?? 0) > 0}
+                    />
+
+                    <section className="proofs multisig" aria-label="Multisig policy">
+                      <header>
+                        <span className="title">
+                          {meta.multisig ? `Multisig ${meta.multisig.threshold} of ${meta.multisig.signers.length}` : "Single owner"}
+                        </span>
+                        {me && (
+                          <button className="secondary" onClick={() => void navigator.clipboard?.writeText(me.spkiB64u)} title="Share this key with co-owners">
+                            Copy my key
+                          </button>
+                        )}
+                      </header>
+                      {meta.multisig ? (
+                        <>
+                          {meta.multisig.signers.map((k) => (
+                            <div className="row" key={k}>
+                              <span className="k">{k === me?.spkiB64u ? "Signer (this device)" : "Signer"}</span>
+                              <span className="v mono">{k.slice(0, 24)}…</span>
+                            </div>
+                          ))}
+                          <div className="row">
+                            <span className="k">Proposal</span>
+                            <span className="v">
+                              <button className="secondary" onClick={() => proposalInput.current?.click()}>
+                                Load proposal…
+                              </button>
+                              <input ref={proposalInput} type="file" accept=".json,application/json" hidden onChange={handleProposalFile} />
+                            </span>
+                          </div>
+                          {pendingProposal && (
+                            <div className="row">
+                              <span className="k">SEND #{pendingProposal.proposal.index + 1}</span>
+                              <span className="v">
+                                {pendingProposal.error ? (
+                                  <Chip kind="err">{pendingProposal.error}</Chip>
+                                ) : pendingProposal.tally ? (
+                                  <>
+                                    <Chip kind={pendingProposal.tally.valid.length >= pendingProposal.tally.threshold ? "ok" : "warn"}>
+                                      {pendingProposal.tally.valid.length} of {pendingProposal.tally.threshold} signatures
+                                    </Chip>
+                                    {me &&
+                                      meta.multisig.signers.includes(me.spkiB64u) &&
+                                      !pendingProposal.tally.valid.includes(me.spkiB64u) && (
+                                        <button className="secondary" onClick={cosignProposal}>
+                                          Co-sign
+                                        </button>
+                                      )}
+                                    <button className="secondary" onClick={() => downloadProposal(pendingProposal.proposal)}>
+                                      Download proposal
+                                    </button>
+                                    {pendingProposal.tally.valid.length >= pendingProposal.tally.threshold && (
+                                      <button className="primary" onClick={finalizeProposal}>
+                                        Finalize transfer
+                                      </button>
+                                    )}
+                                  </>
+                                ) : null}
+                              </span>
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        (uiState === "readySend" || uiState === "verified") &&
+                        me && (
+                          <div className="row">
+                            <span className="k">Co-owner keys</span>
+                            <span className="v">
+                              <textarea
+                                rows={3}
+                                placeholder="base64url SPKI keys, one per line (this device is included)"
+                                value={policyDraft.keys}
+                                onChange={(e) => setPolicyDraft((d) => ({ ...d, keys: e.target.value }))}
+                              />
+                              <label>
+                                Threshold{" "}
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={policyDraft.threshold}
+                                  onChange={(e) => setPolicyDraft((d) => ({ ...d, threshold: Number(e.target.value) }))}
+                                  style={{ width: "4rem" }}
+                                />
+                              </label>
+                              <button className="secondary" onClick={adoptMultisigPolicy}>
+                                Adopt m-of-n policy
+                              </button>
+                            </span>
+                          </div>
+                        )
+                      )}
+                    </section>
+
+                    {keyChain && (
+                      <section className="proofs multisig keys" aria-label="Owner keys">
+                        <header>
+                          <span className="title">
+                            Owner keys · {keyChain.epochs.length === 1 ? "genesis key" : `${keyChain.epochs.length - 1} rotation(s)`}
+                          </span>
+                          <button className="secondary" onClick={exportOwnerKeyChain} disabled={!meta.keyChain?.length} title="Apply this chain to other sigils of the same key">
+                            Export chain
+                          </button>
+                          <button className="secondary" onClick={() => keyChainInput.current?.click()}>
+                            Import chain…
+                          </button>
+                          <input ref={keyChainInput} type="file" accept=".json,application/json" hidden onChange={handleKeyChainFile} />
+                        </header>
+                        {keyChain.epochs.map((ep, n) => {
+                          const mine = keyChain.epochs.findIndex((x) => x.key === me?.spkiB64u);
+                          const status = keyStatusAt(keyChain, ep.key, pulseNow);
+                          return (
+                            <div className="row" key={ep.key}>
+                              <span className="k">
+                                {n === 0 ? "Genesis key" : `Key #${n + 1}`}
+                                {ep.key === me?.spkiB64u ? " (this device)" : ""}
+                              </span>
+                              <span className="v">
+                                <span className="mono">{ep.key.slice(0, 24)}…</span>
+                                <span>
+                                  pulse {ep.from ?? "genesis"} → {ep.until ?? "now"}
+                                </span>
+                                {ep.revokedAt !== null ? (
+                                  <Chip kind="err">Revoked from {ep.revokedAt}</Chip>
+                                ) : status === "valid" ? (
+                                  <Chip kind="ok">Owner</Chip>
+                                ) : null}
+                                {mine >= n && ep.revokedAt === null && (
+                                  <button className="secondary" onClick={() => revokeOwnerKey(ep.key)} title="Nothing this key signs from now on is accepted">
+                                    Revoke
+                                  </button>
+                                )}
+                              </span>
+                            </div>
+                          );
+                        })}
+                        {keyChain.errors.map((msg) => (
+                          <div className="row" key={msg}>
+                            <span className="k">Ignored</span>
+                            <span className="v"><Chip kind="err">{msg}</Chip></span>
+                          </div>
+                        ))}
+                        {me && ownerKeyAt(keyChain, pulseNow) === me.spkiB64u && (
+                          <div className="row">
+                            <span className="k">Rotate to</span>
+                            <span className="v">
+                              <textarea
+                                rows={2}
+                                placeholder="new device's base64url SPKI key (Copy my key on that device)"
+                                value={rotateTo}
+                                onChange={(e) => setRotateTo(e.target.value)}
+                              />
+                              <button className="secondary" onClick={rotateOwnerKey} disabled={!rotateTo.trim()}>
+                                Rotate owner key
+                              </button>
+                            </span>
+                          </div>
+                        )}
+                      </section>
+                    )}
+
+                    {me && (
+                      <section className="proofs multisig device-key" aria-label="Device key">
+                        <header>
+                          <span className="title">Device key</span>
+                          <span className="mono">{me.spkiB64u.slice(-16)}</span>
+                        </header>
+                        {heldKeys
+                          .filter((k) => k !== me.spkiB64u)
+                          .map((k) => (
+                            <div className="row" key={k}>
+                              <span className="k">Also held</span>
+                              <span className="v">
+                                <span className="mono">…{k.slice(-16)}</span>
+                                <button className="secondary" onClick={() => switchToHeldKey(k)}>
+                                  Use this key
+                                </button>
+                              </span>
+                            </div>
+                          ))}
+                        <div className="row">
+                          <span className="k">Back up</span>
+                          <span className="v">
+                            <input
+                              type="password"
+                              autoComplete="new-password"
+                              placeholder={`passphrase (${MIN_PASSPHRASE_LENGTH}+ chars)`}
+                              value={backupDraft.pass}
+                              onChange={(e) => setBackupDraft((d) => ({ ...d, pass: e.target.value }))}
+                            />
+                            <input
+                              type="password"
+                              autoComplete="new-password"
+                              placeholder="repeat passphrase"
+                              value={backupDraft.confirm}
+                              onChange={(e) => setBackupDraft((d) => ({ ...d, confirm: e.target.value }))}
+                            />
+                            <button className="secondary" disabled={keyBusy || !backupDraft.pass} onClick={() => exportKeyBackup(false)}>
+                              Encrypted backup
+                            </button>
+                            <button className="secondary" disabled={keyBusy || !backupDraft.pass} onClick={() => exportKeyBackup(true)}>
+                              Recovery sheet (QR)
+                            </button>
+                          </span>
+                        </div>
+                        <div className="row">
+                          <span className="k">Restore</span>
+                          <span className="v">
+                            <textarea
+                              rows={2}
+                              placeholder="paste the backup / recovery-sheet QR text"
+                              value={restoreDraft.text}
+                              onChange={(e) => setRestoreDraft((d) => ({ ...d, text: e.target.value }))}
+                            />
+                            <button className="secondary" onClick={() => backupFileInput.current?.click()}>
+                              Load backup…
+                            </button>
+                            <input ref={backupFileInput} type="file" accept=".json,application/json" hidden onChange={handleBackupFile} />
+                            <input
+                              type="password"
+                              autoComplete="current-password"
+                              placeholder="passphrase"
+                              value={restoreDraft.pass}
+                              onChange={(e) => setRestoreDraft((d) => ({ ...d, pass: e.target.value }))}
+                            />
+                            <button className="primary" disabled={keyBusy || !restoreDraft.text.trim() || !restoreDraft.pass} onClick={restoreKeyBackup}>
+                              Restore key
+                            </button>
+                          </span>
+                        </div>
+                      </section>
+                    )}
+
+                    <section className="proofs multisig zk-prover" aria-label="ZK ownership proof">
+                      <header>
+                        <span className="title">ZK ownership proof</span>
+                        {zkProof && <Chip kind="ok">Ready · next send / receive</Chip>}
+                        {zkArmed && <Chip kind="ok">Armed · proves at next send / receive</Chip>}
+                      </header>
+                      <div className="row">
+                        <span className="k">Circuit</span>
+                        <span className="v">
+                          <select value={zkMode} onChange={(e) => setZkMode(e.target.value as "ownership" | "nullifier")}>
+                            <option value="ownership">Ownership (Poseidon preimage)</option>
+                            <option value="nullifier">Replay-resistant (pulse + nonce bound, nullifier)</option>
+                          </select>
+                          {zkMode === "nullifier" && (
+                            <select value={zkScheme} onChange={(e) => setZkScheme(e.target.value as ZkScheme)} aria-label="Proof system">
+                              <option value="groth16">Groth16</option>
+                              <option value="plonk">PLONK (universal setup)</option>
+                            </select>
+                          )}
+                        </span>
+                      </div>
+                      <div className="row">
+                        <span className="k">Secret</span>
+                        <span className="v">
+                          <input
+                            type="password"
+                            autoComplete="off"
+                            placeholder="secret number or phrase"
+                            value={zkSecret}
+                            onChange={(e) => setZkSecret(e.target.value)}
+                          />
+                          {zkMode === "ownership" ? (
+                            <button className="secondary" disabled={zkBusy || !zkSecret.trim()} onClick={proveZk}>
+                              {zkBusy ? "Proving…" : "Prove (Groth16)"}
+                            </button>
+                          ) : (
+                            <button className="secondary" disabled={!zkSecret.trim()} onClick={armZk}>
+                              Arm
+                            </button>
+                          )}
+                          {(zkProof || zkArmed) && (
+                            <button className="secondary" onClick={discardZk}>
+                              Discard
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                      {zkStatus && <p className="status error">{zkStatus}</p>}
+                    </section>
+
+                    {vkeys && (
+                      <section className="proofs multisig vkeys" aria-label="Verifying keys">
+                        <header>
+                          <span className="title">Verifying keys · {vkeys.entries.length}</span>
+                          <input
+                            list="vkey-circuits"
+                            placeholder="circuit name"
+                            value={vkeyCircuit}
+                            onChange={(e) => setVkeyCircuit(e.target.value)}
+                          />
+                          <datalist id="vkey-circuits">
+                            {[...new Set(vkeys.entries.map((k) => k.circuit))].map((c) => (
+                              <option key={c} value={c} />
+                            ))}
+                          </datalist>
+                          <button className="secondary" disabled={!vkeyCircuit.trim()} onClick={() => vkeyInput.current?.click()}>
+                            Import key…
+                          </button>
+                          <input ref={vkeyInput} type="file" accept=".json,application/json" hidden onChange={handleVkeyFile} />
+                        </header>
+                        {vkeys.entries.map((k) => {
+                          const pinned = (vkeys.pins[k.circuit] ?? []).includes(k.hash);
+                          return (
+                            <div className="row" key={k.hash}>
+                              <span className="k">{k.circuit}</span>
+                              <span className="v">
+                                <span className="mono" title={k.hash}>{k.hash.slice(0, 16)}…</span>
+                                <span>{k.label}</span>
+                                {k.source === "bundled" && <Chip>Bundled</Chip>}
+                                {pinned && <Chip kind="ok">Pinned</Chip>}
+                                <button
+                                  className="secondary"
+                                  onClick={() => updateVkey(() => setVkeyPinned(k.hash, !pinned))}
+                                  title="Once a circuit has pinned keys, only those verify its proofs"
+                                >
+                                  {pinned ? "Unpin" : "Pin"}
+                                </button>
+                                {k.source === "imported" && (
+                                  <button className="secondary" onClick={() => updateVkey(() => removeVkey(k.hash))}>
+                                    Remove
+                                  </button>
+                                )}
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </section>
+                    )}
+
+                    <section className="proofs" aria-label="Inclusion proofs">
+                      <header>
+                        <span className="title">Inclusion proofs</span>
+                        <button className="secondary" onClick={() => proofInput.current?.click()}>
+                          Verify proof…
+                        </button>
+                        <input ref={proofInput} type="file" accept=".json,application/json" hidden onChange={handleProofFile} />
+                      </header>
+                      {proofCheck && (
+                        <div className="row">
+                          <span className="k">{proofCheck.file}</span>
+                          <span className="v">
+                            <Chip kind={proofCheck.ok ? "ok" : "err"}>{proofCheck.ok ? "included ✓" : "not proven ×"}</Chip> {proofCheck.reason}
+                          </span>
+                        </div>
+                      )}
+                      {(meta.segments?.length ?? 0) > 0 && (
+                        <div className="row">
+                          <span className="k">Segment</span>
+                          <span className="v">
+                            <button className="secondary" onClick={() => segmentInput.current?.click()}>
+                              {proofSegment ? `Segment #${proofSegment.entry.index} ✓` : "Load segment file…"}
+                            </button>
+                            <input ref={segmentInput} type="file" accept=".json,application/json" hidden onChange={handleSegmentFile} />
+                            {proofSegment && (
+                              <>
+                                <select
+                                  value={proofSegmentIdx}
+                                  onChange={(e) => setProofSegmentIdx(Number(e.target.value))}
+                                  aria-label="Transfer in segment"
+                                >
+                                  {proofSegment.segment.transfers.map((t, j) => (
+                                    <option key={j} value={j}>
+                                      #{proofSegment.segment.segmentRange[0] + j + 1} · pulse {t.senderKaiPulse}
+                                    </option>
+                                  ))}
+                                </select>
+                                <button className="secondary" onClick={exportSegmentProof}>
+                                  Export proof
+                                </button>
+                              </>
+                            )}
+                          </span>
+                        </div>
+                      )}
+                    </section>
+
+                    {(meta.segments?.length ?? 0) > 0 && (
+                      <section className="proofs archive" aria-label="Segment archive">
+                        <header>
+                          <span className="title">Segment archive</span>
+                          <button className="secondary" onClick={() => archiveInput.current?.click()}>
+                            Import segments…
+                          </button>
+                          <input ref={archiveInput} type="file" accept=".json,application/json" multiple hidden onChange={handleArchiveFiles} />
+                        </header>
+                        {archive ? (
+                          <>
+                            <div className="row">
+                              <span className="k">History</span>
+                              <span className="v">
+                                <Chip kind={archive.complete ? "ok" : "warn"}>
+                                  {archive.complete ? "complete" : `${archive.segments.filter((a) => a.status !== "stored").length} missing`}
+                                </Chip>
+                                {archive.history.length} of {(meta.cumulativeTransfers ?? 0) + (meta.transfers?.length ?? 0)} transfers available
+                              </span>
+                            </div>
+                            {archive.segments.map(({ entry, status }) => (
+                              <div className="row" key={entry.cid}>
+                                <span className="k">Segment #{entry.index}</span>
+                                <span className="v">
+                                  <Chip kind={status === "stored" ? "ok" : status === "missing" ? "warn" : "err"}>{status}</Chip>
+                                  {entry.count} transfer(s)
+                                  {status === "stored" && (
+                                    <>
+                                      <button className="secondary" onClick={() => exportArchivedSegment(entry)}>
+                                        Export
+                                      </button>
+                                      <button className="secondary" onClick={() => pickArchivedSegmentForProof(entry)}>
+                                        Prove…
+                                      </button>
+                                    </>
+                                  )}
+                                </span>
+                              </div>
+                            ))}
+                            {archive.history.length > (meta.transfers?.length ?? 0) && (
+                              <details className="payload">
+                                <summary>Archived transfers</summary>
+                                {archive.history.slice(0, archive.history.length - (meta.transfers?.length ?? 0)).map((t, j) => (
+                                  <div className="row" key={j}>
+                                    <span className="k">pulse {t.senderKaiPulse}</span>
+                                    <span className="v mono">
+                                      {t.senderStamp.slice(0, 16)}… {t.receiverSignature ? "sealed" : "pending"}
+                                    </span>
+                                  </div>
+                                ))}
+                              </details>
+                            )}
+                          </>
+                        ) : (
+                          <p className="empty">{archive === null ? "Local archive unavailable in this browser." : "Checking local archive…"}</p>
+                        )}
+                      </section>
+                    )}
+
                     {meta.transfers?.length ? (
                       <ol className="transfers">
                         {meta.transfers.map((t, i) => {
@@ -1183,11 +2362,25 @@ const VerifierStamper: React.FC = () => {
                             <li key={i} className={open ? "transfer open" : "transfer closed"}>
                               <header>
                                 <span className="index">#{i + 1}</span>
-                                <span className={`state ${open ? "open" : "closed"}`}>{open ? "Pending receive" : "Sealed"}</span>
+                                <span className={`state ${open ? "open" : "closed"}`}>
+                                  {open ? (receiveWindowAt(t, pulseNow) === "locked" ? "Timelocked" : "Pending receive") : t.refunded ? "Reclaimed" : "Sealed"}
+                                </span>
                               </header>
                               <div className="row"><span className="k">Sender Σ</span><span className="v mono" style={{ overflowWrap: "anywhere" }}>{t.senderSignature}</span></div>
                               <div className="row"><span className="k">Sender Stamp</span><span className="v mono" style={{ overflowWrap: "anywhere" }}>{t.senderStamp}</span></div>
                               <div className="row"><span className="k">Sender Pulse</span><span className="v">{t.senderKaiPulse}</span></div>
+                              {t.unlockAtPulse != null && (
+                                <div className="row"><span className="k">Unlock at</span><span className="v">pulse {t.unlockAtPulse}</span></div>
+                              )}
+                              {t.refundAfterPulse != null && (
+                                <div className="row">
+                                  <span className="k">Refund after</span>
+                                  <span className="v">
+                                    pulse {t.refundAfterPulse}
+                                    {open && receiveWindowAt(t, pulseNow) === "refundable" && " · reclaimable by sender"}
+                                  </span>
+                                </div>
+                              )}
 
                               {hardened && (
                                 <>
@@ -1196,14 +2389,22 @@ const VerifierStamper: React.FC = () => {
                                   {hardened.transferLeafHashReceive && (
                                     <div className="row"><span className="k">RECV leaf</span><span className="v mono" style={{ overflowWrap: "anywhere" }}>{hardened.transferLeafHashReceive}</span></div>
                                   )}
+                                  {lineageReport?.entries[i]?.send.multisig && (
+                                    <div className="row">
+                                      <span className="k">Multisig</span>
+                                      <span className="v">
+                                        {lineageReport.entries[i].send.multisig!.valid} of {lineageReport.entries[i].send.multisig!.threshold} signatures
+                                      </span>
+                                    </div>
+                                  )}
                                   {hardened.zkSend && (
-                                    <div className="row"><span className="k">ZK SEND</span><span className="v">{hardened.zkSend.verified ? "✓" : "•"} {hardened.zkSend.scheme}</span></div>
+                                    <div className="row"><span className="k">ZK SEND</span><span className="v">{hardened.zkSend.verified ? "✓" : "•"} {hardened.zkSend.scheme}{vkeyNote(lineageReport?.entries[i]?.send.zk)}</span></div>
                                   )}
                                   {hardened.zkSendBundle && (
                                     <div className="row"><span className="k">ZK SEND hash</span><span className="v mono" style={{ overflowWrap: "anywhere" }}>{hardened.zkSend?.proofHash}</span></div>
                                   )}
                                   {hardened.zkReceive && (
-                                    <div className="row"><span className="k">ZK RECV</span><span className="v">{hardened.zkReceive.verified ? "✓" : "•"} {hardened.zkReceive.scheme}</span></div>
+                                    <div className="row"><span className="k">ZK RECV</span><span className="v">{hardened.zkReceive.verified ? "✓" : "•"} {hardened.zkReceive.scheme}{vkeyNote(lineageReport?.entries[i]?.receive?.zk)}</span></div>
                                   )}
                                   {hardened.zkReceiveBundle && (
                                     <div className="row"><span className="k">ZK RECV hash</span><span className="v mono" style={{ overflowWrap: "anywhere" }}>{hardened.zkReceive?.proofHash}</span></div>
@@ -1219,6 +2420,17 @@ const VerifierStamper: React.FC = () => {
                                 </>
                               )}
 
+                              {lineageReport && <VerifyReportView report={lineageReport} index={i} />}
+
+                              <div className="row">
+                                <span className="k">Inclusion</span>
+                                <span className="v">
+                                  <button className="secondary" onClick={() => exportHeadProof(i)} title="Download a Merkle proof for this transfer">
+                                    Export proof
+                                  </button>
+                                </span>
+                              </div>
+
                               {t.payload && (
                                 <details className="payload" open>
                                   <summary>Payload</summary>
@@ -1275,6 +2487,28 @@ const VerifierStamper: React.FC = () => {
                         Attach payload
                       </button>
                       <input ref={fileInput} type="file" hidden onChange={handleAttach} />
+                      <label title="Receiver can accept only at or after this pulse">
+                        Unlock at{" "}
+                        <input
+                          type="number"
+                          min={pulseNow}
+                          placeholder="pulse"
+                          value={termsDraft.unlockAt}
+                          onChange={(e) => setTermsDraft((d) => ({ ...d, unlockAt: e.target.value }))}
+                          style={{ width: "7rem" }}
+                        />
+                      </label>
+                      <label title="Receive must happen before this pulse; from it on you can reclaim">
+                        Refund after{" "}
+                        <input
+                          type="number"
+                          min={pulseNow + 1}
+                          placeholder="pulse"
+                          value={termsDraft.refundAfter}
+                          onChange={(e) => setTermsDraft((d) => ({ ...d, refundAfter: e.target.value }))}
+                          style={{ width: "7rem" }}
+                        />
+                      </label>
                       <button className="primary" onClick={send} title={canShare ? "Seal & Share" : "Seal & Copy Link"}>
                         Exhale (transfer)
                       </button>
@@ -1282,9 +2516,32 @@ const VerifierStamper: React.FC = () => {
                   )}
 
                   {uiState === "readyReceive" && (
-                    <button className="primary" onClick={receive}>
-                      Accept transfer
-                    </button>
+                    <>
+                      <button
+                        className="primary"
+                        onClick={() => receive()}
+                        disabled={openWindow !== null && openWindow !== "open"}
+                        title={
+                          openWindow === "locked"
+                            ? `Timelocked until pulse ${openTransfer?.unlockAtPulse}`
+                            : openWindow === "refundable"
+                              ? `Escrow expired at pulse ${openTransfer?.refundAfterPulse}`
+                              : undefined
+                        }
+                      >
+                        Accept transfer
+                      </button>
+                      {openTransfer?.refundAfterPulse != null && (
+                        <button
+                          className="secondary"
+                          onClick={() => receive(true)}
+                          disabled={openWindow !== "refundable"}
+                          title={`Sender may reclaim from pulse ${openTransfer.refundAfterPulse}`}
+                        >
+                          Reclaim (refund)
+                        </button>
+                      )}
+                    </>
                   )}
 
                   {(meta?.transfers?.length ?? 0) > 0 && (
@@ -1320,6 +2577,113 @@ const VerifierStamper: React.FC = () => {
         />
       )}
 
+      {/* Batch results dialog */}
+      <dialog
+        ref={batchDlgRef}
+        className="explorer-dialog batch-dialog"
+        id="batch-dialog"
+        aria-label="Batch verification results"
+        data-open="false"
+        style={{
+          width: "100vw",
+          maxWidth: "100vw",
+          height: "100dvh",
+          maxHeight: "100dvh",
+          margin: 0,
+          padding: 0,
+          overflow: "hidden",
+        }}
+      >
+        <div className="explorer-chrome" style={{ display: "flex", flexDirection: "column", height: "100%", maxWidth: "100vw" }}>
+          <div className="explorer-topbar" style={{ display: "grid", gridTemplateColumns: "1fr auto", alignItems: "center" }}>
+            <h3 className="explorer-title">Batch verify</h3>
+            <button
+              className="close-btn holo"
+              data-aurora="true"
+              aria-label="Close batch results"
+              title="Close"
+              onClick={closeBatch}
+              style={{ justifySelf: "end", marginRight: 6 }}
+            >
+              ×
+            </button>
+          </div>
+          <div className="explorer-body batch-body" style={{ flex: "1 1 auto", minHeight: 0, overflowY: "auto", overflowX: "auto" }}>
+            {batchProgress && <p className="batch-status">{batchProgress}</p>}
+            {batchError && <p className="batch-status error">{batchError}</p>}
+            {batchResults && (
+              <>
+                <div className="batch-toolbar">
+                  <Chip kind={batchFailed === 0 ? "ok" : "err"}>
+                    {batchRows.length - batchFailed}/{batchRows.length} sigil(s) verified
+                  </Chip>
+                  <button className="secondary" onClick={downloadBatchReport}>
+                    Download report
+                  </button>
+                </div>
+                <table className="batch-table">
+                  <thead>
+                    <tr>
+                      {(
+                        [
+                          ["file", "File"],
+                          ["ok", "Result"],
+                          ["pulse", "Pulse"],
+                          ["transfers", "Transfers"],
+                          ["manifest", "Manifest"],
+                        ] as [BatchSortKey, string][]
+                      ).map(([key, label]) => (
+                        <th key={key} aria-sort={batchSort.key === key ? (batchSort.dir === "asc" ? "ascending" : "descending") : "none"}>
+                          <button className="batch-sort" onClick={() => sortBatchBy(key)}>
+                            {label}
+                            {sortMark(key)}
+                          </button>
+                        </th>
+                      ))}
+                      <th>Checks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batchRows.map((r) => {
+                      const { failed, warned } = batchFlags(r);
+                      return (
+                        <tr key={r.file} className={r.ok ? "ok" : "err"}>
+                          <td className="mono">{r.file}</td>
+                          <td>
+                            <Chip kind={r.ok ? "ok" : "err"}>{r.ok ? "Pass" : "Fail"}</Chip>
+                          </td>
+                          <td>{r.report.pulse ?? "—"}</td>
+                          <td>{r.report.transfers}</td>
+                          <td title={r.manifest.mismatches.map((m) => `${m.field}: manifest ${m.manifest} · svg ${m.svg}`).join("\n")}>
+                            <Chip kind={r.manifest.status === "pass" ? "ok" : r.manifest.status === "fail" ? "err" : "info"}>
+                              {r.manifest.status === "skip" ? "—" : r.manifest.status}
+                            </Chip>{" "}
+                            <span className="batch-dim">{r.manifest.detail}</span>
+                          </td>
+                          <td title={r.report.checks.map((c) => `${c.id}: ${c.detail}`).join("\n")}>
+                            {failed.length === 0 && warned.length === 0 && <span className="batch-dim">all pass</span>}
+                            {failed.map((id) => (
+                              <Chip key={id} kind="err">
+                                {id}
+                              </Chip>
+                            ))}
+                            {warned.map((id) => (
+                              <Chip key={id} kind="warn">
+                                {id}
+                              </Chip>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+      </dialog>
+
       {/* 🌲 Explorer dialog */}
       <dialog
         ref={explorerDlgRef}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { keyStatusAt, resolveKeyChain, signKeyRevocation, signKeyRotation } from "../keyChain";
+import type { SigilMetadata } from "../types";
+import { verifySovereignOffline } from "../verifySovereignOffline";
+import { appendReceive, appendSend, codes, newKey, sigilHead } from "./lineage";
+
+describe("resolveKeyChain", () => {
+  it("resolves rotations and revocations into key epochs", async () => {
+    const [a, b] = await Promise.all([newKey(), newKey()]);
+    const chain = await resolveKeyChain(a.spkiB64u, [
+      await signKeyRotation(a, b.spkiB64u, 1_000),
+      await signKeyRevocation(b, a.spkiB64u, 900),
+    ]);
+    expect(chain.errors).toEqual([]);
+    expect(keyStatusAt(chain, a.spkiB64u, 800)).toBe("valid");
+    expect(keyStatusAt(chain, a.spkiB64u, 950)).toBe("revoked");
+    expect(keyStatusAt(chain, a.spkiB64u, 1_100)).toBe("outside");
+    expect(keyStatusAt(chain, b.spkiB64u, 1_100)).toBe("valid");
+  });
+
+  it("skips forged statements and revocations by keys outside the chain", async () => {
+    const [a, b, c] = await Promise.all([newKey(), newKey(), newKey()]);
+    const forged = { ...(await signKeyRotation(a, b.spkiB64u, 1_000)), to: c.spkiB64u };
+    const chain = await resolveKeyChain(a.spkiB64u, [forged, await signKeyRevocation(c, a.spkiB64u, 10)]);
+    expect(chain.errors).toEqual([
+      "statement #1: rotation signature invalid",
+      "statement #2: revocation must be signed by the key itself or a later chain key",
+    ]);
+    expect(keyStatusAt(chain, a.spkiB64u, 2_000)).toBe("valid");
+  });
+});
+
+describe("verifySovereignOffline with a key chain", () => {
+  it("accepts entries signed by the owner key valid at their pulse", async () => {
+    const [a, b, c] = await Promise.all([newKey(), newKey(), newKey()]);
+    let head: SigilMetadata = await appendSend(sigilHead(a), a, 900);
+    head = await appendReceive(head, a, 950);
+    head = { ...head, keyChain: [await signKeyRotation(a, b.spkiB64u, 1_000)] };
+    head = await appendSend(head, b, 1_100);
+    const report = await verifySovereignOffline(head);
+    expect(codes(report)).toEqual([]);
+    expect(report.ok).toBe(true);
+
+    const wrongKey = await verifySovereignOffline(await appendSend(head, c, 1_200));
+    expect(codes(wrongKey)).toContain("KEY_NOT_AUTHORIZED");
+  });
+
+  it("rejects an entry backdated before a rotation it pinned", async () => {
+    const [a, b] = await Promise.all([newKey(), newKey()]);
+    const head = { ...sigilHead(a), keyChain: [await signKeyRotation(a, b.spkiB64u, 1_000)] };
+    // Signed with the rotated-out key, claiming a pulse when that key was still the owner's
+    const report = await verifySovereignOffline(await appendSend(head, a, 900));
+    expect(report.ok).toBe(false);
+    expect(report.issues).toContainEqual(expect.objectContaining({ code: "KEY_CHAIN_INVALID", index: 0 }));
+  });
+
+  it("rejects an entry backdated before a revocation it pinned", async () => {
+    const a = await newKey();
+    const head = { ...sigilHead(a), keyChain: [await signKeyRevocation(a, a.spkiB64u, 1_000)] };
+    const report = await verifySovereignOffline(await appendSend(head, a, 900));
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ code: "KEY_CHAIN_INVALID", message: expect.stringMatching(/predates the key chain statement at pulse 1000/) })
+    );
+  });
+
+  it("rejects a RECEIVE backdated before a statement its entry pinned", async () => {
+    const [a, b] = await Promise.all([newKey(), newKey()]);
+    let head: SigilMetadata = { ...sigilHead(a), keyChain: [await signKeyRotation(a, b.spkiB64u, 1_000)] };
+    head = await appendSend(head, b, 1_100);
+    const report = await verifySovereignOffline(await appendReceive(head, a, 950));
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ code: "KEY_CHAIN_INVALID", message: expect.stringMatching(/^RECEIVE pulse 950/) })
+    );
+  });
+
+  it("flags a pinned chain that was removed or truncated", async () => {
+    const [a, b] = await Promise.all([newKey(), newKey()]);
+    const revoke = await signKeyRevocation(b, a.spkiB64u, 1_050);
+    let head: SigilMetadata = { ...sigilHead(a), keyChain: [await signKeyRotation(a, b.spkiB64u, 1_000), revoke] };
+    head = await appendSend(head, b, 1_100);
+    for (const keyChain of [undefined, head.keyChain!.slice(0, 1)]) {
+      const report = await verifySovereignOffline({ ...head, keyChain });
+      expect(codes(report)).toContain("KEY_CHAIN_INVALID");
+      expect(codes(report)).toContain("PREV_HEAD_MISMATCH");
+    }
+  });
+});
@@ -0,0 +1,145 @@
+// Lineage fixtures for the verifier tests: heads and v14 entries built the way VerifierStamper signs them.
+
+import { poseidon1 } from "poseidon-lite/poseidon1";
+import type { HardenedTransferV14, SigilMetadata, SigilTransfer, ZkBundle, ZkStamp } from "../types";
+import { loadOrCreateKeypair, signB64u, type Keypair } from "../keys";
+import {
+  buildReceiveMessageV14,
+  expectedPrevHeadRootV14,
+  genNonce,
+  hashTransfer,
+  hashTransferSenderSide,
+  hashAny,
+} from "../sigilUtils";
+import { sendMessageFor } from "../multisig";
+import { transferTerms } from "../timelock";
+import { sha256Hex } from "../crypto";
+import { NULLIFIER_CIRCUIT, nullifierPublicInputs, nullifierSigilHash, readNullifierSignals } from "../zk";
+import { proveSigilProof } from "../zkProver.worker";
+
+/** Fresh P-256 owner key (there is no localStorage under Node, so nothing is persisted). */
+export const newKey = (): Promise<Keypair> => loadOrCreateKeypair();
+
+/** A minted sigil head owned by `owner`, with no lineage yet. */
+export function sigilHead(owner: Keypair, extra: Partial<SigilMetadata> = {}): SigilMetadata {
+  return {
+    pulse: 6_381_211,
+    beat: 12,
+    stepIndex: 3,
+    chakraDay: "Heart",
+    kaiSignature: "a".repeat(64),
+    canonicalHash: "b".repeat(64),
+    creatorPublicKey: owner.spkiB64u,
+    transferNonce: genNonce(),
+    transfers: [],
+    hardenedTransfers: [],
+    ...extra,
+  };
+}
+
+/** Append a signed SEND at `pulse`, pinning the head's current key chain (timelock / escrow terms in `extra` are signed). */
+export async function appendSend(
+  meta: SigilMetadata,
+  signer: Keypair,
+  pulse: number,
+  extra: Partial<HardenedTransferV14> = {}
+): Promise<SigilMetadata> {
+  const index = meta.hardenedTransfers?.length ?? 0;
+  const terms = transferTerms(extra);
+  const transfer: SigilTransfer = {
+    senderSignature: `sig-${index}`,
+    senderStamp: await sha256Hex(`stamp-${index}-${pulse}`),
+    senderKaiPulse: pulse,
+    ...terms,
+  };
+  const previousHeadRoot = await expectedPrevHeadRootV14(meta, index);
+  const transferLeafHashSend = await hashTransferSenderSide(transfer);
+  const nonce = meta.transferNonce ?? genNonce();
+  const unsigned = { previousHeadRoot, senderKaiPulse: pulse, senderPubKey: signer.spkiB64u, nonce, transferLeafHashSend, ...terms };
+  const keyChainLength = meta.keyChain?.length ?? 0;
+  const hardened: HardenedTransferV14 = {
+    ...unsigned,
+    senderSig: await signB64u(signer.priv, sendMessageFor(meta, unsigned, index)),
+    ...(keyChainLength > 0 ? { keyChainLength } : {}),
+    ...extra,
+  };
+  return {
+    ...meta,
+    transfers: [...(meta.transfers ?? []), transfer],
+    hardenedTransfers: [...(meta.hardenedTransfers ?? []), hardened],
+  };
+}
+
+/** Countersign the last SEND as its receiver at `pulse` (refund: the sender's escrow reclaim). */
+export async function appendReceive(
+  meta: SigilMetadata,
+  receiver: Keypair,
+  pulse: number,
+  refund = false
+): Promise<SigilMetadata> {
+  const transfers = meta.transfers ?? [];
+  const hardened = meta.hardenedTransfers ?? [];
+  const last: SigilTransfer = {
+    ...transfers[transfers.length - 1],
+    receiverSignature: "recv",
+    receiverStamp: await sha256Hex(`recv-${pulse}`),
+    receiverKaiPulse: pulse,
+    ...(refund ? { refunded: true } : {}),
+  };
+  const h = hardened[hardened.length - 1];
+  const transferLeafHashReceive = await hashTransfer(last);
+  const msg = buildReceiveMessageV14({
+    previousHeadRoot: h.previousHeadRoot,
+    senderSig: h.senderSig,
+    receiverKaiPulse: pulse,
+    receiverPubKey: receiver.spkiB64u,
+    transferLeafHashReceive,
+    refund,
+  });
+  const signed: HardenedTransferV14 = {
+    ...h,
+    receiverPubKey: receiver.spkiB64u,
+    receiverSig: await signB64u(receiver.priv, msg),
+    receiverKaiPulse: pulse,
+    ...(refund ? { refund: true } : {}),
+    transferLeafHashReceive,
+  };
+  return { ...meta, transfers: [...transfers.slice(0, -1), last], hardenedTransfers: [...hardened.slice(0, -1), signed] };
+}
+
+/** Poseidon(secret) for a decimal secret — what a nullifier proof's expectedHash opens. */
+export const ownerCommitment = (secret: bigint): string => poseidon1([secret]).toString();
+
+/** Real Groth16 nullifier proof for `secret`, bound to the last entry's SEND of `meta` (zk/ artefacts, run in-process). */
+export async function proveSendNullifier(meta: SigilMetadata, secret: bigint): Promise<ZkBundle> {
+  const t = meta.hardenedTransfers![meta.hardenedTransfers!.length - 1];
+  const binding = { pulse: t.senderKaiPulse ?? 0, canonicalHash: nullifierSigilHash(meta) ?? "", nonce: t.nonce ?? "" };
+  return proveSigilProof({
+    scheme: "groth16",
+    circuit: NULLIFIER_CIRCUIT,
+    secret: secret.toString(),
+    ...(await nullifierPublicInputs(binding)),
+    wasmUrl: "zk/sigil_nullifier_js/sigil_nullifier.wasm",
+    zkeyUrl: "zk/sigil_nullifier_final.zkey",
+  });
+}
+
+/** Stamp `bundle` onto the last entry's SEND, hashed the way zkStampFor records it. */
+export async function withZkSend(meta: SigilMetadata, bundle: ZkBundle): Promise<SigilMetadata> {
+  const hardened = meta.hardenedTransfers ?? [];
+  const nullifier = bundle.circuit === NULLIFIER_CIRCUIT ? readNullifierSignals(bundle.publicSignals)?.nullifier : undefined;
+  const zkSend: ZkStamp = {
+    scheme: bundle.scheme,
+    curve: bundle.curve,
+    publicHash: await hashAny(bundle.publicSignals),
+    proofHash: await hashAny(bundle.proof),
+    vkeyHash: bundle.vkey ? await hashAny(bundle.vkey) : undefined,
+    ...(bundle.circuit ? { circuit: bundle.circuit } : {}),
+    ...(nullifier ? { nullifier } : {}),
+  };
+  const last = { ...hardened[hardened.length - 1], zkSendBundle: bundle, zkSend };
+  return { ...meta, hardenedTransfers: [...hardened.slice(0, -1), last] };
+}
+
+/** Issue codes of a report, for compact assertions. */
+export const codes = (report: { issues: Array<{ code: string }> }): string[] => report.issues.map((x) => x.code);
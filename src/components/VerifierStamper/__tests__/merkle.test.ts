@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { sha256Hex } from "../crypto";
+import { buildMerkleRoot, merkleLeafHashV2, merkleNodeHashV2, merkleProof, verifyProof } from "../merkle";
+
+const leaf = (i: number) => i.toString(16).padStart(64, "0");
+const leaves = (n: number) => Array.from({ length: n }, (_, i) => leaf(i + 1));
+
+describe("Merkle v2 (RFC 6962)", () => {
+  it("hashes the empty tree, single leaves and unbalanced splits per RFC 6962", async () => {
+    expect(await buildMerkleRoot([], 2)).toBe(await sha256Hex(new Uint8Array(0)));
+    const [a, b, c] = await Promise.all(leaves(3).map(merkleLeafHashV2));
+    expect(await buildMerkleRoot(leaves(1), 2)).toBe(a);
+    // 3 leaves split at the largest power of two below n: MTH = node(node(a, b), c)
+    expect(await buildMerkleRoot(leaves(3), 2)).toBe(await merkleNodeHashV2(await merkleNodeHashV2(a, b), c));
+  });
+
+  it("separates leaf and node domains", async () => {
+    const [a, b] = leaves(2);
+    expect(await merkleLeafHashV2(a)).not.toBe(a);
+    // An interior node presented as a leaf does not reproduce the root
+    const node = await merkleNodeHashV2(await merkleLeafHashV2(a), await merkleLeafHashV2(b));
+    const root = await buildMerkleRoot(leaves(4), 2);
+    const proof = await merkleProof(leaves(4), 0, 2);
+    expect(await verifyProof(root, { ...proof, leaf: node, siblings: proof.siblings.slice(1), treeSize: 2 })).toBe(false);
+  });
+
+  it("keeps leaf order, unlike the position-free v1 tree", async () => {
+    const [a, b] = leaves(2);
+    expect(await buildMerkleRoot([a, b], 1)).toBe(await buildMerkleRoot([b, a], 1));
+    expect(await buildMerkleRoot([a, b], 2)).not.toBe(await buildMerkleRoot([b, a], 2));
+  });
+
+  it("proves every leaf of every tree size up to 9", async () => {
+    for (let n = 1; n <= 9; n++) {
+      const ls = leaves(n);
+      const root = await buildMerkleRoot(ls, 2);
+      for (let i = 0; i < n; i++) {
+        const proof = await merkleProof(ls, i, 2);
+        expect(proof).toMatchObject({ version: 2, treeSize: n, index: i });
+        expect(await verifyProof(root, proof)).toBe(true);
+      }
+    }
+  });
+
+  it("binds the index and tree size and rejects tampered paths", async () => {
+    const ls = leaves(5);
+    const root = await buildMerkleRoot(ls, 2);
+    const proof = await merkleProof(ls, 2, 2);
+    expect(await verifyProof(root, { ...proof, index: 3 })).toBe(false);
+    expect(await verifyProof(root, { ...proof, treeSize: undefined })).toBe(false);
+    const last = await merkleProof(ls, 4, 2); // the lone right leaf: its path depends on the tree size
+    expect(await verifyProof(root, last)).toBe(true);
+    expect(await verifyProof(root, { ...last, treeSize: 6 })).toBe(false);
+    expect(await verifyProof(root, { ...last, treeSize: 4 })).toBe(false);
+    expect(await verifyProof(root, { ...proof, siblings: [leaf(9), ...proof.siblings.slice(1)] })).toBe(false);
+    expect(await verifyProof(root, { ...proof, siblings: [...proof.siblings, leaf(9)] })).toBe(false);
+    expect(await verifyProof(root, { ...proof, leaf: "not-hex" })).toBe(false);
+    await expect(merkleProof(ls, 5, 2)).rejects.toThrow(/outside tree/);
+  });
+
+  it("reads legacy v1 proofs under the version they declare", async () => {
+    const ls = leaves(5);
+    const proof = await merkleProof(ls, 4);
+    expect(proof.version).toBeUndefined();
+    expect(await verifyProof(await buildMerkleRoot(ls), proof)).toBe(true);
+    expect(await verifyProof(await buildMerkleRoot(ls, 2), { ...proof, version: 2, treeSize: 5 })).toBe(false);
+  });
+});
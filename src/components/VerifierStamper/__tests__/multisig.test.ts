@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Keypair } from "../keys";
+import {
+  applySendProposal,
+  checkSendProposal,
+  cosignSendProposal,
+  createSendProposal,
+  multisigPolicyError,
+  signMultisigAdoption,
+} from "../multisig";
+import type { MultisigPolicy, SigilMetadata } from "../types";
+import { verifySovereignOffline } from "../verifySovereignOffline";
+import { appendSend, codes, newKey, sigilHead } from "./lineage";
+
+describe("multisigPolicyError", () => {
+  const signers = ["AAAA", "BBBB", "CCCC"];
+
+  it("accepts 1…n thresholds over distinct signers", () => {
+    expect(multisigPolicyError({ threshold: 2, signers, since: 0 })).toBeNull();
+    expect(multisigPolicyError({ threshold: 3, signers, since: 4 })).toBeNull();
+  });
+
+  it("rejects thresholds outside 1…n, repeated signers and bad start indexes", () => {
+    expect(multisigPolicyError({ threshold: 0, signers, since: 0 })).toBe("threshold must be 1…3");
+    expect(multisigPolicyError({ threshold: 4, signers, since: 0 })).toBe("threshold must be 1…3");
+    expect(multisigPolicyError({ threshold: 1, signers: ["AAAA", "AAAA"], since: 0 })).toBe("policy lists a signer twice");
+    expect(multisigPolicyError({ threshold: 1, signers: [], since: 0 })).toBe("policy has no signers");
+    expect(multisigPolicyError({ threshold: 1, signers, since: -1 })).toBe("policy start index is invalid");
+  });
+});
+
+describe("2-of-3 SENDs", () => {
+  let owner: Keypair;
+  let s1: Keypair;
+  let s2: Keypair;
+  let s3: Keypair;
+  let outsider: Keypair;
+  let head: SigilMetadata; // policy adopted by the owner, governing every entry
+
+  beforeAll(async () => {
+    [owner, s1, s2, s3, outsider] = await Promise.all([newKey(), newKey(), newKey(), newKey(), newKey()]);
+    const base = sigilHead(owner);
+    const policy: MultisigPolicy = { threshold: 2, signers: [s1.spkiB64u, s2.spkiB64u, s3.spkiB64u], since: 0 };
+    head = { ...base, multisig: await signMultisigAdoption(base, policy, owner, 800) };
+  });
+
+  /* A SEND initiated by `initiator` as a proposal, co-signed by `cosigners` */
+  async function proposal(initiator: Keypair, ...cosigners: Keypair[]) {
+    const sent = await appendSend(head, initiator, 900);
+    let p = createSendProposal(head, 0, sent.transfers![0], sent.hardenedTransfers![0]);
+    for (const kp of cosigners) p = await cosignSendProposal(head, p, kp);
+    return p;
+  }
+
+  it("commits once the threshold of distinct signers is met", async () => {
+    const p = await proposal(s1, s2);
+    expect((await checkSendProposal(head, p)).tally).toMatchObject({ threshold: 2, valid: [s1.spkiB64u, s2.spkiB64u] });
+    const report = await verifySovereignOffline(applySendProposal(head, p));
+    expect(codes(report)).toEqual([]);
+    expect(report.entries[0].send.multisig).toEqual({ threshold: 2, valid: 2 });
+  });
+
+  it("reports a SEND below the threshold", async () => {
+    const report = await verifySovereignOffline(applySendProposal(head, await proposal(s1)));
+    expect(codes(report)).toEqual(["MULTISIG_THRESHOLD_UNMET"]);
+  });
+
+  it("counts a signer once, however often it signs", async () => {
+    const p = await proposal(s1, s2);
+    const dup = { ...p.hardened.senderCoSigs![0], pubKey: s1.spkiB64u, sig: p.hardened.senderSig };
+    const twice = { ...p, hardened: { ...p.hardened, senderCoSigs: [dup] } };
+    expect(codes(await verifySovereignOffline(applySendProposal(head, twice)))).toEqual(["MULTISIG_THRESHOLD_UNMET"]);
+  });
+
+  it("never counts keys outside the policy or signatures that do not verify", async () => {
+    await expect(cosignSendProposal(head, await proposal(s1), outsider)).rejects.toThrow(/not a signer/);
+    const p = await proposal(s1, s2);
+    const outside = { pubKey: outsider.spkiB64u, sig: p.hardened.senderCoSigs![0].sig };
+    const forged = { pubKey: s3.spkiB64u, sig: p.hardened.senderSig }; // s1's signature under s3's name
+    const m = applySendProposal(head, { ...p, hardened: { ...p.hardened, senderCoSigs: [outside, forged] } });
+    expect(codes(await verifySovereignOffline(m))).toEqual([
+      "MULTISIG_SIG_INVALID",
+      "MULTISIG_UNKNOWN_SIGNER",
+      "MULTISIG_THRESHOLD_UNMET",
+    ]);
+  });
+
+  it("rejects a policy loosened after the fact", async () => {
+    const m = applySendProposal(head, await proposal(s1, s2));
+    const loosened = { ...m, multisig: { ...m.multisig!, threshold: 1 } };
+    const report = await verifySovereignOffline(loosened);
+    expect(codes(report)).toEqual(expect.arrayContaining(["MULTISIG_POLICY_UNAUTHORIZED", "PREV_HEAD_MISMATCH"]));
+  });
+
+  it("rejects a policy adopted by a key other than the owner's", async () => {
+    const base = sigilHead(owner);
+    const policy: MultisigPolicy = { threshold: 1, signers: [outsider.spkiB64u], since: 0 };
+    const hijacked = { ...base, multisig: await signMultisigAdoption(base, policy, outsider, 800) };
+    const report = await verifySovereignOffline(await appendSend(hijacked, outsider, 900));
+    expect(codes(report)).toContain("MULTISIG_POLICY_UNAUTHORIZED");
+    expect(report.ok).toBe(false);
+  });
+});
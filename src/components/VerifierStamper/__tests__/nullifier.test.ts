@@ -0,0 +1,57 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { SigilMetadata, ZkBundle } from "../types";
+import { verifySovereignOffline } from "../verifySovereignOffline";
+import { appendReceive, appendSend, codes, newKey, ownerCommitment, proveSendNullifier, sigilHead, withZkSend } from "./lineage";
+
+const SECRET = 12_345n;
+const OTHER = 67_890n;
+
+describe("nullifier proofs against the owner commitment", () => {
+  let head: SigilMetadata; // one SEND at pulse 900, owner commitment pinned from entry 0
+  let owned: ZkBundle;
+  let foreign: ZkBundle;
+
+  beforeAll(async () => {
+    const a = await newKey();
+    head = await appendSend(sigilHead(a, { zkOwner: { commitment: ownerCommitment(SECRET), since: 0 } }), a, 900);
+    owned = await proveSendNullifier(head, SECRET);
+    foreign = await proveSendNullifier(head, OTHER);
+    head = await appendReceive(head, a, 950);
+  }, 60_000);
+
+  it("verifies a proof that opens the pinned commitment", async () => {
+    const report = await verifySovereignOffline(await withZkSend(head, owned));
+    expect(codes(report)).toEqual([]);
+    expect(report.zk?.sendVerified).toBe(1);
+  });
+
+  it("rejects a valid proof for another secret", async () => {
+    const report = await verifySovereignOffline(await withZkSend(head, foreign));
+    expect(codes(report)).toEqual(["ZK_NULLIFIER_OWNER_MISMATCH"]);
+    expect(report.zk?.sendVerified).toBe(1); // the proof itself checks out
+  });
+
+  it("rejects nullifier proofs on a sigil that pins no commitment", async () => {
+    const report = await verifySovereignOffline(await withZkSend({ ...head, zkOwner: undefined }, owned));
+    expect(codes(report)).toEqual(expect.arrayContaining(["ZK_NULLIFIER_OWNER_MISMATCH"]));
+  });
+
+  it("cannot swap the commitment without breaking the entries that pinned it", async () => {
+    const swapped = { ...head, zkOwner: { commitment: ownerCommitment(OTHER), since: 0 } };
+    const report = await verifySovereignOffline(await withZkSend(swapped, foreign));
+    expect(codes(report)).toContain("PREV_HEAD_MISMATCH");
+    expect(report.ok).toBe(false);
+  });
+
+  it("reports a replayed owner proof as ZK_NULLIFIER_REUSED alone", async () => {
+    const a = await newKey();
+    let replay: SigilMetadata = sigilHead(a, { zkOwner: { commitment: ownerCommitment(SECRET), since: 0 } });
+    replay = await appendSend(replay, a, 900);
+    const bundle = await proveSendNullifier(replay, SECRET);
+    replay = await appendReceive(await withZkSend(replay, bundle), a, 950);
+    // Same pulse, nonce and sigil: the second SEND's binding matches, so only the nullifier gives it away
+    replay = await withZkSend(await appendSend(replay, a, 900), bundle);
+    const report = await verifySovereignOffline(replay);
+    expect(codes(report)).toEqual(["ZK_NULLIFIER_REUSED"]);
+  }, 60_000);
+});
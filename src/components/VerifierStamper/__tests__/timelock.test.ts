@@ -0,0 +1,96 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Keypair } from "../keys";
+import { receiveWindowAt, transferTermsError } from "../timelock";
+import type { SigilMetadata } from "../types";
+import { verifySovereignOffline } from "../verifySovereignOffline";
+import { appendReceive, appendSend, codes, newKey, sigilHead } from "./lineage";
+
+describe("transfer terms", () => {
+  it("accepts an unlock at or after the send and a refund deadline after both", () => {
+    expect(transferTermsError({ unlockAtPulse: 900, refundAfterPulse: 901 }, 900)).toBeNull();
+    expect(transferTermsError({ refundAfterPulse: 1_200 }, 900)).toBeNull();
+  });
+
+  it("rejects unlocks before the send, deadlines not after it or the unlock, and fractional pulses", () => {
+    expect(transferTermsError({ unlockAtPulse: 899 }, 900)).toMatch(/unlockAtPulse/);
+    expect(transferTermsError({ refundAfterPulse: 900 }, 900)).toMatch(/refundAfterPulse/);
+    expect(transferTermsError({ unlockAtPulse: 1_000, refundAfterPulse: 1_000 }, 900)).toBe(
+      "refundAfterPulse must come after unlockAtPulse"
+    );
+    expect(transferTermsError({ unlockAtPulse: 950.5 }, 900)).toMatch(/whole pulse/);
+  });
+
+  it("opens the receive at unlockAtPulse and hands it to the sender at refundAfterPulse", () => {
+    const terms = { unlockAtPulse: 1_000, refundAfterPulse: 1_200 };
+    expect(receiveWindowAt(terms, 999)).toBe("locked");
+    expect(receiveWindowAt(terms, 1_000)).toBe("open");
+    expect(receiveWindowAt(terms, 1_199)).toBe("open");
+    expect(receiveWindowAt(terms, 1_200)).toBe("refundable");
+  });
+});
+
+describe("verifying timelocked and escrowed transfers", () => {
+  const terms = { unlockAtPulse: 1_000, refundAfterPulse: 1_200 };
+  let owner: Keypair;
+  let sent: SigilMetadata; // one SEND at pulse 900 under `terms`, not yet received
+
+  beforeAll(async () => {
+    owner = await newKey();
+    sent = await appendSend(sigilHead(owner), owner, 900, terms);
+  });
+
+  it("accepts a receive inside the window", async () => {
+    const report = await verifySovereignOffline(await appendReceive(sent, owner, 1_000));
+    expect(codes(report)).toEqual([]);
+    expect(report.entries[0].send.terms).toEqual(terms);
+  });
+
+  it("rejects a receive before the unlock or at the deadline", async () => {
+    expect(codes(await verifySovereignOffline(await appendReceive(sent, owner, 999)))).toEqual(["TIMELOCK_RECEIVE_EARLY"]);
+    expect(codes(await verifySovereignOffline(await appendReceive(sent, owner, 1_200)))).toEqual(["ESCROW_RECEIVE_LATE"]);
+  });
+
+  it("accepts the sender's reclaim only from the deadline on", async () => {
+    const reclaimed = await verifySovereignOffline(await appendReceive(sent, owner, 1_200, true));
+    expect(codes(reclaimed)).toEqual([]);
+    expect(reclaimed.entries[0].receive?.refund).toBe(true);
+    expect(codes(await verifySovereignOffline(await appendReceive(sent, owner, 1_100, true)))).toEqual([
+      "ESCROW_REFUND_INVALID",
+    ]);
+  });
+
+  it("rejects a reclaim signed by anyone but the sender", async () => {
+    const report = await verifySovereignOffline(await appendReceive(sent, await newKey(), 1_300, true));
+    expect(codes(report)).toContain("ESCROW_REFUND_INVALID");
+    expect(report.issues.find((i) => i.code === "ESCROW_REFUND_INVALID")?.message).toMatch(/sender key/);
+  });
+
+  it("rejects a reclaim on a transfer without a deadline", async () => {
+    const plain = await appendSend(sigilHead(owner), owner, 900, { unlockAtPulse: 1_000 });
+    expect(codes(await verifySovereignOffline(await appendReceive(plain, owner, 1_300, true)))).toEqual([
+      "ESCROW_REFUND_INVALID",
+    ]);
+  });
+
+  it("signs the terms into the SEND, so they cannot be lifted afterwards", async () => {
+    const received = await appendReceive(sent, owner, 950);
+    const [t] = received.hardenedTransfers!;
+    const [w] = received.transfers!;
+    const lifted: SigilMetadata = {
+      ...received,
+      transfers: [{ ...w, unlockAtPulse: undefined }],
+      hardenedTransfers: [{ ...t, unlockAtPulse: undefined }],
+    };
+    const report = await verifySovereignOffline(lifted);
+    expect(report.ok).toBe(false);
+    expect(codes(report)).not.toContain("TIMELOCK_RECEIVE_EARLY");
+    expect(codes(report)).toContain("SEND_SIG_INVALID");
+  });
+
+  it("flags a window copy whose terms differ from the signed SEND", async () => {
+    const received = await appendReceive(sent, owner, 1_000);
+    const [w] = received.transfers!;
+    const report = await verifySovereignOffline({ ...received, transfers: [{ ...w, refundAfterPulse: 5_000 }] });
+    expect(codes(report)).toContain("TIMELOCK_TERMS_INVALID");
+  });
+});
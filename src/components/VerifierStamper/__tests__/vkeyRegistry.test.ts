@@ -0,0 +1,87 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { SigilMetadata, ZkBundle } from "../types";
+import { hashAny } from "../sigilUtils";
+import { verifySovereignOffline, verifyZkOnHead } from "../verifySovereignOffline";
+import { loadVkeyRegistry, resolveVkey, type VkeyRegistry } from "../vkeyRegistry";
+import { BALANCE_CIRCUIT, NULLIFIER_CIRCUIT } from "../zk";
+import { appendSend, codes, newKey, ownerCommitment, proveSendNullifier, sigilHead, withZkSend } from "./lineage";
+
+const hashOf = (reg: VkeyRegistry, label: string) => reg.entries.find((e) => e.label.includes(label))!.hash;
+
+describe("resolveVkey", () => {
+  let reg: VkeyRegistry;
+  beforeAll(async () => {
+    reg = await loadVkeyRegistry();
+  });
+
+  it("trusts a bundled key named for its own circuit and scheme", () => {
+    const hash = hashOf(reg, "sigil_nullifier_verification_key");
+    expect(resolveVkey(reg, NULLIFIER_CIRCUIT, "groth16", hash)).toMatchObject({ status: "trusted", hash });
+  });
+
+  it("reports keys outside the registry as unknown", () => {
+    expect(resolveVkey(reg, NULLIFIER_CIRCUIT, "groth16", "f".repeat(64)).status).toBe("unknown");
+    expect(resolveVkey(reg, "my-circuit", "groth16").status).toBe("unknown");
+  });
+
+  it("never trusts a registry key for another circuit or scheme", () => {
+    expect(resolveVkey(reg, NULLIFIER_CIRCUIT, "groth16", hashOf(reg, "SigilBalance")).status).toBe("unpinned");
+    expect(resolveVkey(reg, NULLIFIER_CIRCUIT, "groth16", hashOf(reg, "PLONK")).status).toBe("unpinned");
+  });
+
+  it("accepts only pinned keys once a circuit has pins", () => {
+    const plonk = hashOf(reg, "PLONK");
+    const pinned = { ...reg, pins: { [NULLIFIER_CIRCUIT]: [plonk] } };
+    expect(resolveVkey(pinned, NULLIFIER_CIRCUIT, "groth16", hashOf(reg, "sigil_nullifier_verification_key")).status).toBe(
+      "unpinned"
+    );
+    expect(resolveVkey(pinned, NULLIFIER_CIRCUIT, "groth16").status).toBe("unknown");
+    expect(resolveVkey(pinned, NULLIFIER_CIRCUIT, "plonk")).toMatchObject({ status: "trusted" });
+    expect(resolveVkey(pinned, BALANCE_CIRCUIT, "groth16")).toMatchObject({ status: "trusted" });
+  });
+});
+
+describe("ZK stamps verify against registry keys only", () => {
+  const SECRET = 4_242n;
+  let head: SigilMetadata;
+  let bundle: ZkBundle;
+  let foreign: ZkBundle; // the same valid proof, naming a key outside the registry that still verifies it
+
+  beforeAll(async () => {
+    const a = await newKey();
+    head = await appendSend(sigilHead(a, { zkOwner: { commitment: ownerCommitment(SECRET), since: 0 } }), a, 900);
+    bundle = await proveSendNullifier(head, SECRET);
+    foreign = { ...bundle, vkey: { ...(bundle.vkey as object), label: "self-issued" } };
+  }, 60_000);
+
+  it("verifies a proof whose key is bundled", async () => {
+    const m = await withZkSend(head, bundle);
+    expect(await verifyZkOnHead(m)).toEqual([]);
+    expect(m.hardenedTransfers![0].zkSend?.verified).toBe(true);
+  });
+
+  it("reports an inline key outside the registry as ZK_VKEY_UNKNOWN, not verified", async () => {
+    const m = await withZkSend({ ...head, zkVerifyingKey: foreign.vkey }, foreign);
+    expect(await hashAny(foreign.vkey)).toBe(m.hardenedTransfers![0].zkSend?.vkeyHash);
+    expect((await verifyZkOnHead(m)).map((x) => x.code)).toEqual(["ZK_VKEY_UNKNOWN"]);
+    expect(m.hardenedTransfers![0].zkSend?.verified).toBe(false);
+
+    const report = await verifySovereignOffline(m);
+    expect(codes(report)).toEqual(["ZK_VKEY_UNKNOWN"]);
+    expect(report.zk).toMatchObject({ sendVerified: 0, unknownVkeys: 1 });
+  });
+
+  it("does not verify a keyless bundle against the head's own zkVerifyingKey", async () => {
+    const keyless: ZkBundle = { ...bundle, vkey: undefined };
+    const stamped = await withZkSend(head, keyless);
+    const m: SigilMetadata = { ...stamped, zkVerifyingKey: foreign.vkey };
+    // No key named: the circuit's bundled keys are tried, so the proof still passes on its registry key
+    expect(await verifyZkOnHead(m)).toEqual([]);
+    expect(m.hardenedTransfers![0].zkSend?.verified).toBe(true);
+
+    // A stamp naming the head's key gets no pass from it
+    m.hardenedTransfers![0].zkSend!.vkeyHash = await hashAny(foreign.vkey);
+    expect((await verifyZkOnHead(m)).map((x) => x.code)).toEqual(["ZK_VKEY_UNKNOWN"]);
+    expect(m.hardenedTransfers![0].zkSend?.verified).toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+// src/components/VerifierStamper/batch.ts
+/* Batch verification: ZIP exports and multi-file selections expanded into sigil SVGs,
+   each run through the headless engine and cross-checked against its sibling manifest. */
+
+import { checkSigilSvg, type SigilCheckId, type SigilCheckReport } from "../../verifier/sigilCheck";
+import { getAttr, getIntAttr, parseSvgText } from "./svg";
+
+/** One readable file from the selection; ZIP members are addressed as "<zip>/<member>". */
+export type BatchSource = { path: string; text: () => Promise<string> };
+
+export type ManifestField = "pulse" | "beat" | "stepIndex" | "chakraDay" | "kaiSignature" | "userPhiKey" | "canonicalHash";
+
+export type ManifestMismatch = { field: ManifestField; manifest: string; svg: string };
+
+/** skip = no sibling manifest (loose SVGs, VerifierStamper bundles) */
+export type ManifestCheck = {
+  status: "pass" | "fail" | "skip";
+  file?: string;
+  detail: string;
+  mismatches: ManifestMismatch[];
+};
+
+export type BatchResult = { file: string; ok: boolean; report: SigilCheckReport; manifest: ManifestCheck };
+
+export type BatchSortKey = "file" | "ok" | "pulse" | "transfers" | "manifest";
+
+/** Downloadable combined report */
+export interface BatchReport {
+  kind: "kai-verify-batch";
+  v: 1;
+  verifiedAtPulse: number;
+  ok: boolean;
+  summary: { files: number; failed: number; manifestMismatches: number };
+  results: BatchResult[];
+}
+
+const MANIFEST_FIELDS: ManifestField[] = ["pulse", "beat", "stepIndex", "chakraDay", "kaiSignature", "userPhiKey", "canonicalHash"];
+const CASE_FREE: ManifestField[] = ["chakraDay", "kaiSignature", "canonicalHash"]; // hex / day names
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+const stemOf = (path: string) => path.replace(/\.svg$/i, "").toLowerCase();
+
+/* ── Input ─────────────────────────────────────────────────── */
+
+/** Expand dropped/selected files (ZIPs opened in place) into readable sources; other types are kept for pairing. */
+export async function expandBatchFiles(files: File[]): Promise<BatchSource[]> {
+  const out: BatchSource[] = [];
+  for (const f of files) {
+    if (!/\.zip$/i.test(f.name) && f.type !== "application/zip") {
+      out.push({ path: f.name, text: () => f.text() });
+      continue;
+    }
+    const JSZip = (await import("jszip")).default;
+    let zip: InstanceType<typeof JSZip>;
+    try {
+      zip = await JSZip.loadAsync(await f.arrayBuffer());
+    } catch {
+      throw new Error(`${f.name} is not a readable ZIP`);
+    }
+    for (const entry of Object.values(zip.files)) {
+      if (entry.dir || entry.name.startsWith("__MACOSX/")) continue;
+      out.push({ path: `${f.name}/${entry.name}`, text: () => entry.async("string") });
+    }
+  }
+  return out;
+}
+
+/* ── Manifest cross-check ──────────────────────────────────── */
+
+/** Compare a manifest (SigilPage `.manifest.json` or mint `{ meta }` `.json`) with the SVG's embedded metadata. */
+export function crossCheckManifest(svg: string, manifestText: string, file: string): ManifestCheck {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(manifestText);
+  } catch {
+    return { status: "fail", file, detail: "manifest is not valid JSON", mismatches: [] };
+  }
+  if (!isObj(raw)) return { status: "fail", file, detail: "manifest is not an object", mismatches: [] };
+  const declared = isObj(raw.meta) ? raw.meta : raw;
+
+  const { meta } = parseSvgText(svg);
+  const embedded = meta as Record<string, unknown>;
+  const norm = (field: ManifestField, v: unknown) => (CASE_FREE.includes(field) ? String(v).toLowerCase() : String(v));
+
+  const mismatches: ManifestMismatch[] = [];
+  let compared = 0;
+  for (const field of MANIFEST_FIELDS) {
+    const want = declared[field] ?? (field === "canonicalHash" ? raw.canonicalHash : undefined);
+    if (want === undefined || want === null) continue;
+
+    // Accepted SVG-side values: the metadata field, plus the attributes the engine itself honours
+    const have: unknown[] = [embedded[field]];
+    if (field === "stepIndex") have.push(getIntAttr(svg, "data-step-index-canonical"));
+    if (field === "canonicalHash") {
+      have.push(getAttr(svg, "data-payload-hash"));
+      if (have.every((v) => v === undefined)) continue; // stamped heads may not carry one
+    }
+    const present = have.filter((v) => v !== undefined && v !== null);
+
+    compared++;
+    if (!present.some((v) => norm(field, v) === norm(field, want))) {
+      mismatches.push({ field, manifest: String(want), svg: present.length ? String(present[0]) : "(absent)" });
+    }
+  }
+
+  if (mismatches.length > 0) {
+    return { status: "fail", file, detail: `manifest differs on ${mismatches.map((m) => m.field).join(", ")}`, mismatches };
+  }
+  if (compared === 0) return { status: "skip", file, detail: "manifest declares no comparable fields", mismatches };
+  return { status: "pass", file, detail: `${compared} field(s) match the embedded metadata`, mismatches };
+}
+
+/* ── Run ───────────────────────────────────────────────────── */
+
+/** Verify every SVG among the sources, one at a time (onProgress: done, total). */
+export async function verifyBatch(
+  sources: BatchSource[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchResult[]> {
+  const byPath = new Map(sources.map((s) => [s.path.toLowerCase(), s]));
+  const svgs = sources.filter((s) => /\.svg$/i.test(s.path)).sort((a, b) => a.path.localeCompare(b.path));
+  if (svgs.length === 0) throw new Error("No sigil SVGs found in the selection");
+
+  const results: BatchResult[] = [];
+  for (const src of svgs) {
+    let svg = "";
+    let report: SigilCheckReport;
+    try {
+      svg = await src.text();
+      report = await checkSigilSvg(svg);
+    } catch (err) {
+      const detail = `unreadable: ${err instanceof Error ? err.message : String(err)}`;
+      report = { ok: false, transfers: 0, hardenedTransfers: 0, checks: [{ id: "metadata", status: "fail", detail }] };
+    }
+
+    const stem = stemOf(src.path);
+    const sibling = byPath.get(`${stem}.manifest.json`) ?? byPath.get(`${stem}.json`);
+    let manifest: ManifestCheck = { status: "skip", detail: "no manifest alongside", mismatches: [] };
+    if (sibling && svg) {
+      try {
+        manifest = crossCheckManifest(svg, await sibling.text(), sibling.path);
+      } catch {
+        manifest = { status: "fail", file: sibling.path, detail: "manifest unreadable", mismatches: [] };
+      }
+    }
+
+    results.push({ file: src.path, ok: report.ok && manifest.status !== "fail", report, manifest });
+    onProgress?.(results.length, svgs.length);
+  }
+  return results;
+}
+
+/* ── Present ───────────────────────────────────────────────── */
+
+/** Failing (or warning) check ids of one result, for the table. */
+export function batchFlags(r: BatchResult): { failed: SigilCheckId[]; warned: SigilCheckId[] } {
+  return {
+    failed: r.report.checks.filter((c) => c.status === "fail").map((c) => c.id),
+    warned: r.report.checks.filter((c) => c.status === "warn").map((c) => c.id),
+  };
+}
+
+const MANIFEST_RANK: Record<ManifestCheck["status"], number> = { fail: 0, skip: 1, pass: 2 };
+
+export function sortBatchResults(results: BatchResult[], key: BatchSortKey, dir: "asc" | "desc"): BatchResult[] {
+  const cmp = (a: BatchResult, b: BatchResult): number => {
+    switch (key) {
+      case "file":
+        return a.file.localeCompare(b.file);
+      case "ok":
+        return Number(a.ok) - Number(b.ok);
+      case "pulse":
+        return (a.report.pulse ?? -1) - (b.report.pulse ?? -1);
+      case "transfers":
+        return a.report.transfers - b.report.transfers;
+      case "manifest":
+        return MANIFEST_RANK[a.manifest.status] - MANIFEST_RANK[b.manifest.status];
+    }
+  };
+  const sign = dir === "asc" ? 1 : -1;
+  return [...results].sort((a, b) => sign * cmp(a, b) || a.file.localeCompare(b.file));
+}
+
+export function batchReport(results: BatchResult[], verifiedAtPulse: number): BatchReport {
+  const failed = results.filter((r) => !r.ok).length;
+  return {
+    kind: "kai-verify-batch",
+    v: 1,
+    verifiedAtPulse,
+    ok: failed === 0,
+    summary: {
+      files: results.length,
+      failed,
+      manifestMismatches: results.filter((r) => r.manifest.status === "fail").length,
+    },
+    results,
+  };
+}
@@ -1,11 +1,12 @@
 // src/components/VerifierStamper/constants.ts
 /* Constants used across VerifierStamper */
 
-export const PULSE_MS = 5_236 as const;
-export const GENESIS_TS = Date.UTC(2024, 4, 10, 6, 45, 41, 888);
+import { getKaiPulse } from "../../lib/kai-klok-core";
 
-export const kaiPulseNow = () =>
-  Math.floor((Date.now() - GENESIS_TS) / PULSE_MS);
+export { PULSE_MS, GENESIS_TS } from "../../lib/kai-klok-core";
+
+/** Live pulse from the shared φ-exact core (same value as every other surface). */
+export const kaiPulseNow = (): number => getKaiPulse();
 
 export const SIGIL_CTX = "https://schema.phi.network/sigil/v1" as const;
 export const SIGIL_TYPE = "application/phi.kairos.sigil+svg" as const;
@@ -7,6 +7,12 @@ export const bytesToHex = (u8: Uint8Array) =>
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 
+export const hexToBytes = (hex: string): Uint8Array => {
+  const out = new Uint8Array(hex.length >> 1);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+};
+
 export async function sha256Hex(msg: string | Uint8Array): Promise<string> {
   const data = typeof msg === "string" ? new TextEncoder().encode(msg) : msg;
   const buf = await crypto.subtle.digest("SHA-256", data);
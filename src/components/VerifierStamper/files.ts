@@ -17,6 +17,17 @@ export const pulseFilename = (
   eventPulse: number
 ): string => `${prefix}_${sigilPulse}_${eventPulse}`;
 
+/* Archived segment naming — sigil pulse + zero-padded segment index */
+export const segmentFilename = (sigilPulse: number, segmentIndex: number): string =>
+  `sigil_segment_${sigilPulse}_${String(segmentIndex).padStart(6, "0")}.json`;
+
+/* Key backup naming — backup pulse + SPKI tail (P-256 SPKIs share their prefix) */
+export const keyBackupFilename = (pulse: number, spkiB64u: string, ext: "json" | "html"): string =>
+  `sigil_key_backup_${pulse}_${spkiB64u.slice(-8)}.${ext}`;
+
+/* Batch verification report naming — pulse the batch was verified at */
+export const batchReportFilename = (pulse: number): string => `sigil_batch_report_${pulse}.json`;
+
 export const download = (dataUrlOrBlob: string | Blob, fname: string): void => {
   const a = document.createElement("a");
   if (typeof dataUrlOrBlob === "string") {
@@ -4,5 +4,6 @@ import VerifierStamper from "./VerifierStamper";
 
 export { verifyHistorical } from "./verifyHistorical";
 export { verifySovereignOffline, type SovereignVerifyReport } from "./verifySovereignOffline";
+export type { VerifyIssue, VerifyIssueCode, VerifyReport, VerifySeverity } from "../../verifier/report";
 
 export default VerifierStamper;
@@ -0,0 +1,134 @@
+// src/components/VerifierStamper/keyBackup.ts
+/* Passphrase-encrypted keypair backup (PBKDF2-SHA256 → AES-GCM, WebCrypto only)
+   and a printable recovery sheet carrying the same backup as a QR. */
+
+import type { B64uSPKI } from "./types";
+import { b64u, phiFromPublicKey } from "./crypto";
+import { exportPriv, importPriv, importPub, signB64u, u8ToBuf, verifySig, type Keypair } from "./keys";
+import { qrSvgString } from "../../lib/qr";
+
+export interface KeyBackup {
+  kind: "kai-key-backup";
+  v: 1;
+  spki: B64uSPKI; // public half — also the AES-GCM additional data, so it cannot be swapped
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string }; // salt: base64url(16B)
+  cipher: { name: "AES-GCM"; iv: string }; // iv: base64url(12B)
+  ciphertext: string; // base64url(AES-GCM(pkcs8))
+}
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+const ITERATIONS = 600_000;
+const MAX_ITERATIONS = 10_000_000; // refuse backups that would stall the tab
+
+async function deriveAesKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey("raw", u8ToBuf(new TextEncoder().encode(passphrase)), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: u8ToBuf(salt), iterations },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** Encrypt this device's keypair under a passphrase. */
+export async function encryptKeyBackup(kp: Keypair, passphrase: string): Promise<KeyBackup> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const aes = await deriveAesKey(passphrase, salt, ITERATIONS);
+  const pkcs8 = b64u.decode(await exportPriv(kp.priv));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: u8ToBuf(iv), additionalData: u8ToBuf(new TextEncoder().encode(kp.spkiB64u)) },
+    aes,
+    u8ToBuf(pkcs8)
+  );
+  return {
+    kind: "kai-key-backup",
+    v: 1,
+    spki: kp.spkiB64u,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: ITERATIONS, salt: b64u.encode(salt) },
+    cipher: { name: "AES-GCM", iv: b64u.encode(iv) },
+    ciphertext: b64u.encode(new Uint8Array(ciphertext)),
+  };
+}
+
+/** Validate an imported backup's shape (throws with a human-readable message). */
+export function parseKeyBackup(text: string): KeyBackup {
+  let raw: Partial<KeyBackup>;
+  try {
+    raw = JSON.parse(text.trim()) as Partial<KeyBackup>;
+  } catch {
+    throw new Error("Key backup is not valid JSON");
+  }
+  if (raw?.kind !== "kai-key-backup" || raw.v !== 1) throw new Error("Not a key backup");
+  const { kdf, cipher } = raw;
+  if (kdf?.name !== "PBKDF2" || kdf.hash !== "SHA-256" || cipher?.name !== "AES-GCM") {
+    throw new Error("Key backup uses an unsupported cipher");
+  }
+  if (!Number.isInteger(kdf.iterations) || kdf.iterations < 100_000 || kdf.iterations > MAX_ITERATIONS) {
+    throw new Error("Key backup has an unsupported iteration count");
+  }
+  if (![raw.spki, kdf.salt, cipher.iv, raw.ciphertext].every((v) => typeof v === "string" && v.length > 0)) {
+    throw new Error("Key backup is incomplete");
+  }
+  return raw as KeyBackup;
+}
+
+/** Decrypt a backup and prove the private key matches its SPKI (throws on a wrong passphrase). */
+export async function decryptKeyBackup(backup: KeyBackup, passphrase: string): Promise<Keypair> {
+  let pkcs8: ArrayBuffer;
+  try {
+    const aes = await deriveAesKey(passphrase, b64u.decode(backup.kdf.salt), backup.kdf.iterations);
+    pkcs8 = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: u8ToBuf(b64u.decode(backup.cipher.iv)),
+        additionalData: u8ToBuf(new TextEncoder().encode(backup.spki)),
+      },
+      aes,
+      u8ToBuf(b64u.decode(backup.ciphertext))
+    );
+  } catch {
+    throw new Error("Wrong passphrase or damaged backup");
+  }
+  const priv = await importPriv(pkcs8);
+  const pub = await importPub(u8ToBuf(b64u.decode(backup.spki)));
+  const probe = new TextEncoder().encode(`kai-key-backup:${backup.spki}`);
+  if (!(await verifySig(backup.spki, probe, await signB64u(priv, probe)))) {
+    throw new Error("Backup private key does not match its public key");
+  }
+  return { priv, pub, spkiB64u: backup.spki };
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Self-contained printable page: Φ key, QR of the encrypted backup and the backup text itself. */
+export async function recoverySheetHtml(backup: KeyBackup, pulse: number): Promise<string> {
+  const json = JSON.stringify(backup);
+  const qr = await qrSvgString(json, { ecc: "M", margin: 4 });
+  const phi = await phiFromPublicKey(backup.spki);
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><title>Kai sigil key recovery sheet · pulse ${pulse}</title>
+<style>
+  body{ font: 14px/1.45 system-ui, sans-serif; color:#111; max-width: 720px; margin: 32px auto; padding: 0 16px }
+  h1{ font-size: 20px; margin: 0 0 4px } .dim{ color:#555 }
+  .qr{ width: 320px; height: 320px; margin: 16px 0 } .qr svg{ width:100%; height:100% }
+  pre{ white-space: pre-wrap; word-break: break-all; font-size: 10px; border:1px solid #ccc; padding: 8px }
+  @media print{ body{ margin: 0 } }
+</style></head>
+<body>
+  <h1>Sigil key recovery sheet</h1>
+  <p class="dim">Created at pulse ${pulse} · Φ key <code>${escapeHtml(phi)}</code></p>
+  <p>This sheet holds the private signing key for every sigil anchored to the Φ key above, encrypted with your passphrase.
+     It is useless without the passphrase — never write the passphrase on this sheet.</p>
+  <div class="qr">${qr}</div>
+  <p>To restore: open the Verifier → Lineage → Device key, paste the QR's text (any QR reader) or the text below, and enter the passphrase.</p>
+  <pre>${escapeHtml(json)}</pre>
+</body></html>`;
+}
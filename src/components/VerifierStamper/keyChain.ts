@@ -0,0 +1,176 @@
+// src/components/VerifierStamper/keyChain.ts
+/* Owner key rotation + revocation: signed statements chained from creatorPublicKey,
+   resolved into key epochs so lineage signatures are checked against the key valid at their pulse. */
+
+import type { B64uSPKI, KeyRevocationStatement, KeyRotationStatement, KeyStatement, SigilMetadata } from "./types";
+import { stableStringify } from "./sigilUtils";
+import { signB64u, verifySig, type Keypair } from "./keys";
+
+/** One owner key's validity: [from, until) minus anything at/after revokedAt (null = unbounded) */
+export type KeyEpoch = { key: B64uSPKI; from: number | null; until: number | null; revokedAt: number | null };
+
+export type KeyChainState = {
+  epochs: KeyEpoch[]; // genesis first; the last epoch is the current owner key
+  errors: string[]; // "statement #n: …" for every statement that was ignored
+};
+
+export type KeyStatus = "valid" | "revoked" | "outside";
+
+/** Portable chain file — rotations are not sigil-bound, so one chain can be applied to every sigil of the genesis key */
+export interface KeyChainExport {
+  kind: "kai-key-chain";
+  v: 1;
+  genesis: B64uSPKI;
+  statements: KeyStatement[];
+}
+
+const B64U = /^[A-Za-z0-9_-]+$/;
+
+/* Canonical signed bytes (statement without its sig) */
+function statementMessage(s: KeyStatement): Uint8Array {
+  const body =
+    s.type === "rotate"
+      ? { type: s.type, v: s.v, from: s.from, to: s.to, pulse: s.pulse }
+      : { type: s.type, v: s.v, key: s.key, pulse: s.pulse, by: s.by };
+  return new TextEncoder().encode(stableStringify(body));
+}
+
+async function statementSigOk(signer: B64uSPKI, s: KeyStatement): Promise<boolean> {
+  try {
+    return await verifySig(signer, statementMessage(s), s.sig);
+  } catch {
+    return false; // malformed key/signature encoding
+  }
+}
+
+/* ── Sign ──────────────────────────────────────────────────── */
+
+/** Current owner key `kp` hands ownership to `to` from `pulse` on. */
+export async function signKeyRotation(kp: Keypair, to: B64uSPKI, pulse: number): Promise<KeyRotationStatement> {
+  const s: KeyRotationStatement = { type: "rotate", v: 1, from: kp.spkiB64u, to, pulse, sig: "" };
+  return { ...s, sig: await signB64u(kp.priv, statementMessage(s)) };
+}
+
+/** `kp` (the key itself or a later chain key) revokes `key` from `pulse` on. */
+export async function signKeyRevocation(kp: Keypair, key: B64uSPKI, pulse: number): Promise<KeyRevocationStatement> {
+  const s: KeyRevocationStatement = { type: "revoke", v: 1, key, pulse, by: kp.spkiB64u, sig: "" };
+  return { ...s, sig: await signB64u(kp.priv, statementMessage(s)) };
+}
+
+/* ── Resolve ───────────────────────────────────────────────── */
+
+/** Walk statements in order from the genesis key; invalid statements are reported and skipped. */
+export async function resolveKeyChain(genesis: B64uSPKI, statements: KeyStatement[]): Promise<KeyChainState> {
+  const epochs: KeyEpoch[] = [{ key: genesis, from: null, until: null, revokedAt: null }];
+  const errors: string[] = [];
+
+  for (const [n, s] of statements.entries()) {
+    const fail = (why: string) => errors.push(`statement #${n + 1}: ${why}`);
+    if (s?.v !== 1 || !Number.isInteger(s.pulse) || typeof s.sig !== "string") {
+      fail("malformed");
+      continue;
+    }
+
+    if (s.type === "rotate") {
+      const tip = epochs[epochs.length - 1];
+      if (typeof s.to !== "string" || !B64U.test(s.to)) fail("rotation target is not a base64url SPKI");
+      else if (s.from !== tip.key) fail("rotation does not start at the current owner key");
+      else if (tip.from !== null && s.pulse <= tip.from) fail("rotation pulse must follow the previous rotation");
+      else if (tip.revokedAt !== null && s.pulse >= tip.revokedAt) fail("rotation signed after its key was revoked");
+      else if (epochs.some((e) => e.key === s.to)) fail("rotation returns to an earlier key");
+      else if (!(await statementSigOk(s.from, s))) fail("rotation signature invalid");
+      else {
+        tip.until = s.pulse;
+        epochs.push({ key: s.to, from: s.pulse, until: null, revokedAt: null });
+      }
+    } else if (s.type === "revoke") {
+      const target = epochs.findIndex((e) => e.key === s.key);
+      const signer = epochs.findIndex((e) => e.key === s.by);
+      if (target < 0) fail("revokes a key outside the chain");
+      else if (signer < target) fail("revocation must be signed by the key itself or a later chain key");
+      else if (!(await statementSigOk(s.by, s))) fail("revocation signature invalid");
+      else {
+        const e = epochs[target];
+        e.revokedAt = e.revokedAt === null ? s.pulse : Math.min(e.revokedAt, s.pulse);
+      }
+    } else {
+      fail(`unknown statement type ${String((s as { type?: unknown }).type)}`);
+    }
+  }
+
+  return { epochs, errors };
+}
+
+/** Chain state for a sigil head (null when it has no statements or no genesis key). */
+export async function resolveHeadKeyChain(meta: SigilMetadata): Promise<KeyChainState | null> {
+  if (!meta.creatorPublicKey || !(meta.keyChain?.length ?? 0)) return null;
+  return resolveKeyChain(meta.creatorPublicKey, meta.keyChain ?? []);
+}
+
+/** Whether `key` may sign lineage at `pulse`. */
+export function keyStatusAt(state: KeyChainState, key: B64uSPKI, pulse: number): KeyStatus {
+  let status: KeyStatus = "outside";
+  for (const e of state.epochs) {
+    if (e.key !== key) continue;
+    if ((e.from !== null && pulse < e.from) || (e.until !== null && pulse >= e.until)) continue;
+    if (e.revokedAt !== null && pulse >= e.revokedAt) status = "revoked";
+    else return "valid";
+  }
+  return status;
+}
+
+/** Latest statement pulse among the first `length` statements (the prefix a transfer pinned), or null. */
+export function pinnedChainPulse(statements: KeyStatement[] | undefined, length: number): number | null {
+  let latest: number | null = null;
+  for (const s of (statements ?? []).slice(0, length)) {
+    if (Number.isInteger(s?.pulse) && (latest === null || s.pulse > latest)) latest = s.pulse;
+  }
+  return latest;
+}
+
+/** Current owner key (chain tip), or null once it is revoked at `pulse`. */
+export function ownerKeyAt(state: KeyChainState, pulse: number): B64uSPKI | null {
+  const tip = state.epochs[state.epochs.length - 1];
+  return keyStatusAt(state, tip.key, pulse) === "valid" ? tip.key : null;
+}
+
+/** Key this device signs single-owner lineage with at `pulse`: creatorPublicKey (or the device key) without a
+    chain; with one, the device key only when it is the current owner key (null = this device is not the owner). */
+export async function signingOwnerKey(meta: SigilMetadata, deviceKey: B64uSPKI, pulse: number): Promise<B64uSPKI | null> {
+  const state = await resolveHeadKeyChain(meta);
+  if (!state) return meta.creatorPublicKey ?? deviceKey;
+  return ownerKeyAt(state, pulse) === deviceKey ? deviceKey : null;
+}
+
+/* ── Export / import ───────────────────────────────────────── */
+
+export function exportKeyChain(meta: SigilMetadata): KeyChainExport {
+  return { kind: "kai-key-chain", v: 1, genesis: meta.creatorPublicKey ?? "", statements: meta.keyChain ?? [] };
+}
+
+/** Validate an imported chain file's shape (throws with a human-readable message). */
+export function parseKeyChain(json: string): KeyChainExport {
+  let raw: Partial<KeyChainExport>;
+  try {
+    raw = JSON.parse(json) as Partial<KeyChainExport>;
+  } catch {
+    throw new Error("Key chain is not valid JSON");
+  }
+  if (raw?.kind !== "kai-key-chain" || raw.v !== 1) throw new Error("Not a key chain file");
+  if (typeof raw.genesis !== "string" || !Array.isArray(raw.statements)) throw new Error("Key chain is incomplete");
+  return raw as KeyChainExport;
+}
+
+/** Head with the imported chain applied; it must share the genesis key and extend the current chain. */
+export async function applyKeyChain(meta: SigilMetadata, chain: KeyChainExport): Promise<SigilMetadata> {
+  if (!meta.creatorPublicKey || chain.genesis !== meta.creatorPublicKey) {
+    throw new Error("Key chain starts at a different owner key");
+  }
+  const current = meta.keyChain ?? [];
+  if (chain.statements.length < current.length || current.some((s, i) => s.sig !== chain.statements[i]?.sig)) {
+    throw new Error("Key chain does not extend this sigil's chain");
+  }
+  const { errors } = await resolveKeyChain(chain.genesis, chain.statements);
+  if (errors.length > 0) throw new Error(`Key chain rejected — ${errors[0]}`);
+  return { ...meta, keyChain: chain.statements };
+}
@@ -5,6 +5,9 @@ export type Keypair = { priv: CryptoKey; pub: CryptoKey; spkiB64u: string };
 
 const KEY_PRIV = "kairos:key:pkcs8";
 const KEY_PUB = "kairos:key:spki";
+const KEY_RING = "kairos:keyring"; // other locally held keys (restored / superseded): [{ spki, pkcs8 }]
+
+type StoredKey = { spki: string; pkcs8: string };
 
 const algo = { name: "ECDSA", namedCurve: "P-256" } as const;
 const sigParams = { name: "ECDSA", hash: "SHA-256" } as const;
@@ -56,6 +59,57 @@ export async function loadOrCreateKeypair(): Promise<Keypair> {
   }
 }
 
+function readRing(): StoredKey[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(KEY_RING) ?? "[]");
+    return Array.isArray(raw)
+      ? raw.filter((k): k is StoredKey => typeof k?.spki === "string" && typeof k?.pkcs8 === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** SPKIs of every key held on this device (active key first). */
+export function localKeyIds(): string[] {
+  try {
+    const active = localStorage.getItem(KEY_PUB);
+    const ring = readRing()
+      .map((k) => k.spki)
+      .filter((k) => k !== active);
+    return active ? [active, ...ring] : ring;
+  } catch {
+    return [];
+  }
+}
+
+/** A locally held key by SPKI (active or keyring), or null. */
+export async function loadLocalKeypair(spkiB64u: string): Promise<Keypair | null> {
+  try {
+    const pkcs8B64 =
+      localStorage.getItem(KEY_PUB) === spkiB64u
+        ? localStorage.getItem(KEY_PRIV)
+        : readRing().find((k) => k.spki === spkiB64u)?.pkcs8;
+    if (!pkcs8B64) return null;
+    const priv = await importPriv(u8ToBuf(b64u.decode(pkcs8B64)));
+    const pub = await importPub(u8ToBuf(b64u.decode(spkiB64u)));
+    return { priv, pub, spkiB64u };
+  } catch {
+    return null;
+  }
+}
+
+/** Make `kp` this device's signing key; the previous one stays held in the keyring (never discarded). */
+export async function activateKeypair(kp: Keypair): Promise<void> {
+  const prevPriv = localStorage.getItem(KEY_PRIV);
+  const prevPub = localStorage.getItem(KEY_PUB);
+  const ring = readRing().filter((k) => k.spki !== kp.spkiB64u && k.spki !== prevPub);
+  if (prevPriv && prevPub && prevPub !== kp.spkiB64u) ring.push({ spki: prevPub, pkcs8: prevPriv });
+  localStorage.setItem(KEY_RING, JSON.stringify(ring));
+  localStorage.setItem(KEY_PRIV, await exportPriv(kp.priv));
+  localStorage.setItem(KEY_PUB, kp.spkiB64u);
+}
+
 export async function signB64u(priv: CryptoKey, msg: Uint8Array): Promise<string> {
   const sig = await crypto.subtle.sign(sigParams, priv, msg);
   return b64u.encode(new Uint8Array(sig));
@@ -68,4 +122,4 @@ export async function verifySig(pubB64u: string, msg: Uint8Array, sigB64u: strin
 }
 
 // Ensure named exports are visible to the module loader
-export { importPriv, importPub };
+export { importPriv, importPub, exportPriv, u8ToBuf };
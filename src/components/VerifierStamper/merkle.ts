@@ -1,5 +1,10 @@
-import type { HashHex, TransferProof } from "./types";
-import { sha256Hex } from "./crypto";
+import type { HashHex, MerkleVersion, TransferProof } from "./types";
+import { hexToBytes, sha256Hex } from "./crypto";
+
+/** Version written by new seals; readers accept every version. */
+export const MERKLE_VERSION_LATEST: MerkleVersion = 2;
+
+/* ═════════════ v1 — sorted pairs (legacy, position-free) ═════════════ */
 
 export async function hashPair(a: HashHex, b: HashHex): Promise<HashHex> {
   const ab = new TextEncoder().encode(a + "|" + b);
@@ -7,7 +12,7 @@ export async function hashPair(a: HashHex, b: HashHex): Promise<HashHex> {
 }
 
 // Build merkle root (binary; duplicate last at odd levels)
-export async function buildMerkleRoot(leaves: HashHex[]): Promise<HashHex> {
+async function buildMerkleRootV1(leaves: HashHex[]): Promise<HashHex> {
   if (leaves.length === 0) return "0".repeat(64);
   let level = leaves.slice();
   while (level.length > 1) {
@@ -24,7 +29,7 @@ export async function buildMerkleRoot(leaves: HashHex[]): Promise<HashHex> {
   return level[0];
 }
 
-export async function merkleProof(leaves: HashHex[], index: number): Promise<TransferProof> {
+async function merkleProofV1(leaves: HashHex[], index: number): Promise<TransferProof> {
   if (leaves.length === 0) return { leaf: "0".repeat(64), index: 0, siblings: [] };
   let idx = index;
   let level = leaves.slice();
@@ -48,7 +53,7 @@ export async function merkleProof(leaves: HashHex[], index: number): Promise<Tra
   return { leaf: leaves[index], index, siblings };
 }
 
-export async function verifyProof(root: HashHex, proof: TransferProof): Promise<boolean> {
+async function verifyProofV1(root: HashHex, proof: TransferProof): Promise<boolean> {
   let acc = proof.leaf;
   let idx = proof.index;
   for (const sib of proof.siblings) {
@@ -59,3 +64,104 @@ export async function verifyProof(root: HashHex, proof: TransferProof): Promise<
   }
   return acc === root;
 }
+
+/* ═════════════ v2 — RFC 6962 (domain-separated, ordered) ═════════════ */
+
+const HEX32 = /^[0-9a-f]{64}$/i;
+
+function prefixed(prefix: number, ...hashes: HashHex[]): Uint8Array {
+  const out = new Uint8Array(1 + 32 * hashes.length);
+  out[0] = prefix;
+  hashes.forEach((h, i) => {
+    if (!HEX32.test(h)) throw new Error("Merkle v2 leaves must be 32-byte hex hashes");
+    out.set(hexToBytes(h), 1 + 32 * i);
+  });
+  return out;
+}
+
+/** RFC 6962 leaf hash: SHA-256(0x00 ‖ leaf) */
+export const merkleLeafHashV2 = (leaf: HashHex): Promise<HashHex> => sha256Hex(prefixed(0x00, leaf));
+
+/** RFC 6962 interior node: SHA-256(0x01 ‖ left ‖ right) — order is kept */
+export const merkleNodeHashV2 = (left: HashHex, right: HashHex): Promise<HashHex> =>
+  sha256Hex(prefixed(0x01, left, right));
+
+/* largest power of two strictly below n (n ≥ 2) */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/* MTH over already leaf-hashed nodes[lo, hi) */
+async function subtreeRootV2(nodes: HashHex[], lo: number, hi: number): Promise<HashHex> {
+  if (hi - lo === 1) return nodes[lo];
+  const k = splitPoint(hi - lo);
+  return merkleNodeHashV2(await subtreeRootV2(nodes, lo, lo + k), await subtreeRootV2(nodes, lo + k, hi));
+}
+
+/* RFC 6962 PATH(m, D[lo:hi]) — bottom-up audit path */
+async function auditPathV2(nodes: HashHex[], m: number, lo: number, hi: number): Promise<HashHex[]> {
+  if (hi - lo <= 1) return [];
+  const k = splitPoint(hi - lo);
+  return m < k
+    ? [...(await auditPathV2(nodes, m, lo, lo + k)), await subtreeRootV2(nodes, lo + k, hi)]
+    : [...(await auditPathV2(nodes, m - k, lo + k, hi)), await subtreeRootV2(nodes, lo, lo + k)];
+}
+
+async function buildMerkleRootV2(leaves: HashHex[]): Promise<HashHex> {
+  if (leaves.length === 0) return sha256Hex(new Uint8Array(0));
+  const nodes = await Promise.all(leaves.map(merkleLeafHashV2));
+  return subtreeRootV2(nodes, 0, nodes.length);
+}
+
+async function merkleProofV2(leaves: HashHex[], index: number): Promise<TransferProof> {
+  if (index < 0 || index >= leaves.length) throw new Error(`Leaf index ${index} outside tree of ${leaves.length}`);
+  const nodes = await Promise.all(leaves.map(merkleLeafHashV2));
+  const siblings = await auditPathV2(nodes, index, 0, nodes.length);
+  return { leaf: leaves[index], index, siblings, version: 2, treeSize: leaves.length };
+}
+
+/* RFC 9162 §2.1.3.2 inclusion verification (binds index + tree size) */
+async function verifyProofV2(root: HashHex, proof: TransferProof): Promise<boolean> {
+  const size = proof.treeSize ?? 0;
+  if (!Number.isInteger(proof.index) || proof.index < 0 || proof.index >= size) return false;
+  let fn = proof.index;
+  let sn = size - 1;
+  let r = await merkleLeafHashV2(proof.leaf);
+  for (const p of proof.siblings) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      r = await merkleNodeHashV2(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = await merkleNodeHashV2(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && r === root;
+}
+
+/* ═════════════ Versioned entry points ═════════════ */
+
+/** Merkle root over leaves; version defaults to 1 so legacy heads recompute unchanged. */
+export async function buildMerkleRoot(leaves: HashHex[], version: MerkleVersion = 1): Promise<HashHex> {
+  return version === 2 ? buildMerkleRootV2(leaves) : buildMerkleRootV1(leaves);
+}
+
+export async function merkleProof(leaves: HashHex[], index: number, version: MerkleVersion = 1): Promise<TransferProof> {
+  return version === 2 ? merkleProofV2(leaves, index) : merkleProofV1(leaves, index);
+}
+
+/** Verify an inclusion proof under the version it declares (absent = 1). */
+export async function verifyProof(root: HashHex, proof: TransferProof): Promise<boolean> {
+  try {
+    return (proof.version ?? 1) === 2 ? await verifyProofV2(root, proof) : await verifyProofV1(root, proof);
+  } catch {
+    return false; // malformed (non-hex) v2 input
+  }
+}
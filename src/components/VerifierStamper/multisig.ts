@@ -0,0 +1,219 @@
+// src/components/VerifierStamper/multisig.ts
+/* m-of-n SEND control: policy checks, policy-bound SEND messages, signature tallies
+   and the partial-signature proposal file co-signers pass around (offline, async). */
+
+import type {
+  B64uSPKI,
+  HardenedTransferV14,
+  MultisigPolicy,
+  SigilMetadata,
+  SigilTransfer,
+} from "./types";
+import { buildSendMessageV14, expectedPrevHeadRootV14, hashTransferSenderSide, stableStringify } from "./sigilUtils";
+import { signB64u, verifySig, type Keypair } from "./keys";
+import { keyStatusAt, type KeyChainState } from "./keyChain";
+
+export type SendTally = {
+  threshold: number;
+  valid: B64uSPKI[]; // distinct policy signers with a valid signature
+  invalid: B64uSPKI[]; // policy signers whose signature does not verify
+  unknown: B64uSPKI[]; // keys that are not in the policy (never counted)
+};
+
+/** Shared partial-signature file: one pending SEND collecting signatures until the threshold is met. */
+export interface MultisigSendProposal {
+  kind: "kai-multisig-send";
+  v: 1;
+  kaiSignature: string; // sigil this SEND belongs to
+  index: number; // hardenedTransfers index the SEND will occupy
+  transfer: SigilTransfer; // legacy window entry
+  hardened: HardenedTransferV14; // senderSig = initiator; senderCoSigs = the rest
+}
+
+const B64U = /^[A-Za-z0-9_-]+$/;
+
+/* ── Policy ────────────────────────────────────────────────── */
+
+/** Human-readable problem with a policy, or null when well-formed. */
+export function multisigPolicyError(p: MultisigPolicy): string | null {
+  if (!Array.isArray(p.signers) || p.signers.length === 0) return "policy has no signers";
+  if (p.signers.some((k) => typeof k !== "string" || !B64U.test(k))) return "policy signer is not a base64url SPKI";
+  if (new Set(p.signers).size !== p.signers.length) return "policy lists a signer twice";
+  if (!Number.isInteger(p.threshold) || p.threshold < 1 || p.threshold > p.signers.length) {
+    return `threshold must be 1…${p.signers.length}`;
+  }
+  if (!Number.isInteger(p.since) || p.since < 0) return "policy start index is invalid";
+  return null;
+}
+
+/** Canonical adoption bytes: the policy terms, bound to the sigil, the adoption pulse and the adopting owner key. */
+export function multisigAdoptionMessage(meta: SigilMetadata, p: MultisigPolicy): Uint8Array {
+  const body = {
+    type: "multisig-adopt",
+    v: 1,
+    kaiSignature: meta.kaiSignature ?? "",
+    threshold: p.threshold,
+    signers: p.signers,
+    since: p.since,
+    pulse: p.adoptedAtPulse ?? null,
+    by: p.adoptedBy ?? "",
+  };
+  return new TextEncoder().encode(stableStringify(body));
+}
+
+/** Owner key `kp` adopts `policy` at `pulse` (caller checks `kp` is the owner key valid then). */
+export async function signMultisigAdoption(
+  meta: SigilMetadata,
+  policy: MultisigPolicy,
+  kp: Keypair,
+  pulse: number
+): Promise<MultisigPolicy> {
+  const p: MultisigPolicy = { ...policy, adoptedAtPulse: pulse, adoptedBy: kp.spkiB64u, adoptionSig: "" };
+  return { ...p, adoptionSig: await signB64u(kp.priv, multisigAdoptionMessage(meta, p)) };
+}
+
+/** Why the head's policy adoption is not authorized (owner key at the adoption pulse), or null when it is. */
+export async function multisigAdoptionError(meta: SigilMetadata, chain: KeyChainState | null): Promise<string | null> {
+  const p = meta.multisig;
+  if (!p) return null;
+  if (!p.adoptedBy || !p.adoptionSig || !Number.isInteger(p.adoptedAtPulse)) return "policy adoption is unsigned";
+  const pulse = p.adoptedAtPulse as number;
+  const owner = chain ? keyStatusAt(chain, p.adoptedBy, pulse) === "valid" : p.adoptedBy === meta.creatorPublicKey;
+  if (!owner) return `policy was adopted by a key that is not the owner key at pulse ${pulse}`;
+  const before = meta.hardenedTransfers?.[p.since - 1]?.senderKaiPulse;
+  if (typeof before === "number" && pulse < before) return `policy adoption predates transfer #${p.since}`;
+  let ok = false;
+  try {
+    ok = await verifySig(p.adoptedBy, multisigAdoptionMessage(meta, p), p.adoptionSig);
+  } catch {
+    ok = false; // malformed key/signature encoding
+  }
+  return ok ? null : "policy adoption signature invalid";
+}
+
+/** Policy governing hardened entry #index (undefined before adoption / single owner). */
+export function multisigPolicyAt(meta: SigilMetadata, index: number): MultisigPolicy | undefined {
+  const p = meta.multisig;
+  return p && index >= p.since ? p : undefined;
+}
+
+/** Canonical SEND bytes for entry #index — the policy is bound in once it governs the entry (terms when set). */
+export function sendMessageFor(
+  meta: SigilMetadata,
+  t: Pick<
+    HardenedTransferV14,
+    "previousHeadRoot" | "senderKaiPulse" | "senderPubKey" | "nonce" | "transferLeafHashSend" | "unlockAtPulse" | "refundAfterPulse"
+  >,
+  index: number
+): Uint8Array {
+  const policy = multisigPolicyAt(meta, index);
+  return buildSendMessageV14(meta, {
+    previousHeadRoot: t.previousHeadRoot,
+    senderKaiPulse: t.senderKaiPulse ?? 0,
+    senderPubKey: t.senderPubKey ?? "",
+    nonce: t.nonce ?? "",
+    transferLeafHashSend: t.transferLeafHashSend ?? "",
+    multisig: policy && { threshold: policy.threshold, signers: policy.signers },
+    unlockAtPulse: t.unlockAtPulse,
+    refundAfterPulse: t.refundAfterPulse,
+  });
+}
+
+/** Count distinct, valid policy-signer signatures on a SEND (initiator + co-signers). */
+export async function tallySendSignatures(
+  meta: SigilMetadata,
+  t: HardenedTransferV14,
+  index: number,
+  policy: MultisigPolicy
+): Promise<SendTally> {
+  const tally: SendTally = { threshold: policy.threshold, valid: [], invalid: [], unknown: [] };
+  const msg = sendMessageFor(meta, t, index);
+  const seen = new Set<string>();
+  for (const { pubKey, sig } of [{ pubKey: t.senderPubKey, sig: t.senderSig }, ...(t.senderCoSigs ?? [])]) {
+    if (!pubKey || seen.has(pubKey)) continue; // a key counts once
+    seen.add(pubKey);
+    if (!policy.signers.includes(pubKey)) {
+      tally.unknown.push(pubKey);
+      continue;
+    }
+    let ok = false;
+    try {
+      ok = await verifySig(pubKey, msg, sig);
+    } catch {
+      ok = false; // malformed key/signature encoding
+    }
+    (ok ? tally.valid : tally.invalid).push(pubKey);
+  }
+  return tally;
+}
+
+/* ── Proposals (partial-signature files) ───────────────────── */
+
+export function createSendProposal(
+  meta: SigilMetadata,
+  index: number,
+  transfer: SigilTransfer,
+  hardened: HardenedTransferV14
+): MultisigSendProposal {
+  return { kind: "kai-multisig-send", v: 1, kaiSignature: meta.kaiSignature ?? "", index, transfer, hardened };
+}
+
+/** Validate an imported proposal's shape (throws with a human-readable message). */
+export function parseSendProposal(json: string): MultisigSendProposal {
+  let raw: Partial<MultisigSendProposal>;
+  try {
+    raw = JSON.parse(json) as Partial<MultisigSendProposal>;
+  } catch {
+    throw new Error("Proposal is not valid JSON");
+  }
+  if (raw?.kind !== "kai-multisig-send" || raw.v !== 1) throw new Error("Not a multisig SEND proposal");
+  if (!Number.isInteger(raw.index) || !raw.transfer || !raw.hardened?.senderSig) {
+    throw new Error("Multisig proposal is incomplete");
+  }
+  return raw as MultisigSendProposal;
+}
+
+/** Check a proposal still applies to this head and tally its signatures. */
+export async function checkSendProposal(
+  meta: SigilMetadata,
+  p: MultisigSendProposal
+): Promise<{ tally: SendTally | null; error: string | null }> {
+  const policy = multisigPolicyAt(meta, p.index);
+  if (!policy) return { tally: null, error: "This sigil has no multisig policy for that transfer" };
+  if (p.kaiSignature !== (meta.kaiSignature ?? "")) return { tally: null, error: "Proposal belongs to a different sigil" };
+  if (p.index !== (meta.hardenedTransfers?.length ?? 0)) {
+    return { tally: null, error: "Proposal is stale — the sigil head has moved on" };
+  }
+  if (p.hardened.previousHeadRoot !== (await expectedPrevHeadRootV14(meta, p.index))) {
+    return { tally: null, error: "Proposal does not pin this head (previousHeadRoot mismatch)" };
+  }
+  if (p.hardened.transferLeafHashSend !== (await hashTransferSenderSide(p.transfer))) {
+    return { tally: null, error: "Proposal transfer does not match its SEND leaf" };
+  }
+  return { tally: await tallySendSignatures(meta, p.hardened, p.index, policy), error: null };
+}
+
+/** Add this device's signature to a proposal (no-op if already signed). */
+export async function cosignSendProposal(
+  meta: SigilMetadata,
+  p: MultisigSendProposal,
+  kp: Keypair
+): Promise<MultisigSendProposal> {
+  const policy = multisigPolicyAt(meta, p.index);
+  if (!policy?.signers.includes(kp.spkiB64u)) throw new Error("This device's key is not a signer of the policy");
+  const signed = [p.hardened.senderPubKey, ...(p.hardened.senderCoSigs ?? []).map((c) => c.pubKey)];
+  if (signed.includes(kp.spkiB64u)) return p;
+  const sig = await signB64u(kp.priv, sendMessageFor(meta, p.hardened, p.index));
+  const senderCoSigs = [...(p.hardened.senderCoSigs ?? []), { pubKey: kp.spkiB64u, sig }];
+  return { ...p, hardened: { ...p.hardened, senderCoSigs } };
+}
+
+/** Head with the proposal's SEND appended (caller checks the threshold first). */
+export function applySendProposal(meta: SigilMetadata, p: MultisigSendProposal): SigilMetadata {
+  return {
+    ...meta,
+    transferNonce: p.hardened.nonce,
+    transfers: [...(meta.transfers ?? []), p.transfer],
+    hardenedTransfers: [...(meta.hardenedTransfers ?? []), p.hardened],
+  };
+}
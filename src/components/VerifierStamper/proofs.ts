@@ -0,0 +1,162 @@
+// src/components/VerifierStamper/proofs.ts
+/* Per-transfer Merkle inclusion proofs: build (head window / segment),
+   parse and verify a single receipt against a sigil head — no full history needed. */
+
+import type {
+  HashHex,
+  HeadWindowProofBundle,
+  SegmentEntry,
+  SegmentFile,
+  SegmentProofBundle,
+  SigilMetadata,
+  SigilTransfer,
+} from "./types";
+import { merkleProof, buildMerkleRoot } from "./merkle";
+import { hashTransfer } from "./sigilUtils";
+import { verifyHistorical } from "./verifyHistorical";
+import { verifySegmentJson } from "./segments";
+
+export type ProofBundle = SegmentProofBundle | HeadWindowProofBundle;
+
+export type ProofCheck = { ok: boolean; reason: string };
+
+/* Leaf hashing ignores payload bytes, so bundles ship the transfer without them */
+function stripPayloadBytes(t: SigilTransfer): SigilTransfer {
+  return t.payload ? { ...t, payload: { ...t.payload, encoded: "" } } : { ...t };
+}
+
+const isHex = (v: unknown): v is HashHex => typeof v === "string" && /^[0-9a-f]{64}$/i.test(v);
+const isHexList = (v: unknown): v is HashHex[] => Array.isArray(v) && v.every(isHex);
+const isIndex = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v) && v >= 0;
+
+/* ── Build ─────────────────────────────────────────────────── */
+
+/** Proof that head-window transfer #index is included in meta.transfersWindowRoot. */
+export async function buildHeadWindowProofBundle(meta: SigilMetadata, index: number): Promise<HeadWindowProofBundle> {
+  const transfers = meta.transfers ?? [];
+  const t = transfers[index];
+  if (!t) throw new Error(`No head-window transfer #${index + 1}`);
+  const leaves = await Promise.all(transfers.map(hashTransfer));
+  const version = meta.merkleVersion ?? 1;
+  return {
+    kind: "head",
+    windowMerkleRoot: await buildMerkleRoot(leaves, version),
+    transferProof: await merkleProof(leaves, index, version),
+    kaiSignature: meta.kaiSignature,
+    transfer: stripPayloadBytes(t),
+  };
+}
+
+/** Parse an archived segment file and match it to the head's segment list (by cid, then root). */
+export async function loadSegmentForHead(
+  meta: SigilMetadata,
+  segmentJson: string
+): Promise<{ segment: SegmentFile; entry: SegmentEntry }> {
+  const { segment, cid, root } = await verifySegmentJson(segmentJson);
+  const segments = meta.segments ?? [];
+  const entry = segments.find((s) => s.cid === cid) ?? segments.find((s) => s.index === segment.segmentIndex);
+  if (!entry) throw new Error(`This sigil has no segment #${segment.segmentIndex}`);
+  if (root !== entry.root) throw new Error(`Segment #${entry.index} does not match this sigil (root mismatch)`);
+  return { segment, entry };
+}
+
+/** Proof that segment transfer #index ∈ segmentRoot ∈ meta.segmentsMerkleRoot. */
+export async function buildSegmentProofBundle(
+  meta: SigilMetadata,
+  segment: SegmentFile,
+  entry: SegmentEntry,
+  index: number
+): Promise<SegmentProofBundle> {
+  const t = segment.transfers[index];
+  if (!t) throw new Error(`No transfer #${index + 1} in segment #${entry.index}`);
+  const segments = meta.segments ?? [];
+  const position = segments.indexOf(entry);
+  const leaves = await Promise.all(segment.transfers.map(hashTransfer));
+  const segmentsVersion = meta.merkleVersion ?? 1;
+  const segmentsPath = await merkleProof(segments.map((s) => s.root), position, segmentsVersion);
+  return {
+    kind: "segment",
+    segmentIndex: entry.index,
+    segmentRoot: entry.root,
+    transferProof: await merkleProof(leaves, index, segment.merkleVersion ?? 1),
+    segmentsSiblings: segmentsPath.siblings,
+    segmentsVersion,
+    segmentsTreeSize: segmentsPath.treeSize,
+    headHashAtSeal: segment.headHashAtSeal,
+    segmentCid: entry.cid,
+    kaiSignature: meta.kaiSignature,
+    transfer: stripPayloadBytes(t),
+  };
+}
+
+/* ── Parse / verify ────────────────────────────────────────── */
+
+/** Validate an imported bundle's shape (throws with a human-readable message). */
+export function parseProofBundle(json: string): ProofBundle {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    throw new Error("Proof bundle is not valid JSON");
+  }
+  const tp = (raw?.transferProof ?? null) as Record<string, unknown> | null;
+  if (!tp || !isHex(tp.leaf) || !isIndex(tp.index) || !isHexList(tp.siblings)) {
+    throw new Error("Not a sigil proof bundle (missing transferProof)");
+  }
+  if (raw.kind === "head") {
+    if (!isHex(raw.windowMerkleRoot)) throw new Error("Head-window bundle is missing windowMerkleRoot");
+    return raw as unknown as HeadWindowProofBundle;
+  }
+  if (raw.kind === "segment") {
+    if (!isIndex(raw.segmentIndex) || !isHex(raw.segmentRoot) || !isHexList(raw.segmentsSiblings)) {
+      throw new Error("Segment bundle is missing its segment path");
+    }
+    return raw as unknown as SegmentProofBundle;
+  }
+  throw new Error(`Unknown proof bundle kind: ${String(raw.kind)}`);
+}
+
+/** Verify one receipt against the head's transfersWindowRoot / segmentsMerkleRoot. */
+export async function verifyProofBundle(head: SigilMetadata, bundle: ProofBundle): Promise<ProofCheck> {
+  if (bundle.kaiSignature && head.kaiSignature && bundle.kaiSignature !== head.kaiSignature) {
+    return { ok: false, reason: "Bundle was cut from a different sigil (kaiSignature mismatch)" };
+  }
+  if (bundle.transfer && (await hashTransfer(bundle.transfer)) !== bundle.transferProof.leaf) {
+    return { ok: false, reason: "Enclosed transfer does not hash to the proven leaf" };
+  }
+
+  if (bundle.kind === "head") {
+    if (!head.transfersWindowRoot) return { ok: false, reason: "Sigil has no head-window root" };
+    if (head.transfersWindowRoot !== bundle.windowMerkleRoot) {
+      return { ok: false, reason: "Head window has changed since this proof (sealed or new transfers) — request a segment proof" };
+    }
+    if ((bundle.transferProof.version ?? 1) !== (head.merkleVersion ?? 1)) {
+      return { ok: false, reason: `Proof uses merkle v${bundle.transferProof.version ?? 1}; head declares v${head.merkleVersion ?? 1}` };
+    }
+  } else {
+    const seg = head.segments?.find((s) => s.index === bundle.segmentIndex);
+    if (!head.segmentsMerkleRoot || !seg) return { ok: false, reason: `Sigil has no segment #${bundle.segmentIndex}` };
+    if (seg.root !== bundle.segmentRoot) return { ok: false, reason: `Segment #${bundle.segmentIndex} root mismatch` };
+    if (bundle.segmentCid && seg.cid !== bundle.segmentCid) {
+      return { ok: false, reason: `Segment #${bundle.segmentIndex} cid mismatch` };
+    }
+    if ((bundle.transferProof.version ?? 1) !== (seg.merkleVersion ?? 1)) {
+      return { ok: false, reason: `Proof uses merkle v${bundle.transferProof.version ?? 1}; segment declares v${seg.merkleVersion ?? 1}` };
+    }
+  }
+
+  if (!(await verifyHistorical(head, bundle))) return { ok: false, reason: "Merkle path does not reach the sigil root" };
+
+  const where =
+    bundle.kind === "head"
+      ? `head window (leaf #${bundle.transferProof.index + 1})`
+      : `segment #${bundle.segmentIndex} (leaf #${bundle.transferProof.index + 1})`;
+  return { ok: true, reason: `Transfer included in ${where}` };
+}
+
+/** Download name: sigil_proof_<pulse>_head_<n> / sigil_proof_<pulse>_seg<NNNNNN>_<n> */
+export function proofBundleFilename(meta: SigilMetadata, bundle: ProofBundle): string {
+  const n = bundle.transferProof.index + 1;
+  const where = bundle.kind === "head" ? "head" : `seg${String(bundle.segmentIndex).padStart(6, "0")}`;
+  return `sigil_proof_${meta.pulse ?? 0}_${where}_${n}.json`;
+}
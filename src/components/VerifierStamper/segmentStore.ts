@@ -0,0 +1,138 @@
+// src/components/VerifierStamper/segmentStore.ts
+/* Local content-addressed archive of sealed segments (IndexedDB, keyed by SegmentEntry.cid).
+   Exact segment bytes are kept so cids stay reproducible; integrity is re-checked on every read. */
+
+import type { SegmentEntry, SegmentFile, SigilMetadata, SigilTransfer } from "./types";
+import { verifySegmentJson } from "./segments";
+
+const DB_NAME = "kairos:segments";
+const DB_VERSION = 1;
+const STORE = "segments";
+
+export interface StoredSegment {
+  cid: string; // sha256(json) — primary key
+  segmentIndex: number;
+  segmentRoot: string;
+  segmentRange: [number, number];
+  count: number;
+  json: string; // exact bytes as sealed/imported
+  storedAt: number; // Date.now()
+}
+
+export type SegmentStatus = "stored" | "missing" | "corrupt";
+
+export type SegmentAvailability = { entry: SegmentEntry; status: SegmentStatus };
+
+/* ── IndexedDB plumbing ────────────────────────────────────── */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB unavailable"));
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "cid" }).createIndex("segmentRoot", "segmentRoot");
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error ?? new Error("Could not open segment store"));
+    }).catch((err) => {
+      dbPromise = null; // allow a retry later
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error("Segment store transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("Segment store transaction aborted"));
+  });
+}
+
+/* ── Public API ────────────────────────────────────────────── */
+
+/** Verify and store a segment file; throws if its declared segmentRoot does not recompute. */
+export async function putSegment(segmentJson: string): Promise<StoredSegment> {
+  const { segment, cid, root, rootOk } = await verifySegmentJson(segmentJson);
+  if (!rootOk) throw new Error(`Segment #${segment.segmentIndex} is corrupt (segmentRoot does not recompute)`);
+  const rec: StoredSegment = {
+    cid,
+    segmentIndex: segment.segmentIndex,
+    segmentRoot: root,
+    segmentRange: segment.segmentRange,
+    count: segment.transfers.length,
+    json: segmentJson,
+    storedAt: Date.now(),
+  };
+  await withStore("readwrite", (s) => s.put(rec));
+  return rec;
+}
+
+/* found = a record exists under cid; segment = null when its bytes no longer match cid/root */
+async function readSegment(cid: string): Promise<{ found: boolean; segment: SegmentFile | null }> {
+  const rec = await withStore<StoredSegment | undefined>("readonly", (s) => s.get(cid));
+  if (!rec) return { found: false, segment: null };
+  try {
+    const { segment, cid: actual, rootOk } = await verifySegmentJson(rec.json);
+    return { found: true, segment: actual === cid && rootOk ? segment : null };
+  } catch {
+    return { found: true, segment: null };
+  }
+}
+
+/** Fetch a stored segment by cid, re-checking cid + root (null if absent or tampered). */
+export async function getSegment(cid: string): Promise<SegmentFile | null> {
+  return (await readSegment(cid)).segment;
+}
+
+export async function listSegments(): Promise<StoredSegment[]> {
+  const all = await withStore<StoredSegment[]>("readonly", (s) => s.getAll());
+  return all.sort((a, b) => a.segmentIndex - b.segmentIndex || a.storedAt - b.storedAt);
+}
+
+export async function deleteSegment(cid: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(cid));
+}
+
+/** Exact stored bytes as a downloadable blob (cid-preserving), or null if absent. */
+export async function exportSegment(cid: string): Promise<Blob | null> {
+  const rec = await withStore<StoredSegment | undefined>("readonly", (s) => s.get(cid));
+  return rec ? new Blob([rec.json], { type: "application/json" }) : null;
+}
+
+/** Which of the head's segments are archived locally (stored / missing / corrupt). */
+export async function segmentAvailability(meta: SigilMetadata): Promise<SegmentAvailability[]> {
+  const out: SegmentAvailability[] = [];
+  for (const entry of meta.segments ?? []) {
+    const { found, segment } = await readSegment(entry.cid).catch(() => ({ found: false, segment: null }));
+    const status: SegmentStatus = !found ? "missing" : segment?.segmentRoot === entry.root ? "stored" : "corrupt";
+    out.push({ entry, status });
+  }
+  return out;
+}
+
+/** Rehydrate the full transfer history (all archived segments + head window), in order. */
+export async function rehydrateHistory(
+  meta: SigilMetadata
+): Promise<{ transfers: SigilTransfer[]; missing: SegmentEntry[]; complete: boolean }> {
+  const transfers: SigilTransfer[] = [];
+  const missing: SegmentEntry[] = [];
+  const entries = [...(meta.segments ?? [])].sort((a, b) => a.index - b.index);
+  for (const entry of entries) {
+    const seg = await getSegment(entry.cid).catch(() => null);
+    if (seg && seg.segmentRoot === entry.root) transfers.push(...seg.transfers);
+    else missing.push(entry);
+  }
+  transfers.push(...(meta.transfers ?? []));
+  return { transfers, missing, complete: missing.length === 0 };
+}
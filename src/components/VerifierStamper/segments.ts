@@ -1,10 +1,10 @@
 import type { SigilMetadata, SegmentEntry, SegmentFile, SigilTransfer } from "./types";
-import { headCanonicalHash } from "./sigilUtils";
-import { buildMerkleRoot } from "./merkle";
+import { hashTransfer, headCanonicalHash } from "./sigilUtils";
+import { buildMerkleRoot, MERKLE_VERSION_LATEST } from "./merkle";
 import { SEGMENT_SIZE } from "./constants";
 import { sha256Hex } from "./crypto";
 
-/* FIX: sealed window into a segment, returns updated meta + blob (unchanged behavior) */
+/* FIX: sealed window into a segment, returns updated meta + blob; sealing upgrades the head to the latest merkle version */
 export async function sealCurrentWindowIntoSegment(meta: SigilMetadata) {
   const live = meta.transfers ?? [];
   if (live.length === 0) return { meta, segmentFileBlob: null as Blob | null };
@@ -15,20 +15,10 @@ export async function sealCurrentWindowIntoSegment(meta: SigilMetadata) {
   const endGlobal = startGlobal + live.length - 1;
 
   // hash leaves (transfer minified)
-  const leaves = await Promise.all(live.map(async (t: SigilTransfer) => {
-    const obj: Record<string, unknown> = {
-      senderSignature: t.senderSignature,
-      senderStamp: t.senderStamp,
-      senderKaiPulse: t.senderKaiPulse,
-    };
-    if (t.payload) obj.payload = { name: t.payload.name, mime: t.payload.mime, size: t.payload.size };
-    if (t.receiverSignature) obj.receiverSignature = t.receiverSignature;
-    if (t.receiverStamp) obj.receiverStamp = t.receiverStamp;
-    if (t.receiverKaiPulse != null) obj.receiverKaiPulse = t.receiverKaiPulse;
-    return sha256Hex(JSON.stringify(obj));
-  }));
+  const version = MERKLE_VERSION_LATEST;
+  const leaves = await Promise.all(live.map((t: SigilTransfer) => hashTransfer(t)));
 
-  const segmentRoot = await buildMerkleRoot(leaves);
+  const segmentRoot = await buildMerkleRoot(leaves, version);
   const headHashAtSeal = await headCanonicalHash(meta);
 
   const segmentFile: SegmentFile = {
@@ -38,6 +28,7 @@ export async function sealCurrentWindowIntoSegment(meta: SigilMetadata) {
     segmentRoot,
     headHashAtSeal,
     leafHash: "sha256",
+    merkleVersion: version,
     transfers: live,
   };
   const segmentJson = JSON.stringify(segmentFile);
@@ -45,9 +36,9 @@ export async function sealCurrentWindowIntoSegment(meta: SigilMetadata) {
   const segmentBlob = new Blob([segmentJson], { type: "application/json" });
 
   // Update head/meta
-  const newSegments: SegmentEntry[] = [...(meta.segments ?? []), { index: segmentIndex, root: segmentRoot, cid, count: live.length }];
+  const newSegments: SegmentEntry[] = [...(meta.segments ?? []), { index: segmentIndex, root: segmentRoot, cid, count: live.length, merkleVersion: version }];
   const segmentRoots = newSegments.map((s) => s.root);
-  const segmentsMerkleRoot = await buildMerkleRoot(segmentRoots);
+  const segmentsMerkleRoot = await buildMerkleRoot(segmentRoots, version);
 
   const updated: SigilMetadata = {
     ...meta,
@@ -58,7 +49,26 @@ export async function sealCurrentWindowIntoSegment(meta: SigilMetadata) {
     transfersWindowRoot: undefined,
     headHashAtSeal,
     segmentSize: meta.segmentSize ?? SEGMENT_SIZE,
+    merkleVersion: version,
   };
 
   return { meta: updated, segmentFileBlob: segmentBlob };
 }
+
+/* Parse a segment file and recompute its integrity: cid = sha256(bytes), root = merkle(transfers) */
+export async function verifySegmentJson(
+  segmentJson: string
+): Promise<{ segment: SegmentFile; cid: string; root: string; rootOk: boolean }> {
+  let segment: SegmentFile;
+  try {
+    segment = JSON.parse(segmentJson) as SegmentFile;
+  } catch {
+    throw new Error("Segment file is not valid JSON");
+  }
+  if (!segment || segment.version !== 1 || !Array.isArray(segment.transfers) || typeof segment.segmentIndex !== "number") {
+    throw new Error("Not a sigil segment file");
+  }
+  const cid = await sha256Hex(segmentJson);
+  const root = await buildMerkleRoot(await Promise.all(segment.transfers.map(hashTransfer)), segment.merkleVersion ?? 1);
+  return { segment, cid, root, rootOk: root === segment.segmentRoot };
+}
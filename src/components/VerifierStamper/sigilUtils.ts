@@ -1,7 +1,8 @@
-import { SIGIL_CTX, SIGIL_TYPE } from "./constants";
+import { SEGMENT_SIZE, SIGIL_CTX, SIGIL_TYPE } from "./constants";
 import type {
   SigilTransfer,
   HashHex,
+  MerkleVersion,
   SigilMetadata,
   HardenedTransferV14,
   SegmentEntry,
@@ -60,6 +61,12 @@ export async function derivePhiKeyFromSig(sig: string): Promise<string> {
   return base58Check(raw, 0x00);
 }
 
+/* Timelock / escrow terms join the leaf only when set, so legacy leaves hash unchanged */
+function addTerms(obj: Record<string, unknown>, t: Pick<SigilTransfer, "unlockAtPulse" | "refundAfterPulse">) {
+  if (t.unlockAtPulse != null) obj.unlockAtPulse = t.unlockAtPulse;
+  if (t.refundAfterPulse != null) obj.refundAfterPulse = t.refundAfterPulse;
+}
+
 function minifyTransfer(t: SigilTransfer): Record<string, unknown> {
   const obj: Record<string, unknown> = {
     senderSignature: t.senderSignature,
@@ -70,6 +77,8 @@ function minifyTransfer(t: SigilTransfer): Record<string, unknown> {
   if (t.receiverSignature) obj.receiverSignature = t.receiverSignature;
   if (t.receiverStamp) obj.receiverStamp = t.receiverStamp;
   if (t.receiverKaiPulse != null) obj.receiverKaiPulse = t.receiverKaiPulse;
+  addTerms(obj, t);
+  if (t.refunded) obj.refunded = true;
   return obj;
 }
 export async function hashTransfer(t: SigilTransfer): Promise<HashHex> {
@@ -84,18 +93,29 @@ function minifyTransferSenderSide(t: SigilTransfer): Record<string, unknown> {
     senderKaiPulse: t.senderKaiPulse,
   };
   if (t.payload) obj.payload = { name: t.payload.name, mime: t.payload.mime, size: t.payload.size };
+  addTerms(obj, t);
   return obj;
 }
 export async function hashTransferSenderSide(t: SigilTransfer): Promise<HashHex> {
   return sha256Hex(JSON.stringify(minifyTransferSenderSide(t)));
 }
 
-export async function computeHeadWindowRoot(transfers: SigilTransfer[]): Promise<HashHex> {
+export async function computeHeadWindowRoot(transfers: SigilTransfer[], version: MerkleVersion = 1): Promise<HashHex> {
   const leaves = await Promise.all(transfers.map(hashTransfer));
-  return buildMerkleRoot(leaves);
+  return buildMerkleRoot(leaves, version);
 }
 
-export async function headCanonicalHashV14(meta: SigilMetadata, cumulativeOverride?: number): Promise<HashHex> {
+/* Snapshot a hardened entry pins; from the policy's `since` on it includes the adopted multisig policy
+   (likewise the ZK owner commitment from its `since`), and it includes the owner key chain statements
+   in force when the entry was signed (keyChainLength) */
+export async function headCanonicalHashV14(
+  meta: SigilMetadata,
+  cumulativeOverride?: number,
+  pin: { hardenedIndex?: number; keyChainLength?: number } = {}
+): Promise<HashHex> {
+  const { hardenedIndex, keyChainLength = 0 } = pin;
+  const policy = meta.multisig && hardenedIndex !== undefined && hardenedIndex >= meta.multisig.since ? meta.multisig : null;
+  const zkOwner = meta.zkOwner && hardenedIndex !== undefined && hardenedIndex >= meta.zkOwner.since ? meta.zkOwner : null;
   const snapshot = {
     pulse: meta.pulse ?? 0,
     beat: meta.beat ?? 0,
@@ -106,15 +126,50 @@ export async function headCanonicalHashV14(meta: SigilMetadata, cumulativeOverri
     cumulativeTransfers: (cumulativeOverride ?? meta.cumulativeTransfers) ?? 0,
     segments: (meta.segments ?? []).map((s) => ({ index: s.index, root: s.root, cid: s.cid, count: s.count })),
     segmentsMerkleRoot: meta.segmentsMerkleRoot ?? "",
+    ...(policy
+      ? {
+          multisig: {
+            threshold: policy.threshold,
+            signers: policy.signers,
+            since: policy.since,
+            adoptedAtPulse: policy.adoptedAtPulse ?? null,
+            adoptedBy: policy.adoptedBy ?? "",
+            adoptionSig: policy.adoptionSig ?? "",
+          },
+        }
+      : {}),
+    ...(zkOwner ? { zkOwner: { commitment: zkOwner.commitment, since: zkOwner.since } } : {}),
+    ...(keyChainLength > 0
+      ? { keyChain: await sha256Hex(stableStringify((meta.keyChain ?? []).slice(0, keyChainLength))) }
+      : {}),
   };
   return sha256Hex(stableStringify(snapshot));
 }
 export function sumSegments(meta: SigilMetadata) {
   return (meta.segments ?? []).reduce((a, s) => a + (s.count || 0), 0);
 }
+
+/* Fill the head fields v14 prev-head pinning reads (same defaults as the SVG upload path) */
+export async function applyHeadDefaults(meta: SigilMetadata): Promise<SigilMetadata> {
+  meta.segmentSize ??= SEGMENT_SIZE;
+  if (typeof meta.cumulativeTransfers !== "number") {
+    meta.cumulativeTransfers = sumSegments(meta) + (meta.transfers?.length ?? 0);
+  }
+  if ((meta.segments?.length ?? 0) > 0 && !meta.segmentsMerkleRoot) {
+    meta.segmentsMerkleRoot = await buildMerkleRoot(
+      (meta.segments ?? []).map((s) => s.root),
+      meta.merkleVersion ?? 1
+    );
+  }
+  return meta;
+}
+/* Root a new entry at `indexWithinWindow` pins (with the whole current key chain; record it as keyChainLength) */
 export async function expectedPrevHeadRootV14(meta: SigilMetadata, indexWithinWindow: number): Promise<HashHex> {
   const baseCum = sumSegments(meta);
-  return headCanonicalHashV14(meta, baseCum + indexWithinWindow);
+  return headCanonicalHashV14(meta, baseCum + indexWithinWindow, {
+    hardenedIndex: indexWithinWindow,
+    keyChainLength: meta.keyChain?.length ?? 0,
+  });
 }
 
 export function buildSendMessageV14(
@@ -125,6 +180,9 @@ export function buildSendMessageV14(
     senderPubKey: string; // B64uSPKI
     nonce: string;
     transferLeafHashSend: HashHex;
+    multisig?: { threshold: number; signers: string[] }; // bound only for entries the policy governs
+    unlockAtPulse?: number; // timelock / escrow terms, bound only when set
+    refundAfterPulse?: number;
   }
 ) {
   const chakraDay: ChakraDay = normalizeChakraDay(meta.chakraDay) ?? "Root";
@@ -143,6 +201,9 @@ export function buildSendMessageV14(
     senderPubKey: args.senderPubKey,
     nonce: args.nonce,
     transferLeafHashSend: args.transferLeafHashSend,
+    ...(args.multisig ? { multisig: { threshold: args.multisig.threshold, signers: args.multisig.signers } } : {}),
+    ...(args.unlockAtPulse != null ? { unlockAtPulse: args.unlockAtPulse } : {}),
+    ...(args.refundAfterPulse != null ? { refundAfterPulse: args.refundAfterPulse } : {}),
   };
   return new TextEncoder().encode(stableStringify(body));
 }
@@ -152,6 +213,7 @@ export function buildReceiveMessageV14(args: {
   receiverKaiPulse: number;
   receiverPubKey: string; // B64uSPKI
   transferLeafHashReceive: HashHex;
+  refund?: boolean; // sender reclaim of an expired escrow
 }) {
   const body = {
     v: 1,
@@ -161,6 +223,7 @@ export function buildReceiveMessageV14(args: {
     receiverKaiPulse: args.receiverKaiPulse,
     receiverPubKey: args.receiverPubKey,
     transferLeafHashReceive: args.transferLeafHashReceive,
+    ...(args.refund ? { refund: true } : {}),
   };
   return new TextEncoder().encode(stableStringify(body));
 }
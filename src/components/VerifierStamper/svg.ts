@@ -2,6 +2,7 @@
 import { SIGIL_CTX, SIGIL_TYPE } from "./constants";
 import type { SigilMetadata } from "./types";
 import { sha256Hex } from "./crypto";
+import { gunzipB64 } from "../../lib/sigil/codec";
 
 /* SVG attribute helpers */
 export function getAttr(svg: string, key: string): string | undefined {
@@ -16,6 +17,7 @@ export function getIntAttr(svg: string, key: string): number | undefined {
 }
 
 export function extractMetadataJSON(svg: string): string | null {
+  if (typeof DOMParser === "undefined") return extractMetadataText(svg);
   try {
     const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
     const meta = doc.querySelector("metadata");
@@ -25,16 +27,76 @@ export function extractMetadataJSON(svg: string): string | null {
   }
 }
 
-/* Parse an uploaded SVG file and extract SigilMetadata */
-export async function parseSvgFile(file: File) {
-  const text = await file.text();
+/* Node/SSR fallback: first <metadata> body as textContent would read it
+   (CDATA kept verbatim, markup dropped, entities decoded) */
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (all, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : all;
+    }
+    return XML_ENTITIES[ent.toLowerCase()] ?? all;
+  });
+}
+function extractMetadataText(svg: string): string | null {
+  const m = svg.match(/<metadata\b[^>]*>([\s\S]*?)<\/metadata>/i);
+  if (!m) return null;
+  let out = "";
+  for (const part of m[1].matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>|<[^>]*>|[^<]+/g)) {
+    if (part[1] !== undefined) out += part[1];
+    else if (part[0][0] !== "<") out += decodeXmlEntities(part[0]);
+  }
+  return out;
+}
+
+/* KaiSigil writes `<![CDATA[…]]>` as escaped text, so textContent still carries the
+   wrapper (split `]]]]><![CDATA[>` sections included): keep only the section bodies */
+function unwrapCdata(raw: string): string {
+  const text = raw.trim();
+  return text.startsWith("<![CDATA[") ? text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1") : text;
+}
+
+const KAI_SIGIL_CONTENT_TYPE = "application/vnd.kai-sigil+json";
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+
+/* kai-sigil/1.0 envelope ({ header, payload: gzip+base64 JSON, integrity }) → SigilMetadata.
+   Core fields come from the payload; payload + integrity stay so the canonical hash can be recomputed. */
+function fromKaiSigilEnvelope(doc: Record<string, unknown>): SigilMetadata | null {
+  const contentType = typeof doc.contentType === "string" ? doc.contentType : "";
+  if (!contentType.startsWith(KAI_SIGIL_CONTENT_TYPE) || typeof doc.payload !== "string") return null;
 
-  // 1) <metadata> JSON
+  let body: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(new TextDecoder().decode(gunzipB64(doc.payload)));
+    if (isObj(parsed)) body = parsed;
+  } catch {
+    // unreadable payload: header only (the canonical-hash check reports it)
+  }
+  const header = isObj(doc.header) ? doc.header : {};
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+  const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+
+  const meta: SigilMetadata = { ...doc };
+  meta.pulse = num(body.pulse) ?? num(body.kaiPulse) ?? num(header.pulse);
+  meta.beat = num(body.beat);
+  meta.stepIndex = num(body.stepIndex);
+  meta.chakraDay = str(body.chakraDay);
+  meta.chakraGate = str(body.chakraGate);
+  meta.kaiSignature = str(body.kaiSignature);
+  meta.userPhiKey = str(body.phikey) ?? str(header.creatorId);
+  return meta;
+}
+
+/* Parse SVG text and extract SigilMetadata (browser + Node) */
+export function parseSvgText(text: string) {
+  // 1) <metadata> JSON (plain, CDATA-wrapped, or a kai-sigil/1.0 envelope)
   let meta: SigilMetadata = {};
   const raw = extractMetadataJSON(text);
   if (raw) {
     try {
-      meta = JSON.parse(raw) as SigilMetadata;
+      const doc = JSON.parse(unwrapCdata(raw)) as unknown;
+      if (isObj(doc)) meta = fromKaiSigilEnvelope(doc) ?? (doc as SigilMetadata);
     } catch {
       // ignore, continue with attrs
     }
@@ -62,7 +124,13 @@ export async function parseSvgFile(file: File) {
   const contextOk = !meta["@context"] || meta["@context"] === SIGIL_CTX;
   const typeOk = !meta.type || meta.type === SIGIL_TYPE;
 
-  return { text, meta, contextOk, typeOk };
+  return { meta, contextOk, typeOk };
+}
+
+/* Parse an uploaded SVG file and extract SigilMetadata */
+export async function parseSvgFile(file: File) {
+  const text = await file.text();
+  return { text, ...parseSvgText(text) };
 }
 
 /* centre-pixel live signature (legacy cosmetic) */
@@ -0,0 +1,68 @@
+// src/components/VerifierStamper/timelock.ts
+/* Pulse-timelocked and escrowed transfers: unlockAtPulse gates the receive,
+   refundAfterPulse closes it and opens the sender's reclaim path. */
+
+import type { HardenedTransferV14, SigilTransfer } from "./types";
+
+export type TransferTerms = Pick<SigilTransfer, "unlockAtPulse" | "refundAfterPulse">;
+
+/** locked = before unlockAtPulse · open = receivable · refundable = past the deadline (sender reclaim only) */
+export type ReceiveWindow = "locked" | "open" | "refundable";
+
+export function transferTerms(t: TransferTerms): TransferTerms {
+  const out: TransferTerms = {};
+  if (t.unlockAtPulse != null) out.unlockAtPulse = t.unlockAtPulse;
+  if (t.refundAfterPulse != null) out.refundAfterPulse = t.refundAfterPulse;
+  return out;
+}
+
+export function hasTerms(t: TransferTerms): boolean {
+  return t.unlockAtPulse != null || t.refundAfterPulse != null;
+}
+
+export function sameTerms(a: TransferTerms, b: TransferTerms): boolean {
+  return a.unlockAtPulse === b.unlockAtPulse && a.refundAfterPulse === b.refundAfterPulse;
+}
+
+/** Human-readable problem with a transfer's terms, or null when well-formed. */
+export function transferTermsError(t: TransferTerms, senderKaiPulse: number): string | null {
+  const { unlockAtPulse: unlock, refundAfterPulse: refund } = t;
+  if (unlock != null && (!Number.isInteger(unlock) || unlock < senderKaiPulse)) {
+    return "unlockAtPulse must be a whole pulse at or after the send";
+  }
+  if (refund != null && (!Number.isInteger(refund) || refund <= senderKaiPulse)) {
+    return "refundAfterPulse must be a whole pulse after the send";
+  }
+  if (unlock != null && refund != null && refund <= unlock) return "refundAfterPulse must come after unlockAtPulse";
+  return null;
+}
+
+export function receiveWindowAt(t: TransferTerms, pulse: number): ReceiveWindow {
+  if (t.refundAfterPulse != null && pulse >= t.refundAfterPulse) return "refundable";
+  if (t.unlockAtPulse != null && pulse < t.unlockAtPulse) return "locked";
+  return "open";
+}
+
+/** Why a sealed RECEIVE breaks its SEND's terms (code + message), or null when it honours them.
+    reclaimKeyOk: the reclaim signer stands for the sender (default: it is the SEND key itself). */
+export function receiveTermsViolation(
+  t: HardenedTransferV14,
+  reclaimKeyOk = t.receiverPubKey === t.senderPubKey
+): { code: "TIMELOCK_RECEIVE_EARLY" | "ESCROW_RECEIVE_LATE" | "ESCROW_REFUND_INVALID"; message: string } | null {
+  const pulse = t.receiverKaiPulse ?? 0;
+  if (t.refund) {
+    if (t.refundAfterPulse == null) return { code: "ESCROW_REFUND_INVALID", message: "reclaim on a transfer with no refundAfterPulse" };
+    if (pulse < t.refundAfterPulse) {
+      return { code: "ESCROW_REFUND_INVALID", message: `reclaimed at pulse ${pulse}, before refundAfterPulse ${t.refundAfterPulse}` };
+    }
+    if (!reclaimKeyOk) return { code: "ESCROW_REFUND_INVALID", message: "reclaim not signed by the sender key" };
+    return null;
+  }
+  if (t.unlockAtPulse != null && pulse < t.unlockAtPulse) {
+    return { code: "TIMELOCK_RECEIVE_EARLY", message: `received at pulse ${pulse}, before unlockAtPulse ${t.unlockAtPulse}` };
+  }
+  if (t.refundAfterPulse != null && pulse >= t.refundAfterPulse) {
+    return { code: "ESCROW_RECEIVE_LATE", message: `received at pulse ${pulse}, at or after refundAfterPulse ${t.refundAfterPulse}` };
+  }
+  return null;
+}
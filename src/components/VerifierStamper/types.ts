@@ -20,16 +20,24 @@ export interface SigilTransfer {
   receiverSignature?: string;
   receiverStamp?: string; // hash(receiverSig|senderStamp|nowPulse)
   receiverKaiPulse?: number;
+
+  // Optional timelock / escrow terms (sender-side leaf; absent = receivable at once, no reclaim)
+  unlockAtPulse?: number; // receive only at or after this pulse
+  refundAfterPulse?: number; // receive only before this pulse; from it on the sender may reclaim
+  refunded?: boolean; // closed by a sender reclaim rather than a receive
 }
 
 /* ───────────────── v14 add-only hardened lineage ─────────────── */
 export type B64uSPKI = string;
 export type HashHex = string;
+/** Merkle tree version: 1 = sorted pairs joined with "|" (legacy) · 2 = RFC 6962 (0x00 leaf / 0x01 node, ordered) */
+export type MerkleVersion = 1 | 2;
 
 /** Full ZK bundle (optional) kept alongside stamps for full offline verification */
 export interface ZkBundle {
-  scheme: "groth16" | string;
+  scheme: "groth16" | "plonk" | string; // see ZK_SCHEMES in ./zk
   curve?: string; // e.g. "BLS12-381"
+  circuit?: string; // "sigil-nullifier-v1" = pulse/canonicalHash/nonce-bound proof with a nullifier
   proof: unknown;
   publicSignals: unknown;
   vkey?: unknown; // optional inline vkey
@@ -42,6 +50,8 @@ export interface ZkStamp {
   publicHash: HashHex; // sha256(stable(publicSignals))
   proofHash: HashHex; // sha256(stable(proof))
   vkeyHash?: HashHex; // sha256(stable(vkey)) if provided
+  circuit?: string; // mirrors ZkBundle.circuit
+  nullifier?: string; // nullifier-circuit proofs: public nullifier (decimal field element)
   verified?: boolean; // set by offline verifier
 }
 
@@ -56,6 +66,16 @@ export interface HardenedTransferV14 {
   // Bind legacy window content immutably
   transferLeafHashSend: HashHex; // hash over sender-side leaf (sender fields + payload only)
 
+  // Multisig: further signer signatures over the same canonical SEND message
+  senderCoSigs?: CoSignature[];
+
+  // Owner key chain statements in force when signed; their hash is pinned via previousHeadRoot
+  keyChainLength?: number;
+
+  // Timelock / escrow terms, bound into the canonical SEND message when present
+  unlockAtPulse?: number;
+  refundAfterPulse?: number;
+
   // Optional ZK proof & stamp for SEND (bound to sender-side leaf)
   zkSend?: ZkStamp;
   zkSendBundle?: ZkBundle;
@@ -64,6 +84,7 @@ export interface HardenedTransferV14 {
   receiverPubKey?: B64uSPKI; // base64url(SPKI)
   receiverSig?: string; // base64url(ECDSA over canonical RECEIVE)
   receiverKaiPulse?: number;
+  refund?: boolean; // RECEIVE is the sender reclaiming an expired escrow (bound into the RECEIVE message)
 
   // Full leaf after receive (includes receiver fields)
   transferLeafHashReceive?: HashHex;
@@ -73,12 +94,58 @@ export interface HardenedTransferV14 {
   zkReceiveBundle?: ZkBundle;
 }
 
+/** m-of-n SEND control (add-only): hardened entries from `since` on need `threshold` distinct signer signatures */
+export interface MultisigPolicy {
+  threshold: number;
+  signers: B64uSPKI[]; // base64url(SPKI), unique
+  since: number; // first hardenedTransfers index the policy governs
+  // Adoption: signed by the owner key valid at adoptedAtPulse (see multisigAdoptionMessage); required by the verifier
+  adoptedAtPulse?: number;
+  adoptedBy?: B64uSPKI;
+  adoptionSig?: string;
+}
+
+/** ZK owner (add-only): nullifier proofs from hardened entry `since` on must open this Poseidon(secret) */
+export interface ZkOwnerCommitment {
+  commitment: string; // decimal field element — the nullifier circuit's expectedHash
+  since: number; // first hardenedTransfers index whose head snapshot pins it
+}
+
+/** Owner key rotation: `from` (the chain tip) hands ownership to `to` from `pulse` on; signed by `from` */
+export interface KeyRotationStatement {
+  type: "rotate";
+  v: 1;
+  from: B64uSPKI;
+  to: B64uSPKI;
+  pulse: number;
+  sig: string; // base64url(ECDSA by `from` over the statement without sig)
+}
+
+/** Key revocation: `key` signs nothing valid from `pulse` on; signed by the key itself or a later chain key */
+export interface KeyRevocationStatement {
+  type: "revoke";
+  v: 1;
+  key: B64uSPKI;
+  pulse: number;
+  by: B64uSPKI;
+  sig: string; // base64url(ECDSA by `by` over the statement without sig)
+}
+
+export type KeyStatement = KeyRotationStatement | KeyRevocationStatement;
+
+/** One signer's signature over a canonical SEND message */
+export interface CoSignature {
+  pubKey: B64uSPKI;
+  sig: string; // base64url(ECDSA)
+}
+
 /* ── Segments & proofs (head stays tiny, history is archived) */
 export interface SegmentEntry {
   index: number; // 0..N
   root: HashHex; // merkle root over that segment's transfers
   cid: HashHex; // SHA-256 of the segment JSON blob
   count: number; // transfers in this segment
+  merkleVersion?: MerkleVersion; // tree version of `root` (absent = 1)
 }
 
 export interface SegmentFile {
@@ -88,6 +155,7 @@ export interface SegmentFile {
   segmentRoot: HashHex;
   headHashAtSeal: HashHex; // hash of head snapshot when sealed
   leafHash: "sha256";
+  merkleVersion?: MerkleVersion; // tree version of segmentRoot (absent = 1)
   transfers: SigilTransfer[]; // frozen
 }
 
@@ -95,6 +163,8 @@ export interface TransferProof {
   leaf: HashHex; // hash(transfer-json-minified)
   index: number; // leaf index within the window/segment
   siblings: HashHex[]; // path to root (bottom-up)
+  version?: MerkleVersion; // absent = 1 (position-free)
+  treeSize?: number; // v2: leaf count, binds the proof to `index`
 }
 
 export interface SegmentProofBundle {
@@ -103,13 +173,20 @@ export interface SegmentProofBundle {
   segmentRoot: HashHex;
   transferProof: TransferProof; // proves transfer ∈ segmentRoot
   segmentsSiblings: HashHex[]; // proves segmentRoot ∈ head.segmentsMerkleRoot
+  segmentsVersion?: MerkleVersion; // tree version of the segments path (absent = 1)
+  segmentsTreeSize?: number; // v2: number of segments under segmentsMerkleRoot
   headHashAtSeal: HashHex;
+  segmentCid?: HashHex; // SegmentEntry.cid of the archived segment
+  kaiSignature?: string; // sigil the bundle was cut from
+  transfer?: SigilTransfer; // the proven transfer (payload bytes stripped)
 }
 
 export interface HeadWindowProofBundle {
   kind: "head";
   windowMerkleRoot: HashHex; // head-window root
   transferProof: TransferProof; // proves transfer ∈ window root
+  kaiSignature?: string; // sigil the bundle was cut from
+  transfer?: SigilTransfer; // the proven transfer (payload bytes stripped)
 }
 
 export interface SigilMetadata {
@@ -143,6 +220,7 @@ export interface SigilMetadata {
   transfersWindowRoot?: HashHex; // merkle root over current head-window transfers
   cumulativeTransfers?: number; // total transfers across segments + head-window
   headHashAtSeal?: HashHex; // last head snapshot hash at segment seal
+  merkleVersion?: MerkleVersion; // head trees (window, segments, v14 window); absent = 1, upgraded to 2 on seal
 
   // page-style extras
   canonicalHash?: string;
@@ -150,6 +228,9 @@ export interface SigilMetadata {
 
   /* v14 parallel hardened lineage (add-only; legacy untouched) */
   hardenedTransfers?: HardenedTransferV14[];
+  multisig?: MultisigPolicy; // m-of-n SEND policy (absent = single owner)
+  keyChain?: KeyStatement[]; // owner key rotations / revocations, anchored at creatorPublicKey (prefix pinned per entry)
+  zkOwner?: ZkOwnerCommitment; // owner commitment nullifier proofs must open (pinned from `since` on)
   transfersWindowRootV14?: HashHex;
 
   /* Optional inline verifying key for ZK proofs (non-breaking) */
@@ -3,7 +3,7 @@ import type {
     SegmentProofBundle,
     HeadWindowProofBundle,
   } from "./types";
-  import { verifyProof, buildMerkleRoot, hashPair } from "./merkle";
+  import { verifyProof, buildMerkleRoot } from "./merkle";
   
   /* Optional verifier that can consume proof bundles (for Explorer) */
   export async function verifyHistorical(
@@ -12,6 +12,9 @@ import type {
   ): Promise<boolean> {
     if (bundle.kind === "head") {
       if (!head.transfersWindowRoot || head.transfersWindowRoot !== bundle.windowMerkleRoot) return false;
+      if ((bundle.transferProof.version ?? 1) !== (head.merkleVersion ?? 1)) return false; // no version downgrade
+      // v2 tree size comes from the head, not the bundle (RFC 9162 proofs bind index only under a trusted size)
+      if (bundle.transferProof.version === 2 && bundle.transferProof.treeSize !== (head.transfers ?? []).length) return false;
       return verifyProof(head.transfersWindowRoot, bundle.transferProof);
     }
   
@@ -19,20 +22,20 @@ import type {
     if (!head.segments || !head.segmentsMerkleRoot) return false;
     const seg = head.segments.find((s) => s.index === bundle.segmentIndex);
     if (!seg || seg.root !== bundle.segmentRoot) return false;
+    if ((bundle.segmentsVersion ?? 1) !== (head.merkleVersion ?? 1)) return false;
+    if ((bundle.transferProof.version ?? 1) !== (seg.merkleVersion ?? 1)) return false;
+    if (bundle.segmentsVersion === 2 && bundle.segmentsTreeSize !== head.segments.length) return false;
+    if (bundle.transferProof.version === 2 && bundle.transferProof.treeSize !== seg.count) return false;
   
-    // prove segmentRoot ∈ segmentsMerkleRoot using provided path
-    let acc = bundle.segmentRoot;
-    let idx = bundle.segmentIndex;
-    for (const sib of bundle.segmentsSiblings) {
-      const pair = idx % 2 === 0 ? [acc, sib] : [sib, acc];
-      // order-independence
-      acc = await hashPair(
-        pair[0] <= pair[1] ? pair[0] : pair[1],
-        pair[0] <= pair[1] ? pair[1] : pair[0]
-      );
-      idx = Math.floor(idx / 2);
-    }
-    if (acc !== head.segmentsMerkleRoot) return false;
+    // prove segmentRoot ∈ segmentsMerkleRoot using provided path (version declared by the bundle)
+    const segmentsOk = await verifyProof(head.segmentsMerkleRoot, {
+      leaf: bundle.segmentRoot,
+      index: bundle.segmentIndex,
+      siblings: bundle.segmentsSiblings,
+      version: bundle.segmentsVersion,
+      treeSize: bundle.segmentsTreeSize,
+    });
+    if (!segmentsOk) return false;
   
     // prove transfer ∈ segmentRoot
     return verifyProof(bundle.segmentRoot, bundle.transferProof);
@@ -1,74 +1,167 @@
-/* v14 offline verifier: fast, chunked, ZK-aware */
+/* v14 offline verifier: fast, chunked, ZK-aware — the single lineage engine.
+   Reports use the versioned schema in src/verifier/report.ts. */
 
-import type { SigilMetadata } from "./types";
+import type { HardenedTransferV14, SigilMetadata, ZkBundle, ZkStamp } from "./types";
 import {
+  applyHeadDefaults,
   sumSegments,
   headCanonicalHashV14,
   hashTransferSenderSide,
   hashTransfer,
   buildReceiveMessageV14,
-  buildSendMessageV14,
-  stableStringify,        // ← keep import
-  hashAny as hashAnyImpl,
+  hashAny,
 } from "./sigilUtils";
+import {
+  multisigAdoptionError,
+  multisigPolicyAt,
+  multisigPolicyError,
+  sendMessageFor,
+  tallySendSignatures,
+} from "./multisig";
+import { hasTerms, receiveTermsViolation, sameTerms, transferTerms, transferTermsError } from "./timelock";
+import { keyStatusAt, pinnedChainPulse, resolveHeadKeyChain } from "./keyChain";
 import { verifySig } from "./keys";
-import { tryVerifyGroth16 } from "./zk";
+import {
+  NULLIFIER_CIRCUIT,
+  SIGIL_PROOF_CIRCUIT,
+  nullifierBindingError,
+  nullifierOwnerError,
+  readNullifierSignals,
+  tryVerifyZk,
+} from "./zk";
+import { loadVkeyRegistry, resolveVkey, type VkeyRegistry } from "./vkeyRegistry";
 import { phiFromPublicKey } from "./crypto";
+import { parseSvgText } from "./svg";
+import {
+  VERIFY_REPORT_VERSION,
+  verifyIssue,
+  type VerifyEntry,
+  type VerifyIssue,
+  type VerifyReport,
+  type VerifyZkSide,
+} from "../../verifier/report";
 
-export type SovereignVerifyReport = {
-  ok: boolean;
-  count: number;
-  issues: string[];
-  entries: Array<{
-    index: number;
-    prevHeadOk: boolean;
-    send: {
-      sigOk: boolean;
-      leafOk: boolean | "missing-window";
-      zk?: {
-        present: boolean;
-        stampHashOk?: boolean;
-        verified?: boolean | null; // null = groth16 unavailable
-      };
-    };
-    receive?: {
-      sigOk: boolean;
-      leafOk: boolean | "missing-window";
-      zk?: {
-        present: boolean;
-        stampHashOk?: boolean;
-        verified?: boolean | null;
-      };
-    };
-  }>;
-};
+/** @deprecated kept for existing imports; same shape as VerifyReport */
+export type SovereignVerifyReport = VerifyReport;
 
 function isHex(s: string, bytes = 16): boolean {
   return /^[0-9a-f]+$/i.test(s) && s.length === bytes * 2;
 }
 
 const YIELD_EVERY = 8;
-const rAF = () => new Promise<void>((r) => requestAnimationFrame(() => r()));
+/* yield to the renderer; plain macrotask where there is no rAF (Node/workers) */
+const rAF = () =>
+  new Promise<void>((r) =>
+    typeof requestAnimationFrame === "function" ? requestAnimationFrame(() => r()) : setTimeout(r, 0)
+  );
 
-export async function verifySovereignOffline(head: SigilMetadata): Promise<SovereignVerifyReport> {
+/* Stamp ↔ bundle hash binding, then best-effort verify (bundle.scheme) against a registry key (sets stamp.verified) */
+async function verifyZkSide(
+  stamp: ZkStamp | undefined,
+  bundle: ZkBundle,
+  fallbackVkey: unknown,
+  registry: VkeyRegistry
+): Promise<VerifyZkSide> {
+  const publicHash = await hashAny(bundle.publicSignals);
+  const proofHash = await hashAny(bundle.proof);
+  const vkeyChosen = bundle.vkey ?? fallbackVkey;
+  const vkeyHash = vkeyChosen ? await hashAny(vkeyChosen) : undefined;
+  const nullifier = bundle.circuit === NULLIFIER_CIRCUIT ? readNullifierSignals(bundle.publicSignals)?.nullifier : undefined;
+
+  const stampHashOk =
+    !!stamp &&
+    stamp.scheme === bundle.scheme &&
+    (stamp.curve ? stamp.curve === (bundle.curve ?? "BLS12-381") : true) &&
+    stamp.publicHash === publicHash &&
+    stamp.proofHash === proofHash &&
+    (stamp.vkeyHash ? stamp.vkeyHash === vkeyHash : true) &&
+    stamp.circuit === bundle.circuit &&
+    (stamp.nullifier ? stamp.nullifier === nullifier : true);
+
+  // The key the proof names (stamp, else inline vkey) must be in the registry; unnamed → the circuit's trusted keys
+  const named = stamp?.vkeyHash ?? (bundle.vkey ? await hashAny(bundle.vkey) : undefined);
+  const trust = resolveVkey(registry, bundle.circuit ?? SIGIL_PROOF_CIRCUIT, bundle.scheme, named);
+  let verified: boolean | null | undefined;
+  if (trust.status === "trusted") {
+    for (const vkey of trust.vkeys) {
+      verified = await tryVerifyZk({ scheme: bundle.scheme, proof: bundle.proof, publicSignals: bundle.publicSignals, vkey });
+      if (verified !== false) break; // verified, or no verifier available
+    }
+  }
+  if (stamp) stamp.verified = verified === true;
+  return {
+    present: true,
+    stampHashOk,
+    verified,
+    vkey: trust.status,
+    ...(trust.hash ? { vkeyHash: trust.hash } : {}),
+    ...(nullifier ? { nullifier } : {}),
+  };
+}
+
+export async function verifySovereignOffline(head: SigilMetadata): Promise<VerifyReport> {
   const hardened = head.hardenedTransfers ?? [];
   const windowTransfers = head.transfers ?? [];
-  const issues: string[] = [];
-  const entries: SovereignVerifyReport["entries"] = [];
+  const issues: VerifyIssue[] = [];
+  const entries: VerifyEntry[] = [];
+  let sendVerified = 0;
+  let receiveVerified = 0;
 
   // Optional Φ anchor (informational only)
   if (head.creatorPublicKey && head.userPhiKey) {
     try {
       const phi = await phiFromPublicKey(head.creatorPublicKey);
-      if (phi !== head.userPhiKey) issues.push("Φ anchor mismatch (informational)");
+      if (phi !== head.userPhiKey) issues.push(verifyIssue("PHI_ANCHOR_MISMATCH", null));
     } catch {
-      issues.push("Φ anchor decode failed (informational)");
+      issues.push(verifyIssue("PHI_ANCHOR_UNDECODABLE", null));
     }
   }
 
+  // Owner key chain: single-owner entries must be signed by the key valid at their pulse
+  const keyChain = await resolveHeadKeyChain(head);
+  if ((head.keyChain?.length ?? 0) > 0 && !head.creatorPublicKey) {
+    issues.push(verifyIssue("KEY_CHAIN_INVALID", null, "key chain has no creatorPublicKey to anchor it"));
+  }
+  for (const e of keyChain?.errors ?? []) issues.push(verifyIssue("KEY_CHAIN_INVALID", null, `key chain ${e}`));
+  // A chain an entry pinned can only grow: removing or truncating it would revive revoked keys
+  const chainLength = head.keyChain?.length ?? 0;
+  hardened.forEach((t, i) => {
+    const pinned = t.keyChainLength ?? 0;
+    if (!Number.isInteger(pinned) || pinned < 0 || pinned > chainLength) {
+      issues.push(verifyIssue("KEY_CHAIN_INVALID", i, `key chain removed or truncated: this transfer pinned ${pinned} statement(s), the head has ${chainLength}`));
+    } else if (i > 0 && pinned < (hardened[i - 1].keyChainLength ?? 0)) {
+      issues.push(verifyIssue("KEY_CHAIN_INVALID", i, "transfer pins fewer key chain statements than the one before it"));
+    }
+    // An entry cannot predate a statement it pinned: backdating it would pick a rotated-out or revoked key
+    const since = pinnedChainPulse(head.keyChain, pinned);
+    if (since === null) return;
+    const sides: Array<[string, number]> = [["SEND", t.senderKaiPulse ?? 0]];
+    if (t.receiverSig) sides.push(["RECEIVE", t.receiverKaiPulse ?? 0]);
+    for (const [side, pulse] of sides) {
+      if (pulse < since) {
+        issues.push(verifyIssue("KEY_CHAIN_INVALID", i, `${side} pulse ${pulse} predates the key chain statement at pulse ${since} it pinned`));
+      }
+    }
+  });
+
+  // m-of-n policy sanity + adoption by the owner key (entries an authorized policy governs are tallied below)
+  const policyError = head.multisig ? multisigPolicyError(head.multisig) : null;
+  if (policyError) issues.push(verifyIssue("MULTISIG_POLICY_INVALID", null, `multisig policy is malformed: ${policyError}`));
+  const adoptionError = await multisigAdoptionError(head, keyChain);
+  if (adoptionError) issues.push(verifyIssue("MULTISIG_POLICY_UNAUTHORIZED", null, `multisig ${adoptionError}`));
+  const ownerKeyIssue = (key: string, pulse: number, side: string, i: number): VerifyIssue | null => {
+    const status = keyChain ? keyStatusAt(keyChain, key, pulse) : "valid";
+    if (status === "valid") return null;
+    return status === "revoked"
+      ? verifyIssue("KEY_REVOKED", i, `${side} key is revoked at pulse ${pulse}`)
+      : verifyIssue("KEY_NOT_AUTHORIZED", i, `${side} key is not the owner key at pulse ${pulse}`);
+  };
+
   // Precompute
   const baseCum = sumSegments(head);
-  const prevRootsP = Promise.all(hardened.map((_, i) => headCanonicalHashV14(head, baseCum + i)));
+  const prevRootsP = Promise.all(
+    hardened.map((t, i) => headCanonicalHashV14(head, baseCum + i, { hardenedIndex: i, keyChainLength: t.keyChainLength }))
+  );
   const sendLeavesP = Promise.all(
     hardened.map(async (_t, i) => (windowTransfers[i] ? hashTransferSenderSide(windowTransfers[i]) : null))
   );
@@ -78,15 +171,40 @@ export async function verifySovereignOffline(head: SigilMetadata): Promise<Sover
 
   const [prevRoots, sendLeaves, recvLeaves] = await Promise.all([prevRootsP, sendLeavesP, recvLeavesP]);
 
-  // Choose a fallback vkey if needed (inline beats global)
+  // Older stamps hashed a fallback vkey (inline beats global); it only re-derives their vkeyHash, never verifies
   const fallbackVkey = head.zkVerifyingKey ?? (typeof window !== "undefined" ? window.SIGIL_ZK_VKEY : undefined);
+  const registry = await loadVkeyRegistry();
+  const vkeyIssue = (zk: VerifyZkSide, i: number, SIDE: string) => {
+    const at = zk.vkeyHash ? ` ${zk.vkeyHash.slice(0, 16)}…` : "";
+    if (zk.vkey === "unknown") issues.push(verifyIssue("ZK_VKEY_UNKNOWN", i, `ZK ${SIDE} verifying key${at} is not in the registry`));
+    else issues.push(verifyIssue("ZK_VKEY_NOT_PINNED", i, `ZK ${SIDE} verifying key${at} is not pinned for its circuit`));
+  };
+
+  // Nullifier proofs: bound to their entry's pulse/nonce and the sigil, opening the pinned owner commitment,
+  // each nullifier used once in the lineage
+  const nullifierFirstUse = new Map<string, string>();
+  const nullifierIssues = async (t: HardenedTransferV14, i: number, side: "send" | "receive", bundle: ZkBundle, stamp?: ZkStamp) => {
+    if (bundle.circuit !== NULLIFIER_CIRCUIT && stamp?.circuit !== NULLIFIER_CIRCUIT) return;
+    const SIDE = side.toUpperCase();
+    const before = issues.length;
+    const bindingError = await nullifierBindingError(head, t, side, bundle);
+    if (bindingError) issues.push(verifyIssue("ZK_NULLIFIER_BINDING_MISMATCH", i, `ZK ${SIDE} ${bindingError}`));
+    const ownerError = nullifierOwnerError(head, i, bundle);
+    if (ownerError) issues.push(verifyIssue("ZK_NULLIFIER_OWNER_MISMATCH", i, `ZK ${SIDE} ${ownerError}`));
+    const nullifier = readNullifierSignals(bundle.publicSignals)?.nullifier;
+    if (!nullifier) return;
+    const first = nullifierFirstUse.get(nullifier);
+    if (first) issues.push(verifyIssue("ZK_NULLIFIER_REUSED", i, `ZK ${SIDE} nullifier already used by ${first}`));
+    else nullifierFirstUse.set(nullifier, `transfer #${i + 1} ${side}`);
+    if (stamp && issues.length > before) stamp.verified = false; // a valid proof that is not this entry's is no pass
+  };
 
   for (let i = 0; i < hardened.length; i++) {
     if (i > 0 && i % YIELD_EVERY === 0) await rAF();
 
     const t = hardened[i];
 
-    const entry: SovereignVerifyReport["entries"][number] = {
+    const entry: VerifyEntry = {
       index: i,
       prevHeadOk: false,
       send: { sigOk: false, leafOk: "missing-window" },
@@ -94,39 +212,69 @@ export async function verifySovereignOffline(head: SigilMetadata): Promise<Sover
 
     // prev-head pinning
     entry.prevHeadOk = t.previousHeadRoot === prevRoots[i];
-    if (!entry.prevHeadOk) issues.push(`prevHead mismatch at #${i}`);
+    if (!entry.prevHeadOk) issues.push(verifyIssue("PREV_HEAD_MISMATCH", i));
 
     // nonce sanity
     if (typeof t.nonce !== "string" || !isHex(t.nonce, 16)) {
-      issues.push(`nonce invalid at #${i} (expected 16-byte hex)`);
+      issues.push(verifyIssue("NONCE_INVALID", i));
     }
 
     // SEND leaf binding
     if (sendLeaves[i]) {
       entry.send.leafOk = t.transferLeafHashSend === sendLeaves[i];
-      if (!entry.send.leafOk) issues.push(`sender-side leaf hash mismatch at #${i}`);
+      if (!entry.send.leafOk) issues.push(verifyIssue("SEND_LEAF_MISMATCH", i));
     }
 
-    // SEND signature
+    // SEND signature (policy-bound message once a multisig policy governs the entry)
     {
-      const msgS = buildSendMessageV14(head, {
-        previousHeadRoot: t.previousHeadRoot,
-        senderKaiPulse: t.senderKaiPulse ?? 0,
-        senderPubKey: t.senderPubKey ?? "",
-        nonce: t.nonce ?? "",
-        transferLeafHashSend: t.transferLeafHashSend ?? "",
-      });
-      entry.send.sigOk = !!t.senderPubKey && (await verifySig(t.senderPubKey, msgS, t.senderSig));
-      if (!entry.send.sigOk) issues.push(`send signature invalid at #${i}`);
+      const msgS = sendMessageFor(head, t, i);
+      try {
+        entry.send.sigOk = !!t.senderPubKey && (await verifySig(t.senderPubKey, msgS, t.senderSig));
+      } catch {
+        entry.send.sigOk = false; // malformed key/signature encoding
+      }
+      if (!entry.send.sigOk) issues.push(verifyIssue("SEND_SIG_INVALID", i));
+    }
+
+    // m-of-n threshold (an authorized policy's signers replace the owner key chain for governed entries)
+    const policy = adoptionError ? undefined : multisigPolicyAt(head, i);
+    if (!policy) {
+      const keyIssue = ownerKeyIssue(t.senderPubKey ?? "", t.senderKaiPulse ?? 0, "SEND", i);
+      if (keyIssue) issues.push(keyIssue);
+    }
+    if (policy && !policyError) {
+      const tally = await tallySendSignatures(head, t, i, policy);
+      entry.send.multisig = { threshold: tally.threshold, valid: tally.valid.length };
+      for (const k of tally.invalid) {
+        if (k !== t.senderPubKey) issues.push(verifyIssue("MULTISIG_SIG_INVALID", i, `multisig co-signature invalid (${k.slice(0, 12)}…)`));
+      }
+      if (tally.unknown.length > 0) issues.push(verifyIssue("MULTISIG_UNKNOWN_SIGNER", i));
+      if (tally.valid.length < tally.threshold) {
+        issues.push(
+          verifyIssue("MULTISIG_THRESHOLD_UNMET", i, `${tally.valid.length} of ${tally.threshold} required signer signatures`)
+        );
+      }
+    }
+
+    // Timelock / escrow terms (signed with the SEND; the window copy must agree)
+    const terms = transferTerms(t);
+    if (hasTerms(terms)) {
+      entry.send.terms = terms;
+      const termsError = transferTermsError(terms, t.senderKaiPulse ?? 0);
+      if (termsError) issues.push(verifyIssue("TIMELOCK_TERMS_INVALID", i, `timelock / escrow terms are malformed: ${termsError}`));
+    }
+    if (windowTransfers[i] && !sameTerms(terms, transferTerms(windowTransfers[i]))) {
+      issues.push(verifyIssue("TIMELOCK_TERMS_INVALID", i, "window transfer terms differ from the signed SEND"));
     }
 
     // RECEIVE (optional)
     if (t.receiverSig && t.receiverPubKey) {
       entry.receive = { sigOk: false, leafOk: "missing-window" };
+      if (t.refund) entry.receive.refund = true;
 
       if (recvLeaves[i]) {
         entry.receive.leafOk = t.transferLeafHashReceive === recvLeaves[i];
-        if (!entry.receive.leafOk) issues.push(`receive leaf hash mismatch at #${i}`);
+        if (!entry.receive.leafOk) issues.push(verifyIssue("RECEIVE_LEAF_MISMATCH", i));
       }
 
       const msgR = buildReceiveMessageV14({
@@ -135,41 +283,40 @@ export async function verifySovereignOffline(head: SigilMetadata): Promise<Sover
         receiverKaiPulse: t.receiverKaiPulse ?? 0,
         receiverPubKey: t.receiverPubKey,
         transferLeafHashReceive: t.transferLeafHashReceive ?? "",
+        refund: t.refund,
       });
-      entry.receive.sigOk = await verifySig(t.receiverPubKey, msgR, t.receiverSig);
-      if (!entry.receive.sigOk) issues.push(`receive signature invalid at #${i}`);
+      try {
+        entry.receive.sigOk = await verifySig(t.receiverPubKey, msgR, t.receiverSig);
+      } catch {
+        entry.receive.sigOk = false;
+      }
+      if (!entry.receive.sigOk) issues.push(verifyIssue("RECEIVE_SIG_INVALID", i));
+
+      const receiveKeyIssue = ownerKeyIssue(t.receiverPubKey, t.receiverKaiPulse ?? 0, "RECEIVE", i);
+      if (receiveKeyIssue) issues.push(receiveKeyIssue);
+
+      // receiverKaiPulse against the SEND's terms (a reclaim is only valid past the deadline;
+      // with a key chain the owner key valid at the reclaim pulse stands for the sender)
+      const violation = receiveTermsViolation(
+        t,
+        t.receiverPubKey === t.senderPubKey || (!!keyChain && !receiveKeyIssue)
+      );
+      if (violation) issues.push(verifyIssue(violation.code, i, violation.message));
+      if (windowTransfers[i] && !!windowTransfers[i].refunded !== !!t.refund) {
+        issues.push(verifyIssue("ESCROW_REFUND_INVALID", i, "window transfer and RECEIVE disagree on the reclaim"));
+      }
     }
 
     // ZK SEND (optional): stamp/bundle hash checks + verify
     if (t.zkSendBundle) {
-      entry.send.zk = { present: true };
-
-      const b = t.zkSendBundle;
-      const publicHash = await hashAnyImpl(b.publicSignals);
-      const proofHash = await hashAnyImpl(b.proof);
-      const vkeyChosen = b.vkey ?? fallbackVkey;
-      const vkeyHash = vkeyChosen ? await hashAnyImpl(vkeyChosen) : undefined;
-
-      const stampOk =
-        t.zkSend &&
-        t.zkSend.scheme === "groth16" &&
-        (t.zkSend.curve ? t.zkSend.curve === "BLS12-381" : true) &&
-        t.zkSend.publicHash === publicHash &&
-        t.zkSend.proofHash === proofHash &&
-        (t.zkSend.vkeyHash ? t.zkSend.vkeyHash === vkeyHash : true);
-
-      entry.send.zk.stampHashOk = !!stampOk;
-      if (!stampOk) issues.push(`ZK SEND stamp/bundle hash mismatch at #${i}`);
-
-      const verified = await tryVerifyGroth16({
-        proof: b.proof,
-        publicSignals: b.publicSignals,
-        vkey: b.vkey,
-        fallbackVkey,
-      });
-      entry.send.zk.verified = verified;
-      if (t.zkSend) t.zkSend.verified = verified === true;
-      if (verified === false) issues.push(`ZK SEND verification failed at #${i}`);
+      const zk = await verifyZkSide(t.zkSend, t.zkSendBundle, fallbackVkey, registry);
+      entry.send.zk = zk;
+      if (!zk.stampHashOk) issues.push(verifyIssue("ZK_SEND_STAMP_MISMATCH", i));
+      if (zk.vkey !== "trusted") vkeyIssue(zk, i, "SEND");
+      else if (zk.verified === true) sendVerified++;
+      else if (zk.verified === false) issues.push(verifyIssue("ZK_SEND_FAILED", i));
+      else issues.push(verifyIssue("ZK_UNAVAILABLE", i, `ZK SEND proof present but no ${t.zkSendBundle.scheme} verifier available`));
+      await nullifierIssues(t, i, "send", t.zkSendBundle, t.zkSend);
     } else if (t.zkSend) {
       entry.send.zk = { present: false };
     }
@@ -177,48 +324,51 @@ export async function verifySovereignOffline(head: SigilMetadata): Promise<Sover
     // ZK RECEIVE (optional)
     if (t.zkReceiveBundle) {
       if (!entry.receive) entry.receive = { sigOk: false, leafOk: "missing-window" };
-      entry.receive.zk = { present: true };
-
-      const b = t.zkReceiveBundle;
-      const publicHash = await hashAnyImpl(b.publicSignals);
-      const proofHash = await hashAnyImpl(b.proof);
-      const vkeyChosen = b.vkey ?? fallbackVkey;
-      const vkeyHash = vkeyChosen ? await hashAnyImpl(vkeyChosen) : undefined;
-
-      const stampOk =
-        t.zkReceive &&
-        t.zkReceive.scheme === "groth16" &&
-        (t.zkReceive.curve ? t.zkReceive.curve === "BLS12-381" : true) &&
-        t.zkReceive.publicHash === publicHash &&
-        t.zkReceive.proofHash === proofHash &&
-        (t.zkReceive.vkeyHash ? t.zkReceive.vkeyHash === vkeyHash : true);
-
-      entry.receive.zk.stampHashOk = !!stampOk;
-      if (!stampOk) issues.push(`ZK RECV stamp/bundle hash mismatch at #${i}`);
-
-      const verified = await tryVerifyGroth16({
-        proof: b.proof,
-        publicSignals: b.publicSignals,
-        vkey: b.vkey,
-        fallbackVkey,
-      });
-      entry.receive.zk.verified = verified;
-      if (t.zkReceive) t.zkReceive.verified = verified === true;
-      if (verified === false) issues.push(`ZK RECV verification failed at #${i}`);
+      const zk = await verifyZkSide(t.zkReceive, t.zkReceiveBundle, fallbackVkey, registry);
+      entry.receive.zk = zk;
+      if (!zk.stampHashOk) issues.push(verifyIssue("ZK_RECEIVE_STAMP_MISMATCH", i));
+      if (zk.vkey !== "trusted") vkeyIssue(zk, i, "RECEIVE");
+      else if (zk.verified === true) receiveVerified++;
+      else if (zk.verified === false) issues.push(verifyIssue("ZK_RECEIVE_FAILED", i));
+      else issues.push(verifyIssue("ZK_UNAVAILABLE", i, `ZK RECEIVE proof present but no ${t.zkReceiveBundle.scheme} verifier available`));
+      await nullifierIssues(t, i, "receive", t.zkReceiveBundle, t.zkReceive);
     }
 
     // Monotonicity hint (non-fatal)
     if (i > 0 && hardened[i - 1].senderKaiPulse != null && t.senderKaiPulse != null) {
       if ((t.senderKaiPulse as number) < (hardened[i - 1].senderKaiPulse as number)) {
-        issues.push(`senderKaiPulse decreased at #${i}`);
+        issues.push(verifyIssue("SENDER_PULSE_DECREASED", i));
       }
     }
 
     entries.push(entry);
   }
 
-  return { ok: issues.length === 0, count: hardened.length, issues, entries };
+  return {
+    version: VERIFY_REPORT_VERSION,
+    ok: issues.every((x) => x.severity !== "error"),
+    count: hardened.length,
+    issues,
+    entries,
+    zk: {
+      sendVerified,
+      receiveVerified,
+      unavailable: issues.some((x) => x.code === "ZK_UNAVAILABLE"),
+      unknownVkeys: issues.filter((x) => x.code === "ZK_VKEY_UNKNOWN").length,
+    },
+  };
+}
+
+/** Eagerly verify the head's ZK bundles in place (each stamp's .verified), against registry keys only;
+    returns the ZK issues (ZK_VKEY_UNKNOWN for proofs whose key is outside the registry). */
+export async function verifyZkOnHead(m: SigilMetadata): Promise<VerifyIssue[]> {
+  const report = await verifySovereignOffline(m);
+  return report.issues.filter((x) => x.code.startsWith("ZK_"));
 }
 
-/* Make the stableStringify import “used” without altering behavior */
-export { stableStringify as __keep_stableStringify };
+/** Verify the v14 lineage embedded in raw SVG text; null when the head has no hardened transfers. */
+export async function verifySovereignSvg(svgText: string): Promise<VerifyReport | null> {
+  const { meta } = parseSvgText(svgText);
+  if ((meta.hardenedTransfers ?? []).length === 0) return null;
+  return verifySovereignOffline(await applyHeadDefaults(meta));
+}
@@ -0,0 +1,145 @@
+// src/components/VerifierStamper/vkeyRegistry.ts
+/* Local registry of trusted verifying keys, indexed by sha256(stable(vkey)) — the ZkStamp.vkeyHash.
+   Bundled keys ship with the app; imports and per-circuit pins live in localStorage.
+   A proof is only checked against a registry key; anything else is reported as "unknown vkey". */
+
+import sigilProofVkey from "../../../zk/verification_key.json";
+import sigilNullifierVkey from "../../../zk/sigil_nullifier_verification_key.json";
+import sigilNullifierPlonkVkey from "../../../zk/sigil_nullifier_plonk_verification_key.json";
+import sigilBalanceVkey from "../../../zk/sigil_balance_verification_key.json";
+import type { HashHex } from "./types";
+import { hashAny } from "./sigilUtils";
+import { BALANCE_CIRCUIT, NULLIFIER_CIRCUIT, SIGIL_PROOF_CIRCUIT, type Groth16VerifyingKey } from "./zk";
+
+export type VkeyEntry = {
+  hash: HashHex; // sha256(stable(vkey))
+  circuit: string; // "sigil-proof" | "sigil-nullifier-v1" | "sigil-balance-v1" | user-named
+  label: string;
+  source: "bundled" | "imported";
+  vkey: Groth16VerifyingKey;
+};
+
+export type VkeyRegistry = {
+  entries: VkeyEntry[];
+  pins: Record<string, HashHex[]>; // circuit → the only registry keys accepted for it
+};
+
+/** trusted = registry key (pinned when the circuit has pins) · unknown = not in the registry · unpinned = known, but not pinned for this circuit */
+export type VkeyTrust =
+  | { status: "trusted"; hash?: HashHex; vkeys: Groth16VerifyingKey[] }
+  | { status: "unknown" | "unpinned"; hash?: HashHex };
+
+const VKEYS_KEY = "kairos:zk:vkeys"; // imported entries
+const PINS_KEY = "kairos:zk:vkey-pins";
+
+let bundled: Promise<VkeyEntry[]> | null = null;
+
+function bundledEntries(): Promise<VkeyEntry[]> {
+  bundled ??= Promise.all(
+    [
+      { circuit: SIGIL_PROOF_CIRCUIT, label: "SigilProof (zk/verification_key.json)", vkey: sigilProofVkey },
+      { circuit: NULLIFIER_CIRCUIT, label: "SigilNullifier (zk/sigil_nullifier_verification_key.json)", vkey: sigilNullifierVkey },
+      {
+        circuit: NULLIFIER_CIRCUIT,
+        label: "SigilNullifier · PLONK (zk/sigil_nullifier_plonk_verification_key.json)",
+        vkey: sigilNullifierPlonkVkey,
+      },
+      { circuit: BALANCE_CIRCUIT, label: "SigilBalance (zk/sigil_balance_verification_key.json)", vkey: sigilBalanceVkey },
+    ].map(async (b) => ({ ...b, source: "bundled" as const, hash: await hashAny(b.vkey), vkey: b.vkey as Groth16VerifyingKey }))
+  );
+  return bundled;
+}
+
+function readStored<T>(key: string, fallback: T): T {
+  try {
+    const raw = typeof localStorage !== "undefined" ? localStorage.getItem(key) : null;
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback; // no storage (Node, private mode) or a damaged value
+  }
+}
+
+function writeStored(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+const isVkeyEntry = (e: Partial<VkeyEntry> | null): e is VkeyEntry =>
+  typeof e?.hash === "string" && typeof e.circuit === "string" && typeof e.vkey === "object" && e.vkey !== null;
+
+/** Bundled keys plus this browser's imports and pins (bundled only where there is no localStorage). */
+export async function loadVkeyRegistry(): Promise<VkeyRegistry> {
+  const entries = [...(await bundledEntries())];
+  const imported = readStored<Partial<VkeyEntry>[]>(VKEYS_KEY, []);
+  for (const e of Array.isArray(imported) ? imported : []) {
+    if (!isVkeyEntry(e) || entries.some((x) => x.hash === e.hash)) continue;
+    entries.push({ ...e, label: String(e.label ?? e.circuit), source: "imported" });
+  }
+  const pins = readStored<Record<string, HashHex[]>>(PINS_KEY, {});
+  return { entries, pins: typeof pins === "object" && pins !== null ? pins : {} };
+}
+
+/* ── Resolve ───────────────────────────────────────────────── */
+
+/** Proof system a registry key belongs to (snarkjs vkeys name it in `protocol`) */
+export const vkeyScheme = (e: VkeyEntry): string => e.vkey.protocol ?? "groth16";
+
+/** Keys a `scheme` proof of `circuit` may be checked against: the one named by `hash` (stamp / inline vkey),
+    else every trusted key of that circuit and scheme. A key registered for another circuit or scheme is never trusted. */
+export function resolveVkey(reg: VkeyRegistry, circuit: string, scheme: string, hash?: HashHex): VkeyTrust {
+  const pinned = reg.pins[circuit] ?? [];
+  if (hash) {
+    const entry = reg.entries.find((e) => e.hash === hash);
+    if (!entry) return { status: "unknown", hash };
+    if (entry.circuit !== circuit || vkeyScheme(entry) !== scheme) return { status: "unpinned", hash };
+    if (pinned.length > 0 && !pinned.includes(hash)) return { status: "unpinned", hash };
+    return { status: "trusted", hash, vkeys: [entry.vkey] };
+  }
+  const candidates = reg.entries.filter(
+    (e) => vkeyScheme(e) === scheme && e.circuit === circuit && (pinned.length === 0 || pinned.includes(e.hash))
+  );
+  return candidates.length > 0 ? { status: "trusted", vkeys: candidates.map((e) => e.vkey) } : { status: "unknown" };
+}
+
+/* ── Manage (browser) ──────────────────────────────────────── */
+
+/** Add a verifying key file to the registry (throws with a human-readable message). */
+export async function importVkey(text: string, circuit: string, label?: string): Promise<VkeyEntry> {
+  let vkey: unknown;
+  try {
+    vkey = JSON.parse(text);
+  } catch {
+    throw new Error("Verifying key is not valid JSON");
+  }
+  if (typeof vkey !== "object" || vkey === null || Array.isArray(vkey)) throw new Error("Verifying key is not an object");
+  const v = vkey as Groth16VerifyingKey;
+  const shapeOk = v.protocol === "groth16" ? Array.isArray(v.IC) : v.protocol === "plonk" && Array.isArray(v.Qm);
+  if (!shapeOk || typeof v.nPublic !== "number") {
+    throw new Error("Not a Groth16 or PLONK verifying key (snarkjs verification_key.json)");
+  }
+  const name = circuit.trim();
+  if (!name) throw new Error("Name the circuit this key verifies");
+
+  const entry: VkeyEntry = { hash: await hashAny(v), circuit: name, label: label?.trim() || name, source: "imported", vkey: v };
+  const reg = await loadVkeyRegistry();
+  const existing = reg.entries.find((e) => e.hash === entry.hash);
+  if (existing) return existing;
+  writeStored(VKEYS_KEY, [...reg.entries.filter((e) => e.source === "imported"), entry]);
+  return entry;
+}
+
+/** Drop an imported key (bundled keys stay) and any pins on it. */
+export async function removeVkey(hash: HashHex): Promise<void> {
+  const reg = await loadVkeyRegistry();
+  writeStored(VKEYS_KEY, reg.entries.filter((e) => e.source === "imported" && e.hash !== hash));
+  const pins = Object.fromEntries(Object.entries(reg.pins).map(([c, hs]) => [c, hs.filter((h) => h !== hash)]));
+  writeStored(PINS_KEY, pins);
+}
+
+/** Pin (or unpin) a registry key for its circuit: once a circuit has pins, only pinned keys verify it. */
+export async function setVkeyPinned(hash: HashHex, pinned: boolean): Promise<void> {
+  const reg = await loadVkeyRegistry();
+  const entry = reg.entries.find((e) => e.hash === hash);
+  if (!entry) throw new Error("Verifying key is not in the registry");
+  const current = (reg.pins[entry.circuit] ?? []).filter((h) => h !== hash);
+  writeStored(PINS_KEY, { ...reg.pins, [entry.circuit]: pinned ? [...current, hash] : current });
+}
@@ -1,9 +1,10 @@
-import type { SigilMetadata } from "./types";
+import type { HardenedTransferV14, SigilMetadata, ZkBundle, ZkOwnerCommitment } from "./types";
 import { hashAny } from "./sigilUtils";
+import { sha256Hex } from "./crypto";
 
 /* ═════════════ OPTIONAL ZK: lightweight glue (no hard dep) ═════════════
    • If you have snarkjs installed, we’ll try to import it at runtime.
-   • We look for a verifying key either in meta.zkVerifyingKey or window.SIGIL_ZK_VKEY.
+   • The lineage engine only verifies against trusted keys from ./vkeyRegistry (keyed by vkeyHash).
    • Regardless, we bind proofs via hashes (public+proof+vkey) so lineage is immutable.
 ────────────────────────────────────────────────────────────────── */
 
@@ -26,14 +27,14 @@ declare global {
         linkSig: string; // senderSig from hardened entry
       }) => Promise<{ proof: unknown; publicSignals: unknown; vkey?: unknown } | null>;
     };
-    snarkjs?: { groth16?: Groth16 };
+    snarkjs?: { groth16?: Groth16; plonk?: Groth16 };
   }
 }
 
 /* ─────────── Groth16 minimal structural types ─────────── */
 export type JsonValue = string | number | boolean | null | { [k: string]: JsonValue } | JsonValue[];
 
-export type Groth16VerifyingKey = { protocol?: "groth16"; curve?: string } & Record<string, JsonValue>;
+export type Groth16VerifyingKey = { protocol?: "groth16" | "plonk"; curve?: string } & Record<string, JsonValue>;
 export type Groth16Proof = Record<string, JsonValue>;
 export type Groth16PublicSignals = readonly (string | number | bigint)[] | Record<string, string | number | bigint>;
 
@@ -52,10 +53,22 @@ function isPublicSignals(v: unknown): v is Groth16PublicSignals {
   return Object.values(v).every((iscalar) => isScalar(iscalar));
 }
 
+/** snarkjs proof-system namespace (groth16 / plonk share this surface); fullProve only where proving is bundled */
 export interface Groth16 {
   verify: (...args: unknown[]) => Promise<boolean> | boolean;
+  fullProve?: (
+    input: Record<string, string | number | bigint | readonly string[]>,
+    wasmFile: string,
+    zkeyFile: string
+  ) => Promise<{ proof: Record<string, unknown>; publicSignals: string[] }>;
 }
 
+/* ─────────── Proof schemes (ZkBundle.scheme / ZkStamp.scheme) ─────────── */
+export const ZK_SCHEMES = ["groth16", "plonk"] as const;
+export type ZkScheme = (typeof ZK_SCHEMES)[number];
+
+export const isZkScheme = (s: unknown): s is ZkScheme => (ZK_SCHEMES as readonly unknown[]).includes(s);
+
 function isGroth16(x: unknown): x is Groth16 {
   return typeof x === "object" &&
     x !== null &&
@@ -63,75 +76,166 @@ function isGroth16(x: unknown): x is Groth16 {
     typeof (x as { verify?: unknown }).verify === "function";
 }
 
-async function loadGroth16(): Promise<Groth16 | null> {
+/** The one scheme → snarkjs backend switch (verifiers here, the prover worker with its static import). */
+export function zkBackend(snarkjs: unknown, scheme: ZkScheme): Groth16 | null {
+  if (!isObject(snarkjs)) return null;
+  const candidate = snarkjs[scheme] ?? (isObject(snarkjs.default) ? snarkjs.default[scheme] : undefined);
+  return isGroth16(candidate) ? candidate : null;
+}
+
+async function loadBackend(scheme: ZkScheme): Promise<Groth16 | null> {
   // try global
-  if (typeof window !== "undefined" && window.snarkjs?.groth16 && isGroth16(window.snarkjs.groth16)) {
-    return window.snarkjs.groth16;
-  }
+  const global = typeof window !== "undefined" ? zkBackend(window.snarkjs, scheme) : null;
+  if (global) return global;
   // try dynamic import (optional)
   try {
     const spec = "snarkjs";
-    type SnarkjsDynamic = { groth16?: unknown; default?: { groth16?: unknown } };
-    const mod = (await import(/* @vite-ignore */ spec)) as unknown as SnarkjsDynamic;
-    const candidate = mod.groth16 ?? mod.default?.groth16;
-    if (isGroth16(candidate)) return candidate;
+    return zkBackend(await import(/* @vite-ignore */ spec), scheme);
   } catch {
     /* optional */
   }
   return null;
 }
 
-/** Best-effort Groth16 verifier. Returns null if snarkjs is not available. */
-export async function tryVerifyGroth16(args: {
+/** Best-effort verifier for any supported scheme. Returns null if snarkjs is not available;
+    false for unknown schemes and for a vkey of another proof system. Callers pass a registry key (vkeyRegistry). */
+export async function tryVerifyZk(args: {
+  scheme: unknown;
   proof: unknown;
   publicSignals: unknown;
   vkey?: unknown;
-  fallbackVkey?: unknown;
 }): Promise<boolean | null> {
-  const groth16 = await loadGroth16();
-  if (!groth16) return null;
+  if (!isZkScheme(args.scheme)) return false;
+  const backend = await loadBackend(args.scheme);
+  if (!backend) return null;
 
-  const vkeyCandidate = args.vkey ?? args.fallbackVkey;
+  const vkeyCandidate = args.vkey;
   if (!isVerifyingKey(vkeyCandidate)) return false;
+  if ((vkeyCandidate.protocol ?? "groth16") !== args.scheme) return false;
   if (!isPublicSignals(args.publicSignals)) return false;
   if (!isProof(args.proof)) return false;
 
-  const ok = await groth16.verify(
-    vkeyCandidate as Groth16VerifyingKey,
-    args.publicSignals as Groth16PublicSignals,
-    args.proof as Groth16Proof
-  );
-  return !!ok;
-}
-
-/** Eagerly verify any ZK bundles on the head (best-effort, offline) */
-export async function verifyZkOnHead(m: SigilMetadata): Promise<void> {
-  const vkeyInline = m.zkVerifyingKey;
-  const vkeyWindow = typeof window !== "undefined" ? window.SIGIL_ZK_VKEY : undefined;
-  const fallbackVkey = vkeyInline ?? vkeyWindow;
-
-  const hs = m.hardenedTransfers ?? [];
-  for (let i = 0; i < hs.length; i++) {
-    const t = hs[i];
-
-    if (t.zkSendBundle) {
-      const res = await tryVerifyGroth16({
-        proof: t.zkSendBundle.proof,
-        publicSignals: t.zkSendBundle.publicSignals,
-        vkey: t.zkSendBundle.vkey,
-        fallbackVkey,
-      });
-      if (t.zkSend) t.zkSend.verified = res === true;
-    }
-    if (t.zkReceiveBundle) {
-      const res = await tryVerifyGroth16({
-        proof: t.zkReceiveBundle.proof,
-        publicSignals: t.zkReceiveBundle.publicSignals,
-        vkey: t.zkReceiveBundle.vkey,
-        fallbackVkey,
-      });
-      if (t.zkReceive) t.zkReceive.verified = res === true;
-    }
+  try {
+    const ok = await backend.verify(
+      vkeyCandidate,
+      args.publicSignals as Groth16PublicSignals,
+      args.proof as Groth16Proof
+    );
+    return !!ok;
+  } catch {
+    return false; // malformed proof / signals for this vkey
   }
 }
+
+/** Best-effort Groth16 verifier. Returns null if snarkjs is not available. */
+export async function tryVerifyGroth16(args: {
+  proof: unknown;
+  publicSignals: unknown;
+  vkey?: unknown;
+}): Promise<boolean | null> {
+  return tryVerifyZk({ scheme: "groth16", ...args });
+}
+
+/** Circuit of bundles without a `circuit` field: zk/sigil_proof.circom */
+export const SIGIL_PROOF_CIRCUIT = "sigil-proof";
+
+/* ─────────── Replay-resistant nullifier circuit (zk/sigil_nullifier.circom) ─────────── */
+export const NULLIFIER_CIRCUIT = "sigil-nullifier-v1";
+
+/** BN254 scalar field order (circom's default prime) */
+export const FIELD_ORDER = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/** Hex strings as numbers, anything else via SHA-256 — reduced into the field. */
+export async function textToField(s: string): Promise<bigint> {
+  const hex = /^(0x)?[0-9a-f]+$/i.test(s) ? s.replace(/^0x/i, "") : await sha256Hex(s);
+  return BigInt(`0x${hex}`) % FIELD_ORDER;
+}
+
+/** What a nullifier proof is bound to (the circuit's public inputs). */
+export type NullifierBinding = { pulse: number; canonicalHash: string; nonce: string };
+
+/** Public signals in circuit order: [nullifier, expectedHash, pulse, canonicalHash, nonce] */
+export type NullifierSignals = { nullifier: string; expectedHash: string; pulse: string; canonicalHash: string; nonce: string };
+
+/** Sigil identity a nullifier proof binds: canonicalHash, else kaiSignature for heads without one. */
+export function nullifierSigilHash(m: SigilMetadata): string | undefined {
+  return m.canonicalHash || m.kaiSignature || undefined;
+}
+
+/** Field-encoded public inputs for a binding (decimal strings, as snarkjs expects). */
+export async function nullifierPublicInputs(b: NullifierBinding): Promise<Omit<NullifierSignals, "nullifier" | "expectedHash">> {
+  return {
+    pulse: String(b.pulse),
+    canonicalHash: (await textToField(b.canonicalHash)).toString(),
+    nonce: (await textToField(b.nonce)).toString(),
+  };
+}
+
+export function readNullifierSignals(publicSignals: unknown): NullifierSignals | null {
+  if (!Array.isArray(publicSignals) || publicSignals.length !== 5) return null;
+  if (!publicSignals.every((x) => typeof x === "string" && /^\d+$/.test(x))) return null;
+  const [nullifier, expectedHash, pulse, canonicalHash, nonce] = publicSignals as string[];
+  return { nullifier, expectedHash, pulse, canonicalHash, nonce };
+}
+
+/** Why a nullifier bundle is not bound to this entry/side, or null when it is. */
+export async function nullifierBindingError(
+  head: SigilMetadata,
+  t: HardenedTransferV14,
+  side: "send" | "receive",
+  bundle: ZkBundle
+): Promise<string | null> {
+  const sig = readNullifierSignals(bundle.publicSignals);
+  if (!sig) return "public signals are not [nullifier, expectedHash, pulse, canonicalHash, nonce]";
+  const sigilHash = nullifierSigilHash(head);
+  if (!sigilHash) return "sigil has no canonicalHash to bind";
+  const pulse = side === "send" ? t.senderKaiPulse : t.receiverKaiPulse;
+  const want = await nullifierPublicInputs({ pulse: pulse ?? -1, canonicalHash: sigilHash, nonce: t.nonce ?? "" });
+  if (sig.pulse !== want.pulse) return `proof is bound to pulse ${sig.pulse}, not the ${side} pulse ${pulse}`;
+  if (sig.canonicalHash !== want.canonicalHash) return "proof is bound to a different sigil canonicalHash";
+  if (sig.nonce !== want.nonce) return "proof is bound to a different transfer nonce";
+  return null;
+}
+
+/** Owner commitment pinned for hardened entry `index`, if any. */
+export function zkOwnerAt(meta: SigilMetadata, index: number): ZkOwnerCommitment | undefined {
+  const owner = meta.zkOwner;
+  return owner && index >= owner.since ? owner : undefined;
+}
+
+/** Why a nullifier bundle does not prove knowledge of the owner's secret (expectedHash ≠ the pinned commitment). */
+export function nullifierOwnerError(head: SigilMetadata, index: number, bundle: ZkBundle): string | null {
+  const owner = zkOwnerAt(head, index);
+  if (!owner) return "sigil pins no owner commitment for this entry";
+  const sig = readNullifierSignals(bundle.publicSignals);
+  if (!sig || sig.expectedHash !== owner.commitment) return "proof opens a commitment other than the sigil owner's";
+  return null;
+}
+
+/* ─────────── Balance threshold circuit (zk/sigil_balance.circom) ─────────── */
+export const BALANCE_CIRCUIT = "sigil-balance-v1";
+
+/** Debit slots the circuit takes (longer ledgers are folded into them) */
+export const BALANCE_DEBIT_SLOTS = 32;
+
+/** Circuit input, field-encoded as decimal strings: amounts in micro-Φ, glyph / seal via textToField */
+export type BalanceWitness = {
+  originalAmount: string;
+  debits: string[];
+  salt: string;
+  threshold: string;
+  glyphHash: string;
+  sealStamp: string;
+};
+
+/** Public signals in circuit order: [ledgerCommitment, threshold, glyphHash, sealStamp] */
+export type BalanceSignals = { ledgerCommitment: string; threshold: string; glyphHash: string; sealStamp: string };
+
+export function readBalanceSignals(publicSignals: unknown): BalanceSignals | null {
+  if (!Array.isArray(publicSignals) || publicSignals.length !== 4) return null;
+  if (!publicSignals.every((x) => typeof x === "string" && /^\d+$/.test(x))) return null;
+  const [ledgerCommitment, threshold, glyphHash, sealStamp] = publicSignals as string[];
+  return { ledgerCommitment, threshold, glyphHash, sealStamp };
+}
+
 export { hashAny as __keep_hashAny };
\ No newline at end of file
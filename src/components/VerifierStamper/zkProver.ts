@@ -0,0 +1,112 @@
+// src/components/VerifierStamper/zkProver.ts
+/* In-app Groth16 / PLONK proving for the sigil circuits: the prover runs in a Web Worker
+   against each circuit's local wasm and per-scheme zkey, and the bundle is stamped onto a SEND or RECEIVE
+   (balance proofs ride on a ValueSeal instead).
+   PLONK needs at least one public input, so sigil_proof (none) is Groth16-only. */
+
+import wasmAsset from "../../../zk/sigil_proof_js/sigil_proof.wasm?url";
+import zkeyAsset from "../../../zk/sigil_proof_final.zkey?url";
+import nullifierWasmAsset from "../../../zk/sigil_nullifier_js/sigil_nullifier.wasm?url";
+import nullifierZkeyAsset from "../../../zk/sigil_nullifier_final.zkey?url";
+import nullifierPlonkZkeyAsset from "../../../zk/sigil_nullifier_plonk.zkey?url";
+import balanceWasmAsset from "../../../zk/sigil_balance_js/sigil_balance.wasm?url";
+import balanceZkeyAsset from "../../../zk/sigil_balance_final.zkey?url";
+import { poseidon1 } from "poseidon-lite/poseidon1";
+import type { ZkBundle, ZkStamp } from "./types";
+import { hashAny } from "./sigilUtils";
+import { sha256Hex } from "./crypto";
+import {
+  BALANCE_CIRCUIT,
+  FIELD_ORDER,
+  NULLIFIER_CIRCUIT,
+  nullifierPublicInputs,
+  readNullifierSignals,
+  type BalanceWitness,
+  type NullifierBinding,
+  type ZkScheme,
+} from "./zk";
+import type { ProverRequest, ProverResponse } from "./zkProver.worker";
+
+/** Secret → field element: decimal integers as-is (like zk/genSigilProof.mjs), anything else via SHA-256. */
+export async function secretToField(secret: string): Promise<bigint> {
+  const s = secret.trim();
+  if (!s) throw new Error("Enter a ZK secret");
+  const n = /^\d+$/.test(s) ? BigInt(s) : BigInt(`0x${await sha256Hex(s)}`);
+  return n % FIELD_ORDER;
+}
+
+/** Owner commitment Poseidon(secret) — the expectedHash every nullifier proof from `secret` opens. */
+export async function zkOwnerCommitment(secret: string): Promise<string> {
+  return poseidon1([await secretToField(secret)]).toString();
+}
+
+const assetUrl = (asset: string) => new URL(asset, location.href).href;
+
+async function runProver(req: ProverRequest): Promise<ZkBundle> {
+  const worker = new Worker(new URL("./zkProver.worker.ts", import.meta.url), { type: "module" });
+  try {
+    const res = await new Promise<ProverResponse>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<ProverResponse>) => resolve(e.data);
+      worker.onerror = (e) => reject(new Error(e.message || "ZK prover worker failed"));
+      worker.postMessage(req);
+    });
+    if (!res.ok) throw new Error(`ZK proving failed: ${res.error}`);
+    return res.bundle;
+  } finally {
+    worker.terminate();
+  }
+}
+
+/** Prove knowledge of `secret` in a worker (resolves with the bundle; rejects on prover failure). */
+export async function proveSigilOwnership(secret: string): Promise<ZkBundle> {
+  return runProver({
+    scheme: "groth16",
+    circuit: "sigil-proof",
+    secret: (await secretToField(secret)).toString(),
+    wasmUrl: assetUrl(wasmAsset),
+    zkeyUrl: assetUrl(zkeyAsset),
+  });
+}
+
+/** Replay-resistant proof bound to one SEND/RECEIVE (its pulse and nonce) and the sigil; yields a nullifier. */
+export async function proveSigilNullifier(
+  secret: string,
+  binding: NullifierBinding,
+  scheme: ZkScheme = "groth16"
+): Promise<ZkBundle> {
+  return runProver({
+    scheme,
+    circuit: NULLIFIER_CIRCUIT,
+    secret: (await secretToField(secret)).toString(),
+    ...(await nullifierPublicInputs(binding)),
+    wasmUrl: assetUrl(nullifierWasmAsset),
+    zkeyUrl: assetUrl(scheme === "plonk" ? nullifierPlonkZkeyAsset : nullifierZkeyAsset),
+  });
+}
+
+/** "Available Φ ≥ threshold" over a private ledger (Groth16; witness from the SigilPage balance flow). */
+export async function proveSigilBalance(input: BalanceWitness): Promise<ZkBundle> {
+  return runProver({
+    scheme: "groth16",
+    circuit: BALANCE_CIRCUIT,
+    input,
+    wasmUrl: assetUrl(balanceWasmAsset),
+    zkeyUrl: assetUrl(balanceZkeyAsset),
+  });
+}
+
+/** Stamp binding a bundle into lineage (vkeyHash: the bundle's own key, else none, so verifiers try the
+    circuit's registry keys; nullifier recorded when present). */
+export async function zkStampFor(bundle: ZkBundle): Promise<ZkStamp> {
+  const vkey = bundle.vkey;
+  const nullifier = bundle.circuit === NULLIFIER_CIRCUIT ? readNullifierSignals(bundle.publicSignals)?.nullifier : undefined;
+  return {
+    scheme: bundle.scheme,
+    curve: bundle.curve,
+    publicHash: await hashAny(bundle.publicSignals),
+    proofHash: await hashAny(bundle.proof),
+    vkeyHash: vkey ? await hashAny(vkey) : undefined,
+    ...(bundle.circuit ? { circuit: bundle.circuit } : {}),
+    ...(nullifier ? { nullifier } : {}),
+  };
+}
@@ -0,0 +1,65 @@
+// src/components/VerifierStamper/zkProver.worker.ts
+/* Groth16 / PLONK prover for the sigil circuits, off the main thread.
+   In:  { scheme, circuit, secret (field element, decimal), [binding inputs] | input (balance witness), wasmUrl, zkeyUrl }
+   Out: { ok: true, bundle } | { ok: false, error } */
+
+import * as snarkjs from "snarkjs";
+import { poseidon1 } from "poseidon-lite/poseidon1";
+import type { ZkBundle } from "./types";
+import { zkBackend, type BalanceWitness, type ZkScheme } from "./zk";
+
+type ProverAssets = { wasmUrl: string; zkeyUrl: string };
+
+/** sigil-proof: zk/sigil_proof.circom · sigil-nullifier-v1: zk/sigil_nullifier.circom ·
+    sigil-balance-v1: zk/sigil_balance.circom (inputs already field-encoded) */
+export type ProverRequest =
+  | ({ circuit: "sigil-proof"; scheme: "groth16"; secret: string } & ProverAssets)
+  | ({
+      circuit: "sigil-nullifier-v1";
+      scheme: ZkScheme;
+      secret: string;
+      pulse: string;
+      canonicalHash: string;
+      nonce: string;
+    } & ProverAssets)
+  | ({ circuit: "sigil-balance-v1"; scheme: "groth16"; input: BalanceWitness } & ProverAssets);
+export type ProverResponse = { ok: true; bundle: ZkBundle } | { ok: false; error: string };
+
+/** Secret circuits: same statement as zk/genSigilProof.mjs (plus the nullifier circuit's bindings), knowledge of
+    `secret` with Poseidon(secret) = expectedHash. The balance circuit takes its witness as given. */
+function circuitInput(req: ProverRequest): Record<string, string | readonly string[]> {
+  if (req.circuit === "sigil-balance-v1") return req.input;
+  const { secret } = req;
+  const expectedHash = poseidon1([BigInt(secret)]).toString();
+  return req.circuit === "sigil-nullifier-v1"
+    ? { secret, expectedHash, pulse: req.pulse, canonicalHash: req.canonicalHash, nonce: req.nonce }
+    : { secret, expectedHash };
+}
+
+export async function proveSigilProof(req: ProverRequest): Promise<ZkBundle> {
+  const { scheme, wasmUrl, zkeyUrl } = req;
+  const fullProve = zkBackend(snarkjs, scheme)?.fullProve;
+  if (!fullProve) throw new Error(`snarkjs has no ${scheme} prover`);
+  const { proof, publicSignals } = await fullProve(circuitInput(req), wasmUrl, zkeyUrl);
+  const vkey = await snarkjs.zKey.exportVerificationKey(zkeyUrl);
+  return {
+    scheme,
+    curve: typeof vkey.curve === "string" ? vkey.curve : undefined,
+    ...(req.circuit !== "sigil-proof" ? { circuit: req.circuit } : {}),
+    proof,
+    publicSignals,
+    vkey,
+  };
+}
+
+if (typeof self !== "undefined" && typeof window === "undefined") {
+  self.onmessage = async (e: MessageEvent<ProverRequest>) => {
+    let res: ProverResponse;
+    try {
+      res = { ok: true, bundle: await proveSigilProof(e.data) };
+    } catch (err) {
+      res = { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    self.postMessage(res);
+  };
+}
@@ -0,0 +1,77 @@
+// src/components/VerifyReportView.tsx
+// Renders a versioned v14 VerifyReport (verifier/report.ts) — shared by the
+// VerifierStamper lineage tab and the SigilPage ownership check.
+
+import type { FC } from "react";
+import "./VerifyReportView.css";
+import {
+  summarizeVerifyReport,
+  verifyIssueLocation,
+  type VerifyIssue,
+  type VerifyReport,
+} from "../verifier/report";
+
+type Props = {
+  report: VerifyReport | null;
+  /** Engine still running */
+  busy?: boolean;
+  /** Only show issues for this transfer index (omit for the whole report) */
+  index?: number;
+};
+
+const SEVERITY_ORDER: Record<VerifyIssue["severity"], number> = { error: 0, warning: 1, info: 2 };
+
+const VerifyReportView: FC<Props> = ({ report, busy = false, index }) => {
+  if (!report) {
+    return busy ? (
+      <div className="vr" role="status" aria-busy="true">
+        <span className="vr-summary">Verifying lineage…</span>
+      </div>
+    ) : null;
+  }
+
+  const issues = report.issues
+    .filter((x) => index === undefined || x.index === index)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || (a.index ?? -1) - (b.index ?? -1));
+
+  // Per-transfer mode: just the chips, nothing when clean
+  if (index !== undefined) {
+    if (issues.length === 0) return null;
+    return (
+      <ul className="vr-issues vr-issues--inline">
+        {issues.map((x, i) => (
+          <li key={`${x.code}-${i}`} className={`vr-issue vr-${x.severity}`} title={x.code}>
+            {x.message}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  const state = !report.ok ? "error" : issues.some((x) => x.severity === "warning") ? "warning" : "ok";
+  return (
+    <section className={`vr vr--${state}`} aria-live="polite" data-report-version={report.version}>
+      <header className="vr-head">
+        <span className="vr-mark" aria-hidden="true">{state === "ok" ? "✓" : state === "error" ? "✕" : "!"}</span>
+        <span className="vr-summary">{summarizeVerifyReport(report)}</span>
+        {(report.zk.sendVerified > 0 || report.zk.receiveVerified > 0) && (
+          <span className="vr-zk">ZK ✓ {report.zk.sendVerified + report.zk.receiveVerified}</span>
+        )}
+      </header>
+      {issues.length > 0 && (
+        <ul className="vr-issues">
+          {issues.map((x, i) => (
+            <li key={`${x.code}-${x.index}-${i}`} className={`vr-issue vr-${x.severity}`}>
+              <span className="vr-sev">{x.severity}</span>
+              <code className="vr-code">{x.code}</code>
+              <span className="vr-at">{verifyIssueLocation(x)}</span>
+              <span className="vr-msg">{x.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default VerifyReportView;
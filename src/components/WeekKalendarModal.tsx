@@ -30,28 +30,53 @@ import {
 
 import "./WeekKalendarModal.css";
 
+import {
+  MICRO_PER_PULSE,
+  N_DAY_MICRO,
+  PULSE_MS,
+  calendarFromMicroPulse,
+  decodeCalendar,
+  decodeMicroPulse,
+  dayStartPulse as kaiDayStartPulse,
+  decodeMoment,
+  describeRecurrence,
+  expandRecurrence,
+  formatKairos,
+  msToMicroPulse,
+  msToPulse,
+  nextOccurrence,
+  parseKairosSeal,
+  parseRecurrence,
+  serializeRecurrence,
+  withException,
+  type KaiRecurrence,
+} from "../lib/kai-klok-core";
+import { nextKaiPulseAtMs } from "../utils/kaiScheduler";
+
+import {
+  KAIROS_NOTES_KEY,
+  collectStoredNotes,
+  icsToNotes,
+  mergeImportedNotes,
+  notesToIcs,
+} from "../utils/kairosIcs";
+
 import DayDetailModal from "./DayDetailModal";
 import type { HarmonicDayInfo } from "./DayDetailModal";
 
 import MonthKalendarModal from "./MonthKalendarModal";
+import YearKalendarModal from "./YearKalendarModal";
 
 /* ✅ NoteModal (enriched) */
 import NoteModal from "./NoteModal";
 import type { Note as EnrichedNote } from "./NoteModal";
 
 /* ══════════════ constants ══════════════ */
-const PULSE_MS = (3 + Math.sqrt(5)) * 1000; // ≈ 5236ms
-
-/* μpulse-accurate timing (match SigilModal/Month/NoteModal) */
-const GENESIS_TS = Date.UTC(2024, 4, 10, 6, 45, 41, 888);
-const KAI_PULSE_SEC = 3 + Math.sqrt(5);
-const PULSE_MS_EXACT = KAI_PULSE_SEC * 1000; // scheduler tick in ms
-
 /* day pulses (whole pulses, not μpulses) */
-const DAY_PULSES = 17_491.270_421;
+const DAY_PULSES = Number(N_DAY_MICRO) / Number(MICRO_PER_PULSE); // 17_491.270421 (kai-klok-core)
 const PHI = (1 + Math.sqrt(5)) / 2;
 
-const NOTES_KEY = "kairosNotes";
+const NOTES_KEY = KAIROS_NOTES_KEY;
 const HIDDEN_IDS_KEY = "kairosNotesHiddenIds"; // panel-only hides
 const Z_INDEX = 10_000;
 
@@ -137,35 +162,8 @@ const applySpiralHue = (arc: string | undefined) => {
   doc.style.setProperty("--seal-glow-outer", rgba(core, 0.24));
 };
 
-/* ───────────────────── μpulse math (SigilModal parity) ───────────────────── */
-const ONE_PULSE_MICRO = 1_000_000n;
-const N_DAY_MICRO = 17_491_270_421n;
-const PULSES_PER_STEP_MICRO = 11_000_000n;
-const MU_PER_BEAT_EXACT = (N_DAY_MICRO + 18n) / 36n;
-
+/* ───────────────────── μpulse math (kai-klok-core) ───────────────────── */
 const pad2 = (n: number) => String(n).padStart(2, "0");
-const imod = (n: bigint, m: bigint) => ((n % m) + m) % m;
-function floorDiv(n: bigint, d: bigint): bigint {
-  const q = n / d;
-  const r = n % d;
-  return (r !== 0n && (r > 0n) !== (d > 0n)) ? q - 1n : q;
-}
-function roundTiesToEvenBigInt(x: number): bigint {
-  if (!Number.isFinite(x)) return 0n;
-  const s = x < 0 ? -1 : 1;
-  const ax = Math.abs(x);
-  const i = Math.trunc(ax);
-  const frac = ax - i;
-  if (frac < 0.5) return BigInt(s * i);
-  if (frac > 0.5) return BigInt(s * (i + 1));
-  return BigInt(s * (i % 2 === 0 ? i : i + 1));
-}
-function microPulsesSinceGenesis(date: Date): bigint {
-  const deltaSec = (date.getTime() - GENESIS_TS) / 1000;
-  const pulses = deltaSec / KAI_PULSE_SEC;
-  const micro = pulses * 1_000_000;
-  return roundTiesToEvenBigInt(micro);
-}
 
 /* ══════════════ types ══════════════ */
 interface KaiKlock {
@@ -175,8 +173,8 @@ interface KaiKlock {
   SpiralArc?: string;
 }
 
-/* ✅ Notes saved in storage (extends enriched Note with timestamp) */
-type SavedNote = EnrichedNote & { createdAt: number };
+/* ✅ Notes saved in storage (extends enriched Note with timestamp + optional repeat rule) */
+type SavedNote = EnrichedNote & { createdAt: number; repeat?: string };
 
 /* Local Kai snapshot used for live UI */
 type LocalKai = {
@@ -190,33 +188,16 @@ type LocalKai = {
 };
 
 function computeLocalKai(now: Date): LocalKai {
-  const pμ_total = microPulsesSinceGenesis(now);
-  const pμ_in_day = imod(pμ_total, N_DAY_MICRO);
-  const dayIndex = floorDiv(pμ_total, N_DAY_MICRO);
-
-  const beat = Number(floorDiv(pμ_in_day, MU_PER_BEAT_EXACT));
-  const pμ_in_beat = pμ_in_day - BigInt(beat) * MU_PER_BEAT_EXACT;
-
-  const rawStep = Number(floorDiv(pμ_in_beat, PULSES_PER_STEP_MICRO));
-  const step = Math.min(Math.max(rawStep, 0), 43);
-
-  const pulsesIntoDay = Number(floorDiv(pμ_in_day, ONE_PULSE_MICRO));
-
-  const weekdayIdx = Number(imod(dayIndex, 6n));
-  const harmonicDay = DAYS[weekdayIdx];
-
-  const dayIndexNum = Number(dayIndex);
-  const dayOfMonth = ((dayIndexNum % 42) + 42) % 42 + 1;
-  const monthIndex0 = Math.floor(dayIndexNum / 42) % 8;
-  const monthIndex1 = ((monthIndex0 + 8) % 8) + 1;
-
+  const pμ = msToMicroPulse(now.getTime());
+  const { beat, step } = decodeMicroPulse(pμ);
+  const cal = calendarFromMicroPulse(pμ);
   return {
     beat,
     step,
-    pulsesIntoDay,
-    harmonicDay,
-    dayOfMonth,
-    monthIndex1,
+    pulsesIntoDay: cal.pulsesIntoDay,
+    harmonicDay: DAYS[cal.weekdayIndex],
+    dayOfMonth: cal.dayOfMonth,
+    monthIndex1: cal.monthIndex + 1,
     chakraStepString: `${beat}:${pad2(step)}`,
   };
 }
@@ -243,13 +224,52 @@ function addDaysWithinMonth(
   return { dayOfMonth: newDm0 + 1, monthIndex1: newMi1 };
 }
 
+/* ──────────── repeating notes (kai-klok-core recurrence) ──────────── */
+type RepeatKind = "" | "day" | "week" | "month" | "firstWeekday" | "year";
+
+/* Rule for a repeat choice, anchored on the note's own pulse (same Beat:Step each time) */
+function repeatRule(kind: RepeatKind, pulse: number): KaiRecurrence | null {
+  if (!kind) return null;
+  if (kind === "firstWeekday") {
+    const { weekdayIndex } = decodeCalendar(pulse);
+    return { freq: "month", start: pulse, byWeekday: [weekdayIndex], byWeekOfMonth: [1] };
+  }
+  return { freq: kind, start: pulse };
+}
+
+function repeatKindOf(rule: KaiRecurrence | null): RepeatKind {
+  if (!rule) return "";
+  if (rule.freq === "month" && rule.byWeekOfMonth) return "firstWeekday";
+  return rule.freq === "day" || rule.freq === "week" || rule.freq === "month" || rule.freq === "year"
+    ? rule.freq
+    : "";
+}
+
+function repeatLabels(pulse: number): Record<RepeatKind, string> {
+  const cal = decodeCalendar(pulse);
+  const day = DAYS[cal.weekdayIndex];
+  return {
+    "": "Once",
+    day: "Every day",
+    week: `Every ${day}`,
+    month: `Every D${cal.dayOfMonth}`,
+    firstWeekday: `First ${day} of each month`,
+    year: "Every year",
+  };
+}
+
+const readRepeat = (n: SavedNote): KaiRecurrence | null => {
+  if (!n.repeat) return null;
+  try {
+    return parseRecurrence(n.repeat);
+  } catch {
+    return null;
+  }
+};
+
 /* ✅ derive beat/step from an absolute pulse (legacy migration helper) */
-const BEAT_PULSES = DAY_PULSES / 36;
 function deriveBeatStepFromPulse(absPulse: number): { beat: number; step: number } {
-  const intoDay = ((absPulse % DAY_PULSES) + DAY_PULSES) % DAY_PULSES;
-  const beat = Math.floor(intoDay / BEAT_PULSES);
-  const intoBeat = intoDay - beat * BEAT_PULSES;
-  const step = Math.min(43, Math.max(0, Math.floor(intoBeat / 11)));
+  const { beat, step } = decodeMoment(absPulse);
   return { beat, step };
 }
 
@@ -265,13 +285,15 @@ type ExportRow = {
   dayName: Day;
   dayOfMonth: number;
   monthIndex1: number;
+  repeat: string;
 };
 
 function augmentForExport(n: SavedNote): ExportRow {
-  const dayIndex = Math.floor(n.pulse / DAY_PULSES);
-  const dayName = DAYS[eucMod(dayIndex, 6)];
-  const dayOfMonth = eucMod(dayIndex, 42) + 1;
-  const monthIndex1 = eucMod(Math.floor(dayIndex / 42), 8) + 1;
+  const cal = decodeCalendar(n.pulse);
+  const dayIndex = cal.day;
+  const dayName = DAYS[cal.weekdayIndex];
+  const dayOfMonth = cal.dayOfMonth;
+  const monthIndex1 = cal.monthIndex + 1;
   const chakraStep = `${n.beat}:${pad2(n.step)}`;
   return {
     id: n.id,
@@ -284,6 +306,7 @@ function augmentForExport(n: SavedNote): ExportRow {
     dayName,
     dayOfMonth,
     monthIndex1,
+    repeat: n.repeat ?? "",
   };
 }
 
@@ -305,6 +328,7 @@ function toCSV(rows: ExportRow[]): string {
     "dayName",
     "dayOfMonth",
     "monthIndex1",
+    "repeat",
   ];
   const head = headers.join(",");
   const body = rows.map((r) => headers.map((h) => escapeCSV(r[h])).join(",")).join("\n");
@@ -326,8 +350,7 @@ function downloadBlob(filename: string, mime: string, data: string): void {
 /* ══════════════ Sovereign snapshot builder ══════════════ */
 function buildKaiSnapshot(now: Date): KaiKlock {
   const lk = computeLocalKai(now);
-  const pμ_total = microPulsesSinceGenesis(now);
-  const wholePulses = Number(floorDiv(pμ_total, ONE_PULSE_MICRO));
+  const wholePulses = msToPulse(now.getTime());
   const seal = `${lk.chakraStepString} — D${lk.dayOfMonth}/M${lk.monthIndex1}`;
   const arc = DAY_TO_ARC[lk.harmonicDay];
   return {
@@ -352,6 +375,7 @@ const WeekKalendarModal: FC<Props> = ({ onClose, container }) => {
   const [notes, setNotes] = useState<SavedNote[]>([]);
   const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
   const [monthOpen, setMO] = useState(false);
+  const [yearOpen, setYO] = useState(false);
   const [noteModal, setNM] = useState<{ open: boolean; pulse: number; initialText: string }>({
     open: false,
     pulse: 0,
@@ -367,11 +391,6 @@ const WeekKalendarModal: FC<Props> = ({ onClose, container }) => {
   const timeoutRef = useRef<number | null>(null);
   const targetBoundaryRef = useRef<number>(0);
   const epochNow = () => performance.timeOrigin + performance.now();
-  const computeNextBoundary = (nowMs: number) => {
-    const elapsed = nowMs - GENESIS_TS;
-    const periods = Math.ceil(elapsed / PULSE_MS_EXACT);
-    return GENESIS_TS + periods * PULSE_MS_EXACT;
-  };
   const clearAlignedTimer = () => {
     if (timeoutRef.current !== null) {
       clearTimeout(timeoutRef.current);
@@ -393,23 +412,21 @@ const WeekKalendarModal: FC<Props> = ({ onClose, container }) => {
     const fire = () => {
       const nowMs = epochNow();
       if (nowMs >= targetBoundaryRef.current) {
-        const missed = Math.floor((nowMs - targetBoundaryRef.current) / PULSE_MS_EXACT);
-        for (let i = 0; i <= missed; i++) {
-          const now = new Date();
-          const k = computeLocalKai(now);
-          const snap = buildKaiSnapshot(now);
-          setLocalKai(k);
-          setData(snap);
-          applySpiralHue(snap.SpiralArc);
-          mv.set(Math.min(k.pulsesIntoDay / DAY_PULSES, 1));
-        }
-        targetBoundaryRef.current = computeNextBoundary(nowMs);
+        // one repaint per wake-up, however many pulses were missed (exact core boundaries)
+        const now = new Date();
+        const k = computeLocalKai(now);
+        const snap = buildKaiSnapshot(now);
+        setLocalKai(k);
+        setData(snap);
+        applySpiralHue(snap.SpiralArc);
+        mv.set(Math.min(k.pulsesIntoDay / DAY_PULSES, 1));
+        targetBoundaryRef.current = nextKaiPulseAtMs(nowMs);
       }
       const delay = Math.max(0, targetBoundaryRef.current - epochNow());
       timeoutRef.current = window.setTimeout(fire, delay) as unknown as number;
     };
 
-    targetBoundaryRef.current = computeNextBoundary(epochNow());
+    targetBoundaryRef.current = nextKaiPulseAtMs(epochNow());
     const initialDelay = Math.max(0, targetBoundaryRef.current - epochNow());
     timeoutRef.current = window.setTimeout(fire, initialDelay) as unknown as number;
   }, [mv]);
@@ -434,6 +451,7 @@ const WeekKalendarModal: FC<Props> = ({ onClose, container }) => {
     beat?: unknown;
     step?: unknown;
     createdAt?: unknown;
+    repeat?: unknown;
   };
   const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
   const isStr = (v: unknown): v is string => typeof v === "string";
@@ -443,11 +461,12 @@ const WeekKalendarModal: FC<Props> = ({ onClose, container }) => {
     const beat = isNum(r.beat) ? r.beat : undefined;
     const step = isNum(r.step) ? r.step : undefined;
     const createdAt = isNum(r.createdAt) ? r.createdAt : Date.now();
+    const repeat = isStr(r.repeat) && r.repeat ? { repeat: r.repeat } : {};
     if (beat === undefined || step === undefined) {
       const d = deriveBeatStepFromPulse(r.pulse);
-      return { id: r.id, text: r.text, pulse: r.pulse, beat: d.beat, step: d.step, createdAt };
+      return { id: r.id, text: r.text, pulse: r.pulse, beat: d.beat, step: d.step, createdAt, ...repeat };
     }
-    return { id: r.id, text: r.text, pulse: r.pulse, beat, step, createdAt };
+    return { id: r.id, text: r.text, pulse: r.pulse, beat, step, createdAt, ...repeat };
   }
 
 // 1) load notes
@@ -481,6 +500,28 @@ const saveNotes = (ns: SavedNote[]) => {
     saveNotes([...notes, saved]);
   };
 
+  const setNoteRepeat = (id: string, kind: RepeatKind) => {
+    saveNotes(
+      notes.map((n) => {
+        if (n.id !== id) return n;
+        const rule = repeatRule(kind, n.pulse);
+        const { repeat: _prev, ...rest } = n;
+        void _prev;
+        return rule ? { ...rest, repeat: serializeRecurrence(rule) } : rest;
+      }),
+    );
+  };
+
+  /* skip one upcoming occurrence (recurrence exception) */
+  const skipOccurrence = (id: string, pulse: number) => {
+    saveNotes(
+      notes.map((n) => {
+        const rule = n.id === id ? readRepeat(n) : null;
+        return rule ? { ...n, repeat: serializeRecurrence(withException(rule, pulse)) } : n;
+      }),
+    );
+  };
+
 
 /* 3) panel-only hidden ids persistence */
 useEffect(() => {
@@ -509,11 +550,37 @@ const persistHiddenIds = (set: Set<string>) => {
 
 
   /* ── day mapping helpers ── */
-  const dayStartPulse = (idx: number): number => {
-    const todayZero = Math.floor(data.eternalKaiPulseToday / DAY_PULSES) * DAY_PULSES;
-    const curIdx = DAYS.indexOf(data.harmonicDay);
-    return todayZero + (idx - curIdx) * DAY_PULSES;
-  };
+  // Day notes are keyed by the integer start pulse of the absolute day index (same key in every view)
+  const dayStartPulseFromToday = useCallback(
+    (deltaDays: number): number =>
+      kaiDayStartPulse(decodeCalendar(data.eternalKaiPulseToday).day + deltaDays),
+    [data.eternalKaiPulseToday],
+  );
+
+  const dayStartPulse = (idx: number): number =>
+    dayStartPulseFromToday(idx - DAYS.indexOf(data.harmonicDay));
+
+  /* ── pasted seal ("Kaelith · 21:17", "21:17 — D12/M3") → open that day ── */
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+      const range = parseKairosSeal(e.clipboardData?.getData("text") ?? "");
+      if (!range) return;
+      e.preventDefault();
+      const day = decodeCalendar(range.startPulse);
+      const today = decodeCalendar(msToPulse(Date.now()));
+      setMO(false);
+      setYO(false);
+      setDD({
+        name: DAYS[day.weekdayIndex],
+        kaiTimestamp: formatKairos(range.start, "B:SS — [D]D/[M]M"),
+        startPulse: dayStartPulseFromToday(day.day - today.day),
+      });
+    };
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  }, [dayStartPulseFromToday]);
 
   const selectedDM = (idx: number): { dayOfMonth: number; monthIndex1: number } => {
     const baseDM =
@@ -535,6 +602,23 @@ const persistHiddenIds = (set: Set<string>) => {
     [notes, hiddenIds],
   );
 
+  /* ── repeating notes: occurrences in the current month (fed to the Month view) ── */
+  const monthCal = decodeCalendar(msToPulse(Date.now()));
+  const monthFirstDay = monthCal.day - (monthCal.dayOfMonth - 1);
+  const monthNotes = useMemo(() => {
+    const from = kaiDayStartPulse(monthFirstDay);
+    const to = kaiDayStartPulse(monthFirstDay + 42);
+    const out: SavedNote[] = [...notes];
+    for (const n of notes) {
+      const rule = readRepeat(n);
+      if (!rule) continue;
+      for (const pulse of expandRecurrence(rule, from, to)) {
+        if (pulse !== n.pulse) out.push({ ...n, id: `${n.id}@${pulse}`, pulse });
+      }
+    }
+    return out;
+  }, [notes, monthFirstDay]);
+
   /* ── EXPORT actions ── */
   const exportJSON = () => {
     if (notes.length === 0) return;
@@ -551,6 +635,28 @@ const persistHiddenIds = (set: Set<string>) => {
     downloadBlob(`kairos-notes-${kaiTag}.csv`, "text/csv;charset=utf-8", csv);
   };
 
+  /* ── ICS (iCalendar) export/import: dock notes + DayDetail notes ── */
+  const icsInputRef = useRef<HTMLInputElement | null>(null);
+
+  const exportICS = () => {
+    const all = collectStoredNotes();
+    if (all.length === 0) return;
+    const kaiTag = `P${Math.round(data.eternalKaiPulseToday)}`;
+    downloadBlob(`kairos-notes-${kaiTag}.ics`, "text/calendar;charset=utf-8", notesToIcs(all));
+  };
+
+  const importICS = async (file: File) => {
+    try {
+      // Day notes return to their day; the rest join the dock — nothing already stored is duplicated
+      const incoming: SavedNote[] = mergeImportedNotes(icsToNotes(await file.text()))
+        .map((e) => ({ ...e, createdAt: e.createdAt ?? Date.now() }));
+      if (incoming.length) saveNotes([...notes, ...incoming]);
+    } catch (err) {
+      // Unreadable file — nothing imported
+      void err;
+    }
+  };
+
   /* ── CLEAR (panel-only) ── */
   const clearPanelNotes = () => {
     if (visibleMemories.length === 0) return;
@@ -600,7 +706,7 @@ const persistHiddenIds = (set: Set<string>) => {
           key="wk-modal"
           className="wk-backdrop"
           initial={{ opacity: 0 }}
-          animate={{ opacity: monthOpen ? 0.25 : 0.96 }}
+          animate={{ opacity: monthOpen || yearOpen ? 0.25 : 0.96 }}
           exit={{ opacity: 0 }}
           transition={{ duration: 0.26 }}
           style={{ zIndex: Z_INDEX }}
@@ -643,10 +749,11 @@ const persistHiddenIds = (set: Set<string>) => {
                 <button
                   type="button"
                   role="tab"
-                  aria-selected={!monthOpen}
-                  className={!monthOpen ? "active" : ""}
+                  aria-selected={!monthOpen && !yearOpen}
+                  className={!monthOpen && !yearOpen ? "active" : ""}
                   onClick={() => {
                     setMO(false);
+                    setYO(false);
                     setDD(null);
                   }}
                 >
@@ -659,11 +766,25 @@ const persistHiddenIds = (set: Set<string>) => {
                   className={monthOpen ? "active" : ""}
                   onClick={() => {
                     setDD(null);
+                    setYO(false);
                     setMO(true);
                   }}
                 >
                   Month
                 </button>
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={yearOpen}
+                  className={yearOpen ? "active" : ""}
+                  onClick={() => {
+                    setDD(null);
+                    setMO(false);
+                    setYO(true);
+                  }}
+                >
+                  Year
+                </button>
               </div>
             </div>
 
@@ -876,20 +997,80 @@ const persistHiddenIds = (set: Set<string>) => {
                       </button>
                     </>
                   )}
+                  <button
+                    type="button"
+                    className="wk-export-btn"
+                    title="Download all notes, including Day notes (iCalendar .ics)"
+                    onClick={exportICS}
+                  >
+                    ⤓ ICS
+                  </button>
+                  <button
+                    type="button"
+                    className="wk-export-btn"
+                    title="Import events from an iCalendar (.ics) file"
+                    onClick={() => icsInputRef.current?.click()}
+                  >
+                    ⤒ ICS
+                  </button>
+                  <input
+                    ref={icsInputRef}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    hidden
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) void importICS(file);
+                    }}
+                  />
                 </div>
               </div>
 
               {visibleMemories.length > 0 ? (
                 <ul style={{ margin: "8px 0 0", padding: 0, listStyle: "none" }}>
-                  {visibleMemories.map((n) => (
-                    <li key={n.id} style={{ padding: "6px 4px" }}>
-                      <strong>
-                        {Math.round(n.pulse)} · {n.beat}:{pad2(n.step)}
-                      </strong>
-                      {" : "}
-                      {n.text}
-                    </li>
-                  ))}
+                  {visibleMemories.map((n) => {
+                    const rule = readRepeat(n);
+                    const next = rule ? nextOccurrence(rule, msToPulse(Date.now())) : null;
+                    const labels = repeatLabels(n.pulse);
+                    return (
+                      <li key={n.id} style={{ padding: "6px 4px" }}>
+                        <strong>
+                          {Math.round(n.pulse)} · {n.beat}:{pad2(n.step)}
+                        </strong>
+                        {" : "}
+                        {n.text}
+                        <div className="wk-note-repeat" style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 4, fontSize: 12, opacity: 0.85 }}>
+                          <select
+                            aria-label="Repeat"
+                            title={rule ? describeRecurrence(rule) : "Does not repeat"}
+                            value={repeatKindOf(rule)}
+                            onChange={(e) => setNoteRepeat(n.id, e.target.value as RepeatKind)}
+                          >
+                            {(Object.keys(labels) as RepeatKind[]).map((k) => (
+                              <option key={k} value={k}>
+                                {k ? "↻ " : ""}
+                                {labels[k]}
+                              </option>
+                            ))}
+                          </select>
+                          {next !== null && (
+                            <>
+                              <span>next {formatKairos(BigInt(next) * 1_000_000n, "B:SS — [D]D/[M]M")}</span>
+                              <button
+                                type="button"
+                                className="wk-chip"
+                                title="Skip this occurrence"
+                                onClick={() => skipOccurrence(n.id, next)}
+                              >
+                                skip
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
                 </ul>
               ) : (
                 <p className="wk-notes-empty" style={{ margin: "8px 0 0", opacity: 0.8 }}>
@@ -905,15 +1086,15 @@ const persistHiddenIds = (set: Set<string>) => {
       {monthOpen && (
         <MonthKalendarModal
           DAYS={DAYS}
-          notes={notes}
+          notes={monthNotes}
           initialData={data}
           onSelectDay={() => {}}
           onAddNote={(idx) =>
             setNM({
               open: true,
-              pulse: idx * DAY_PULSES, // seed; NoteModal computes final beat/step live
+              pulse: kaiDayStartPulse(monthFirstDay + idx), // seed; NoteModal computes final beat/step live
               initialText:
-                notes.find((n) => Math.floor(n.pulse / DAY_PULSES) === idx)?.text || "",
+                notes.find((n) => decodeCalendar(n.pulse).day === monthFirstDay + idx)?.text || "",
             })
           }
           onClose={() => {
@@ -922,6 +1103,16 @@ const persistHiddenIds = (set: Set<string>) => {
           }}
         />
       )}
+
+      {/* YEAR grid modal */}
+      {yearOpen && (
+        <YearKalendarModal
+          onClose={() => {
+            setYO(false);
+            setDD(null);
+          }}
+        />
+      )}
     </>,
     root,
   );
@@ -0,0 +1,263 @@
+// src/components/YearKalendarModal.tsx
+/* ────────────────────────────────────────────────────────────────
+   YearKalendarModal.tsx · Atlantean Lumitech “Kairos Kalendar — Year”
+   v1.0 · 8 months × 7 weeks × 6 days · Note density · Year paging
+   ────────────────────────────────────────────────────────────────
+   • One 336-day harmonic year at a glance (exact kai-klok-core math)
+   • Per-day note density: Week dock + DayDetail notes + repeat rules
+   • Tap a day → DayDetailModal (same startPulse mapping as Week/Month)
+   • ← / → (or buttons) page whole Kairos years; Home jumps to now
+───────────────────────────────────────────────────────────────── */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { FC } from "react";
+import { createPortal } from "react-dom";
+import { AnimatePresence, motion } from "framer-motion";
+
+import "./YearKalendarModal.css";
+import {
+  DAYS_PER_MONTH,
+  DAYS_PER_WEEK,
+  DAYS_PER_YEAR,
+  MONTHS,
+  WEEKDAYS,
+  WEEKS_PER_MONTH,
+  dayStartPulse,
+  decodeCalendar,
+  expandRecurrence,
+  msToPulse,
+  parseRecurrence,
+  type KaiRecurrence,
+} from "../lib/kai-klok-core";
+import { collectStoredNotes, type KairosIcsEvent } from "../utils/kairosIcs";
+import { subscribeKaiBoundary } from "../utils/kaiScheduler";
+import DayDetailModal from "./DayDetailModal";
+import type { HarmonicDayInfo } from "./DayDetailModal";
+
+/* ══════════════ constants ══════════════ */
+
+/* Canonical weekday pigments (fixed per day) */
+const COLOR: Record<(typeof WEEKDAYS)[number], string> = {
+  Solhara: "#ff0024", Aquaris: "#ff6f00", Flamora: "#ffd600",
+  Verdari: "#00c853", Sonari: "#00b0ff", Kaelith: "#c186ff",
+};
+
+/** Density bucket (0 = none … 4 = busiest) for a day's note count. */
+const densityLevel = (n: number): number => (n <= 0 ? 0 : n === 1 ? 1 : n <= 3 ? 2 : n <= 6 ? 3 : 4);
+
+const todayCalendar = () => decodeCalendar(msToPulse(Date.now()));
+
+/* ══════════════ notes → per-day counts ══════════════ */
+
+/** Note count per absolute day index for every day in Kai year `year` (0-based). */
+function noteCountsForYear(notes: readonly KairosIcsEvent[], year: number): Map<number, number> {
+  const firstDay = year * DAYS_PER_YEAR;
+  const from = dayStartPulse(firstDay);
+  const to = dayStartPulse(firstDay + DAYS_PER_YEAR);
+  const counts = new Map<number, number>();
+  const bump = (pulse: number) => {
+    const { day } = decodeCalendar(pulse);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  };
+
+  for (const note of notes) {
+    let rule: KaiRecurrence | null = null;
+    if (note.repeat) {
+      try {
+        rule = parseRecurrence(note.repeat);
+      } catch {
+        rule = null; // unreadable rule: count the anchor only
+      }
+    }
+    if (!rule) {
+      if (note.pulse >= from && note.pulse < to) bump(note.pulse);
+      continue;
+    }
+    for (const pulse of expandRecurrence(rule, from, to)) bump(pulse);
+  }
+  return counts;
+}
+
+/* ══════════════ component ══════════════ */
+interface Props {
+  onClose: () => void;
+  container?: HTMLElement | null;
+  /** 0-based Kai year to open on (default: the current year) */
+  initialYear?: number;
+}
+
+const YearKalendarModal: FC<Props> = ({ onClose, container, initialYear }) => {
+  const [today, setToday] = useState(todayCalendar);
+  const [year, setYear] = useState<number>(() => initialYear ?? todayCalendar().year);
+  const [dayDetail, setDD] = useState<HarmonicDayInfo | null>(null);
+  const [stored, setStored] = useState<KairosIcsEvent[]>(collectStoredNotes);
+
+  /* Roll "today" over at the exact day boundary */
+  useEffect(() => subscribeKaiBoundary("day", () => setToday(todayCalendar())), []);
+
+  const counts = useMemo(() => noteCountsForYear(stored, year), [stored, year]);
+
+  /* DayDetail writes straight to storage → re-read when it closes */
+  const closeDay = useCallback(() => {
+    setDD(null);
+    setStored(collectStoredNotes());
+  }, []);
+
+  /* Keyboard: Esc closes (Day first), ←/→ page years, Home → this year */
+  const dayOpenRef = useRef(false);
+  useEffect(() => { dayOpenRef.current = dayDetail !== null; }, [dayDetail]);
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (dayOpenRef.current) return;
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft" || e.key === "PageUp") setYear((y) => y - 1);
+      else if (e.key === "ArrowRight" || e.key === "PageDown") setYear((y) => y + 1);
+      else if (e.key === "Home") setYear(todayCalendar().year);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const closeRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => closeRef.current?.focus(), []);
+
+  const openDay = (absDay: number) => {
+    const cal = decodeCalendar(dayStartPulse(absDay));
+    setDD({
+      name: WEEKDAYS[cal.weekdayIndex],
+      kaiTimestamp: `D${cal.dayOfMonth}/M${cal.monthIndex + 1} · Y${cal.year + 1}`,
+      startPulse: dayStartPulse(absDay),
+    });
+  };
+
+  const yearTotal = useMemo(() => {
+    let n = 0;
+    counts.forEach((c) => { n += c; });
+    return n;
+  }, [counts]);
+
+  const firstDay = year * DAYS_PER_YEAR;
+  const root = container ?? document.body;
+
+  return createPortal(
+    <AnimatePresence>
+      <motion.div
+        key="yk-backdrop"
+        className="yk-backdrop"
+        role="presentation"
+        onPointerDown={(e) => {
+          if (e.currentTarget === e.target && !dayDetail) onClose();
+        }}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <motion.div
+          className="yk-panel"
+          role="dialog"
+          aria-modal="true"
+          aria-label={`Kairos Year ${year + 1}`}
+          initial={{ scale: 0.94, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.94, opacity: 0 }}
+          transition={{ type: "spring", stiffness: 320, damping: 28 }}
+        >
+          {/* Header: year paging */}
+          <header className="yk-head">
+            <button type="button" className="yk-nav" onClick={() => setYear((y) => y - 1)} aria-label="Previous year">
+              ‹
+            </button>
+            <div className="yk-title">
+              <h2>Year {year + 1}</h2>
+              <span className="yk-sub">
+                {DAYS_PER_YEAR} days · {yearTotal} {yearTotal === 1 ? "note" : "notes"}
+              </span>
+            </div>
+            <button type="button" className="yk-nav" onClick={() => setYear((y) => y + 1)} aria-label="Next year">
+              ›
+            </button>
+            {year !== today.year && (
+              <button type="button" className="yk-now" onClick={() => setYear(today.year)}>
+                Now
+              </button>
+            )}
+            <button ref={closeRef} type="button" className="yk-close" onClick={onClose} aria-label="Close year view">
+              ×
+            </button>
+          </header>
+
+          {/* 8 months × (7 weeks × 6 days) */}
+          <div className="yk-months">
+            {MONTHS.map((m, mi) => {
+              const monthFirst = firstDay + mi * DAYS_PER_MONTH;
+              let monthNotes = 0;
+              for (let d = 0; d < DAYS_PER_MONTH; d++) monthNotes += counts.get(monthFirst + d) ?? 0;
+
+              return (
+                <section key={m.name} className="yk-month" aria-label={`M${mi + 1} ${m.name}`}>
+                  <h3 className="yk-month-name" title={m.desc}>
+                    <span>M{mi + 1}</span> {m.name}
+                    {monthNotes > 0 && <span className="yk-month-count">{monthNotes}</span>}
+                  </h3>
+
+                  <div className="yk-grid" role="grid">
+                    <div className="yk-row yk-row--head" role="row">
+                      {WEEKDAYS.map((w) => (
+                        <span key={w} role="columnheader" style={{ color: COLOR[w] }} title={w}>
+                          {w.slice(0, 2)}
+                        </span>
+                      ))}
+                    </div>
+
+                    {Array.from({ length: WEEKS_PER_MONTH }, (_, wi) => (
+                      <div key={wi} className="yk-row" role="row">
+                        {WEEKDAYS.map((w, di) => {
+                          const dom = wi * DAYS_PER_WEEK + di; // 0..41
+                          const absDay = monthFirst + dom;
+                          const n = counts.get(absDay) ?? 0;
+                          const isToday = absDay === today.day;
+                          return (
+                            <button
+                              key={w}
+                              type="button"
+                              role="gridcell"
+                              className={isToday ? "yk-day yk-today" : "yk-day"}
+                              data-level={densityLevel(n)}
+                              style={{ ["--yk-day" as string]: COLOR[w] }}
+                              onClick={() => openDay(absDay)}
+                              title={`${w} · D${dom + 1}/M${mi + 1}${n ? ` · ${n} ${n === 1 ? "note" : "notes"}` : ""}`}
+                              aria-label={`${w}, day ${dom + 1} of ${m.name}${n ? `, ${n} notes` : ""}`}
+                              aria-current={isToday ? "date" : undefined}
+                            >
+                              {dom + 1}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+
+          {/* Density legend */}
+          <footer className="yk-legend" aria-hidden="true">
+            <span>Notes</span>
+            {[0, 1, 2, 3, 4].map((l) => (
+              <i key={l} className="yk-swatch" data-level={l} />
+            ))}
+          </footer>
+
+          {dayDetail && <DayDetailModal day={dayDetail} onClose={closeDay} />}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>,
+    root,
+  );
+};
+
+export default YearKalendarModal;
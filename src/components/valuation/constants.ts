@@ -1,7 +1,9 @@
 // valuation/constants.ts
+import { PULSE_MS, getKaiPulse } from "../../lib/kai-klok-core";
+
 export const COLORS = ["#37ffe4", "#a78bfa", "#5ce1ff", "#11d7ff"] as const;
 // (type is readonly [...])
-export const BREATH_MS = 5236;
+export const BREATH_MS = PULSE_MS; // kai-klok-core breath, rounded to the ms
 export type Palette = readonly string[];
 // src/components/VerifierStamper/constants.ts
 
@@ -14,5 +16,5 @@ export const SIGIL_TYPE = "Sigil" as const;
 /** Max transfers kept in the head window before rolling a segment */
 export const SEGMENT_SIZE = 2000 as const;
 
-/** Current Kai pulse (unix-seconds); used across UI + stamps */
-export const kaiPulseNow = (): number => Math.floor(Date.now() / 1000);
+/** Current Kai pulse (kai-klok-core); used across UI + stamps */
+export const kaiPulseNow = (): number => getKaiPulse();
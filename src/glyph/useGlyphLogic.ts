@@ -2,10 +2,11 @@
 // 🜄 Harmonic Glyph Operations — Recursive Sovereign Execution Layer
 
 import type { Glyph } from "./types";
+import { getKaiPulse } from "../lib/kai-klok-core";
 
 // Constants
 const DEFAULT_GROWTH_RATE = 0.000777; // Optional growth per pulse
-const DEFAULT_PULSE_NOW = () => Math.floor(Date.now() / 5236); // fallback Kai pulse if Kai-Klok not injected
+const DEFAULT_PULSE_NOW = () => getKaiPulse(); // fallback Kai pulse if Kai-Klok not injected
 
 // ─────────────────────────────────────────────────────────────
 // 🫁 Get the currently available balance from a source glyph
@@ -0,0 +1,28 @@
+// src/hooks/useKaiBoundary.ts
+import { useEffect, useRef } from "react";
+import {
+  subscribeKaiBoundary,
+  type KaiBoundaryKind,
+  type KaiBoundaryListener,
+} from "../utils/kaiScheduler";
+
+/**
+ * Run `onBoundary` at every Kai boundary of `kind` (pulse / step / beat / day)
+ * from the shared scheduler. The latest callback is always used; pass
+ * `enabled = false` to pause without resubscribing callers.
+ */
+export function useKaiBoundary(
+  kind: KaiBoundaryKind,
+  onBoundary: KaiBoundaryListener,
+  enabled = true,
+): void {
+  const cbRef = useRef(onBoundary);
+  useEffect(() => {
+    cbRef.current = onBoundary;
+  }, [onBoundary]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeKaiBoundary(kind, (ev) => cbRef.current(ev));
+  }, [kind, enabled]);
+}
@@ -1,35 +1,30 @@
 // src/hooks/useKaiTicker.ts
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { PULSE_MS, computeKaiLocally } from "../utils/kai_pulse";
+import { msToNextKaiPulse, subscribeKaiBoundary } from "../utils/kaiScheduler";
+
+/** Countdown refresh period — ~10 renders a second, not one per animation frame. */
+const COUNTDOWN_MS = 100;
 
 export function useKaiTicker() {
   const [pulse, setPulse] = useState<number | null>(null);
   const [msToNextPulse, setMsToNextPulse] = useState<number>(PULSE_MS);
-  const lastPulseAtRef = useRef<number | null>(null);
-  const lastPulseRef = useRef<number | null>(null);
 
+  // Pulse changes come from the shared boundary scheduler (exact, sleep-safe).
+  useEffect(() => {
+    setPulse(computeKaiLocally(new Date()).pulse);
+    return subscribeKaiBoundary("pulse", (ev) => {
+      setPulse(ev.pulse);
+      setMsToNextPulse(msToNextKaiPulse());
+    });
+  }, []);
+
+  // Countdown between boundaries on a throttled interval (browsers slow it further when hidden).
   useEffect(() => {
-    let intervalId: number | null = null;
-    const update = () => {
-      const calc = computeKaiLocally(new Date());
-      const now = Date.now();
-      if (lastPulseRef.current == null || calc.pulse !== lastPulseRef.current) {
-        lastPulseRef.current = calc.pulse;
-        lastPulseAtRef.current = now;
-        setPulse(calc.pulse);
-        setMsToNextPulse(PULSE_MS);
-      } else {
-        const lastAt = lastPulseAtRef.current;
-        const rem = lastAt == null ? PULSE_MS : Math.max(0, PULSE_MS - (now - lastAt));
-        setPulse(calc.pulse);
-        setMsToNextPulse(rem);
-      }
-    };
-    intervalId = window.setInterval(update, 50);
+    const update = () => setMsToNextPulse(msToNextKaiPulse());
     update();
-    return () => {
-      if (intervalId != null) window.clearInterval(intervalId);
-    };
+    const id = window.setInterval(update, COUNTDOWN_MS);
+    return () => window.clearInterval(id);
   }, []);
 
   return { pulse, msToNextPulse };
@@ -1,5 +1,6 @@
 // useValueHistory.ts (Kairos-only)
 import { useCallback, useRef, useState } from "react";
+import { BEATS_DAY, N_DAY_MICRO, msToMicroPulse } from "../lib/kai-klok-core";
 
 export type ValuePoint = { t: number; v: number };
 
@@ -11,15 +12,10 @@ type Options = {
 /* ────────────────────────────────
    Kai time helpers (beats ⇄ ms)
    ──────────────────────────────── */
-const HARMONIC_DAY_PULSES = 17491.270421;          // canon
-const BREATH_SEC = 3 + Math.sqrt(5);               // 3 + √5
-const BEATS_PER_DAY = 36;
-const MS_PER_BEAT =
-  (HARMONIC_DAY_PULSES * BREATH_SEC * 1000) / BEATS_PER_DAY; // ≈ 2_544_041.137 ms
-const GENESIS_TS = 1715323541888;                  // 2024-05-10T06:45:41.888Z
+const MICRO_PER_BEAT = Number(N_DAY_MICRO) / BEATS_DAY; // ≈ 485_868_622.8 μpulses
 
 function msToAbsBeat(ms: number): number {
-  return (ms - GENESIS_TS) / MS_PER_BEAT;
+  return Number(msToMicroPulse(ms)) / MICRO_PER_BEAT;
 }
 function toAbsKaiBeats(t: number): number {
   // Heuristic: epoch-ms if very large
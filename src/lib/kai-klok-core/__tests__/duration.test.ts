@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { BASE_DAY_MICRO, N_DAY_MICRO } from "../../../utils/kai_pulse";
+import {
+  UNIT_MICRO,
+  ceilToUnit,
+  durationFromMicroPulses,
+  durationToMicroPulses,
+  floorToUnit,
+  formatDuration,
+  nextBoundary,
+} from "../duration";
+import { decodeMicroPulse } from "../moment";
+
+describe("durationToMicroPulses / durationFromMicroPulses", () => {
+  it("round-trips a mixed signed span", () => {
+    for (const span of [0n, 1n, -1n, UNIT_MICRO.year + 3n * UNIT_MICRO.beat + 7n, -(N_DAY_MICRO * 40n + 12345n)]) {
+      expect(durationToMicroPulses(durationFromMicroPulses(span))).toBe(span);
+    }
+  });
+
+  it("rejects non-integer fields", () => {
+    expect(() => durationToMicroPulses({ beats: 1.5 })).toThrow(/KaiDuration\.beats must be an integer/);
+  });
+});
+
+describe("formatDuration", () => {
+  it("lists non-zero fields largest first, singular for ±1", () => {
+    expect(formatDuration({ beats: 3, steps: 11 })).toBe("3 beats 11 steps");
+    expect(formatDuration({ days: -1, pulses: 2n })).toBe("-1 day 2 pulses");
+    expect(formatDuration({})).toBe("0 pulses");
+  });
+
+  it("throws a descriptive error on non-integer fields", () => {
+    expect(() => formatDuration({ beats: 1.5 })).toThrow(/KaiDuration\.beats must be an integer \(got 1\.5\)/);
+    expect(() => formatDuration({ steps: Number.NaN })).toThrow(/KaiDuration\.steps/);
+  });
+});
+
+describe("floor / ceil boundaries", () => {
+  const day = 7n * N_DAY_MICRO;
+
+  it("floors and ceils grid units to the decoded beat/step", () => {
+    const at = day + 5n * UNIT_MICRO.beat + 3n * UNIT_MICRO.step + 4n * UNIT_MICRO.pulse + 9n;
+    const floorBeat = floorToUnit(at, "beat");
+    expect(floorBeat).toBe(day + 5n * UNIT_MICRO.beat);
+    expect(decodeMicroPulse(floorBeat).beat).toBe(5);
+    expect(ceilToUnit(at, "step")).toBe(day + 5n * UNIT_MICRO.beat + 4n * UNIT_MICRO.step);
+  });
+
+  it("ends the closure tail at the next day boundary", () => {
+    const inTail = day + BASE_DAY_MICRO + 10n;
+    expect(floorToUnit(inTail, "beat")).toBe(day + BASE_DAY_MICRO);
+    expect(ceilToUnit(inTail, "beat")).toBe(day + N_DAY_MICRO);
+  });
+
+  it("nextBoundary is strictly after a boundary instant", () => {
+    expect(nextBoundary(day, "day")).toBe(day + N_DAY_MICRO);
+    expect(nextBoundary(5n * UNIT_MICRO.pulse, "pulse")).toBe(6n * UNIT_MICRO.pulse);
+  });
+
+  it("floors negative instants toward −∞", () => {
+    expect(floorToUnit(-1n, "day")).toBe(-N_DAY_MICRO);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { BASE_DAY_MICRO, N_DAY_MICRO } from "../../../utils/kai_pulse";
+import { KAIROS_PATTERNS, KairosParseError, formatKairos, parseKairos, parseKairosFields } from "../format";
+import { MICRO_PER_PULSE, floorDivBig } from "../pulse";
+
+const FULL = "W, [D]D/[M]M [Y]Y · B:SS:pp";
+
+/** Pulses spread over a day, its closure tail and the days around Genesis. */
+function samplePulses(): number[] {
+  const out: number[] = [];
+  for (const day of [-337n, -1n, 0n, 1n, 1234n]) {
+    const start = day * N_DAY_MICRO;
+    const tail = start + BASE_DAY_MICRO;
+    for (const pμ of [start, start + 5_000_000_000n, tail - 1n, tail, tail + 33_000_000n, start + N_DAY_MICRO - 1n]) {
+      out.push(Number(floorDivBig(pμ, MICRO_PER_PULSE)));
+    }
+  }
+  return [...out, 21496768];
+}
+
+const contains = (range: { start: bigint; end: bigint }, pulse: number) => {
+  const pμ = BigInt(pulse) * MICRO_PER_PULSE;
+  return range.start <= pμ && pμ < range.end;
+};
+
+describe("formatKairos → parseKairos round-trip", () => {
+  it.each(samplePulses())("pulse %i parses back to a range containing it", (pulse) => {
+    const at = BigInt(pulse) * MICRO_PER_PULSE;
+    for (const pattern of [FULL, KAIROS_PATTERNS.calendar, KAIROS_PATTERNS.moment, KAIROS_PATTERNS.pulse]) {
+      const text = formatKairos(at, pattern);
+      expect(contains(parseKairos(text, pattern, { near: at }), pulse), `${pattern} → ${text}`).toBe(true);
+    }
+  });
+
+  it("formats the closure tail as beat 36", () => {
+    const text = formatKairos(21496768n * MICRO_PER_PULSE, "B:SS");
+    expect(text.startsWith("36:")).toBe(true);
+  });
+
+  it("formats and parses pre-Genesis years", () => {
+    const text = formatKairos(-1n, "[Y]Y");
+    expect(text).toBe("Y0");
+    expect(parseKairosFields("Y-1", "[Y]Y").year).toBe(-1);
+    expect(parseKairos(text, "[Y]Y").end).toBe(0n);
+  });
+});
+
+describe("parseKairos limits", () => {
+  it("rejects tail steps past the day boundary", () => {
+    expect(() => parseKairos("Kaelith · 36:07", KAIROS_PATTERNS.seal, { near: 0n })).toThrow(KairosParseError);
+    expect(() => parseKairos("Kaelith · 37:00", KAIROS_PATTERNS.seal, { near: 0n })).toThrow(/Beat 37/);
+  });
+
+  it("puts beat 36 in the last arc and no other", () => {
+    expect(() => parseKairos("Kaelith • Dream • beat 36 • step 0 • pulse 0/11", KAIROS_PATTERNS.moment, { near: 0n })).not.toThrow();
+    expect(() => parseKairos("Kaelith • Ignition • beat 36 • step 0 • pulse 0/11", KAIROS_PATTERNS.moment, { near: 0n })).toThrow(
+      /not in the Ignition arc/
+    );
+  });
+});
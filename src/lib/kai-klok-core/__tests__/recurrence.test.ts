@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { calendarFromMicroPulse, decodeMoment } from "../moment";
+import { MICRO_PER_PULSE } from "../pulse";
+import {
+  expandRecurrence,
+  nextOccurrence,
+  parseRecurrence,
+  serializeRecurrence,
+  withException,
+  type KaiRecurrence,
+} from "../recurrence";
+
+/** Pulse-by-pulse reference for `freq: "pulse"` rules with limiting BY* fields. */
+function bruteForce(rule: KaiRecurrence, from: number, to: number): number[] {
+  const out: number[] = [];
+  for (let p = Math.max(from, rule.start); p < to; p++) {
+    if ((p - rule.start) % (rule.interval ?? 1) !== 0) continue;
+    const m = decodeMoment(p);
+    const cal = calendarFromMicroPulse(BigInt(p) * MICRO_PER_PULSE);
+    const ok =
+      (!rule.byMonth || rule.byMonth.includes(cal.monthIndex + 1)) &&
+      (!rule.byWeekday || rule.byWeekday.includes(cal.weekdayIndex)) &&
+      (!rule.byDayOfMonth || rule.byDayOfMonth.includes(cal.dayOfMonth)) &&
+      (!rule.byBeat || rule.byBeat.includes(m.beat)) &&
+      (!rule.byStep || rule.byStep.includes(m.step)) &&
+      (!rule.byPulseInStep || rule.byPulseInStep.includes(m.pulseInStep));
+    if (ok) out.push(p);
+  }
+  return out;
+}
+
+describe("freq: pulse with sparse filters", () => {
+  const rules: KaiRecurrence[] = [
+    { freq: "pulse", start: 100, byBeat: [0], byStep: [2, 5] },
+    { freq: "pulse", start: 0, interval: 7, byWeekday: [3], byBeat: [12, 35], byStep: [43] },
+    { freq: "pulse", start: 3, byBeat: [0], byStep: [6], byPulseInStep: [1, 9] },
+  ];
+
+  it.each(rules.map((r) => [serializeRecurrence(r), r] as const))("%s matches a pulse-by-pulse scan", (_, rule) => {
+    const to = 17_500 * 8;
+    const want = bruteForce(rule, 0, to);
+    expect(want.length).toBeGreaterThan(0);
+    expect(expandRecurrence(rule, 0, to)).toEqual(want);
+  });
+
+  it("finds a once-a-year slot quickly", () => {
+    const rule: KaiRecurrence = { freq: "pulse", start: 0, byMonth: [8], byDayOfMonth: [42], byBeat: [35], byStep: [43], byPulseInStep: [10] };
+    const t0 = performance.now();
+    const next = nextOccurrence(rule, 0);
+    expect(performance.now() - t0).toBeLessThan(1_000);
+    expect(next).not.toBeNull();
+    const m = decodeMoment(next!);
+    expect([m.beat, m.step, m.pulseInStep]).toEqual([35, 43, 10]);
+    expect(nextOccurrence(rule, next!)! - next!).toBeGreaterThan(17_000 * 335);
+  });
+});
+
+describe("recurrence rules", () => {
+  it("expands a weekly rule once per week at its slot", () => {
+    const rule: KaiRecurrence = { freq: "week", start: 0, byWeekday: [3], byBeat: [12], byStep: [0], byPulseInStep: [0] };
+    const hits = expandRecurrence(rule, 0, 17_500 * 24);
+    expect(hits).toHaveLength(4);
+    for (const p of hits) expect(decodeMoment(p)).toMatchObject({ beat: 12, step: 0, dayIndex: 3 });
+  });
+
+  it("honours count, until and exceptions", () => {
+    const rule: KaiRecurrence = { freq: "day", start: 0, count: 3 };
+    const all = expandRecurrence(rule, 0, 1e9);
+    expect(all).toHaveLength(3);
+    expect(expandRecurrence(withException(rule, all[1]), 0, 1e9)).toEqual([all[0], all[2]]);
+    expect(expandRecurrence({ ...rule, count: undefined, until: all[1] }, 0, 1e9)).toEqual(all.slice(0, 2));
+  });
+
+  it("ends unsatisfiable rules instead of scanning forever", () => {
+    expect(nextOccurrence({ freq: "day", start: 0, byWeekday: [0], byDayOfMonth: [2] }, 0)).toBeNull();
+  });
+
+  it("round-trips through its string form", () => {
+    const rule: KaiRecurrence = { freq: "month", start: 6381211, interval: 2, byWeekday: [0], byWeekOfMonth: [1], exceptions: [7] };
+    expect(parseRecurrence(serializeRecurrence(rule))).toEqual(rule);
+    expect(() => parseRecurrence("FREQ=week;START=1;BEAT=36")).toThrow(/byBeat value 36/);
+  });
+});
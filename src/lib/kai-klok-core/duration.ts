@@ -0,0 +1,237 @@
+// src/lib/kai-klok-core/duration.ts
+// Kairos duration arithmetic — exact BigInt μpulses on the KKS-1.0 lattice.
+//
+// Unit lengths (μpulses):
+//   pulse = 10^6 • step = 11·10^6 • beat = 484·10^6            (semantic grid)
+//   day = N_DAY_MICRO • week = 6 days • month = 42 days • year = 336 days (closure)
+//
+// Boundaries:
+//   • pulse / day / week / month / year boundaries tile from Genesis (T₀).
+//   • step / beat boundaries restart at every day boundary and follow the
+//     17,424-pulse grid exactly like `latticeFromMicroPulses` (the ~67-pulse
+//     closure tail re-enters beat 0), so floor/ceil agree with decoded indices.
+
+import {
+  BASE_DAY_MICRO,
+  N_DAY_MICRO,
+  PULSES_PER_BEAT_MICRO,
+  PULSES_PER_STEP_MICRO,
+} from "../../utils/kai_pulse";
+import {
+  DAYS_PER_MONTH,
+  DAYS_PER_WEEK,
+  DAYS_PER_YEAR,
+  decodeMicroPulse,
+  type KaiMoment,
+} from "./moment";
+import { MICRO_PER_PULSE, floorDivBig, modBig } from "./pulse";
+
+// ─────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────
+export type KaiUnit = "pulse" | "step" | "beat" | "day" | "week" | "month" | "year";
+
+/** A signed Kairos duration; every field is an integer count of its unit. */
+export type KaiDuration = {
+  years?: number | bigint;
+  months?: number | bigint;
+  weeks?: number | bigint;
+  days?: number | bigint;
+  beats?: number | bigint;
+  steps?: number | bigint;
+  pulses?: number | bigint;
+  micro?: number | bigint; // raw μpulses
+};
+
+/** A fully decomposed duration (every field present, exact). */
+export type ExactKaiDuration = { [K in keyof KaiDuration]-?: bigint };
+
+/** Either an exact μpulse offset since Genesis or a decoded moment. */
+export type KaiInstant = bigint | KaiMoment;
+
+// ─────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────
+export const KAI_UNITS: readonly KaiUnit[] = [
+  "pulse",
+  "step",
+  "beat",
+  "day",
+  "week",
+  "month",
+  "year",
+];
+
+/** Length of one unit in μpulses. */
+export const UNIT_MICRO: Record<KaiUnit, bigint> = {
+  pulse: MICRO_PER_PULSE,
+  step: PULSES_PER_STEP_MICRO,
+  beat: PULSES_PER_BEAT_MICRO,
+  day: N_DAY_MICRO,
+  week: N_DAY_MICRO * BigInt(DAYS_PER_WEEK),
+  month: N_DAY_MICRO * BigInt(DAYS_PER_MONTH),
+  year: N_DAY_MICRO * BigInt(DAYS_PER_YEAR),
+};
+
+const FIELD_UNIT: ReadonlyArray<[keyof KaiDuration, bigint]> = [
+  ["years", UNIT_MICRO.year],
+  ["months", UNIT_MICRO.month],
+  ["weeks", UNIT_MICRO.week],
+  ["days", UNIT_MICRO.day],
+  ["beats", UNIT_MICRO.beat],
+  ["steps", UNIT_MICRO.step],
+  ["pulses", UNIT_MICRO.pulse],
+  ["micro", 1n],
+];
+
+// ─────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────
+const toBigInt = (v: number | bigint, field: string): bigint => {
+  if (typeof v === "bigint") return v;
+  if (!Number.isInteger(v)) throw new Error(`KaiDuration.${field} must be an integer (got ${v}).`);
+  return BigInt(v);
+};
+
+const isGridUnit = (unit: KaiUnit) => unit === "step" || unit === "beat";
+
+/** μpulses of an instant (a KaiMoment resolves to the start of its pulse). */
+export function toMicroPulse(at: KaiInstant): bigint {
+  return typeof at === "bigint" ? at : BigInt(Math.trunc(at.pulse)) * MICRO_PER_PULSE;
+}
+
+function fromMicroPulse<T extends KaiInstant>(like: T, pμ: bigint): T {
+  return (typeof like === "bigint" ? pμ : decodeMicroPulse(pμ)) as T;
+}
+
+// ─────────────────────────────────────────────────────────────
+// DURATION ⇄ μPULSES
+// ─────────────────────────────────────────────────────────────
+
+/** Total μpulses spanned by a duration (exact; may be negative). */
+export function durationToMicroPulses(d: KaiDuration): bigint {
+  let total = 0n;
+  for (const [field, unitMicro] of FIELD_UNIT) {
+    const v = d[field];
+    if (v !== undefined) total += toBigInt(v, field) * unitMicro;
+  }
+  return total;
+}
+
+/**
+ * Decompose a μpulse span into calendar units (years…days, via N_DAY_MICRO closure)
+ * and the within-day remainder on the grid (beats, steps, pulses, micro).
+ * Every non-zero field carries the sign of the span.
+ */
+export function durationFromMicroPulses(span: bigint): ExactKaiDuration {
+  const sign = span < 0n ? -1n : 1n;
+  let rest = span < 0n ? -span : span;
+  const out = {} as ExactKaiDuration;
+  for (const [field, unitMicro] of FIELD_UNIT) {
+    out[field] = (rest / unitMicro) * sign;
+    rest %= unitMicro;
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────
+// ADD / SUBTRACT / DIFF
+// ─────────────────────────────────────────────────────────────
+
+/** Shift an instant forward by a duration. */
+export function addDuration(at: bigint, d: KaiDuration): bigint;
+export function addDuration(at: KaiMoment, d: KaiDuration): KaiMoment;
+export function addDuration(at: KaiInstant, d: KaiDuration): KaiInstant {
+  return fromMicroPulse(at, toMicroPulse(at) + durationToMicroPulses(d));
+}
+
+/** Shift an instant backward by a duration. */
+export function subtractDuration(at: bigint, d: KaiDuration): bigint;
+export function subtractDuration(at: KaiMoment, d: KaiDuration): KaiMoment;
+export function subtractDuration(at: KaiInstant, d: KaiDuration): KaiInstant {
+  return fromMicroPulse(at, toMicroPulse(at) - durationToMicroPulses(d));
+}
+
+/** Add `count` whole units to an instant. */
+export function addUnits(at: bigint, unit: KaiUnit, count: number | bigint): bigint;
+export function addUnits(at: KaiMoment, unit: KaiUnit, count: number | bigint): KaiMoment;
+export function addUnits(at: KaiInstant, unit: KaiUnit, count: number | bigint): KaiInstant {
+  return fromMicroPulse(at, toMicroPulse(at) + toBigInt(count, unit) * UNIT_MICRO[unit]);
+}
+
+/** Signed μpulse span `to − from`. */
+export function diffMicroPulses(from: KaiInstant, to: KaiInstant): bigint {
+  return toMicroPulse(to) - toMicroPulse(from);
+}
+
+/** Whole `unit`s elapsed from `from` to `to` (truncated toward zero, signed). */
+export function diffInUnits(from: KaiInstant, to: KaiInstant, unit: KaiUnit): bigint {
+  return diffMicroPulses(from, to) / UNIT_MICRO[unit];
+}
+
+/** `to − from` decomposed into Kairos units (see `durationFromMicroPulses`). */
+export function durationBetween(from: KaiInstant, to: KaiInstant): ExactKaiDuration {
+  return durationFromMicroPulses(diffMicroPulses(from, to));
+}
+
+// ─────────────────────────────────────────────────────────────
+// FLOOR / CEIL TO BOUNDARY
+// ─────────────────────────────────────────────────────────────
+
+function floorMicro(pμ: bigint, unit: KaiUnit): bigint {
+  if (isGridUnit(unit)) {
+    const inGrid = modBig(pμ, N_DAY_MICRO) % BASE_DAY_MICRO;
+    return pμ - (inGrid % UNIT_MICRO[unit]);
+  }
+  return floorDivBig(pμ, UNIT_MICRO[unit]) * UNIT_MICRO[unit];
+}
+
+function ceilMicro(pμ: bigint, unit: KaiUnit): bigint {
+  const floor = floorMicro(pμ, unit);
+  if (floor === pμ) return pμ;
+  if (!isGridUnit(unit)) return floor + UNIT_MICRO[unit];
+  // Grid units never straddle the grid end (BASE_DAY is a multiple of both),
+  // but the closure tail ends at the next day boundary, not a full unit later.
+  const nextDay = pμ - modBig(pμ, N_DAY_MICRO) + N_DAY_MICRO;
+  const next = floor + UNIT_MICRO[unit];
+  return next < nextDay ? next : nextDay;
+}
+
+/** Start of the `unit` containing the instant. */
+export function floorToUnit(at: bigint, unit: KaiUnit): bigint;
+export function floorToUnit(at: KaiMoment, unit: KaiUnit): KaiMoment;
+export function floorToUnit(at: KaiInstant, unit: KaiUnit): KaiInstant {
+  return fromMicroPulse(at, floorMicro(toMicroPulse(at), unit));
+}
+
+/** First `unit` boundary at or after the instant. */
+export function ceilToUnit(at: bigint, unit: KaiUnit): bigint;
+export function ceilToUnit(at: KaiMoment, unit: KaiUnit): KaiMoment;
+export function ceilToUnit(at: KaiInstant, unit: KaiUnit): KaiInstant {
+  return fromMicroPulse(at, ceilMicro(toMicroPulse(at), unit));
+}
+
+/** First `unit` boundary strictly after the instant. */
+export function nextBoundary(at: bigint, unit: KaiUnit): bigint {
+  const ceil = ceilMicro(at, unit);
+  return ceil === at ? ceilMicro(at + 1n, unit) : ceil;
+}
+
+// ─────────────────────────────────────────────────────────────
+// FORMAT
+// ─────────────────────────────────────────────────────────────
+
+/** "3 beats 11 steps" — non-zero fields only, largest first ("0 pulses" when empty).
+ *  Throws on non-integer fields, like `durationToMicroPulses`. */
+export function formatDuration(d: KaiDuration): string {
+  const parts: string[] = [];
+  for (const [field] of FIELD_UNIT) {
+    const raw = d[field];
+    if (raw === undefined) continue;
+    const v = toBigInt(raw, field);
+    if (v === 0n) continue;
+    const name = field === "micro" ? "μpulses" : field;
+    parts.push(`${v} ${v === 1n || v === -1n ? name.replace(/s$/, "") : name}`);
+  }
+  return parts.length ? parts.join(" ") : "0 pulses";
+}
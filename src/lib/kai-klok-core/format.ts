@@ -0,0 +1,499 @@
+// src/lib/kai-klok-core/format.ts
+// Token-based Kairos formatting and strict parsing.
+//
+// Pattern tokens (anything else is literal; wrap literal letters in [brackets]):
+//   K     absolute pulse since T₀          Y     year (1-based, as in "Y1" seals; Y0, Y-1… before T₀)
+//   M/MM  month 1..8 (MM zero-padded)       MMMM  month name (MONTHS)
+//   D/DD  day of month 1..42                W     weekday ("Kaelith")
+//   C     chakra day ("Crown")              A     arc ("Purification")
+//   B/BB  beat 0..35, or 36 in the tail     S/SS  step 0..43 (0..6 in the tail)
+//   p/pp  pulse within step 0..10           %     percent into step ("45.45", truncated)
+//
+// The ~67-pulse closure tail after the 17,424-pulse grid formats as beat 36, so every
+// instant formats to a string that parses back to a range containing it.
+//
+// Parsing is the inverse: a string must match the whole pattern (whitespace runs
+// match any whitespace, names are case-insensitive) and resolves to a half-open
+// μpulse range. Fields the string leaves out (e.g. the day in "Kaelith · 21:17")
+// are resolved to the occurrence nearest a reference instant (default: now).
+
+import {
+  BASE_DAY_MICRO,
+  DAY_TO_CHAKRA,
+  MONTHS,
+  N_DAY_MICRO,
+  PULSES_PER_BEAT_MICRO,
+  PULSES_PER_STEP_MICRO,
+  WEEKDAYS,
+  BEATS_DAY,
+  STEPS_BEAT,
+  PULSES_STEP,
+  type ChakraDay,
+  type Weekday,
+} from "../../utils/kai_pulse";
+import { toMicroPulse, type KaiInstant } from "./duration";
+import {
+  ARCS,
+  BEATS_PER_ARC,
+  DAYS_PER_MONTH,
+  DAYS_PER_WEEK,
+  DAYS_PER_YEAR,
+  MONTHS_PER_YEAR,
+  calendarFromMicroPulse,
+  decodeMicroPulse,
+  type Arc,
+} from "./moment";
+import { MICRO_PER_PULSE, floorDivBig, getKaiMicroPulse, modBig } from "./pulse";
+
+// ─────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────
+
+/** Fields recovered from a Kairos string (only those present in the pattern). */
+export type KairosFields = {
+  pulse?: number;
+  year?: number;        // 1-based
+  month?: number;       // 1..8
+  dayOfMonth?: number;  // 1..42
+  weekday?: Weekday;
+  chakraDay?: ChakraDay;
+  arc?: Arc;
+  beat?: number;
+  step?: number;
+  pulseInStep?: number;
+  percentIntoStep?: number; // hundredths of a percent (4545 = 45.45%)
+};
+
+/**
+ * Half-open μpulse range [start, end) a Kairos string denotes.
+ * `startPulse`/`endPulse` bound the whole pulses whose start lies in the range.
+ */
+export type KairosRange = {
+  start: bigint;
+  end: bigint;
+  startPulse: number;
+  endPulse: number;
+  fields: KairosFields;
+};
+
+export type KairosParseOptions = {
+  /** Reference instant (μpulses) for fields the string leaves out. Default: now. */
+  near?: bigint;
+  /** Which occurrence to pick when the string repeats: default "nearest". */
+  prefer?: "nearest" | "past" | "future";
+};
+
+export type KairosParseErrorCode = "NO_MATCH" | "OUT_OF_RANGE" | "INCONSISTENT" | "AMBIGUOUS";
+
+export class KairosParseError extends Error {
+  code: KairosParseErrorCode;
+
+  constructor(code: KairosParseErrorCode, message: string) {
+    super(message);
+    this.name = "KairosParseError";
+    this.code = code;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// PRESETS
+// ─────────────────────────────────────────────────────────────
+export const KAIROS_PATTERNS = {
+  beatStep: "B:SS",                                       // "21:17" (formatBeatStep)
+  seal: "W · B:SS",                                       // "Kaelith · 21:17"
+  sealBullet: "W • B:SS",                                 // "Kaelith • 21:17"
+  kairos: "[Kairos:]B:SS",                                // "Kairos:21:17"
+  dated: "B:SS — [D]D/[M]M",                              // "21:17 — D12/M3" (kalendar seal)
+  calendar: "W, [D]D/[M]M [Y]Y · B:SS",                   // "Kaelith, D12/M3 Y2 · 21:17"
+  moment: "W • A • [beat ]B • [step ]S • [pulse ]p/11",   // formatMoment()
+  pulse: "K",                                             // "6381211"
+} as const;
+
+// ─────────────────────────────────────────────────────────────
+// TOKENIZER
+// ─────────────────────────────────────────────────────────────
+type TokenName =
+  | "MMMM" | "MM" | "M" | "DD" | "D" | "BB" | "B" | "SS" | "S"
+  | "pp" | "p" | "K" | "Y" | "W" | "C" | "A" | "%";
+
+type Part = { token: TokenName } | { literal: string };
+
+const TOKENS: readonly TokenName[] = [
+  "MMMM", "MM", "M", "DD", "D", "BB", "B", "SS", "S", "pp", "p", "K", "Y", "W", "C", "A", "%",
+];
+
+const CHAKRAS: readonly ChakraDay[] = WEEKDAYS.map((w) => DAY_TO_CHAKRA[w]);
+const MONTH_NAMES: readonly string[] = MONTHS.map((m) => m.name);
+
+/** Beat index of the closure tail (the μpulses from the grid end to the next day boundary). */
+const TAIL_BEAT = BEATS_DAY;
+const TAIL_MICRO = N_DAY_MICRO - BASE_DAY_MICRO;
+const TAIL_LAST_STEP = Number((TAIL_MICRO - 1n) / PULSES_PER_STEP_MICRO);
+
+/** Beat for formatting: the grid beat, or TAIL_BEAT past the grid (where the lattice re-enters beat 0). */
+const kairosBeat = (pμ: bigint, gridBeat: number) =>
+  modBig(pμ, N_DAY_MICRO) >= BASE_DAY_MICRO ? TAIL_BEAT : gridBeat;
+
+const arcOfBeat = (beat: number) => ARCS[Math.min(ARCS.length - 1, Math.floor(beat / BEATS_PER_ARC))];
+
+function tokenize(pattern: string): Part[] {
+  const parts: Part[] = [];
+  let i = 0;
+  const pushLiteral = (s: string) => {
+    const last = parts[parts.length - 1];
+    if (last && "literal" in last) last.literal += s;
+    else parts.push({ literal: s });
+  };
+  while (i < pattern.length) {
+    if (pattern[i] === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close < 0) throw new Error(`Unclosed "[" in Kairos pattern: ${pattern}`);
+      pushLiteral(pattern.slice(i + 1, close));
+      i = close + 1;
+      continue;
+    }
+    const token = TOKENS.find((t) => pattern.startsWith(t, i));
+    if (token) {
+      parts.push({ token });
+      i += token.length;
+    } else {
+      pushLiteral(pattern[i]);
+      i += 1;
+    }
+  }
+  return parts;
+}
+
+// ─────────────────────────────────────────────────────────────
+// FORMAT
+// ─────────────────────────────────────────────────────────────
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/** Format an instant with a token pattern, e.g. `formatKairos(pμ, "W · B:SS")`. */
+export function formatKairos(at: KaiInstant, pattern: string): string {
+  const pμ = toMicroPulse(at);
+  const m = decodeMicroPulse(pμ);
+  const beat = kairosBeat(pμ, m.beat);
+  const cal = calendarFromMicroPulse(pμ);
+  const weekday = WEEKDAYS[cal.weekdayIndex];
+  const inStep = (modBig(pμ, N_DAY_MICRO) % BASE_DAY_MICRO) % PULSES_PER_STEP_MICRO;
+  const hundredths = Number((inStep * 10_000n) / PULSES_PER_STEP_MICRO); // truncated
+  const value: Record<TokenName, string> = {
+    K: String(m.pulse),
+    Y: String(cal.year + 1),
+    M: String(cal.monthIndex + 1),
+    MM: pad2(cal.monthIndex + 1),
+    MMMM: MONTH_NAMES[cal.monthIndex],
+    D: String(cal.dayOfMonth),
+    DD: pad2(cal.dayOfMonth),
+    W: weekday,
+    C: DAY_TO_CHAKRA[weekday],
+    A: arcOfBeat(beat),
+    B: String(beat),
+    BB: pad2(beat),
+    S: String(m.step),
+    SS: pad2(m.step),
+    p: String(m.pulseInStep),
+    pp: pad2(m.pulseInStep),
+    "%": `${Math.floor(hundredths / 100)}.${pad2(hundredths % 100)}`,
+  };
+  return tokenize(pattern)
+    .map((part) => ("token" in part ? value[part.token] : part.literal))
+    .join("");
+}
+
+// ─────────────────────────────────────────────────────────────
+// PARSE
+// ─────────────────────────────────────────────────────────────
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const namesRe = (names: readonly string[]) =>
+  `(${[...names].sort((a, b) => b.length - a.length).map(escapeRe).join("|")})`;
+
+const TOKEN_RE: Record<TokenName, string> = {
+  K: "(-?\\d+)",
+  Y: "(-?\\d+)",
+  M: "(\\d)",
+  MM: "(\\d{2})",
+  MMMM: namesRe(MONTH_NAMES),
+  D: "(\\d{1,2})",
+  DD: "(\\d{2})",
+  W: namesRe(WEEKDAYS),
+  C: namesRe(CHAKRAS),
+  A: namesRe(ARCS),
+  B: "(\\d{1,2})",
+  BB: "(\\d{2})",
+  S: "(\\d{1,2})",
+  SS: "(\\d{2})",
+  p: "(\\d{1,2})",
+  pp: "(\\d{2})",
+  "%": "(\\d{1,3}\\.\\d{2})",
+};
+
+const literalRe = (s: string) =>
+  s.split(/(\s+)/).map((chunk) => (/^\s+$/.test(chunk) ? "\\s+" : escapeRe(chunk))).join("");
+
+const findName = <T extends string>(names: readonly T[], raw: string): T =>
+  names.find((n) => n.toLowerCase() === raw.toLowerCase()) as T;
+
+function intInRange(raw: string, min: number, max: number, what: string): number {
+  const n = Number(raw);
+  if (!Number.isSafeInteger(n) || n < min || n > max) {
+    throw new KairosParseError("OUT_OF_RANGE", `${what} ${raw} is outside ${min}..${max}.`);
+  }
+  return n;
+}
+
+function setField<K extends keyof KairosFields>(
+  fields: KairosFields,
+  key: K,
+  value: NonNullable<KairosFields[K]>
+): void {
+  if (fields[key] !== undefined && fields[key] !== value) {
+    throw new KairosParseError("INCONSISTENT", `Conflicting ${key}: ${fields[key]} vs ${value}.`);
+  }
+  fields[key] = value;
+}
+
+/** Match `input` against `pattern` and return the raw fields (no resolution). */
+export function parseKairosFields(input: string, pattern: string): KairosFields {
+  const parts = tokenize(pattern);
+  const re = new RegExp(
+    `^${parts.map((p) => ("token" in p ? TOKEN_RE[p.token] : literalRe(p.literal))).join("")}$`,
+    "i"
+  );
+  const match = re.exec(input.trim());
+  if (!match) throw new KairosParseError("NO_MATCH", `"${input}" does not match "${pattern}".`);
+
+  const fields: KairosFields = {};
+  let g = 1;
+  for (const part of parts) {
+    if (!("token" in part)) continue;
+    const raw = match[g++];
+    switch (part.token) {
+      case "K":
+        setField(fields, "pulse", intInRange(raw, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, "Pulse"));
+        break;
+      case "Y":
+        setField(fields, "year", intInRange(raw, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, "Year"));
+        break;
+      case "M":
+      case "MM":
+        setField(fields, "month", intInRange(raw, 1, MONTHS_PER_YEAR, "Month"));
+        break;
+      case "MMMM":
+        setField(fields, "month", MONTH_NAMES.indexOf(findName(MONTH_NAMES, raw)) + 1);
+        break;
+      case "D":
+      case "DD":
+        setField(fields, "dayOfMonth", intInRange(raw, 1, DAYS_PER_MONTH, "Day"));
+        break;
+      case "W":
+        setField(fields, "weekday", findName(WEEKDAYS, raw));
+        break;
+      case "C":
+        setField(fields, "chakraDay", findName(CHAKRAS, raw));
+        break;
+      case "A":
+        setField(fields, "arc", findName(ARCS, raw));
+        break;
+      case "B":
+      case "BB":
+        setField(fields, "beat", intInRange(raw, 0, TAIL_BEAT, "Beat"));
+        break;
+      case "S":
+      case "SS":
+        setField(fields, "step", intInRange(raw, 0, STEPS_BEAT - 1, "Step"));
+        break;
+      case "p":
+      case "pp":
+        setField(fields, "pulseInStep", intInRange(raw, 0, PULSES_STEP - 1, "Pulse"));
+        break;
+      case "%": {
+        const [whole, frac] = raw.split(".");
+        setField(fields, "percentIntoStep", intInRange(`${Number(whole) * 100 + Number(frac)}`, 0, 9_999, "Percent"));
+        break;
+      }
+    }
+  }
+  return fields;
+}
+
+/** μpulse window inside a day selected by arc/beat/step/pulse/percent fields. */
+function intraDayWindow(f: KairosFields): { lo: bigint; hi: bigint } | null {
+  if (f.step !== undefined && f.beat === undefined) {
+    throw new KairosParseError("AMBIGUOUS", "A step needs a beat.");
+  }
+  if ((f.pulseInStep !== undefined || f.percentIntoStep !== undefined) && f.step === undefined) {
+    throw new KairosParseError("AMBIGUOUS", "A pulse or percent needs a step.");
+  }
+  if (f.arc !== undefined && f.beat !== undefined && arcOfBeat(f.beat) !== f.arc) {
+    throw new KairosParseError("INCONSISTENT", `Beat ${f.beat} is not in the ${f.arc} arc.`);
+  }
+  if (f.beat === TAIL_BEAT && f.step !== undefined && f.step > TAIL_LAST_STEP) {
+    throw new KairosParseError("OUT_OF_RANGE", `Step ${f.step} is outside 0..${TAIL_LAST_STEP} in the closure tail.`);
+  }
+
+  // Windows end at the day boundary: the last arc and beat 36 include the closure tail.
+  const clip = (pμ: bigint) => (pμ < N_DAY_MICRO ? pμ : N_DAY_MICRO);
+
+  if (f.beat === undefined) {
+    if (f.arc === undefined) return null;
+    const arcIndex = ARCS.indexOf(f.arc);
+    const lo = BigInt(arcIndex * BEATS_PER_ARC) * PULSES_PER_BEAT_MICRO;
+    const hi = arcIndex === ARCS.length - 1 ? N_DAY_MICRO : lo + BigInt(BEATS_PER_ARC) * PULSES_PER_BEAT_MICRO;
+    return { lo, hi };
+  }
+
+  let lo = BigInt(f.beat) * PULSES_PER_BEAT_MICRO;
+  let hi = f.beat === TAIL_BEAT ? N_DAY_MICRO : lo + PULSES_PER_BEAT_MICRO;
+  if (f.step !== undefined) {
+    lo += BigInt(f.step) * PULSES_PER_STEP_MICRO;
+    hi = clip(lo + PULSES_PER_STEP_MICRO);
+    const stepStart = lo;
+    if (f.pulseInStep !== undefined) {
+      lo = stepStart + BigInt(f.pulseInStep) * MICRO_PER_PULSE;
+      hi = clip(lo + MICRO_PER_PULSE);
+      if (lo >= hi) throw new KairosParseError("OUT_OF_RANGE", `Pulse ${f.pulseInStep} is past the closure tail.`);
+    }
+    if (f.percentIntoStep !== undefined) {
+      // Formatting truncates to hundredths: 0.01% of a step is exactly 1,100 μpulses.
+      const pLo = stepStart + BigInt(f.percentIntoStep) * 1_100n;
+      const pHi = pLo + 1_100n;
+      lo = pLo > lo ? pLo : lo;
+      hi = pHi < hi ? pHi : hi;
+      if (lo >= hi) throw new KairosParseError("INCONSISTENT", "Percent does not fall in that pulse.");
+    }
+  }
+  return { lo, hi };
+}
+
+/** Weekday implied by weekday / chakra / day-of-month fields (they must agree). */
+function impliedWeekday(f: KairosFields): number | undefined {
+  let idx: number | undefined;
+  const agree = (next: number, what: string) => {
+    if (idx !== undefined && idx !== next) {
+      throw new KairosParseError("INCONSISTENT", `${what} does not fall on ${WEEKDAYS[idx]}.`);
+    }
+    idx = next;
+  };
+  if (f.weekday !== undefined) agree(WEEKDAYS.indexOf(f.weekday), f.weekday);
+  if (f.chakraDay !== undefined) {
+    const w = WEEKDAYS.findIndex((d) => DAY_TO_CHAKRA[d] === f.chakraDay);
+    if (w < 0) throw new KairosParseError("INCONSISTENT", `${f.chakraDay} is not a Kai weekday.`);
+    agree(w, f.chakraDay);
+  }
+  if (f.dayOfMonth !== undefined) agree((f.dayOfMonth - 1) % DAYS_PER_WEEK, `D${f.dayOfMonth}`);
+  return idx;
+}
+
+function toRange(start: bigint, end: bigint, fields: KairosFields): KairosRange {
+  const ceilPulse = (pμ: bigint) => Number(-floorDivBig(-pμ, MICRO_PER_PULSE));
+  return { start, end, startPulse: ceilPulse(start), endPulse: ceilPulse(end), fields };
+}
+
+/** Resolve parsed fields to a concrete μpulse range. */
+export function resolveKairosFields(fields: KairosFields, opts: KairosParseOptions = {}): KairosRange {
+  const window = intraDayWindow(fields);
+  const weekday = impliedWeekday(fields);
+
+  // Absolute pulse: everything else must agree with it.
+  if (fields.pulse !== undefined) {
+    const start = BigInt(fields.pulse) * MICRO_PER_PULSE;
+    const m = decodeMicroPulse(start);
+    const cal = calendarFromMicroPulse(start);
+    const checks: Array<[unknown, unknown]> = [
+      [fields.year, cal.year + 1],
+      [fields.month, cal.monthIndex + 1],
+      [fields.dayOfMonth, cal.dayOfMonth],
+      [weekday, cal.weekdayIndex],
+      [fields.beat, kairosBeat(start, m.beat)],
+      [fields.step, m.step],
+      [fields.pulseInStep, m.pulseInStep],
+    ];
+    if (checks.some(([got, want]) => got !== undefined && got !== want)) {
+      throw new KairosParseError("INCONSISTENT", `Fields do not match pulse ${fields.pulse}.`);
+    }
+    return toRange(start, start + MICRO_PER_PULSE, fields);
+  }
+
+  const { year, month, dayOfMonth } = fields;
+  const finerThan = (level: "year" | "month") =>
+    window !== null || dayOfMonth !== undefined || (level === "year" && month !== undefined) || weekday !== undefined;
+
+  // Calendar span: first day (relative to the period), length in days, repeat period in days.
+  let baseDay: bigint;
+  let spanDays = 1n;
+  let period: bigint | null;
+
+  if (year !== undefined) {
+    const y0 = BigInt(year - 1) * BigInt(DAYS_PER_YEAR);
+    if (month === undefined) {
+      if (finerThan("year")) throw new KairosParseError("AMBIGUOUS", "A year with a day needs a month.");
+      return toRange(y0 * N_DAY_MICRO, (y0 + BigInt(DAYS_PER_YEAR)) * N_DAY_MICRO, fields);
+    }
+    const m0 = y0 + BigInt((month - 1) * DAYS_PER_MONTH);
+    if (dayOfMonth === undefined) {
+      if (finerThan("month")) throw new KairosParseError("AMBIGUOUS", "A month with a time needs a day.");
+      return toRange(m0 * N_DAY_MICRO, (m0 + BigInt(DAYS_PER_MONTH)) * N_DAY_MICRO, fields);
+    }
+    baseDay = m0 + BigInt(dayOfMonth - 1);
+    period = null;
+  } else if (month !== undefined) {
+    baseDay = BigInt((month - 1) * DAYS_PER_MONTH);
+    period = BigInt(DAYS_PER_YEAR);
+    if (dayOfMonth === undefined) {
+      if (finerThan("month")) throw new KairosParseError("AMBIGUOUS", "A month with a time needs a day.");
+      spanDays = BigInt(DAYS_PER_MONTH);
+    } else {
+      baseDay += BigInt(dayOfMonth - 1);
+    }
+  } else if (dayOfMonth !== undefined) {
+    baseDay = BigInt(dayOfMonth - 1);
+    period = BigInt(DAYS_PER_MONTH);
+  } else if (weekday !== undefined) {
+    baseDay = BigInt(weekday);
+    period = BigInt(DAYS_PER_WEEK);
+  } else if (window !== null) {
+    baseDay = 0n;
+    period = 1n;
+  } else {
+    throw new KairosParseError("AMBIGUOUS", "Nothing to resolve: the string names no moment.");
+  }
+
+  const lo = window?.lo ?? 0n;
+  const len = window ? window.hi - window.lo : spanDays * N_DAY_MICRO;
+  const startOf = (k: bigint) => (baseDay + k * (period ?? 0n)) * N_DAY_MICRO + lo;
+
+  if (period === null) return toRange(startOf(0n), startOf(0n) + len, fields);
+
+  // Occurrence k0 is the latest one starting at or before the reference.
+  const near = opts.near ?? getKaiMicroPulse();
+  const k0 = floorDivBig(near - startOf(0n), period * N_DAY_MICRO);
+  const prefer = opts.prefer ?? "nearest";
+  let k = k0;
+  if (near >= startOf(k0) + len) {
+    if (prefer === "future") k = k0 + 1n;
+    else if (prefer === "nearest" && startOf(k0 + 1n) - near < near - (startOf(k0) + len)) k = k0 + 1n;
+  }
+  return toRange(startOf(k), startOf(k) + len, fields);
+}
+
+/** Parse a string with one pattern into a μpulse range (throws KairosParseError). */
+export function parseKairos(input: string, pattern: string, opts: KairosParseOptions = {}): KairosRange {
+  return resolveKairosFields(parseKairosFields(input, pattern), opts);
+}
+
+/**
+ * Parse a pasted seal by trying every preset in `KAIROS_PATTERNS`.
+ * Returns null when no preset matches or the match does not resolve.
+ */
+export function parseKairosSeal(input: string, opts: KairosParseOptions = {}): KairosRange | null {
+  for (const pattern of Object.values(KAIROS_PATTERNS)) {
+    try {
+      return parseKairos(input, pattern, opts);
+    } catch (err) {
+      if (!(err instanceof KairosParseError)) throw err;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,111 @@
+// src/lib/kai-klok-core/index.ts
+// kai-klok-core — the framework-free Kai-Klok engine surface (KKS-1.0).
+//
+//   import { getKaiPulse, decodeMoment, getHarmonicLabels } from "kai-klok-core";
+//
+// No React, no DOM, no network. Every pulse is derived from the φ-exact
+// BigInt μpulse bridge, so UI, verifier and tooling agree on the same instant.
+
+export {
+  // canon constants
+  GENESIS_TS,
+  PULSE_MS,
+  PULSES_STEP,
+  STEPS_BEAT,
+  BEATS_DAY,
+  PULSES_BEAT,
+  N_DAY_MICRO,
+  PULSES_PER_STEP_MICRO,
+  PULSES_PER_BEAT_MICRO,
+  BASE_DAY_MICRO,
+  WEEKDAYS,
+  DAY_TO_CHAKRA,
+  MONTHS,
+  // exact bridge primitives
+  microPulsesSinceGenesis,
+  epochMsFromPulse,
+  epochMsFromMicroPulses,
+  latticeFromMicroPulses,
+  formatBeatStep,
+} from "../../utils/kai_pulse";
+export type { Weekday, ChakraDay } from "../../utils/kai_pulse";
+
+export {
+  MICRO_PER_PULSE,
+  floorDivBig,
+  modBig,
+  overridePulse,
+  msToMicroPulse,
+  msToPulse,
+  getKaiMicroPulse,
+  getKaiPulse,
+  msAtMicroPulse,
+  pulseToMs,
+  microPulseToMs,
+} from "./pulse";
+
+export {
+  DAYS_PER_WEEK,
+  WEEKS_PER_MONTH,
+  MONTHS_PER_YEAR,
+  DAYS_PER_MONTH,
+  DAYS_PER_YEAR,
+  ARCS,
+  BEATS_PER_ARC,
+  decodeMicroPulse,
+  decodeMoment,
+  calendarFromMicroPulse,
+  decodeCalendar,
+  dayStartPulse,
+  getHarmonicLabels,
+  monthName,
+  formatMoment,
+} from "./moment";
+export type { Arc, KaiMoment, HarmonicLabels, KaiCalendar } from "./moment";
+
+export {
+  KAI_UNITS,
+  UNIT_MICRO,
+  toMicroPulse,
+  durationToMicroPulses,
+  durationFromMicroPulses,
+  addDuration,
+  subtractDuration,
+  addUnits,
+  diffMicroPulses,
+  diffInUnits,
+  durationBetween,
+  floorToUnit,
+  ceilToUnit,
+  nextBoundary,
+  formatDuration,
+} from "./duration";
+export type { KaiUnit, KaiDuration, ExactKaiDuration, KaiInstant } from "./duration";
+
+export {
+  KAIROS_PATTERNS,
+  KairosParseError,
+  formatKairos,
+  parseKairos,
+  parseKairosFields,
+  parseKairosSeal,
+  resolveKairosFields,
+} from "./format";
+export type {
+  KairosFields,
+  KairosRange,
+  KairosParseOptions,
+  KairosParseErrorCode,
+} from "./format";
+
+export {
+  assertRecurrence,
+  iterateRecurrence,
+  expandRecurrence,
+  nextOccurrence,
+  withException,
+  serializeRecurrence,
+  parseRecurrence,
+  describeRecurrence,
+} from "./recurrence";
+export type { KaiFrequency, KaiRecurrence } from "./recurrence";
@@ -0,0 +1,151 @@
+// src/lib/kai-klok-core/moment.ts
+// Semantic decoding for kai-klok-core: pulse → lattice indices → calendar → labels.
+// Indices are 0-based (KKS-1.0); lattice math is delegated to utils/kai_pulse.ts.
+
+import {
+  BASE_DAY_MICRO,
+  BEATS_DAY,
+  MONTHS,
+  N_DAY_MICRO,
+  PULSES_PER_STEP_MICRO,
+  PULSES_STEP,
+  WEEKDAYS,
+  latticeFromMicroPulses,
+  type Weekday,
+} from "../../utils/kai_pulse";
+import { MICRO_PER_PULSE, floorDivBig, modBig } from "./pulse";
+
+// ─────────────────────────────────────────────────────────────
+// Calendar closure (6-day weeks • 7-week months • 8-month years)
+// ─────────────────────────────────────────────────────────────
+export const DAYS_PER_WEEK = 6 as const;
+export const WEEKS_PER_MONTH = 7 as const;
+export const MONTHS_PER_YEAR = 8 as const;
+export const DAYS_PER_MONTH = DAYS_PER_WEEK * WEEKS_PER_MONTH; // 42
+export const DAYS_PER_YEAR = DAYS_PER_MONTH * MONTHS_PER_YEAR; // 336
+
+/** Canonical arc labels (one arc = 6 beats). */
+export const ARCS = [
+  "Ignition",
+  "Integration",
+  "Harmonization",
+  "Reflection",
+  "Purification",
+  "Dream",
+] as const;
+export type Arc = (typeof ARCS)[number];
+
+export const BEATS_PER_ARC = BEATS_DAY / ARCS.length; // 6
+
+// ─────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────
+export type KaiMoment = {
+  pulse: number;       // global pulse index since T₀
+  beat: number;        // 0..35
+  step: number;        // 0..43
+  pulseInStep: number; // 0..10
+  dayIndex: number;    // 0..5 (weekday)
+  arcIndex: number;    // 0..5
+};
+
+export type HarmonicLabels = {
+  day: Weekday;
+  arc: Arc;
+  beat: number;
+  step: number;
+};
+
+export type KaiCalendar = {
+  day: number;           // absolute day index since T₀ (can be negative)
+  weekdayIndex: number;  // 0..5
+  dayOfMonth: number;    // 1..42
+  weekOfMonth: number;   // 0..6
+  monthIndex: number;    // 0..7
+  dayOfYear: number;     // 0..335
+  year: number;          // 0-based Kai year since T₀
+  pulsesIntoDay: number; // whole pulses since the day boundary
+};
+
+const toSafeNumber = (x: bigint): number => {
+  const MAX = BigInt(Number.MAX_SAFE_INTEGER);
+  const MIN = BigInt(Number.MIN_SAFE_INTEGER);
+  return Number(x > MAX ? MAX : x < MIN ? MIN : x);
+};
+
+const eucMod = (n: number, m: number) => ((n % m) + m) % m;
+
+// ─────────────────────────────────────────────────────────────
+// DECODE
+// ─────────────────────────────────────────────────────────────
+
+/** KaiMoment from integer μpulses since Genesis (exact; no float in indices). */
+export function decodeMicroPulse(pμ: bigint): KaiMoment {
+  const { beat, stepIndex } = latticeFromMicroPulses(pμ);
+  const pulse = toSafeNumber(floorDivBig(pμ, MICRO_PER_PULSE));
+  const inStep = (modBig(pμ, N_DAY_MICRO) % BASE_DAY_MICRO) % PULSES_PER_STEP_MICRO;
+  const pulseInStep = Number(inStep / MICRO_PER_PULSE); // 0..10
+  const day = floorDivBig(pμ, N_DAY_MICRO);
+  const dayIndex = toSafeNumber(modBig(day, BigInt(DAYS_PER_WEEK)));
+  const arcIndex = Math.min(ARCS.length - 1, Math.floor(beat / BEATS_PER_ARC));
+  return { pulse, beat, step: stepIndex, pulseInStep, dayIndex, arcIndex };
+}
+
+/** Converts a global pulse to beat/step/day/arc semantic indices. */
+export function decodeMoment(pulse: number): KaiMoment {
+  return decodeMicroPulse(BigInt(Math.trunc(pulse)) * MICRO_PER_PULSE);
+}
+
+/** Eternal calendar position (day/week/month/year) from integer μpulses. */
+export function calendarFromMicroPulse(pμ: bigint): KaiCalendar {
+  const dayBI = floorDivBig(pμ, N_DAY_MICRO);
+  const day = toSafeNumber(dayBI);
+  const dayOfYear = toSafeNumber(modBig(dayBI, BigInt(DAYS_PER_YEAR)));
+  const inMonth = dayOfYear % DAYS_PER_MONTH;
+  return {
+    day,
+    weekdayIndex: toSafeNumber(modBig(dayBI, BigInt(DAYS_PER_WEEK))),
+    dayOfMonth: inMonth + 1,
+    weekOfMonth: Math.floor(inMonth / DAYS_PER_WEEK),
+    monthIndex: Math.floor(dayOfYear / DAYS_PER_MONTH),
+    dayOfYear,
+    year: toSafeNumber(floorDivBig(dayBI, BigInt(DAYS_PER_YEAR))),
+    pulsesIntoDay: toSafeNumber(modBig(pμ, N_DAY_MICRO) / MICRO_PER_PULSE),
+  };
+}
+
+/** Eternal calendar position for a pulse index. */
+export function decodeCalendar(pulse: number): KaiCalendar {
+  return calendarFromMicroPulse(BigInt(Math.trunc(pulse)) * MICRO_PER_PULSE);
+}
+
+/** First pulse of an absolute day index (the day's boundary, rounded up to a whole pulse). */
+export function dayStartPulse(day: number): number {
+  const pμ = BigInt(Math.trunc(day)) * N_DAY_MICRO;
+  return toSafeNumber(-floorDivBig(-pμ, MICRO_PER_PULSE));
+}
+
+// ─────────────────────────────────────────────────────────────
+// LABELS
+// ─────────────────────────────────────────────────────────────
+
+/** Deterministic labels for UI, exports, and on-chain metadata. */
+export function getHarmonicLabels(moment: KaiMoment): HarmonicLabels {
+  return {
+    day: WEEKDAYS[eucMod(moment.dayIndex, DAYS_PER_WEEK)],
+    arc: ARCS[Math.max(0, Math.min(ARCS.length - 1, moment.arcIndex))],
+    beat: moment.beat,
+    step: moment.step,
+  };
+}
+
+/** Canonical month name for a 0-based month index. */
+export function monthName(monthIndex: number): string {
+  return MONTHS[eucMod(monthIndex, MONTHS_PER_YEAR)].name;
+}
+
+/** "Kaelith • Purification • beat 21 • step 17 • pulse 6/11" */
+export function formatMoment(moment: KaiMoment): string {
+  const { day, arc, beat, step } = getHarmonicLabels(moment);
+  return `${day} • ${arc} • beat ${beat} • step ${step} • pulse ${moment.pulseInStep}/${PULSES_STEP}`;
+}
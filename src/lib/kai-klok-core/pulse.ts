@@ -0,0 +1,106 @@
+// src/lib/kai-klok-core/pulse.ts
+// Chronos ↔ pulse bridge for kai-klok-core.
+// Every path goes through the φ-exact BigInt μpulse bridge in utils/kai_pulse.ts,
+// so `getKaiPulse()`, `msToPulse()` and `microPulsesSinceGenesis()` always agree.
+
+import {
+  epochMsFromMicroPulses,
+  microPulsesSinceGenesis,
+} from "../../utils/kai_pulse";
+
+/** μpulses per pulse (fixed-point scale of the engine). */
+export const MICRO_PER_PULSE = 1_000_000n as const;
+
+/** Euclidean floor division (toward −∞ for negative numerators). */
+export const floorDivBig = (a: bigint, d: bigint): bigint => {
+  const q = a / d;
+  const r = a % d;
+  return r === 0n || (r > 0n) === (d > 0n) ? q : q - 1n;
+};
+
+/** Euclidean modulo (result always in [0, m)). */
+export const modBig = (a: bigint, m: bigint): bigint => {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+};
+
+const toSafeNumber = (x: bigint): number => {
+  const MAX = BigInt(Number.MAX_SAFE_INTEGER);
+  const MIN = BigInt(Number.MIN_SAFE_INTEGER);
+  return Number(x > MAX ? MAX : x < MIN ? MIN : x);
+};
+
+// ─────────────────────────────────────────────────────────────
+// Bridge mode (demos / tests): pin the "now" pulse explicitly
+// ─────────────────────────────────────────────────────────────
+let pinnedPulse: bigint | null = null;
+
+/**
+ * Pin the pulse returned by `getKaiPulse()` / `getKaiMicroPulse()` when called
+ * without an explicit instant. Pass `null` to return to the live clock.
+ */
+export function overridePulse(pulse: number | null): void {
+  pinnedPulse = pulse === null ? null : BigInt(Math.trunc(pulse));
+}
+
+/** Wall-clock ms with sub-ms resolution where the platform offers it. */
+function nowEpochMs(): number {
+  if (typeof performance !== "undefined" && typeof performance.timeOrigin === "number") {
+    return performance.timeOrigin + performance.now();
+  }
+  return Date.now();
+}
+
+// ─────────────────────────────────────────────────────────────
+// Chronos → pulses
+// ─────────────────────────────────────────────────────────────
+
+/** Integer μpulses since Genesis for a Unix ms instant (fractional ms floored). */
+export function msToMicroPulse(ms: number): bigint {
+  if (!Number.isFinite(ms)) throw new Error(`Invalid epoch ms: ${String(ms)}`);
+  return microPulsesSinceGenesis(BigInt(Math.floor(ms)));
+}
+
+/** Integer pulse index (Euclidean floor) for a Unix ms instant. */
+export function msToPulse(ms: number): number {
+  return toSafeNumber(floorDivBig(msToMicroPulse(ms), MICRO_PER_PULSE));
+}
+
+/** μpulses "now" (or at `nowMs`). Honors `overridePulse()` when no instant is given. */
+export function getKaiMicroPulse(nowMs?: number): bigint {
+  if (nowMs === undefined && pinnedPulse !== null) return pinnedPulse * MICRO_PER_PULSE;
+  return msToMicroPulse(nowMs ?? nowEpochMs());
+}
+
+/**
+ * Current Kai pulse: floor((nowMs − T₀) / (1000 · (3 + √5))) via the exact bridge.
+ * Never touches the network.
+ */
+export function getKaiPulse(nowMs?: number): number {
+  return toSafeNumber(floorDivBig(getKaiMicroPulse(nowMs), MICRO_PER_PULSE));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Pulses → Chronos
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * First whole Unix ms whose μpulse count is ≥ `pμ` (the ms a boundary is "crossed").
+ * Guarantees `msToMicroPulse(msAtMicroPulse(x)) >= x` and nothing earlier qualifies.
+ */
+export function msAtMicroPulse(pμ: bigint): number {
+  let ms = epochMsFromMicroPulses(pμ);
+  while (microPulsesSinceGenesis(ms) < pμ) ms += 1n;
+  while (microPulsesSinceGenesis(ms - 1n) >= pμ) ms -= 1n;
+  return Number(ms);
+}
+
+/** Unix ms at the start of `pulse`; `msToPulse(pulseToMs(p)) === p` for every p. */
+export function pulseToMs(pulse: number): number {
+  return msAtMicroPulse(BigInt(Math.trunc(pulse)) * MICRO_PER_PULSE);
+}
+
+/** Unix ms nearest to an integer μpulse offset (φ-exact, ties-to-even to the ms). */
+export function microPulseToMs(pμ: bigint): number {
+  return Number(epochMsFromMicroPulses(pμ));
+}
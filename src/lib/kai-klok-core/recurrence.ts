@@ -0,0 +1,505 @@
+// src/lib/kai-klok-core/recurrence.ts
+// Kairos recurrence rules — an RRULE equivalent in Kai units.
+//
+// A rule repeats every `interval` periods of `freq`, counted from `start`.
+// BY* fields follow RFC 5545 semantics:
+//   • fields coarser than (or equal to) `freq` limit the candidates
+//     (freq "day" + byWeekday [Verdari] → only Verdari days);
+//   • fields finer than `freq` expand each period
+//     (freq "week" + byBeat [12, 24] → two occurrences per week);
+//   • finer fields left unset take their value from `start`.
+//
+// Examples:
+//   every Verdari at beat 12         { freq: "week", byWeekday: [3], byBeat: [12], byStep: [0], byPulseInStep: [0] }
+//   every 3rd step of beat 0         { freq: "step", interval: 3, byBeat: [0] }
+//   first Solhara of each month      { freq: "month", byWeekday: [0], byWeekOfMonth: [1] }
+//
+// Steps and beats tile each day on the 17,424-pulse grid (same as `decodeMicroPulse`);
+// an occurrence is the first whole pulse that starts inside its slot.
+
+import {
+  BASE_DAY_MICRO,
+  BEATS_DAY,
+  MONTHS,
+  N_DAY_MICRO,
+  PULSES_PER_BEAT_MICRO,
+  PULSES_PER_STEP_MICRO,
+  PULSES_STEP,
+  STEPS_BEAT,
+  WEEKDAYS,
+} from "../../utils/kai_pulse";
+import {
+  DAYS_PER_MONTH,
+  DAYS_PER_WEEK,
+  DAYS_PER_YEAR,
+  MONTHS_PER_YEAR,
+  WEEKS_PER_MONTH,
+  calendarFromMicroPulse,
+  decodeMicroPulse,
+} from "./moment";
+import { MICRO_PER_PULSE, floorDivBig } from "./pulse";
+
+// ─────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────
+export type KaiFrequency = "pulse" | "step" | "beat" | "day" | "week" | "month" | "year";
+
+export type KaiRecurrence = {
+  freq: KaiFrequency;
+  start: number;            // first candidate pulse (DTSTART)
+  interval?: number;        // every N periods (default 1)
+  byMonth?: number[];       // 1..8
+  byWeekOfMonth?: number[]; // 1..7
+  byWeekday?: number[];     // 0..5 (index into WEEKDAYS)
+  byDayOfMonth?: number[];  // 1..42
+  byBeat?: number[];        // 0..35
+  byStep?: number[];        // 0..43
+  byPulseInStep?: number[]; // 0..10
+  count?: number;           // stop after N occurrences (exceptions still count)
+  until?: number;           // last allowed pulse (inclusive)
+  exceptions?: number[];    // occurrence pulses to skip (EXDATE)
+};
+
+// ─────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────
+const STEPS_PER_DAY = BEATS_DAY * STEPS_BEAT; // 1,584
+
+/**
+ * `freq` periods in one Kai year. Every BY* filter is a function of the day's place in the
+ * 336-day year (plus the slot inside the day), so candidates repeat yearly; for "pulse" the
+ * day boundary drifts by a fraction of a pulse each day, so a year is the scan bound only.
+ */
+const PERIODS_PER_YEAR: Record<KaiFrequency, bigint> = {
+  pulse: -floorDivBig(-BigInt(DAYS_PER_YEAR) * N_DAY_MICRO, MICRO_PER_PULSE),
+  step: BigInt(DAYS_PER_YEAR * STEPS_PER_DAY),
+  beat: BigInt(DAYS_PER_YEAR * BEATS_DAY),
+  day: BigInt(DAYS_PER_YEAR),
+  week: BigInt(DAYS_PER_YEAR / DAYS_PER_WEEK),
+  month: BigInt(MONTHS_PER_YEAR),
+  year: 1n,
+};
+
+type ByField = Exclude<{ [K in keyof KaiRecurrence]-?: KaiRecurrence[K] extends number[] | undefined ? K : never }[keyof KaiRecurrence], "exceptions">;
+
+const BY_RANGE: Record<ByField, [number, number]> = {
+  byMonth: [1, MONTHS_PER_YEAR],
+  byWeekOfMonth: [1, WEEKS_PER_MONTH],
+  byWeekday: [0, DAYS_PER_WEEK - 1],
+  byDayOfMonth: [1, DAYS_PER_MONTH],
+  byBeat: [0, BEATS_DAY - 1],
+  byStep: [0, STEPS_BEAT - 1],
+  byPulseInStep: [0, PULSES_STEP - 1],
+};
+
+const FREQS: readonly KaiFrequency[] = ["pulse", "step", "beat", "day", "week", "month", "year"];
+
+// ─────────────────────────────────────────────────────────────
+// VALIDATION
+// ─────────────────────────────────────────────────────────────
+const isInt = (n: unknown): n is number => typeof n === "number" && Number.isSafeInteger(n);
+
+/** Throws if the rule is malformed (unknown freq, out-of-range BY values, …). */
+export function assertRecurrence(rule: KaiRecurrence): void {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid Kai recurrence: ${why}`);
+  };
+  if (!FREQS.includes(rule.freq)) fail(`unknown freq "${String(rule.freq)}"`);
+  if (!isInt(rule.start)) fail("start must be an integer pulse");
+  if (rule.interval !== undefined && (!isInt(rule.interval) || rule.interval < 1)) fail("interval must be ≥ 1");
+  if (rule.count !== undefined && (!isInt(rule.count) || rule.count < 0)) fail("count must be ≥ 0");
+  if (rule.until !== undefined && !isInt(rule.until)) fail("until must be an integer pulse");
+  for (const key of Object.keys(BY_RANGE) as ByField[]) {
+    const values = rule[key];
+    if (values === undefined) continue;
+    const [min, max] = BY_RANGE[key];
+    if (!values.length) fail(`${key} is empty`);
+    for (const v of values) if (!isInt(v) || v < min || v > max) fail(`${key} value ${v} outside ${min}..${max}`);
+  }
+  for (const x of rule.exceptions ?? []) if (!isInt(x)) fail("exceptions must be integer pulses");
+}
+
+// ─────────────────────────────────────────────────────────────
+// EXPANSION
+// ─────────────────────────────────────────────────────────────
+const gcdBig = (a: bigint, b: bigint): bigint => (b === 0n ? a : gcdBig(b, a % b));
+
+const sortedSet = (values: number[] | undefined) =>
+  values ? [...new Set(values)].sort((a, b) => a - b) : undefined;
+
+const slotMicro = (day: bigint, beat: number, step: number, pulseInStep: number) =>
+  day * N_DAY_MICRO +
+  BigInt(beat) * PULSES_PER_BEAT_MICRO +
+  BigInt(step) * PULSES_PER_STEP_MICRO +
+  BigInt(pulseInStep) * MICRO_PER_PULSE;
+
+const ceilPulse = (pμ: bigint) => -floorDivBig(-pμ, MICRO_PER_PULSE);
+
+/** Day-level position used for BY* filters. */
+function dayPosition(day: bigint) {
+  const cal = calendarFromMicroPulse(day * N_DAY_MICRO);
+  return {
+    month: cal.monthIndex + 1,
+    weekOfMonth: cal.weekOfMonth + 1,
+    weekday: cal.weekdayIndex,
+    dayOfMonth: cal.dayOfMonth,
+  };
+}
+
+/** Compiled rule: resolved BY sets plus per-period candidate generation. */
+function compile(rule: KaiRecurrence) {
+  assertRecurrence(rule);
+  const startμ = BigInt(rule.start) * MICRO_PER_PULSE;
+  const anchor = decodeMicroPulse(startμ);
+  const startDay = floorDivBig(startμ, N_DAY_MICRO);
+  const startPos = dayPosition(startDay);
+
+  let byMonth = sortedSet(rule.byMonth);
+  let byWeekday = sortedSet(rule.byWeekday);
+  let byDayOfMonth = sortedSet(rule.byDayOfMonth);
+  const byWeekOfMonth = sortedSet(rule.byWeekOfMonth);
+
+  // Finer-than-freq day selectors default to DTSTART's position.
+  const daySelectors =
+    byWeekday !== undefined ||
+    byDayOfMonth !== undefined ||
+    ((rule.freq === "month" || rule.freq === "year") && byWeekOfMonth !== undefined);
+  if (!daySelectors) {
+    if (rule.freq === "week") byWeekday = [startPos.weekday];
+    if (rule.freq === "month" || rule.freq === "year") byDayOfMonth = [startPos.dayOfMonth];
+    if (rule.freq === "year" && byMonth === undefined) byMonth = [startPos.month];
+  }
+
+  const dayOk = (day: bigint) => {
+    const p = dayPosition(day);
+    return (
+      (!byMonth || byMonth.includes(p.month)) &&
+      (!byWeekOfMonth || byWeekOfMonth.includes(p.weekOfMonth)) &&
+      (!byWeekday || byWeekday.includes(p.weekday)) &&
+      (!byDayOfMonth || byDayOfMonth.includes(p.dayOfMonth))
+    );
+  };
+
+  const rank = FREQS.indexOf(rule.freq);
+  const intra = (field: "byBeat" | "byStep" | "byPulseInStep", level: KaiFrequency, fallback: number) => {
+    const set = sortedSet(rule[field]);
+    // Coarser or equal to freq → limit (undefined = any); finer → expand (default: DTSTART's value).
+    return FREQS.indexOf(level) >= rank ? set : set ?? [fallback];
+  };
+  const beats = intra("byBeat", "beat", anchor.beat);
+  const steps = intra("byStep", "step", anchor.step);
+  const pulses = intra("byPulseInStep", "pulse", anchor.pulseInStep);
+
+  /** Ordinal of the `freq` period containing a μpulse instant. */
+  const periodOf = (pμ: bigint): bigint => {
+    const day = floorDivBig(pμ, N_DAY_MICRO);
+    if (rule.freq === "pulse") return floorDivBig(pμ, MICRO_PER_PULSE);
+    const m = decodeMicroPulse(pμ);
+    switch (rule.freq) {
+      case "step": return day * BigInt(STEPS_PER_DAY) + BigInt(m.beat * STEPS_BEAT + m.step);
+      case "beat": return day * BigInt(BEATS_DAY) + BigInt(m.beat);
+      case "day": return day;
+      case "week": return floorDivBig(day, BigInt(DAYS_PER_WEEK));
+      case "month": return floorDivBig(day, BigInt(DAYS_PER_MONTH));
+      default: return floorDivBig(day, BigInt(DAYS_PER_YEAR));
+    }
+  };
+
+  /** Ascending candidate pulses inside one period. */
+  const candidates = (ord: bigint): bigint[] => {
+    const out: bigint[] = [];
+    const emit = (day: bigint, beat: number, step: number) => {
+      if (beats && !beats.includes(beat)) return;
+      if (steps && !steps.includes(step)) return;
+      for (const p of pulses ?? [0]) out.push(ceilPulse(slotMicro(day, beat, step, p)));
+    };
+    const emitDay = (day: bigint) => {
+      if (!dayOk(day)) return;
+      for (const b of beats ?? [...Array(BEATS_DAY).keys()]) {
+        for (const s of steps ?? [...Array(STEPS_BEAT).keys()]) emit(day, b, s);
+      }
+    };
+
+    switch (rule.freq) {
+      case "pulse": {
+        const pμ = ord * MICRO_PER_PULSE;
+        const m = decodeMicroPulse(pμ);
+        const ok =
+          dayOk(floorDivBig(pμ, N_DAY_MICRO)) &&
+          (!beats || beats.includes(m.beat)) &&
+          (!steps || steps.includes(m.step)) &&
+          (!pulses || pulses.includes(m.pulseInStep));
+        if (ok) out.push(ord);
+        break;
+      }
+      case "step": {
+        const day = floorDivBig(ord, BigInt(STEPS_PER_DAY));
+        const inDay = Number(ord - day * BigInt(STEPS_PER_DAY));
+        if (dayOk(day)) emit(day, Math.floor(inDay / STEPS_BEAT), inDay % STEPS_BEAT);
+        break;
+      }
+      case "beat": {
+        const day = floorDivBig(ord, BigInt(BEATS_DAY));
+        const beat = Number(ord - day * BigInt(BEATS_DAY));
+        if (!dayOk(day) || (beats && !beats.includes(beat))) break;
+        for (const s of steps ?? [...Array(STEPS_BEAT).keys()]) emit(day, beat, s);
+        break;
+      }
+      default: {
+        const len = BigInt(
+          rule.freq === "day" ? 1 : rule.freq === "week" ? DAYS_PER_WEEK : rule.freq === "month" ? DAYS_PER_MONTH : DAYS_PER_YEAR
+        );
+        for (let d = ord * len; d < (ord + 1n) * len; d++) emitDay(d);
+      }
+    }
+    return out;
+  };
+
+  const slotsPerDay = rule.freq === "step" ? STEPS_PER_DAY : rule.freq === "beat" ? BEATS_DAY : 0;
+
+  /** First day after `day` that passes the day filters (one exists within a year when satisfiable). */
+  const nextDayOk = (day: bigint): bigint => {
+    let d = day + 1n;
+    for (let i = 0; i < DAYS_PER_YEAR && !dayOk(d); i++) d += 1n;
+    return d;
+  };
+
+  /** Next allowed value above `v` in a limiting set (any value when unset), or null. */
+  const nextIn = (set: number[] | undefined, v: number) => (set ? set.find((x) => x > v) ?? null : v + 1);
+
+  /**
+   * Lowest period ordinal ≥ `ord` that can still hold a candidate. Sub-day rules jump over days,
+   * beats and steps the BY* filters rule out instead of visiting every period inside them.
+   */
+  const viableFrom = (ord: bigint): bigint => {
+    if (slotsPerDay > 0) {
+      const day = floorDivBig(ord, BigInt(slotsPerDay));
+      return dayOk(day) ? ord : nextDayOk(day) * BigInt(slotsPerDay);
+    }
+    if (rule.freq !== "pulse") return ord;
+    for (let pulse = ord; ; ) {
+      const pμ = pulse * MICRO_PER_PULSE;
+      const day = floorDivBig(pμ, N_DAY_MICRO);
+      const dayStart = day * N_DAY_MICRO;
+      const toDay = () => ceilPulse(nextDayOk(day) * N_DAY_MICRO);
+      if (!dayOk(day)) {
+        pulse = toDay();
+        continue;
+      }
+      // The grid, then the closure tail (which re-enters beat 0 like `decodeMicroPulse`)
+      const inDay = pμ - dayStart;
+      const segStart = inDay >= BASE_DAY_MICRO ? BASE_DAY_MICRO : 0n;
+      const segEnd = segStart === 0n ? BASE_DAY_MICRO : N_DAY_MICRO;
+      const jump = (offset: bigint) => {
+        if (offset < segEnd) return ceilPulse(dayStart + offset);
+        return segEnd < N_DAY_MICRO ? ceilPulse(dayStart + segEnd) : toDay();
+      };
+      const m = decodeMicroPulse(pμ);
+      if (beats && !beats.includes(m.beat)) {
+        const b = nextIn(beats, m.beat);
+        pulse = jump(b === null ? segEnd : segStart + BigInt(b) * PULSES_PER_BEAT_MICRO);
+        continue;
+      }
+      if (steps && !steps.includes(m.step)) {
+        const s = nextIn(steps, m.step);
+        const beatStart = segStart + BigInt(m.beat) * PULSES_PER_BEAT_MICRO;
+        pulse = jump(beatStart + (s === null ? PULSES_PER_BEAT_MICRO : BigInt(s) * PULSES_PER_STEP_MICRO));
+        continue;
+      }
+      return pulse;
+    }
+  };
+
+  const startOrd = periodOf(startμ);
+
+  // Unsatisfiable up front: no day of the year passes the day filters (e.g. weekday 0 on
+  // day-of-month 2), or — for step/beat rules — no slot the interval can reach passes BEAT/STEP.
+  const anyDay = Array.from({ length: DAYS_PER_YEAR }, (_, d) => BigInt(d)).some(dayOk);
+  let anySlot = true;
+  if (slotsPerDay > 0) {
+    const g = gcdBig(BigInt(slotsPerDay), BigInt(rule.interval ?? 1));
+    const first = Number(((startOrd % g) + g) % g);
+    anySlot = false;
+    for (let slot = first; slot < slotsPerDay && !anySlot; slot += Number(g)) {
+      const beat = rule.freq === "step" ? Math.floor(slot / STEPS_BEAT) : slot;
+      const step = rule.freq === "step" ? slot % STEPS_BEAT : undefined;
+      anySlot = (!beats || beats.includes(beat)) && (step === undefined || !steps || steps.includes(step));
+    }
+  }
+
+  return { periodOf, candidates, viableFrom, startOrd, satisfiable: anyDay && anySlot };
+}
+
+/**
+ * Lazily yield occurrence pulses ≥ `fromPulse` in ascending order.
+ * Honors `count`, `until` and `exceptions`; stops on its own for bounded rules.
+ */
+export function* iterateRecurrence(rule: KaiRecurrence, fromPulse: number = rule.start): Generator<number> {
+  const { periodOf, candidates, viableFrom, startOrd, satisfiable } = compile(rule);
+  if (!satisfiable) return;
+  const interval = BigInt(rule.interval ?? 1);
+  const start = BigInt(rule.start);
+  const from = BigInt(Math.trunc(fromPulse));
+  const until = rule.until !== undefined ? BigInt(rule.until) : null;
+  const skip = new Set((rule.exceptions ?? []).map((x) => BigInt(x)));
+  const counted = rule.count !== undefined;
+  let remaining = rule.count ?? Infinity;
+
+  // Without COUNT we may jump straight to the period just before `from`.
+  let k = 0n;
+  if (!counted && from > start) {
+    const gap = periodOf(from * MICRO_PER_PULSE) - 1n - startOrd;
+    if (gap > 0n) k = gap / interval;
+  }
+
+  // Visited periods repeat (mod one year) after this many steps; a rule quiet that long never fires again.
+  const yearly = PERIODS_PER_YEAR[rule.freq];
+  const cycle = yearly / gcdBig(yearly, interval);
+  let quiet = 0n;
+
+  for (; remaining > 0 && quiet <= cycle; k++) {
+    // Skip periods that cannot match, landing on the first one the interval reaches
+    const ahead = viableFrom(startOrd + k * interval) - startOrd;
+    if (ahead > k * interval) {
+      const to = (ahead + interval - 1n) / interval;
+      quiet += to - k;
+      k = to;
+      if (quiet > cycle) return;
+    }
+    quiet += 1n;
+    for (const pulse of candidates(startOrd + k * interval)) {
+      if (pulse < start) continue;
+      quiet = 0n;
+      if (until !== null && pulse > until) return;
+      remaining -= 1;
+      if (pulse >= from && !skip.has(pulse)) yield Number(pulse);
+      if (remaining <= 0) return;
+    }
+  }
+}
+
+/** Occurrence pulses in [fromPulse, toPulse), ascending (at most `limit`). */
+export function expandRecurrence(
+  rule: KaiRecurrence,
+  fromPulse: number,
+  toPulse: number,
+  limit = 10_000
+): number[] {
+  const out: number[] = [];
+  for (const pulse of iterateRecurrence(rule, fromPulse)) {
+    if (pulse >= toPulse || out.length >= limit) break;
+    out.push(pulse);
+  }
+  return out;
+}
+
+/** First occurrence strictly after `afterPulse`, or null when the rule has ended. */
+export function nextOccurrence(rule: KaiRecurrence, afterPulse: number): number | null {
+  const { value, done } = iterateRecurrence(rule, afterPulse + 1).next();
+  return done ? null : value;
+}
+
+/** Copy of the rule with one more excepted occurrence. */
+export function withException(rule: KaiRecurrence, pulse: number): KaiRecurrence {
+  const exceptions = [...new Set([...(rule.exceptions ?? []), Math.trunc(pulse)])].sort((a, b) => a - b);
+  return { ...rule, exceptions };
+}
+
+// ─────────────────────────────────────────────────────────────
+// SERIALIZATION  ("FREQ=week;START=6381211;WEEKDAY=Verdari;BEAT=12")
+// ─────────────────────────────────────────────────────────────
+const KEY_OF: Record<ByField, string> = {
+  byMonth: "MONTH",
+  byWeekOfMonth: "WEEK",
+  byWeekday: "WEEKDAY",
+  byDayOfMonth: "DAY",
+  byBeat: "BEAT",
+  byStep: "STEP",
+  byPulseInStep: "PULSE",
+};
+
+/** Compact, order-stable string form of a rule. */
+export function serializeRecurrence(rule: KaiRecurrence): string {
+  assertRecurrence(rule);
+  const parts = [`FREQ=${rule.freq}`, `START=${rule.start}`];
+  if ((rule.interval ?? 1) !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  for (const key of Object.keys(KEY_OF) as ByField[]) {
+    const values = sortedSet(rule[key]);
+    if (!values) continue;
+    const text = key === "byWeekday" ? values.map((i) => WEEKDAYS[i]) : values;
+    parts.push(`${KEY_OF[key]}=${text.join(",")}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until}`);
+  if (rule.exceptions?.length) parts.push(`EXDATE=${sortedSet(rule.exceptions)!.join(",")}`);
+  return parts.join(";");
+}
+
+/** Inverse of `serializeRecurrence` (throws on malformed input). */
+export function parseRecurrence(text: string): KaiRecurrence {
+  const fields = new Map<string, string>();
+  for (const part of text.trim().split(";")) {
+    if (!part) continue;
+    const eq = part.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid Kai recurrence: malformed part "${part}"`);
+    fields.set(part.slice(0, eq).trim().toUpperCase(), part.slice(eq + 1).trim());
+  }
+  const int = (v: string) => {
+    if (!/^-?\d+$/.test(v)) throw new Error(`Invalid Kai recurrence: "${v}" is not an integer`);
+    return Number(v);
+  };
+  const list = (v: string, key: string) =>
+    v.split(",").map((x) => {
+      if (key !== "WEEKDAY" || /^\d+$/.test(x)) return int(x);
+      const idx = WEEKDAYS.findIndex((w) => w.toLowerCase() === x.toLowerCase());
+      if (idx < 0) throw new Error(`Invalid Kai recurrence: unknown weekday "${x}"`);
+      return idx;
+    });
+
+  const rule: KaiRecurrence = {
+    freq: (fields.get("FREQ") ?? "").toLowerCase() as KaiFrequency,
+    start: int(fields.get("START") ?? ""),
+  };
+  if (fields.has("INTERVAL")) rule.interval = int(fields.get("INTERVAL")!);
+  for (const key of Object.keys(KEY_OF) as ByField[]) {
+    const raw = fields.get(KEY_OF[key]);
+    if (raw !== undefined) rule[key] = list(raw, KEY_OF[key]);
+  }
+  if (fields.has("COUNT")) rule.count = int(fields.get("COUNT")!);
+  if (fields.has("UNTIL")) rule.until = int(fields.get("UNTIL")!);
+  if (fields.has("EXDATE")) rule.exceptions = list(fields.get("EXDATE")!, "EXDATE");
+  assertRecurrence(rule);
+  return rule;
+}
+
+// ─────────────────────────────────────────────────────────────
+// DESCRIPTION
+// ─────────────────────────────────────────────────────────────
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh"];
+
+/** Human summary, e.g. "every Verdari at beat 12" or "first Solhara of every month". */
+export function describeRecurrence(rule: KaiRecurrence): string {
+  const n = rule.interval ?? 1;
+  const every = n === 1 ? `every ${rule.freq}` : `every ${n} ${rule.freq}s`;
+  const weekdays = rule.byWeekday?.map((i) => WEEKDAYS[i]).join("/");
+  const parts: string[] = [];
+
+  if (weekdays && rule.byWeekOfMonth && rule.freq === "month") {
+    const nth = rule.byWeekOfMonth.map((w) => ORDINALS[w - 1]).join("/");
+    parts.push(`${nth} ${weekdays} of ${n === 1 ? "every month" : `every ${n} months`}`);
+  } else if (weekdays && rule.freq === "week" && n === 1) {
+    parts.push(`every ${weekdays}`);
+  } else {
+    parts.push(every);
+    if (weekdays) parts.push(`on ${weekdays}`);
+    if (rule.byWeekOfMonth) parts.push(`in week ${rule.byWeekOfMonth.join("/")}`);
+  }
+  if (rule.byDayOfMonth) parts.push(`on D${rule.byDayOfMonth.join("/")}`);
+  if (rule.byMonth) parts.push(`in ${rule.byMonth.map((m) => MONTHS[m - 1].name).join("/")}`);
+  if (rule.byBeat) parts.push(`at beat ${rule.byBeat.join("/")}`);
+  if (rule.byStep) parts.push(`${rule.byBeat ? "" : "at "}step ${rule.byStep.join("/")}`.trim());
+  if (rule.byPulseInStep) parts.push(`pulse ${rule.byPulseInStep.join("/")}`);
+  if (rule.count !== undefined) parts.push(`× ${rule.count}`);
+  if (rule.until !== undefined) parts.push(`until pulse ${rule.until}`);
+  return parts.join(" ");
+}
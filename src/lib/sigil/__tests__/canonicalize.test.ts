@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { canonicalString, canonicalize } from "../canonicalize";
+
+describe("canonicalString", () => {
+  it("sorts keys recursively and keeps array order", () => {
+    expect(canonicalString({ b: 1, a: { d: [3, 1], c: null } })).toBe('{"a":{"c":null,"d":[3,1]},"b":1}');
+  });
+
+  it("drops undefined keys, maps dates to ISO and non-finite numbers to null", () => {
+    const at = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+    expect(canonicalString({ x: undefined, t: at, n: Number.NaN })).toBe(`{"n":null,"t":"${at.toISOString()}"}`);
+  });
+});
+
+describe("canonicalize", () => {
+  it("is the UTF-8 encoding of canonicalString", () => {
+    const value = { φ: "Kai", a: [true] };
+    expect(new TextDecoder().decode(canonicalize(value))).toBe(canonicalString(value));
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { blake3, blake3Hex, bytesToHex, hexToBytes } from "../hash";
+
+describe("hex helpers", () => {
+  it("round-trips bytes, accepting 0x and upper case", () => {
+    expect(bytesToHex(hexToBytes("0x00FFa1"))).toBe("00ffa1");
+  });
+
+  it("rejects odd-length and non-hex input", () => {
+    expect(() => hexToBytes("abc")).toThrow("HEX_LENGTH_MUST_BE_EVEN");
+    expect(() => hexToBytes("zz")).toThrow("HEX_PARSE_ERROR");
+  });
+});
+
+describe("blake3", () => {
+  it("matches the BLAKE3 test vector for empty input", async () => {
+    const empty = "af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262";
+    expect(await blake3Hex(new Uint8Array())).toBe(empty);
+    expect(bytesToHex(await blake3(new Uint8Array()))).toBe(empty);
+  });
+});
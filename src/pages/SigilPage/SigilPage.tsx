@@ -26,6 +26,9 @@ import ProvenanceList from "../../components/sigil/ProvenanceList";
 import SovereignControls from "../../components/sigil/SovereignControls";
 import StargateOverlay from "../../components/sigil/StargateOverlay";
 import OwnershipPanel from "../../components/sigil/OwnershipPanel";
+import VerifyReportView from "../../components/VerifyReportView";
+import { verifySovereignSvg } from "../../components/VerifierStamper/verifySovereignOffline";
+import type { VerifyReport } from "../../verifier/report";
 import UpgradeSigilModal from "../../components/sigil/UpgradeSigilModal";
 import SigilConflictBanner from "../../components/SigilConflictBanner";
 import ValueHistoryModal from "../../components/ValueHistoryModal";
@@ -41,7 +44,7 @@ import {
 } from "../../SovereignSolar";
 
 /* pulses/breaths conversion (expiry math) */
-import { stepsToPulses, breathsToPulses } from "../../utils/kaiMath";
+import { breathsToPulses, expiryToPulses } from "../../utils/kaiMath";
 import type { VerifyUIState } from "./types";
 import { toMetaVerifyState } from "./types";
 
@@ -92,6 +95,18 @@ import { exportPosterPNG } from "./posterExport";
 /** exportZip.ts */
 import { exportZIP } from "./exportZip";
 
+/** balanceProof.ts */
+import {
+  checkBalanceProof,
+  commitLedger,
+  loadOpening,
+  parseBalanceProofFile,
+  proveBalanceThreshold,
+  saveOpening,
+  type BalanceProofFile,
+} from "./balanceProof";
+import { downloadBlob } from "../../lib/download";
+
 /** types.ts (local page-specific) */
 import type {
   SigilTransferLite,
@@ -124,6 +139,7 @@ import {
   writeDebitsStored,
   updateDebitsEverywhere,
   bestDebitsForCanonical,
+  keptLedgerHead,
   isDebitsStorageKeyForCanonical,
   tokenFromDebitsKey,
   DEBITS_CH,
@@ -301,6 +317,7 @@ const capDebitsQS = (qs: DebitQS): DebitQS => {
     return {
       originalAmount: qs.originalAmount,
       debits: list.length ? (list as unknown as DebitRecord[]) : undefined,
+      ...(qs.ledgerHead ? { ledgerHead: qs.ledgerHead } : {}),
     };
   }
 
@@ -316,9 +333,12 @@ const capDebitsQS = (qs: DebitQS): DebitQS => {
     }
   }
 
+  // The owner's ledger head only holds for the exact debits it was committed over
+  const ledgerHead = kept.length === list.length ? qs.ledgerHead : undefined;
   return {
     originalAmount: orig,
     debits: kept.length ? (kept as unknown as DebitRecord[]) : undefined,
+    ...(ledgerHead ? { ledgerHead } : {}),
   };
 };
 
@@ -463,6 +483,7 @@ export default function SigilPage() {
 
   // Sovereign additions
   const [uploadedMeta, setUploadedMeta] = useState<SigilMetaLoose | null>(null);
+  const [lineageReport, setLineageReport] = useState<VerifyReport | null>(null);
   const [attachment, setAttachment] = useState<StrictAttachment | null>(null);
   const [exporting, setExporting] = useState<boolean>(false);
   const [newOwner, setNewOwner] = useState<string>("");
@@ -932,6 +953,7 @@ if (expectedCanonCandidates.length === 0) return;
     originalAmount?: number;
     debits?: DebitLoose[];
     totalDebited?: number;
+    ledgerHead?: string;
   };
   useEffect(() => {
     const dParam = urlQs.get("d");
@@ -954,6 +976,7 @@ if (expectedCanonCandidates.length === 0) return;
         next.debits = pruned.debits as unknown as DebitLoose[];
         next.totalDebited = sumDebits(pruned.debits as unknown as DebitLoose[]);
       }
+      next.ledgerHead = pruned.ledgerHead;
       return next as SigilPayload;
     });
   }, [urlQs, payload, localHash, legacyInfo, transferToken, setPayload]);
@@ -983,6 +1006,7 @@ if (expectedCanonCandidates.length === 0) return;
         next.debits = pruned.debits as unknown as DebitLoose[];
         next.totalDebited = sumDebits(pruned.debits as unknown as DebitLoose[]);
       }
+      next.ledgerHead = pruned.ledgerHead;
       return next as SigilPayload;
     });
   }, [payload?.canonicalHash, localHash, legacyInfo, urlQs, transferToken, setPayload]);
@@ -1032,10 +1056,11 @@ if (expectedCanonCandidates.length === 0) return;
       }
       const listA: DebitLoose[] = Array.isArray(a?.debits) ? (a!.debits! as unknown as DebitLoose[]) : [];
       const listB: DebitLoose[] = Array.isArray(b?.debits) ? (b!.debits! as unknown as DebitLoose[]) : [];
-      const mergedList = dedupeByNonce([...listA, ...listB]);
+      const mergedList = dedupeByNonce([...listA, ...listB]) as unknown as DebitRecord[];
       const pruned = capDebitsQS({
         originalAmount: out.originalAmount,
-        debits: mergedList as unknown as DebitRecord[],
+        debits: mergedList,
+        ledgerHead: keptLedgerHead([a, b], mergedList),
       });
       return pruned;
     };
@@ -1049,7 +1074,7 @@ if (expectedCanonCandidates.length === 0) return;
       const amtEq = bothNa || Math.abs(ax - ay) < EPS;
       const nx = new Set((Array.isArray(xx.debits) ? xx.debits : []).map((d) => d.nonce));
       const ny = new Set((Array.isArray(yy.debits) ? yy.debits : []).map((d) => d.nonce));
-      if (!amtEq || nx.size !== ny.size) return false;
+      if (!amtEq || nx.size !== ny.size || xx.ledgerHead !== yy.ledgerHead) return false;
       for (const n of nx) if (!ny.has(n)) return false;
       return true;
     };
@@ -1080,6 +1105,7 @@ if (expectedCanonCandidates.length === 0) return;
             next.debits = merged.debits as unknown as DebitLoose[];
             next.totalDebited = sumDebits(merged.debits as unknown as DebitLoose[]);
           }
+          next.ledgerHead = merged.ledgerHead;
           return next as SigilPayload;
         });
       }
@@ -1421,6 +1447,7 @@ setSealUrl(toAbsUrl(finalUrl));            // defensive
     async (file: File) => {
       setOwnershipVerified(false);
       setOwnershipMsg("Verifying…");
+      setLineageReport(null);
 
       const isSvg = /image\/svg\+xml/i.test(file.type) || /\.svg$/i.test(file.name);
       if (!isSvg) {
@@ -1439,6 +1466,10 @@ setSealUrl(toAbsUrl(finalUrl));            // defensive
         }
         uploadedPayload = normalized as unknown as SigilPayload;
         setUploadedMeta((meta || {}) as SigilMetaLoose);
+        // v14 hardened lineage (if the Φkey carries one) — same engine/report as the Verifier
+        void verifySovereignSvg(text)
+          .then(setLineageReport)
+          .catch(() => setLineageReport(null));
       } catch {
         setOwnershipMsg("Invalid or unreadable SVG uploaded.");
         return;
@@ -1808,7 +1839,7 @@ setVerified(prev => (prev === "verified" ? "verified" : "verified"));
     if (!ownerPhiKey) return signal(setToast, "Owner ΦKey required");
 
     const amount = Math.max(0, Math.floor(expiryAmount || 0));
-    const addPulses = expiryUnit === "breaths" ? breathsToPulses(amount) : stepsToPulses(amount);
+    const addPulses = expiryToPulses(expiryUnit, amount);
     const nowPulse = getKaiPulseEternalInt(new Date());
     const expiresAtPulse = nowPulse + addPulses;
 
@@ -1914,6 +1945,7 @@ setSealUrl(toAbsUrl(attestedUrl));
     originalAmount?: number;
     debits?: DebitLoose[];
     totalDebited?: number;
+    ledgerHead?: string;
   };
   const payloadD = payload as SPWithDebits | null;
 
@@ -2046,9 +2078,7 @@ const mintChildSigil = useCallback(
       originalAmount: Number(amount.toFixed(6)),
       mintedAtPulse: nowPulse,
       transferNonce: freshNonce,
-      expiresAtPulse:
-        nowPulse +
-        (expiryUnit === "breaths" ? breathsToPulses(expiryAmount) : stepsToPulses(expiryAmount)),
+      expiresAtPulse: nowPulse + expiryToPulses(expiryUnit, expiryAmount),
       claimExtendUnit: expiryUnit,
       claimExtendAmount: expiryAmount,
       canonicalHash: baseCanonical,
@@ -2313,6 +2343,7 @@ const ensureParentTokenActive = useCallback(
           ? (postPruned.debits as unknown as DebitLoose[])
           : []) as DebitLoose[];
         next.totalDebited = sumDebits(next.debits);
+        next.ledgerHead = postPruned.ledgerHead;
         return next as SigilPayload;
       });
   
@@ -2343,6 +2374,85 @@ const ensureParentTokenActive = useCallback(
     ensureParentTokenActive,
   ]);
   
+  /* === ZK balance threshold — "available Φ ≥ X" without revealing the ledger === */
+  const [balanceMin, setBalanceMin] = useState<number>(0);
+  const [balanceProving, setBalanceProving] = useState<boolean>(false);
+  const [balanceMsg, setBalanceMsg] = useState<string | null>(null);
+
+  const handleProveBalance = useCallback(async () => {
+    if (!ownerVerified) return signal(setToast, "Verify ownership first");
+    const canonical = currentCanonicalUtil(payload ?? null, localHash, legacyInfo);
+    if (!valSeal || !canonical) return signal(setToast, "Valuation not ready yet");
+    if (balanceProving) return;
+
+    setBalanceProving(true);
+    setBalanceMsg("Proving…");
+    try {
+      // Proven over the ledger head the glyph publishes; commit (and publish) a fresh one when it has none
+      let opening = loadOpening(canonical, payloadD?.ledgerHead);
+      if (!opening) {
+        opening = await commitLedger(canonical, { originalAmount: payloadD?.originalAmount, debits: payloadD?.debits });
+        saveOpening(opening);
+        const ledgerHead = opening.ledgerCommitment;
+        const tok = currentTokenUtil(transferToken, payload ?? null);
+        updateDebitsEverywhere(
+          capDebitsQS({
+            originalAmount: payloadD?.originalAmount,
+            debits: payloadD?.debits as unknown as DebitRecord[] | undefined,
+            ledgerHead,
+          }),
+          canonical,
+          tok,
+          { broadcast: true }
+        );
+        setPayload((prev) => (prev ? ({ ...prev, ledgerHead } as SigilPayload) : prev));
+      }
+      const seal = await proveBalanceThreshold({ seal: valSeal, opening, minAvailablePhi: balanceMin });
+      const file: BalanceProofFile = { kind: "kai-balance-proof", v: 1, canonicalHash: canonical, seal };
+      downloadBlob(
+        new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }),
+        `sigil-${canonical.slice(0, 16)}-balance-proof.json`
+      );
+      setBalanceMsg(`Proved available Φ ≥ ${currency(balanceMin)} — valid until the glyph's ledger changes.`);
+    } catch (err) {
+      setBalanceMsg(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBalanceProving(false);
+    }
+  }, [
+    ownerVerified,
+    payload,
+    localHash,
+    legacyInfo,
+    valSeal,
+    balanceProving,
+    payloadD?.originalAmount,
+    payloadD?.debits,
+    payloadD?.ledgerHead,
+    balanceMin,
+    transferToken,
+    setPayload,
+  ]);
+
+  const onVerifyBalanceFile = useCallback(
+    async (file: File) => {
+      setBalanceMsg("Verifying balance proof…");
+      try {
+        const proof = parseBalanceProofFile(await file.text());
+        const canonical = currentCanonicalUtil(payload ?? null, localHash, legacyInfo);
+        if (canonical && proof.canonicalHash.toLowerCase() !== canonical) {
+          setBalanceMsg("✗ Balance proof is for a different glyph.");
+          return;
+        }
+        const res = await checkBalanceProof(proof.seal, canonical ?? proof.canonicalHash, payloadD?.ledgerHead);
+        setBalanceMsg(res.ok ? `✓ Proven: available Φ ≥ ${currency(res.minAvailablePhi ?? 0)}` : `✗ ${res.detail}`);
+      } catch (err) {
+        setBalanceMsg(`✗ ${err instanceof Error ? err.message : String(err)}`);
+      }
+    },
+    [payload, localHash, legacyInfo, payloadD?.ledgerHead]
+  );
+
   // Disable transform/fixed glitches on iOS while any overlay is up
 const anyOverlayOpen =
 proofOpen || historyOpen || stargateOpen || sealOpen || (upgradeOpen && isLegacyPage);
@@ -3317,6 +3427,7 @@ useEffect(() => {
             ownershipMsg={ownershipMsg}
             onVerifyOwnershipFile={onVerifyOwnershipFile}
           />
+          <VerifyReportView report={lineageReport} />
 
 {/* Owner-gated controls */}
 <div className="owner-gated">
@@ -3423,9 +3534,68 @@ useEffect(() => {
           claim window of <strong>{expiryAmount}</strong> {expiryUnit}.
         </div>
       </div>
+
+      {/* ZK balance threshold (proof rides on the ValueSeal) */}
+      <div
+        className="owner-actions"
+        style={{ marginTop: 12, display: "flex", gap: 12, alignItems: "center" }}
+      >
+        <input
+          id="balance-min"
+          name="balance-min"
+          type="number"
+          inputMode="decimal"
+          enterKeyHint="done"
+          step="0.000001"
+          min={0}
+          placeholder="Threshold Φ"
+          value={balanceMin}
+          onChange={(e) => {
+            const raw = e.currentTarget.value.replace(/,/g, ".");
+            const val = parseFloat(raw);
+            setBalanceMin(Number.isFinite(val) && val >= 0 ? val : 0);
+          }}
+          onWheel={(e: React.WheelEvent<HTMLInputElement>) => e.currentTarget.blur()}
+          className="btn-ghost"
+          style={{ padding: 10, maxWidth: 180 }}
+          aria-label="Φ threshold to prove"
+          autoComplete="off"
+          spellCheck={false}
+        />
+        <button
+          type="button"
+          className="btn-ghost"
+          onClick={() => void handleProveBalance()}
+          disabled={balanceProving || !valSeal || balanceMin > availablePhi}
+          title="Zero-knowledge proof that available Φ is at least this amount, without revealing it"
+        >
+          {balanceProving ? "Proving…" : "Prove balance ≥"}
+        </button>
+      </div>
     </div>
   )}
 
+  <div className="sp-card" style={{ padding: 16, margin: "8px 0 16px" }}>
+    <label className="btn-ghost" style={{ display: "inline-block", padding: 10, cursor: "pointer" }}>
+      Verify balance proof…
+      <input
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const f = e.currentTarget.files?.[0];
+          e.currentTarget.value = "";
+          if (f) void onVerifyBalanceFile(f);
+        }}
+      />
+    </label>
+    {balanceMsg && (
+      <div style={{ marginTop: 8, opacity: 0.85 }} aria-live="polite">
+        {balanceMsg}
+      </div>
+    )}
+  </div>
+
   <SovereignControls
     isArchived={isArchived}
     ownerVerified={ownerVerified}
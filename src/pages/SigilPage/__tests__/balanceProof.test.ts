@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { ValueSeal } from "../../../utils/valuation";
+import type { BalanceWitness } from "../../../components/VerifierStamper/zk";
+import { checkBalanceProof, commitLedger, proveBalanceThreshold, type BalanceLedger } from "../balanceProof";
+
+// Prove in-process with the zk/ artefacts instead of the browser worker
+vi.mock("../../../components/VerifierStamper/zkProver", async () => {
+  const { proveSigilProof } = await import("../../../components/VerifierStamper/zkProver.worker");
+  return {
+    proveSigilBalance: (input: BalanceWitness) =>
+      proveSigilProof({
+        scheme: "groth16",
+        circuit: "sigil-balance-v1",
+        input,
+        wasmUrl: "zk/sigil_balance_js/sigil_balance.wasm",
+        zkeyUrl: "zk/sigil_balance_final.zkey",
+      }),
+  };
+});
+
+const GLYPH = "d".repeat(64);
+const seal = {
+  version: 1,
+  algorithm: "phi/kosmos-vφ-5",
+  policyChecksum: "p",
+  inputs: {},
+  headRef: { cumulativeTransfers: 0 },
+  stamp: "e".repeat(64),
+} as unknown as ValueSeal;
+const ledger: BalanceLedger = {
+  originalAmount: 100,
+  debits: [
+    { amount: 30, nonce: "n1", timestamp: 10 },
+    { amount: 12.5, nonce: "n2", timestamp: 20 },
+  ],
+};
+
+describe("ledger head commitments", () => {
+  it("salts every commitment, so the head reveals nothing about the debits", async () => {
+    const [a, b] = await Promise.all([commitLedger(GLYPH, ledger), commitLedger(GLYPH, ledger)]);
+    expect(a.ledgerCommitment).not.toBe(b.ledgerCommitment);
+    expect(a.debits.slice(0, 2)).toEqual(["30000000", "12500000"]);
+    expect(a.originalAmount).toBe("100000000");
+  });
+
+  it("needs the frozen original amount", async () => {
+    await expect(commitLedger(GLYPH, { debits: ledger.debits })).rejects.toThrow(/no original amount/);
+  });
+});
+
+describe("balance proofs against the published ledger head", () => {
+  let opening: Awaited<ReturnType<typeof commitLedger>>;
+  let proven: ValueSeal;
+
+  beforeAll(async () => {
+    opening = await commitLedger(GLYPH, ledger);
+    proven = await proveBalanceThreshold({ seal, opening, minAvailablePhi: 50 });
+  }, 120_000);
+
+  it("verifies against the head the owner published, without the debits", async () => {
+    expect(await checkBalanceProof(proven, GLYPH, opening.ledgerCommitment)).toEqual({
+      ok: true,
+      detail: "available Φ ≥ 50",
+      minAvailablePhi: 50,
+    });
+  });
+
+  it("rejects when the glyph publishes no head or another one", async () => {
+    expect((await checkBalanceProof(proven, GLYPH, undefined)).ok).toBe(false);
+    const recommitted = await commitLedger(GLYPH, ledger);
+    const res = await checkBalanceProof(proven, GLYPH, recommitted.ledgerCommitment);
+    expect(res).toMatchObject({ ok: false, detail: "proof is not over the ledger head this glyph publishes" });
+  });
+
+  it("rejects a proof moved to another glyph or seal, or with an inflated claim", async () => {
+    expect((await checkBalanceProof(proven, "f".repeat(64), opening.ledgerCommitment)).ok).toBe(false);
+    expect((await checkBalanceProof({ ...proven, stamp: "0".repeat(64) }, GLYPH, opening.ledgerCommitment)).ok).toBe(false);
+    const inflated = { ...proven, zkProof: { ...proven.zkProof!, claim: { minAvailablePhi: 90 } } };
+    expect(await checkBalanceProof(inflated, GLYPH, opening.ledgerCommitment)).toMatchObject({
+      ok: false,
+      detail: "proof threshold differs from the claim",
+    });
+  });
+
+  it("refuses to prove past the available balance", async () => {
+    await expect(proveBalanceThreshold({ seal, opening, minAvailablePhi: 60 })).rejects.toThrow(/below that threshold/);
+  });
+});
@@ -0,0 +1,231 @@
+// src/pages/SigilPage/balanceProof.ts
+/* Zero-knowledge "available Φ ≥ X" for a glyph (zk/sigil_balance.circom).
+   The owner commits to the ledger (original amount + debits, random salt) and publishes that head with the
+   glyph (`?d=` ledgerHead); the proof's ledgerCommitment must equal it, so verifiers never see the debits.
+   The proof is bound to the glyph's canonicalHash and to one ValueSeal stamp, and travels on that seal as
+   its zkProof. */
+
+import { poseidon5 } from "poseidon-lite/poseidon5";
+import { poseidon16 } from "poseidon-lite/poseidon16";
+import { attachZkProof, verifyZkProof, type ValueSeal, type ZkProof } from "../../utils/valuation";
+import { b64urlDecodeUtf8, b64urlEncodeUtf8 } from "../../utils/cryptoLedger";
+import { proveSigilBalance } from "../../components/VerifierStamper/zkProver";
+import { hashAny } from "../../components/VerifierStamper/sigilUtils";
+import { loadVkeyRegistry, resolveVkey } from "../../components/VerifierStamper/vkeyRegistry";
+import {
+  BALANCE_CIRCUIT,
+  BALANCE_DEBIT_SLOTS,
+  FIELD_ORDER,
+  readBalanceSignals,
+  textToField,
+  tryVerifyZk,
+  type BalanceWitness,
+} from "../../components/VerifierStamper/zk";
+import { dedupeByNonce, isValidDebit, sortDebitsStable, type DebitLoose } from "./debits";
+
+/** Shareable proof file: the proven ValueSeal (zkProof attached) and the glyph it speaks for */
+export type BalanceProofFile = { kind: "kai-balance-proof"; v: 1; canonicalHash: string; seal: ValueSeal };
+
+/** The glyph's cryptoLedger as the owner's SigilPage reads it (`?d=` / storage) */
+export type BalanceLedger = { originalAmount?: number; debits?: ReadonlyArray<DebitLoose> };
+
+/** Private opening of a published ledger head — the owner's witness for proofs, never shared with them */
+export type BalanceOpening = {
+  kind: "kai-balance-opening";
+  v: 1;
+  canonicalHash: string;
+  ledgerCommitment: string; // the head published as ledgerHead
+  originalAmount: string; // micro-Φ
+  debits: string[]; // micro-Φ per circuit slot
+  salt: string;
+};
+
+export type BalanceCheck = { ok: boolean; detail: string; minAvailablePhi?: number };
+
+/** Amounts enter the circuit as integer micro-Φ below 2^52 (its range check). */
+const MICRO = 1e6;
+const MAX_MICRO = 2n ** 52n;
+
+export function toMicroPhi(phi: number): bigint {
+  if (!Number.isFinite(phi) || phi < 0) throw new Error("Φ amounts must be non-negative numbers");
+  const micro = BigInt(Math.round(phi * MICRO));
+  if (micro >= MAX_MICRO) throw new Error("Φ amount is too large for the balance circuit");
+  return micro;
+}
+
+/** Debits in micro-Φ in canonical ledger order (deduped by nonce, by timestamp then nonce), folded into the
+    circuit's slots (slot i sums debits i, i+32, …) — the total is unchanged. */
+function debitSlots(debits: ReadonlyArray<DebitLoose>): bigint[] {
+  const slots = Array.from({ length: BALANCE_DEBIT_SLOTS }, () => 0n);
+  sortDebitsStable(dedupeByNonce(debits)).forEach((d, i) => {
+    slots[i % BALANCE_DEBIT_SLOTS] += toMicroPhi(d.amount);
+  });
+  if (slots.some((s) => s >= MAX_MICRO)) throw new Error("Debit ledger is too large for the balance circuit");
+  return slots;
+}
+
+/** Ledger in circuit form (valid debits only); the ledger must carry its frozen original amount. */
+function ledgerInputs(ledger: BalanceLedger): { original: bigint; slots: bigint[] } {
+  if (typeof ledger.originalAmount !== "number") throw new Error("Glyph has no Φ ledger yet (no original amount)");
+  return { original: toMicroPhi(ledger.originalAmount), slots: debitSlots((ledger.debits ?? []).filter(isValidDebit)) };
+}
+
+function randomField(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return BigInt(`0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`) % FIELD_ORDER;
+}
+
+/** Commit to the glyph's ledger under a fresh salt: the opening's ledgerCommitment is the head to publish. */
+export async function commitLedger(canonicalHash: string, ledger: BalanceLedger): Promise<BalanceOpening> {
+  const { original, slots } = ledgerInputs(ledger);
+  const salt = randomField();
+  const glyphHash = await textToField(canonicalHash.toLowerCase());
+  const chunks = [poseidon16(slots.slice(0, 16)), poseidon16(slots.slice(16, 32))];
+  return {
+    kind: "kai-balance-opening",
+    v: 1,
+    canonicalHash: canonicalHash.toLowerCase(),
+    ledgerCommitment: poseidon5([glyphHash, original, ...chunks, salt]).toString(),
+    originalAmount: original.toString(),
+    debits: slots.map(String),
+    salt: salt.toString(),
+  };
+}
+
+const openingKey = (canonicalHash: string) => `kairos:balance-opening:${canonicalHash.toLowerCase()}`;
+
+/** The owner's opening for `ledgerHead` on this device, if it still matches the published head. */
+export function loadOpening(canonicalHash: string, ledgerHead: string | undefined): BalanceOpening | null {
+  if (!ledgerHead) return null;
+  try {
+    const raw = localStorage.getItem(openingKey(canonicalHash));
+    const o = raw ? (JSON.parse(raw) as Partial<BalanceOpening>) : null;
+    return o?.kind === "kai-balance-opening" && o.ledgerCommitment === ledgerHead ? (o as BalanceOpening) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveOpening(opening: BalanceOpening): void {
+  try {
+    localStorage.setItem(openingKey(opening.canonicalHash), JSON.stringify(opening));
+  } catch {
+    /* no storage: the owner re-commits next time */
+  }
+}
+
+/** Circuit witness proving `opening` meets `threshold` (micro-Φ) for `seal`. */
+async function balanceWitness(opening: BalanceOpening, threshold: bigint, seal: ValueSeal): Promise<BalanceWitness> {
+  return {
+    originalAmount: opening.originalAmount,
+    debits: opening.debits,
+    salt: opening.salt,
+    threshold: threshold.toString(),
+    glyphHash: (await textToField(opening.canonicalHash)).toString(),
+    sealStamp: (await textToField(seal.stamp)).toString(),
+  };
+}
+
+/** Prove "original − Σ debits ≥ minAvailablePhi" over the committed ledger and attach the proof to `seal`. */
+export async function proveBalanceThreshold(args: {
+  seal: ValueSeal;
+  opening: BalanceOpening;
+  minAvailablePhi: number;
+}): Promise<ValueSeal> {
+  const { seal, opening, minAvailablePhi } = args;
+
+  // Same arithmetic as the circuit, so a claim it would reject fails here with a readable message
+  const threshold = toMicroPhi(minAvailablePhi);
+  if (BigInt(opening.originalAmount) - opening.debits.reduce((a, b) => a + BigInt(b), 0n) < threshold) {
+    throw new Error("Available Φ is below that threshold — nothing to prove");
+  }
+
+  const bundle = await proveSigilBalance(await balanceWitness(opening, threshold, seal));
+  const signals = readBalanceSignals(bundle.publicSignals);
+  if (!signals) throw new Error("Balance prover returned unexpected public signals");
+  if (signals.ledgerCommitment !== opening.ledgerCommitment) {
+    throw new Error("Balance prover committed to a different ledger");
+  }
+
+  const zk: ZkProof = {
+    scheme: "groth16",
+    curve: "bn128",
+    proof: b64urlEncodeUtf8(JSON.stringify(bundle.proof)),
+    publicInputsHash: BigInt(signals.sealStamp).toString(16),
+    verifierId: bundle.vkey ? await hashAny(bundle.vkey) : undefined,
+    circuit: BALANCE_CIRCUIT,
+    publicSignals: bundle.publicSignals as string[],
+    claim: { minAvailablePhi },
+  };
+  return attachZkProof(seal, zk);
+}
+
+/** Check a balance proof on `seal` for the glyph `canonicalHash` against the ledger head its owner published
+    (`ledgerHead`) and trusted registry keys only — the debits themselves are never needed. */
+export async function checkBalanceProof(
+  seal: ValueSeal,
+  canonicalHash: string,
+  ledgerHead: string | undefined
+): Promise<BalanceCheck> {
+  const zk = seal.zkProof;
+  if (!zk || zk.circuit !== BALANCE_CIRCUIT) return { ok: false, detail: "seal carries no balance proof" };
+  const sig = readBalanceSignals(zk.publicSignals);
+  const claim = zk.claim?.minAvailablePhi;
+  if (!sig || typeof claim !== "number") return { ok: false, detail: "balance proof is missing its public signals or claim" };
+
+  let threshold: bigint;
+  try {
+    threshold = toMicroPhi(claim);
+  } catch {
+    return { ok: false, detail: "claimed threshold is not a valid Φ amount" };
+  }
+  if (sig.threshold !== threshold.toString()) return { ok: false, detail: "proof threshold differs from the claim" };
+  if (sig.glyphHash !== (await textToField(canonicalHash.toLowerCase())).toString()) {
+    return { ok: false, detail: "proof is bound to a different glyph" };
+  }
+  if (sig.sealStamp !== (await textToField(seal.stamp)).toString()) {
+    return { ok: false, detail: "proof is bound to a different ValueSeal" };
+  }
+  if (!ledgerHead) return { ok: false, detail: "glyph publishes no ledger head (its ledger changed since the proof)" };
+  if (sig.ledgerCommitment !== ledgerHead) {
+    return { ok: false, detail: "proof is not over the ledger head this glyph publishes" };
+  }
+
+  const trust = resolveVkey(await loadVkeyRegistry(), BALANCE_CIRCUIT, zk.scheme, zk.verifierId);
+  if (trust.status !== "trusted") {
+    return { ok: false, detail: trust.status === "unknown" ? "verifying key is not in the registry" : "verifying key is not pinned" };
+  }
+
+  let unavailable = false;
+  const ok = await verifyZkProof(seal, async (p) => {
+    let proof: unknown;
+    try {
+      proof = JSON.parse(b64urlDecodeUtf8(p.proof));
+    } catch {
+      return false;
+    }
+    for (const vkey of trust.vkeys) {
+      const res = await tryVerifyZk({ scheme: p.scheme, proof, publicSignals: p.publicSignals, vkey });
+      if (res === null) unavailable = true;
+      if (res === true) return true;
+    }
+    return false;
+  });
+  if (ok) return { ok, detail: `available Φ ≥ ${claim}`, minAvailablePhi: claim };
+  return { ok, detail: unavailable ? "snarkjs unavailable — cannot check the proof" : "proof does not verify" };
+}
+
+/** Read a downloaded proof file (throws with a human-readable message). */
+export function parseBalanceProofFile(text: string): BalanceProofFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Balance proof is not valid JSON");
+  }
+  const f = raw as Partial<BalanceProofFile> | null;
+  if (f?.kind !== "kai-balance-proof" || typeof f.canonicalHash !== "string" || typeof f.seal?.stamp !== "string") {
+    throw new Error("Not a Kai balance proof file");
+  }
+  return f as BalanceProofFile;
+}
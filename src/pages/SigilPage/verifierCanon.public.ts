@@ -3,6 +3,13 @@ import {
     derivePhiKeyFromSigCanon,
     verifierSigmaString as buildSigma,
   } from "./verifierCanon";
+  import { verifySovereignSvg } from "../../components/VerifierStamper/verifySovereignOffline";
+  import {
+    VERIFY_REPORT_VERSION,
+    formatVerifyReport,
+    summarizeVerifyReport,
+    type VerifyReport,
+  } from "../../verifier/report";
   
   /** The exact API we expose to verifier.html */
   export type KaiVerifierShape = {
@@ -15,6 +22,11 @@ import {
       chakraDay: string,
       intention: string | null
     ) => string;
+    /** v14 lineage report (versioned schema) for raw SVG text; null when no hardened transfers */
+    verifySovereignSvg: (svgText: string) => Promise<VerifyReport | null>;
+    formatVerifyReport: (report: VerifyReport) => string;
+    summarizeVerifyReport: (report: VerifyReport) => string;
+    reportVersion: typeof VERIFY_REPORT_VERSION;
   };
   
   const verifierSigmaStringAdapter: KaiVerifierShape["verifierSigmaString"] = (
@@ -29,6 +41,10 @@ import {
     sha256HexCanon,
     derivePhiKeyFromSigCanon,
     verifierSigmaString: verifierSigmaStringAdapter,
+    verifySovereignSvg,
+    formatVerifyReport,
+    summarizeVerifyReport,
+    reportVersion: VERIFY_REPORT_VERSION,
   } as const satisfies KaiVerifierShape;
   
   // Install read-only global for the offline verifier
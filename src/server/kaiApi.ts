@@ -0,0 +1,206 @@
+// src/server/kaiApi.ts
+// Self-hostable Kai-Klok HTTP API — serves the exact `buildKaiKlockResponse` JSON
+// shape of the public server, computed locally (no network, no database).
+//
+//   GET /kai                         → now   (legacy: ?override_time=<ISO>)
+//   GET /kai/time/<ISO>              → at an ISO-8601 instant (signed years ok)
+//   GET /kai/pulse/<n>               → at the start of pulse n
+//   GET /kai/range?from=&to=[&every=1][&unit=beat]
+//                                    → one response per `every` × `unit` in [from, to)
+//                                      (from/to: pulse integers or ISO instants)
+//   GET /health                      → { ok, genesis, pulse }
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { buildKaiKlockResponse, parseSignedIsoToEpochMs } from "../utils/kai_pulse";
+import {
+  GENESIS_TS,
+  KAI_UNITS,
+  MICRO_PER_PULSE,
+  UNIT_MICRO,
+  floorDivBig,
+  getKaiPulse,
+  microPulsesSinceGenesis,
+  msAtMicroPulse,
+  type KaiUnit,
+} from "../lib/kai-klok-core";
+
+// ─────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────
+export type KaiApiOptions = {
+  corsOrigin?: string;    // Access-Control-Allow-Origin (default "*")
+  maxRangeItems?: number; // cap for /kai/range (default 1000)
+};
+
+export type KaiApiResult = {
+  status: number;
+  body: unknown;
+  cache: "no-store" | "immutable";
+};
+
+export class KaiApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "KaiApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const DEFAULT_MAX_RANGE_ITEMS = 1000;
+
+// ─────────────────────────────────────────────────────────────
+// PARAMS
+// ─────────────────────────────────────────────────────────────
+const INT_RE = /^-?\d+$/;
+
+function epochMsFromIso(iso: string): bigint {
+  try {
+    return parseSignedIsoToEpochMs(iso);
+  } catch {
+    throw new KaiApiError(400, "BAD_TIME", `Not an ISO-8601 instant: ${iso}`);
+  }
+}
+
+function parsePulse(raw: string): bigint {
+  if (!INT_RE.test(raw)) throw new KaiApiError(400, "BAD_PULSE", `Not an integer pulse: ${raw}`);
+  return BigInt(raw);
+}
+
+function decodeSegment(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    throw new KaiApiError(400, "BAD_PATH", `Malformed path segment: ${raw}`);
+  }
+}
+
+/** Range bound → μpulses since Genesis (integers are pulses, anything else ISO). */
+function parseBound(name: string, raw: string | null): bigint {
+  if (raw === null || raw.trim() === "") {
+    throw new KaiApiError(400, "MISSING_PARAM", `Query parameter "${name}" is required.`);
+  }
+  const v = raw.trim();
+  return INT_RE.test(v) ? BigInt(v) * MICRO_PER_PULSE : microPulsesSinceGenesis(epochMsFromIso(v));
+}
+
+/** Epoch ms of the first millisecond inside pulse `p` (never rounds into p − 1). */
+const msAtPulse = (p: bigint): bigint => BigInt(msAtMicroPulse(p * MICRO_PER_PULSE));
+
+// ─────────────────────────────────────────────────────────────
+// ROUTES
+// ─────────────────────────────────────────────────────────────
+async function rangeResponse(q: URLSearchParams, maxItems: number): Promise<unknown> {
+  const start = parseBound("from", q.get("from"));
+  const end = parseBound("to", q.get("to"));
+
+  const unit = (q.get("unit") ?? "beat") as KaiUnit;
+  if (!KAI_UNITS.includes(unit)) {
+    throw new KaiApiError(400, "BAD_UNIT", `unit must be one of ${KAI_UNITS.join(", ")}.`);
+  }
+  const everyRaw = q.get("every") ?? "1";
+  if (!/^\d+$/.test(everyRaw) || BigInt(everyRaw) === 0n) {
+    throw new KaiApiError(400, "BAD_EVERY", "every must be a positive integer.");
+  }
+  const every = BigInt(everyRaw);
+  const span = every * UNIT_MICRO[unit];
+
+  if (end <= start) throw new KaiApiError(400, "EMPTY_RANGE", "to must be after from.");
+  const count = (end - start + span - 1n) / span;
+  if (count > BigInt(maxItems)) {
+    throw new KaiApiError(400, "RANGE_TOO_LARGE", `Range yields ${count} items (max ${maxItems}).`);
+  }
+
+  const items: unknown[] = [];
+  for (let pμ = start; pμ < end; pμ += span) {
+    items.push(await buildKaiKlockResponse(BigInt(msAtMicroPulse(pμ))));
+  }
+  return {
+    from: Number(floorDivBig(start, MICRO_PER_PULSE)),
+    to: Number(floorDivBig(end, MICRO_PER_PULSE)),
+    every: Number(every),
+    unit,
+    count: items.length,
+    items,
+  };
+}
+
+/** Route one GET request (pure: no sockets), so hosts other than node:http can reuse it. */
+export async function routeKaiApi(url: URL, opts: KaiApiOptions = {}): Promise<KaiApiResult> {
+  const path = url.pathname.replace(/\/+$/, "") || "/";
+  const q = url.searchParams;
+
+  if (path === "/health") {
+    return { status: 200, cache: "no-store", body: { ok: true, genesis: GENESIS_TS, pulse: getKaiPulse() } };
+  }
+
+  if (path === "/kai") {
+    const iso = q.get("override_time");
+    return iso
+      ? { status: 200, cache: "immutable", body: await buildKaiKlockResponse(epochMsFromIso(iso)) }
+      : { status: 200, cache: "no-store", body: await buildKaiKlockResponse() };
+  }
+
+  if (path === "/kai/range") {
+    return { status: 200, cache: "immutable", body: await rangeResponse(q, opts.maxRangeItems ?? DEFAULT_MAX_RANGE_ITEMS) };
+  }
+
+  const time = /^\/kai\/time\/(.+)$/.exec(path);
+  if (time) {
+    const ms = epochMsFromIso(decodeSegment(time[1]));
+    return { status: 200, cache: "immutable", body: await buildKaiKlockResponse(ms) };
+  }
+
+  const pulse = /^\/kai\/pulse\/([^/]+)$/.exec(path);
+  if (pulse) {
+    const ms = msAtPulse(parsePulse(decodeSegment(pulse[1])));
+    return { status: 200, cache: "immutable", body: await buildKaiKlockResponse(ms) };
+  }
+
+  throw new KaiApiError(404, "NOT_FOUND", `No route for ${path}`);
+}
+
+// ─────────────────────────────────────────────────────────────
+// NODE HTTP SERVER
+// ─────────────────────────────────────────────────────────────
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string>, head: boolean) {
+  const json = body === undefined ? "" : JSON.stringify(body);
+  res.writeHead(status, {
+    ...headers,
+    ...(json ? { "Content-Type": "application/json; charset=utf-8" } : {}),
+    "Content-Length": String(Buffer.byteLength(json)),
+  });
+  res.end(head ? undefined : json);
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, opts: KaiApiOptions) {
+  const cors = {
+    "Access-Control-Allow-Origin": opts.corsOrigin ?? "*",
+    "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  };
+  const method = req.method ?? "GET";
+  if (method === "OPTIONS") return send(res, 204, undefined, cors, false);
+  if (method !== "GET" && method !== "HEAD") {
+    return send(res, 405, { error: "METHOD_NOT_ALLOWED", message: `${method} not allowed` }, { ...cors, Allow: "GET, HEAD, OPTIONS" }, false);
+  }
+
+  try {
+    const { status, body, cache } = await routeKaiApi(new URL(req.url ?? "/", "http://localhost"), opts);
+    const cacheControl = cache === "immutable" ? "public, max-age=31536000, immutable" : "no-store";
+    send(res, status, body, { ...cors, "Cache-Control": cacheControl }, method === "HEAD");
+  } catch (err) {
+    const e = err instanceof KaiApiError ? err : new KaiApiError(500, "INTERNAL", "Internal error");
+    if (!(err instanceof KaiApiError)) console.error("[kai-api]", err);
+    send(res, e.status, { error: e.code, message: e.message }, { ...cors, "Cache-Control": "no-store" }, method === "HEAD");
+  }
+}
+
+/** An http.Server answering the Kai-Klok API (call `.listen(port, host)`). */
+export function createKaiApiServer(opts: KaiApiOptions = {}): Server {
+  return createServer((req, res) => {
+    void handle(req, res, opts);
+  });
+}
@@ -0,0 +1,46 @@
+// src/server/main.ts
+// Entry point for the self-hosted Kai-Klok API (`npm run serve:api`).
+//
+//   node dist-server/kai-api.mjs [--port 8787] [--host 0.0.0.0] [--cors-origin *] [--max-range 1000]
+//
+// Every flag can also come from the environment:
+//   KAI_API_PORT (or PORT), KAI_API_HOST, KAI_API_CORS_ORIGIN, KAI_API_MAX_RANGE
+
+import { parseArgs } from "node:util";
+import { createKaiApiServer } from "./kaiApi";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string" },
+    host: { type: "string" },
+    "cors-origin": { type: "string" },
+    "max-range": { type: "string" },
+  },
+});
+
+const env = process.env;
+const port = Number(values.port ?? env.KAI_API_PORT ?? env.PORT ?? 8787);
+const host = values.host ?? env.KAI_API_HOST ?? "0.0.0.0";
+const maxRange = Number(values["max-range"] ?? env.KAI_API_MAX_RANGE ?? 1000);
+
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`Invalid port: ${values.port ?? env.KAI_API_PORT ?? env.PORT}`);
+  process.exit(2);
+}
+if (!Number.isInteger(maxRange) || maxRange < 1) {
+  console.error(`Invalid max range: ${values["max-range"] ?? env.KAI_API_MAX_RANGE}`);
+  process.exit(2);
+}
+
+const server = createKaiApiServer({
+  corsOrigin: values["cors-origin"] ?? env.KAI_API_CORS_ORIGIN ?? "*",
+  maxRangeItems: maxRange,
+});
+
+server.listen(port, host, () => {
+  console.log(`Kai-Klok API listening on http://${host}:${port}/kai`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
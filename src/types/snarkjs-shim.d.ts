@@ -8,6 +8,33 @@ declare module "snarkjs" {
           | Record<string, string | number | bigint>,
         proof: Record<string, unknown>
       ): Promise<boolean>;
+
+      /** Witness + proof in one call; wasm/zkey are URLs (browser) or paths (Node) */
+      export function fullProve(
+        input: Record<string, string | number | bigint>,
+        wasmFile: string,
+        zkeyFile: string
+      ): Promise<{ proof: Record<string, unknown>; publicSignals: string[] }>;
+    }
+
+    export namespace plonk {
+      export function verify(
+        vkey: Record<string, unknown>,
+        publicSignals:
+          | readonly (string | number | bigint)[]
+          | Record<string, string | number | bigint>,
+        proof: Record<string, unknown>
+      ): Promise<boolean>;
+
+      /** Witness + proof in one call; the zkey comes from `snarkjs plonk setup` (universal ptau) */
+      export function fullProve(
+        input: Record<string, string | number | bigint>,
+        wasmFile: string,
+        zkeyFile: string
+      ): Promise<{ proof: Record<string, unknown>; publicSignals: string[] }>;
+    }
+
+    export namespace zKey {
+      export function exportVerificationKey(zkeyFile: string): Promise<Record<string, unknown>>;
     }
   }
-  
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { debitQSEqual, decodeDebitsQS, encodeDebitsQS, mergeDebitQS, type DebitQS } from "../cryptoLedger";
+
+const debit = (nonce: string, timestamp: number) => ({ amount: 1, nonce, recipientPhiKey: "phi", timestamp });
+const committed: DebitQS = { originalAmount: 10, debits: [debit("a", 1), debit("b", 2)], ledgerHead: "123456789" };
+
+describe("ledger head in ?d=", () => {
+  it("round-trips through the URL encoding and drops malformed heads", () => {
+    expect(decodeDebitsQS(encodeDebitsQS(committed))).toEqual(committed);
+    const bad = decodeDebitsQS(encodeDebitsQS({ ...committed, ledgerHead: "0xnope" }));
+    expect(bad?.ledgerHead).toBeUndefined();
+  });
+
+  it("survives merges that leave the debit set unchanged", () => {
+    const sameSet = { originalAmount: 10, debits: [debit("b", 2), debit("a", 1)] };
+    expect(mergeDebitQS(sameSet, committed).ledgerHead).toBe("123456789");
+    expect(mergeDebitQS(committed, null).ledgerHead).toBe("123456789");
+  });
+
+  it("is dropped once the merged ledger has another debit", () => {
+    const newer = { originalAmount: 10, debits: [debit("a", 1), debit("b", 2), debit("c", 3)] };
+    const merged = mergeDebitQS(newer, committed);
+    expect(merged.debits).toHaveLength(3);
+    expect(merged.ledgerHead).toBeUndefined();
+  });
+
+  it("counts towards ledger equality", () => {
+    expect(debitQSEqual(committed, { ...committed, ledgerHead: undefined })).toBe(false);
+    expect(debitQSEqual(committed, { ...committed })).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decodeMoment, msToPulse } from "../../lib/kai-klok-core";
+import {
+  KAIROS_NOTES_KEY,
+  dayNotesKey,
+  icsToNotes,
+  mergeImportedNotes,
+  notesToIcs,
+  type KairosIcsEvent,
+} from "../kairosIcs";
+
+const note = (pulse: number, text = `note ${pulse}`): KairosIcsEvent => {
+  const { beat, step } = decodeMoment(pulse);
+  return { id: `n-${pulse}`, text, pulse, beat, step };
+};
+
+/** Pulses on step boundaries (the case a truncated DTSTART used to shift) plus a few arbitrary ones. */
+const PULSES = [0, 1, 11, 484, 6381211, 6381212, 21496768, ...Array.from({ length: 40 }, (_, i) => 7_000_000 + i * 11)];
+
+/** The export as another calendar might hand it back: unfolded, X-KAI-* properties dropped. */
+const stripKai = (ics: string) =>
+  ics
+    .replace(/\r\n[ \t]/g, "")
+    .split("\r\n")
+    .filter((line) => !line.startsWith("X-KAI-"))
+    .join("\r\n");
+
+describe("ICS round-trip", () => {
+  it("restores notes exactly from X-KAI-* properties", () => {
+    const notes = PULSES.map((p) => note(p, `line one, with; escapes\nline ${p}`));
+    const back = icsToNotes(notesToIcs(notes));
+    expect(back.map(({ id, text, pulse, beat, step }) => ({ id, text, pulse, beat, step }))).toEqual(notes);
+  });
+
+  it("maps DTSTART back to the same pulse when X-KAI-* is dropped", () => {
+    const notes = PULSES.map((p) => note(p));
+    const back = icsToNotes(stripKai(notesToIcs(notes)));
+    expect(back.map((n) => [n.pulse, n.beat, n.step])).toEqual(notes.map((n) => [n.pulse, n.beat, n.step]));
+  });
+
+  it("exports whole-second DTSTART/DTEND inside the note's pulse and the next", () => {
+    const ics = stripKai(notesToIcs([note(6381211)]));
+    const utc = (name: string) => {
+      const m = new RegExp(`^${name}:(\\d{4})(\\d{2})(\\d{2})T(\\d{2})(\\d{2})(\\d{2})Z$`, "m").exec(ics)!;
+      return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
+    };
+    expect(msToPulse(utc("DTSTART"))).toBe(6381211);
+    expect(msToPulse(utc("DTEND"))).toBe(6381212);
+  });
+});
+
+describe("mergeImportedNotes", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  /** Minimal Storage whose keys are enumerable, like the browser's. */
+  function memoryStorage(): Storage {
+    const storage = {} as Record<string, string>;
+    const methods: Partial<Storage> = {
+      getItem: (k: string) => (Object.prototype.hasOwnProperty.call(storage, k) ? storage[k] : null),
+      setItem: (k: string, v: string) => void (storage[k] = String(v)),
+      removeItem: (k: string) => void delete storage[k],
+    };
+    for (const [name, fn] of Object.entries(methods)) Object.defineProperty(storage, name, { value: fn, enumerable: false });
+    return storage as unknown as Storage;
+  }
+
+  it("skips notes already stored by id or by pulse and text, and files day notes under their day", () => {
+    const storage = memoryStorage();
+    vi.stubGlobal("localStorage", storage);
+    storage.setItem(KAIROS_NOTES_KEY, JSON.stringify([note(100, "kept")]));
+
+    const dayKey = dayNotesKey(17_491);
+    const dayStart = dayKey.slice(dayKey.lastIndexOf("_") + 1);
+    const incoming = [
+      note(100, "kept"),
+      { ...note(200, "other"), id: "n-100" },
+      note(300, "new"),
+      { ...note(400, "day note"), id: `day-${dayStart}-2-3`, beat: 2, step: 3 },
+    ];
+    const dock = mergeImportedNotes(incoming);
+    expect(dock.map((n) => n.text)).toEqual(["new"]);
+    expect(JSON.parse(storage.getItem(dayKey)!)).toEqual([{ beat: 2, step: 3, text: "day note" }]);
+
+    // Importing again adds nothing to the day store (saving the dock is the caller's job)
+    mergeImportedNotes(incoming);
+    expect(JSON.parse(storage.getItem(dayKey)!)).toHaveLength(1);
+  });
+});
@@ -25,7 +25,9 @@
  *    This prevents stale or future ledgers from bleeding across links.
  *  - **Merge is idempotent + commutative:** We de-dupe by `nonce` and sort by `timestamp`
  *    to keep deterministic ordering. Original amount is taken from the first truthy value.
- *  - **Transport format:** `?d=` carries `{ originalAmount, debits[] }` as base64url(JSON).
+ *  - **Transport format:** `?d=` carries `{ originalAmount, debits[], ledgerHead? }` as base64url(JSON).
+ *  - **Ledger head:** the owner's salted commitment to the exact ledger it rides with (balance
+ *    proofs open it). Any change to the debit set drops it; the owner re-commits.
  *  - **Fanout:** We broadcast *only* after local state is written to URL + storage so a
  *    reloader can hydrate from either source.
  *
@@ -64,6 +66,7 @@ export type DebitRecord = {
   export type DebitQS = {
     originalAmount?: number;
     debits?: DebitRecord[];
+    ledgerHead?: string;       // owner's commitment to this ledger (decimal field element)
   };
   
   /** Broadcast channel used for inter-tab ledger sync. */
@@ -112,6 +115,7 @@ export type DebitRecord = {
             ? data.originalAmount
             : null,
         debits: Array.isArray(data.debits) ? data.debits : [],
+        ...(typeof data.ledgerHead === "string" ? { ledgerHead: data.ledgerHead } : {}),
       };
       return b64urlEncodeUtf8(JSON.stringify(payload));
     } catch {
@@ -155,6 +159,8 @@ export type DebitRecord = {
         for (const it of p.debits) if (isDebitRecord(it)) debits.push(it);
         if (debits.length) out.debits = debits;
       }
+
+      if (typeof p.ledgerHead === "string" && /^\d+$/.test(p.ledgerHead)) out.ledgerHead = p.ledgerHead;
       return out;
     } catch {
       return null;
@@ -225,6 +231,23 @@ export type DebitRecord = {
     return out.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
   }
   
+  /** Same debit set (by nonce). */
+  function sameDebitSet(x: ReadonlyArray<DebitRecord> | undefined, y: ReadonlyArray<DebitRecord> | undefined): boolean {
+    const nx = new Set((x ?? []).map((d) => d?.nonce));
+    const ny = new Set((y ?? []).map((d) => d?.nonce));
+    if (nx.size !== ny.size) return false;
+    for (const n of nx) if (!ny.has(n)) return false;
+    return true;
+  }
+
+  /** Ledger head still valid for `debits`: one from a source whose debit set it equals, else none. */
+  export function keptLedgerHead(
+    sources: ReadonlyArray<DebitQS | null>,
+    debits: ReadonlyArray<DebitRecord> | undefined
+  ): string | undefined {
+    return sources.find((s) => typeof s?.ledgerHead === "string" && sameDebitSet(s.debits, debits))?.ledgerHead;
+  }
+
   /** Merge two sources with idempotent semantics. */
   export function mergeDebitQS(a: DebitQS | null, b: DebitQS | null): DebitQS {
     const out: DebitQS = {};
@@ -238,6 +261,8 @@ export type DebitRecord = {
     const listB = Array.isArray(b?.debits) ? b!.debits! : [];
     const merged = uniqByNonce([...listA, ...listB]);
     if (merged.length) out.debits = merged;
+    const head = keptLedgerHead([a, b], out.debits);
+    if (head) out.ledgerHead = head;
     return out;
   }
   
@@ -256,7 +281,7 @@ export type DebitRecord = {
   
     const nx = new Set((Array.isArray(x?.debits) ? x!.debits! : []).map((d) => d?.nonce));
     const ny = new Set((Array.isArray(y?.debits) ? y!.debits! : []).map((d) => d?.nonce));
-    if (!amtEq || nx.size !== ny.size) return false;
+    if (!amtEq || nx.size !== ny.size || x?.ledgerHead !== y?.ledgerHead) return false;
     for (const n of nx) if (!ny.has(n)) return false;
     return true;
   }
@@ -13,13 +13,14 @@
 
 import { blake3 } from "@noble/hashes/blake3";
 import { bytesToHex } from "@noble/hashes/utils";
+import { GENESIS_TS as CORE_GENESIS_TS, msToPulse } from "../lib/kai-klok-core";
 
 ////////////////////////////////////////////////////////////////////////////////
 // ░░  CONSTANTS  ░░
 ////////////////////////////////////////////////////////////////////////////////
 
 /** Genesis Breath — the harmonic epoch. */
-export const GENESIS_TS = Date.UTC(2024, 4, 10, 6, 45, 41, 888);
+export const GENESIS_TS: number = CORE_GENESIS_TS;
 
 /** One Kai-Pulse = 5 .236 s (φ² ÷ 10). */
 export const PULSE_MS = (3 + Math.sqrt(5)) * 1000;
@@ -31,9 +32,9 @@ export const SYSTEM_INTENTION = "Enter my portal";
 // ░░  PULSE LOGIC  ░░
 ////////////////////////////////////////////////////////////////////////////////
 
-/** Returns the current Kai-Pulse number since Genesis. */
+/** Returns the current Kai-Pulse number since Genesis (φ-exact μpulse bridge). */
 export const getCurrentKaiPulse = (now: number = Date.now()): number =>
-  Math.floor((now - GENESIS_TS) / PULSE_MS);
+  msToPulse(now);
 
 ////////////////////////////////////////////////////////////////////////////////
 // ░░  INTERNAL HELPERS  ░░
@@ -82,6 +83,19 @@ const getPoseidon = async (): Promise<PoseidonFn> => {
     return poseidonFn;
   }
 
+  // Shape 5: arity-specific exports  poseidon1 … poseidon16 (poseidon-lite ≥ 0.2)
+  const arity = (n: number): unknown =>
+    (mod as Record<string, unknown>)[`poseidon${n}`] ??
+    ((mod as { default?: Record<string, unknown> }).default ?? {})[`poseidon${n}`];
+  if (isPoseidon(arity(2))) {
+    poseidonFn = (inputs) => {
+      const fn = arity(inputs.length);
+      if (!isPoseidon(fn)) throw new Error(`poseidon-lite: no poseidon${inputs.length} export`);
+      return fn(inputs);
+    };
+    return poseidonFn;
+  }
+
   throw new Error("poseidon-lite: no callable Poseidon export found");
 };
 
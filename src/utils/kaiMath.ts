@@ -1,11 +1,22 @@
 // src/utils/kaiMath.ts
 import { PULSES_STEP } from "./kai_pulse";
+import { MICRO_PER_PULSE, durationToMicroPulses, type KaiDuration } from "../lib/kai-klok-core";
+
+/** Whole pulses spanned by a non-negative Kairos duration (rounded down). */
+export function durationToPulses(d: KaiDuration) {
+  const pμ = durationToMicroPulses(d);
+  return pμ > 0n ? Number(pμ / MICRO_PER_PULSE) : 0;
+}
 
 export function stepsToPulses(steps: number) {
-  return Math.max(0, Math.floor(steps)) * PULSES_STEP;
+  return durationToPulses({ steps: Math.max(0, Math.floor(steps)) });
 }
 export function breathsToPulses(breaths: number) {
-  return Math.max(0, Math.floor(breaths));
+  return durationToPulses({ pulses: Math.max(0, Math.floor(breaths)) });
+}
+/** Claim-window length for a SigilPage expiry unit ("breaths" are pulses). */
+export function expiryToPulses(unit: "breaths" | "steps", amount: number) {
+  return unit === "breaths" ? breathsToPulses(amount) : stepsToPulses(amount);
 }
 
 export function stepIndexFromPulse(pulse: number, stepsPerBeat: number) {
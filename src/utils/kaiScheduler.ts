@@ -0,0 +1,229 @@
+// src/utils/kaiScheduler.ts
+// Shared, boundary-locked Kai scheduler — one alarm per page for every live view.
+//
+// • Boundary math stays on the main thread with the φ-exact μpulse bridge
+//   (`msToMicroPulse` / `msAtMicroPulse`), so every subscriber — and every open
+//   page — agrees on the same pulse at the same millisecond.
+// • A tiny inline Worker is only the alarm clock: worker timers keep firing in
+//   background tabs where main-thread timers are throttled. Falls back to
+//   `setTimeout` when Workers are unavailable.
+// • Sleep / hidden tabs: each alarm and every visibilitychange / pageshow /
+//   focus / online / resume re-reads the clock and emits one catch-up event
+//   per kind (with `skipped` pulses) instead of replaying every missed pulse.
+// • Starts with the first subscriber, stops when the last one leaves.
+
+import {
+  MICRO_PER_PULSE,
+  calendarFromMicroPulse,
+  decodeMicroPulse,
+  floorDivBig,
+  msAtMicroPulse,
+  msToMicroPulse,
+  type KaiMoment,
+} from "../lib/kai-klok-core";
+
+// ─────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────
+export type KaiBoundaryKind = "pulse" | "step" | "beat" | "day";
+
+export type KaiBoundaryEvent = {
+  kind: KaiBoundaryKind;
+  pulse: number;           // pulse now in progress
+  atMs: number;            // epoch ms of that pulse's first millisecond
+  moment: KaiMoment;       // decoded lattice position of `pulse`
+  day: number;             // absolute eternal day index
+  skipped: number;         // whole pulses passed unseen (sleep / hidden tab); 0 on time
+  reason: "tick" | "resync";
+};
+
+export type KaiBoundaryListener = (event: KaiBoundaryEvent) => void;
+
+export const KAI_BOUNDARY_KINDS: readonly KaiBoundaryKind[] = ["pulse", "step", "beat", "day"];
+
+// ─────────────────────────────────────────────────────────────
+// STATE (module singleton)
+// ─────────────────────────────────────────────────────────────
+type Position = { pulse: bigint; day: number; beat: number; step: number };
+
+const listeners = new Map<KaiBoundaryListener, ReadonlySet<KaiBoundaryKind>>();
+let last: Position | null = null;
+let nextAtMs = 0;
+
+let worker: Worker | null = null;
+let workerUrl: string | null = null;
+let fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+
+const positionAt = (ms: number): Position => {
+  const pμ = msToMicroPulse(ms);
+  const pulse = floorDivBig(pμ, MICRO_PER_PULSE);
+  const m = decodeMicroPulse(pulse * MICRO_PER_PULSE);
+  return { pulse, day: calendarFromMicroPulse(pμ).day, beat: m.beat, step: m.step };
+};
+
+const pulseStartMs = (pulse: bigint): number => msAtMicroPulse(pulse * MICRO_PER_PULSE);
+
+// ─────────────────────────────────────────────────────────────
+// ALARM (worker with setTimeout fallback)
+// ─────────────────────────────────────────────────────────────
+const WORKER_SOURCE = `
+let t = null;
+onmessage = (e) => {
+  if (t !== null) clearTimeout(t);
+  t = null;
+  const at = e.data && e.data.at;
+  if (typeof at !== "number") return;
+  t = setTimeout(() => { t = null; postMessage(Date.now()); }, Math.max(0, at - Date.now()));
+};
+`;
+
+function startAlarm(): void {
+  if (worker || typeof Worker === "undefined" || typeof Blob === "undefined") return;
+  try {
+    workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "application/javascript" }));
+    worker = new Worker(workerUrl);
+    worker.onmessage = () => tick("tick");
+    worker.onerror = () => {
+      stopAlarm();
+      arm(); // continue on the main-thread fallback
+    };
+  } catch {
+    stopAlarm(); // CSP / sandbox: main-thread fallback
+  }
+}
+
+function stopAlarm(): void {
+  worker?.terminate();
+  worker = null;
+  if (workerUrl) URL.revokeObjectURL(workerUrl);
+  workerUrl = null;
+  if (fallbackTimer !== null) clearTimeout(fallbackTimer);
+  fallbackTimer = null;
+}
+
+/** Set the alarm for the next pulse boundary. */
+function arm(): void {
+  if (!last) return;
+  nextAtMs = pulseStartMs(last.pulse + 1n);
+  if (worker) {
+    worker.postMessage({ at: nextAtMs });
+    return;
+  }
+  if (fallbackTimer !== null) clearTimeout(fallbackTimer);
+  fallbackTimer = setTimeout(() => {
+    fallbackTimer = null;
+    tick("tick");
+  }, Math.max(0, nextAtMs - Date.now()));
+}
+
+// ─────────────────────────────────────────────────────────────
+// EMIT
+// ─────────────────────────────────────────────────────────────
+function tick(reason: KaiBoundaryEvent["reason"]): void {
+  if (!last) return;
+  const now = positionAt(Date.now());
+  if (now.pulse === last.pulse) {
+    arm(); // woke a hair early (or a resync within the same pulse)
+    return;
+  }
+
+  const prev = last;
+  last = now;
+  arm();
+
+  const changed = new Set<KaiBoundaryKind>(["pulse"]);
+  if (now.day !== prev.day) changed.add("day");
+  if (now.day !== prev.day || now.beat !== prev.beat) changed.add("beat");
+  if (changed.has("beat") || now.step !== prev.step) changed.add("step");
+
+  const moment = decodeMicroPulse(now.pulse * MICRO_PER_PULSE);
+  const base = {
+    pulse: Number(now.pulse),
+    atMs: pulseStartMs(now.pulse),
+    moment,
+    day: now.day,
+    skipped: Math.max(0, Number(now.pulse - prev.pulse) - 1),
+    reason,
+  };
+
+  for (const kind of KAI_BOUNDARY_KINDS) {
+    if (!changed.has(kind)) continue;
+    const event: KaiBoundaryEvent = { kind, ...base };
+    for (const [listener, kinds] of [...listeners]) {
+      if (!kinds.has(kind) || !listeners.has(listener)) continue;
+      try {
+        listener(event);
+      } catch (err) {
+        console.error("[kaiScheduler] listener failed", err);
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// LIFECYCLE (sleep / visibility recovery)
+// ─────────────────────────────────────────────────────────────
+const resync = () => {
+  if (typeof document !== "undefined" && document.visibilityState === "hidden") return;
+  tick("resync");
+};
+
+const WAKE_EVENTS = ["pageshow", "focus", "online"] as const;
+
+function start(): void {
+  last = positionAt(Date.now());
+  startAlarm();
+  arm();
+  if (typeof window !== "undefined") {
+    for (const ev of WAKE_EVENTS) window.addEventListener(ev, resync, { passive: true });
+  }
+  if (typeof document !== "undefined") {
+    document.addEventListener("visibilitychange", resync, { passive: true });
+    document.addEventListener("resume", resync, { passive: true });
+  }
+}
+
+function stop(): void {
+  stopAlarm();
+  last = null;
+  if (typeof window !== "undefined") {
+    for (const ev of WAKE_EVENTS) window.removeEventListener(ev, resync);
+  }
+  if (typeof document !== "undefined") {
+    document.removeEventListener("visibilitychange", resync);
+    document.removeEventListener("resume", resync);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// PUBLIC API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Call `listener` at every boundary of the given kind(s). Returns an unsubscribe
+ * function. The first subscriber starts the shared alarm; the last one stops it.
+ */
+export function subscribeKaiBoundary(
+  kinds: KaiBoundaryKind | readonly KaiBoundaryKind[],
+  listener: KaiBoundaryListener,
+): () => void {
+  const set = new Set<KaiBoundaryKind>(typeof kinds === "string" ? [kinds] : kinds);
+  const first = listeners.size === 0;
+  listeners.set(listener, set);
+  if (first) start();
+  return () => {
+    if (!listeners.delete(listener)) return;
+    if (listeners.size === 0) stop();
+  };
+}
+
+/** Epoch ms at which the next pulse begins (exact bridge; works with or without subscribers). */
+export function nextKaiPulseAtMs(nowMs: number = Date.now()): number {
+  if (last && nowMs < nextAtMs && nowMs >= nextAtMs - 60_000) return nextAtMs;
+  return pulseStartMs(floorDivBig(msToMicroPulse(nowMs), MICRO_PER_PULSE) + 1n);
+}
+
+/** Milliseconds until the next pulse boundary (0 < result ≤ one pulse). */
+export function msToNextKaiPulse(nowMs: number = Date.now()): number {
+  return Math.max(0, nextKaiPulseAtMs(nowMs) - nowMs);
+}
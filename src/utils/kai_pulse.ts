@@ -55,7 +55,12 @@ const INV_Tx1000_NUM = BigInt("1909830056250525758977065828171809411398454100971
 const INV_Tx1000_DEN = 10n ** 60n;
 
 // Public API (optional server path when available).
-export const API_URL = "https://klock.kaiturah.com/kai" as const;
+// Base URL is configurable at build time (VITE_KAI_API_URL, e.g. a self-hosted
+// `npm run serve:api` instance); the default is the public Kai-Klok server.
+export const KAI_API_BASE: string = (
+  import.meta.env?.VITE_KAI_API_URL || "https://klock.kaiturah.com"
+).replace(/\/+$/, "");
+export const API_URL = `${KAI_API_BASE}/kai`;
 
 // ─────────────────────────────────────────────────────────────
 // TYPES
@@ -164,7 +169,10 @@ const chakraForWeekdayIndex = (idx: number): { weekday: Weekday; chakraDay: Chak
 //   - No reliance on JS Date for strings
 //   - Unlimited range (BigInt ms since Unix epoch)
 // ─────────────────────────────────────────────────────────────
-const MS_PER_DAY_BI  = 91_584_000n;
+// Gregorian civil day (ISO parser + UTC day index only). This was 91_584_000n (a harmonic-day
+// length), which placed every parsed ISO date 5,184 s late per day since 1970 and skewed the
+// previous-day lookup for Greenwich sunrise; Kai day math never reads this constant.
+const MS_PER_DAY_BI  = 86_400_000n;
 const MS_PER_HOUR_BI = 3_600_000n;
 const MS_PER_MIN_BI  = 60_000n;
 const MS_PER_SEC_BI  = 1_000n;
@@ -187,7 +195,8 @@ function daysFromCivilBI(year: bigint, month: bigint, day: bigint): bigint {
   return era * 146097n + doe - 719468n;                             // 719468: 0000-03-01 → 1970-01-01
 }
 
-function parseSignedIsoToEpochMs(iso: string): bigint {
+/** ISO-8601 (incl. signed/extended years) → Unix ms; falls back to `Date` parsing. */
+export function parseSignedIsoToEpochMs(iso: string): bigint {
   const m = SIGNED_ISO.exec(iso);
   if (!m) {
     const d = new Date(iso);
@@ -257,6 +266,12 @@ export function epochMsFromPulse(pulse: number | bigint): bigint {
   return BigInt(GENESIS_TS) + deltaMs;
 }
 
+/** Convert integer μpulses since Genesis → Unix ms (φ-exact, ties-to-even to the ms). */
+export function epochMsFromMicroPulses(pμ: bigint): bigint {
+  const deltaMs = mulDivRoundHalfEven(pμ, T_MS_NUM, T_MS_DEN * 1_000_000n);
+  return BigInt(GENESIS_TS) + deltaMs;
+}
+
 /** Indexing on the semantic lattice from μpulses (integers only). */
 export function latticeFromMicroPulses(pμ: bigint): {
   beat: number;
@@ -466,12 +481,8 @@ function julianNoonApprox(J: number, lonDeg: number): number {
   return 2451545.0009 + Lw * RAD2DAY + n;
 }
 
-/** NOAA sunrise equation (with standard refraction h0 = -0.833°). */
-function sunriseJulianForDate(y: number, m: number, d: number, latDeg = GREENWICH_LAT, lonDeg = GREENWICH_LON): number {
-  // Julian day at 00:00 UTC for Y-M-D
-  const J0 = toJulianDay(Date.UTC(y, m - 1, d));
-  const Jnoon = julianNoonApprox(J0, lonDeg);
-
+/** Solar transit (Julian) and cos(ω₀) at sunrise altitude h0 = -0.833° for a noon estimate. */
+function solarTransitJulian(Jnoon: number, latDeg: number): { Jtransit: number; cosOmega0: number } {
   const Mdeg = 357.5291 + 0.98560028 * (Jnoon - 2451545);
   const Mrad = Mdeg * DEG2RAD;
 
@@ -485,13 +496,55 @@ function sunriseJulianForDate(y: number, m: number, d: number, latDeg = GREENWIC
 
   const phi = latDeg * DEG2RAD;
   const h0 = -0.833 * DEG2RAD; // sunrise altitude (deg) incl. refraction
-  const cos_omega0 = (Math.sin(h0) - Math.sin(phi) * Math.sin(delta)) / (Math.cos(phi) * Math.cos(delta));
-  const omega0 = Math.acos(clamp(cos_omega0, -1, 1)); // hour angle at sunrise
+  const cosOmega0 = (Math.sin(h0) - Math.sin(phi) * Math.sin(delta)) / (Math.cos(phi) * Math.cos(delta));
+  return { Jtransit, cosOmega0 };
+}
+
+/** NOAA sunrise equation (with standard refraction h0 = -0.833°). */
+function sunriseJulianForDate(y: number, m: number, d: number, latDeg = GREENWICH_LAT, lonDeg = GREENWICH_LON): number {
+  // Julian day at 00:00 UTC for Y-M-D
+  const J0 = toJulianDay(Date.UTC(y, m - 1, d));
+  const { Jtransit, cosOmega0 } = solarTransitJulian(julianNoonApprox(J0, lonDeg), latDeg);
+  const omega0 = Math.acos(clamp(cosOmega0, -1, 1)); // hour angle at sunrise
 
   const Jrise = Jtransit - omega0 * RAD2DAY; // sunrise
   return Jrise;
 }
 
+export type SunriseKind = "rise" | "polar-day" | "polar-night";
+
+/** Sun events for one local solar day (Unix ms, UTC). */
+export type SunEvents = {
+  kind: SunriseKind;
+  sunriseMs: number | null; // null when the sun never crosses the horizon
+  sunsetMs: number | null;
+  transitMs: number;        // solar noon
+};
+
+/**
+ * Sunrise / sunset / solar noon at any latitude & longitude for the solar day whose
+ * noon falls nearest to local mean noon on the given UTC calendar date.
+ * Polar day (sun never sets) and polar night (sun never rises) report `kind` and null times.
+ */
+export function sunEventsForDate(y: number, m: number, d: number, latDeg: number, lonDeg: number): SunEvents {
+  const J0 = toJulianDay(Date.UTC(y, m - 1, d));
+  // Local mean noon for this date (east longitudes reach noon before 12:00 UTC).
+  const Jnoon = J0 + 0.5 - lonDeg / 360;
+  const { Jtransit, cosOmega0 } = solarTransitJulian(Jnoon, latDeg);
+  const transitMs = fromJulianDay(Jtransit);
+
+  if (cosOmega0 > 1) return { kind: "polar-night", sunriseMs: null, sunsetMs: null, transitMs };
+  if (cosOmega0 < -1) return { kind: "polar-day", sunriseMs: null, sunsetMs: null, transitMs };
+
+  const omega0 = Math.acos(cosOmega0);
+  return {
+    kind: "rise",
+    sunriseMs: fromJulianDay(Jtransit - omega0 * RAD2DAY),
+    sunsetMs: fromJulianDay(Jtransit + omega0 * RAD2DAY),
+    transitMs,
+  };
+}
+
 /** Unix ms (BigInt) at Greenwich sunrise for the date carrying msUTC's UTC calendar.
  * Memoized by "YYYY-MM-DD".
  */
@@ -538,7 +591,7 @@ const ARC_DESC: Record<(typeof ARC_NAMES)[number], string> = {
   "Dream Ark": "Divine memory, lucid integration, dreaming awake",
 };
 
-const MONTHS = [
+export const MONTHS = [
   { name: "Aethon",  desc: "Resurrection fire: Root awakening" },
   { name: "Virelai", desc: "Waters of becoming: Emotional emergence" },
   { name: "Solari",  desc: "Solar ignition: Radiant embodiment" },
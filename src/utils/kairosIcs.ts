@@ -0,0 +1,343 @@
+// src/utils/kairosIcs.ts
+// iCalendar (.ics) bridge for Kairos notes.
+//
+// Export: every note becomes a VEVENT whose DTSTART/DTEND are the first whole UTC
+// seconds inside its pulse and the next one (via `epochMsFromPulse`) and which carries the exact Kai coordinates as
+// X-KAI-PULSE / X-KAI-BEAT / X-KAI-STEP (plus X-KAI-RRULE for repeating notes).
+// Import: X-KAI-PULSE wins when present; otherwise DTSTART is mapped onto the
+// pulse that contains it, so events authored in Gregorian calendars land too.
+// X-KAI-BEAT / X-KAI-STEP are kept as exported, so notes round-trip exactly.
+
+import { epochMsFromPulse } from "./kai_pulse";
+import {
+  KAIROS_PATTERNS,
+  MICRO_PER_PULSE,
+  N_DAY_MICRO,
+  dayStartPulse,
+  decodeMoment,
+  formatKairos,
+  msToPulse,
+} from "../lib/kai-klok-core";
+
+// ─────────────────────────────────────────────────────────────
+// Storage (shared with WeekKalendarModal / DayDetailModal)
+// ─────────────────────────────────────────────────────────────
+export const KAIROS_NOTES_KEY = "kairosNotes";   // Week modal dock (absolute pulses)
+export const DAY_NOTES_PREFIX = "kai_notes_";    // DayDetailModal, one key per day: dayStartPulse(dayIndex)
+
+const DAY_PULSES = Number(N_DAY_MICRO) / Number(MICRO_PER_PULSE);
+const BEAT_PULSES = DAY_PULSES / 36;
+
+/** Beat:Step inside a DayDetailModal day → absolute pulse (the modal's own mapping). */
+export const dayNotePulse = (dayStartPulse: number, beat: number, step: number): number =>
+  Math.floor(dayStartPulse + Math.floor(BEAT_PULSES * beat) + step * 11);
+
+export type KairosIcsEvent = {
+  id: string;
+  text: string;
+  pulse: number;
+  beat: number;
+  step: number;
+  repeat?: string;     // serialized KaiRecurrence
+  createdAt?: number;  // Unix ms
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+const finite = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function readJsonArray(key: string): unknown[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Storage key for a day's notes; any start pulse inside the day (legacy fractional keys too) maps to the same key. */
+export const dayNotesKey = (dayStart: number): string =>
+  `${DAY_NOTES_PREFIX}${dayStartPulse(Math.round(dayStart / DAY_PULSES))}`;
+
+/** Fold notes saved under older fractional day keys (`day × 17491.27…`) into their integer day key. */
+export function migrateLegacyDayNotes(): void {
+  try {
+    for (const key of Object.keys(localStorage)) {
+      if (!key.startsWith(DAY_NOTES_PREFIX)) continue;
+      const dayStart = Number(key.slice(DAY_NOTES_PREFIX.length));
+      if (!Number.isFinite(dayStart)) continue;
+      const target = dayNotesKey(dayStart);
+      if (target === key) continue;
+      localStorage.setItem(target, JSON.stringify([...readJsonArray(target), ...readJsonArray(key)]));
+      localStorage.removeItem(key);
+    }
+  } catch {
+    /* storage unavailable */
+  }
+}
+
+/** Every stored note: the Week dock plus each DayDetailModal day. */
+export function collectStoredNotes(): KairosIcsEvent[] {
+  migrateLegacyDayNotes();
+  const out: KairosIcsEvent[] = [];
+  for (const item of readJsonArray(KAIROS_NOTES_KEY)) {
+    if (!isRecord(item) || typeof item.id !== "string" || typeof item.text !== "string" || !finite(item.pulse)) {
+      continue;
+    }
+    const { beat, step } = decodeMoment(item.pulse);
+    out.push({
+      id: item.id,
+      text: item.text,
+      pulse: item.pulse,
+      beat: finite(item.beat) ? item.beat : beat,
+      step: finite(item.step) ? item.step : step,
+      ...(typeof item.repeat === "string" && item.repeat ? { repeat: item.repeat } : {}),
+      ...(finite(item.createdAt) ? { createdAt: item.createdAt } : {}),
+    });
+  }
+
+  let keys: string[] = [];
+  try {
+    keys = Object.keys(localStorage).filter((k) => k.startsWith(DAY_NOTES_PREFIX));
+  } catch {
+    /* storage unavailable */
+  }
+  for (const key of keys) {
+    const dayStart = Number(key.slice(DAY_NOTES_PREFIX.length));
+    if (!Number.isFinite(dayStart)) continue;
+    for (const item of readJsonArray(key)) {
+      if (!isRecord(item) || !finite(item.beat) || !finite(item.step) || typeof item.text !== "string") continue;
+      out.push({
+        id: `day-${dayStart}-${item.beat}-${item.step}`,
+        text: item.text,
+        pulse: dayNotePulse(dayStart, item.beat, item.step),
+        beat: item.beat,
+        step: item.step,
+      });
+    }
+  }
+  return out;
+}
+
+const DAY_NOTE_ID = /^day-(\d+(?:\.\d+)?)-(\d+)-(\d+)$/;
+
+/**
+ * Store imported notes without duplicating what is already kept anywhere.
+ * Notes exported from a DayDetailModal day (`day-<start>-<beat>-<step>`) go back to
+ * that day's store; a note is skipped when its id, or its pulse and text, is already stored.
+ * Returns the remaining notes, which belong in the Week dock.
+ */
+export function mergeImportedNotes(incoming: KairosIcsEvent[]): KairosIcsEvent[] {
+  const stored = collectStoredNotes();
+  const ids = new Set(stored.map((n) => n.id));
+  const moments = new Set(stored.map((n) => `${n.pulse}|${n.text}`));
+  const dock: KairosIcsEvent[] = [];
+
+  for (const raw of incoming) {
+    const day = DAY_NOTE_ID.exec(raw.id);
+    const key = day ? dayNotesKey(Number(day[1])) : null;
+    const note = day && key ? { ...raw, id: `day-${key.slice(DAY_NOTES_PREFIX.length)}-${day[2]}-${day[3]}` } : raw;
+    const moment = `${note.pulse}|${note.text}`;
+    if (ids.has(note.id) || moments.has(moment)) continue;
+    ids.add(note.id);
+    moments.add(moment);
+
+    if (!day || !key) {
+      dock.push(note);
+      continue;
+    }
+    try {
+      localStorage.setItem(
+        key,
+        JSON.stringify([...readJsonArray(key), { beat: Number(day[2]), step: Number(day[3]), text: note.text }]),
+      );
+    } catch {
+      dock.push(note); // storage full — keep the note in the dock rather than lose it
+    }
+  }
+  return dock;
+}
+
+// ─────────────────────────────────────────────────────────────
+// ICS text helpers (RFC 5545)
+// ─────────────────────────────────────────────────────────────
+const UID_DOMAIN = "@kai-klok";
+
+const escapeText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (s: string) =>
+  s.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+
+/** Fold content lines at 75 octets (continuation lines start with a space). */
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let cur = "";
+  let curBytes = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    if (curBytes + n > (parts.length ? 74 : 75)) {
+      parts.push(cur);
+      cur = "";
+      curBytes = 0;
+    }
+    cur += ch;
+    curBytes += n;
+  }
+  parts.push(cur);
+  return parts.join("\r\n ");
+}
+
+/** Unix ms → "YYYYMMDDTHHMMSSZ" (sub-second truncated). */
+const icsUtc = (ms: number | bigint) =>
+  new Date(Number(ms)).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "Z");
+
+/** First whole UTC second inside `pulse` (a pulse lasts ~5.24 s), so the second maps back to it. */
+function pulseSecondMs(pulse: number): number {
+  let ms = Math.ceil(Number(epochMsFromPulse(pulse)) / 1000) * 1000;
+  while (msToPulse(ms) < pulse) ms += 1000; // the pulse start itself is rounded to the ms
+  return ms;
+}
+
+// ─────────────────────────────────────────────────────────────
+// EXPORT
+// ─────────────────────────────────────────────────────────────
+
+/** Serialize notes as an iCalendar document (one VEVENT per note; duplicate ids dropped). */
+export function notesToIcs(notes: KairosIcsEvent[], calendarName = "Kairos Notes"): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Kai-Klok//Kairos Notes//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  const stamp = icsUtc(Date.now());
+  const seen = new Set<string>();
+  for (const n of notes) {
+    if (seen.has(n.id)) continue;
+    seen.add(n.id);
+    const summary = n.text.split(/\r?\n/)[0].trim() || formatKairos(BigInt(n.pulse) * 1_000_000n, KAIROS_PATTERNS.seal);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(n.id)}${UID_DOMAIN}`,
+      `DTSTAMP:${n.createdAt !== undefined ? icsUtc(n.createdAt) : stamp}`,
+      `DTSTART:${icsUtc(pulseSecondMs(n.pulse))}`,
+      `DTEND:${icsUtc(pulseSecondMs(n.pulse + 1))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(n.text)}`,
+      `X-KAI-PULSE:${n.pulse}`,
+      `X-KAI-BEAT:${n.beat}`,
+      `X-KAI-STEP:${n.step}`,
+      `X-KAI-SEAL:${escapeText(formatKairos(BigInt(n.pulse) * 1_000_000n, KAIROS_PATTERNS.calendar))}`,
+    );
+    if (n.repeat) lines.push(`X-KAI-RRULE:${n.repeat}`);
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+// ─────────────────────────────────────────────────────────────
+// IMPORT
+// ─────────────────────────────────────────────────────────────
+type Prop = { name: string; params: Record<string, string>; value: string };
+
+function parseLine(line: string): Prop | null {
+  // NAME;PARAM=V;PARAM="V:x":VALUE — the first ':' outside quotes ends the params.
+  let inQuote = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuote = !inQuote;
+    else if (line[i] === ":" && !inQuote) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * DTSTART → Unix ms. UTC ("…Z") is exact; floating and TZID times are read in the
+ * device's local zone (no tz database offline); VALUE=DATE is local midnight.
+ */
+function dateValueToMs(prop: Prop): number | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(prop.value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h = "0", mi = "0", s = "0", z] = m;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  const ms = z ? Date.UTC(...parts) : new Date(...parts).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/** Parse VEVENTs from an .ics document and map each onto a pulse. */
+export function icsToNotes(ics: string): KairosIcsEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const out: KairosIcsEvent[] = [];
+  let event: Map<string, Prop> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      event = new Map();
+      continue;
+    }
+    if (/^END:VEVENT$/i.test(line)) {
+      if (event) {
+        const note = eventToNote(event, out.length);
+        if (note) out.push(note);
+      }
+      event = null;
+      continue;
+    }
+    const prop = event ? parseLine(line) : null;
+    if (event && prop && !event.has(prop.name)) event.set(prop.name, prop);
+  }
+  return out;
+}
+
+/** Integer X-KAI-BEAT / X-KAI-STEP value in [0, limit), else null. */
+function kaiCoord(prop: Prop | undefined, limit: number): number | null {
+  const raw = prop?.value.trim();
+  if (!raw || !/^\d+$/.test(raw)) return null;
+  const n = Number(raw);
+  return n < limit ? n : null;
+}
+
+function eventToNote(event: Map<string, Prop>, index: number): KairosIcsEvent | null {
+  const kaiPulse = event.get("X-KAI-PULSE")?.value.trim();
+  let pulse: number | null = kaiPulse && /^-?\d+$/.test(kaiPulse) ? Number(kaiPulse) : null;
+  if (pulse === null) {
+    const start = event.get("DTSTART");
+    const ms = start ? dateValueToMs(start) : null;
+    if (ms === null) return null;
+    pulse = msToPulse(ms);
+  }
+
+  const text = unescapeText(event.get("DESCRIPTION")?.value ?? event.get("SUMMARY")?.value ?? "").trim();
+  const uid = unescapeText(event.get("UID")?.value ?? "").trim();
+  // Exported beat/step are authoritative (day notes use their day's own mapping); decode only as a fallback
+  const moment = decodeMoment(pulse);
+  const beat = kaiCoord(event.get("X-KAI-BEAT"), 36) ?? moment.beat;
+  const step = kaiCoord(event.get("X-KAI-STEP"), 44) ?? moment.step;
+  const repeat = event.get("X-KAI-RRULE")?.value.trim();
+  const stamp = event.get("DTSTAMP");
+  const createdAt = stamp ? dateValueToMs(stamp) : null;
+
+  return {
+    id: uid ? (uid.endsWith(UID_DOMAIN) ? uid.slice(0, -UID_DOMAIN.length) : uid) : `ics-${pulse}-${index}`,
+    text,
+    pulse,
+    beat,
+    step,
+    ...(repeat ? { repeat } : {}),
+    ...(createdAt !== null ? { createdAt } : {}),
+  };
+}
@@ -1,3 +1,5 @@
+import { decodeCalendar, getKaiPulse } from "../lib/kai-klok-core";
+
 // 📐 Harmonic Constants
 export const PHI = (1 + Math.sqrt(5)) / 2; // ≈ 1.6180339887
 export const KAI_PULSE_SECONDS = (3 + Math.sqrt(5)) * 1000;
@@ -34,13 +36,9 @@ export function getPhiEpochs(count: number = 9): number[] {
   return epochs;
 }
 
-// 📅 Calculate Kairos Day
+// 📅 Calculate Kairos Day (absolute φ-day index from the core engine)
 export function calculateKairosDay(): number {
-  const nowUnix = Date.now();
-  const secondsSinceGenesis = (nowUnix - GENESIS_PULSE_UNIX) / 1000;
-  const kaiPulses = Math.floor(secondsSinceGenesis / KAI_PULSE_SECONDS);
-  const day = Math.floor(kaiPulses / PULSES_PER_DAY);
-  return day;
+  return decodeCalendar(getKaiPulse()).day;
 }
 
 // 🜂 Sigil from Spiral Ark Harmonic Pattern
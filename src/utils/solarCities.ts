@@ -0,0 +1,67 @@
+// solarCities.ts — offline city table for location-aware sunrise (no geocoding, no network)
+// Coordinates in decimal degrees (north / east positive), rounded to 0.01°.
+
+export type SolarCity = {
+  name: string;
+  lat: number;
+  lon: number;
+};
+
+export const SOLAR_CITIES: readonly SolarCity[] = [
+  // Americas
+  { name: "Anchorage", lat: 61.22, lon: -149.9 },
+  { name: "Utqiaġvik", lat: 71.29, lon: -156.79 },
+  { name: "Vancouver", lat: 49.28, lon: -123.12 },
+  { name: "San Francisco", lat: 37.77, lon: -122.42 },
+  { name: "Los Angeles", lat: 34.05, lon: -118.24 },
+  { name: "Denver", lat: 39.74, lon: -104.99 },
+  { name: "Mexico City", lat: 19.43, lon: -99.13 },
+  { name: "Chicago", lat: 41.88, lon: -87.63 },
+  { name: "Toronto", lat: 43.65, lon: -79.38 },
+  { name: "New York", lat: 40.71, lon: -74.01 },
+  { name: "Miami", lat: 25.76, lon: -80.19 },
+  { name: "Honolulu", lat: 21.31, lon: -157.86 },
+  { name: "Bogotá", lat: 4.71, lon: -74.07 },
+  { name: "Lima", lat: -12.05, lon: -77.04 },
+  { name: "São Paulo", lat: -23.55, lon: -46.63 },
+  { name: "Buenos Aires", lat: -34.6, lon: -58.38 },
+  { name: "Ushuaia", lat: -54.8, lon: -68.3 },
+
+  // Europe
+  { name: "Reykjavík", lat: 64.15, lon: -21.94 },
+  { name: "Longyearbyen", lat: 78.22, lon: 15.65 },
+  { name: "Tromsø", lat: 69.65, lon: 18.96 },
+  { name: "Stockholm", lat: 59.33, lon: 18.07 },
+  { name: "Dublin", lat: 53.35, lon: -6.26 },
+  { name: "London (Greenwich)", lat: 51.48, lon: 0.0 },
+  { name: "Paris", lat: 48.86, lon: 2.35 },
+  { name: "Berlin", lat: 52.52, lon: 13.41 },
+  { name: "Madrid", lat: 40.42, lon: -3.7 },
+  { name: "Rome", lat: 41.9, lon: 12.5 },
+  { name: "Athens", lat: 37.98, lon: 23.73 },
+  { name: "Istanbul", lat: 41.01, lon: 28.98 },
+  { name: "Moscow", lat: 55.76, lon: 37.62 },
+
+  // Africa & Middle East
+  { name: "Cairo", lat: 30.04, lon: 31.24 },
+  { name: "Lagos", lat: 6.52, lon: 3.38 },
+  { name: "Nairobi", lat: -1.29, lon: 36.82 },
+  { name: "Johannesburg", lat: -26.2, lon: 28.05 },
+  { name: "Cape Town", lat: -33.92, lon: 18.42 },
+  { name: "Jerusalem", lat: 31.77, lon: 35.21 },
+  { name: "Dubai", lat: 25.2, lon: 55.27 },
+
+  // Asia & Oceania
+  { name: "Delhi", lat: 28.61, lon: 77.21 },
+  { name: "Mumbai", lat: 19.08, lon: 72.88 },
+  { name: "Bangkok", lat: 13.76, lon: 100.5 },
+  { name: "Singapore", lat: 1.35, lon: 103.82 },
+  { name: "Beijing", lat: 39.9, lon: 116.41 },
+  { name: "Shanghai", lat: 31.23, lon: 121.47 },
+  { name: "Seoul", lat: 37.57, lon: 126.98 },
+  { name: "Tokyo", lat: 35.68, lon: 139.69 },
+  { name: "Perth", lat: -31.95, lon: 115.86 },
+  { name: "Sydney", lat: -33.87, lon: 151.21 },
+  { name: "Auckland", lat: -36.85, lon: 174.76 },
+  { name: "McMurdo Station", lat: -77.85, lon: 166.67 },
+];
@@ -6,7 +6,6 @@ import {
   SOLAR_DAY_NAMES,
   MONTHS,
   HARMONIC_DAY_PULSES,
-  BREATH_SEC,
   getKaiPulseEternal,
   getKaiPulseToday,
   getSolarAlignedCounters,
@@ -14,6 +13,7 @@ import {
   getSunriseOffsetSec,
 } from "../SovereignSolar";
 import { subscribeSunriseOffset } from "./solarSync";
+import { subscribeKaiBoundary } from "./kaiScheduler";
 
 const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
 
@@ -28,12 +28,10 @@ export default function useSovereignSolarClock() {
   const [now, setNow] = useState<Date>(new Date());
   const [tick, setTick] = useState(0); // used to re-eval on external sunrise change
 
-  // φ tick
+  // φ tick — exact pulse boundaries from the shared scheduler
   useEffect(() => {
-    const pulse = () => { setNow(new Date()); };
-    pulse();
-    const id = setInterval(pulse, Math.round(BREATH_SEC * 1000));
-    return () => clearInterval(id);
+    setNow(new Date());
+    return subscribeKaiBoundary("pulse", () => setNow(new Date()));
   }, []);
 
   // react to sunrise changes (from Eternal/controls)
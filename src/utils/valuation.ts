@@ -38,6 +38,9 @@ export interface ZkProof {
   proof: string;          // base64 or hex
   publicInputsHash: string; // Poseidon(algorithm|policyChecksum|inputs|minHead) — hex
   verifierId?: string;    // off-chain or on-chain verifier reference
+  circuit?: string;       // e.g. "sigil-balance-v1"
+  publicSignals?: string[]; // circuit public signals (decimal field elements), when the verifier needs them
+  claim?: { minAvailablePhi: number }; // public statement the proof attests to
 }
 
 export interface SigilMetadataLite {
@@ -0,0 +1,162 @@
+// src/verifier/report.ts
+// Versioned v14 lineage verification report — the one schema every verifier
+// surface renders (VerifierStamper, SigilPage, verifier.html, kai-verify).
+
+export const VERIFY_REPORT_VERSION = 1 as const;
+
+/** error = lineage broken · warning = unprovable here / suspicious · info = informational */
+export type VerifySeverity = "error" | "warning" | "info";
+
+/** Stable issue codes (never renamed; new codes are add-only). */
+export const VERIFY_ISSUE_CODES = {
+  PREV_HEAD_MISMATCH: "error",
+  NONCE_INVALID: "error",
+  SEND_LEAF_MISMATCH: "error",
+  SEND_SIG_INVALID: "error",
+  RECEIVE_LEAF_MISMATCH: "error",
+  RECEIVE_SIG_INVALID: "error",
+  ZK_SEND_STAMP_MISMATCH: "error",
+  ZK_SEND_FAILED: "error",
+  ZK_RECEIVE_STAMP_MISMATCH: "error",
+  ZK_RECEIVE_FAILED: "error",
+  ZK_NULLIFIER_BINDING_MISMATCH: "error",
+  ZK_NULLIFIER_REUSED: "error",
+  ZK_NULLIFIER_OWNER_MISMATCH: "error",
+  ZK_VKEY_NOT_PINNED: "error",
+  MULTISIG_POLICY_INVALID: "error",
+  MULTISIG_POLICY_UNAUTHORIZED: "error",
+  MULTISIG_THRESHOLD_UNMET: "error",
+  MULTISIG_SIG_INVALID: "error",
+  TIMELOCK_TERMS_INVALID: "error",
+  TIMELOCK_RECEIVE_EARLY: "error",
+  ESCROW_RECEIVE_LATE: "error",
+  ESCROW_REFUND_INVALID: "error",
+  KEY_CHAIN_INVALID: "error",
+  KEY_NOT_AUTHORIZED: "error",
+  KEY_REVOKED: "error",
+  ZK_UNAVAILABLE: "warning",
+  ZK_VKEY_UNKNOWN: "warning",
+  MULTISIG_UNKNOWN_SIGNER: "warning",
+  SENDER_PULSE_DECREASED: "warning",
+  PHI_ANCHOR_MISMATCH: "info",
+  PHI_ANCHOR_UNDECODABLE: "info",
+} as const satisfies Record<string, VerifySeverity>;
+
+export type VerifyIssueCode = keyof typeof VERIFY_ISSUE_CODES;
+
+export type VerifyIssue = {
+  code: VerifyIssueCode;
+  severity: VerifySeverity;
+  /** Offending hardened-transfer index, or null for head-level issues */
+  index: number | null;
+  message: string;
+};
+
+/** Per-side ZK outcome; verified null = proof present but no verifier available for its scheme,
+    undefined with vkey "unknown" / "unpinned" = not checked (no trusted verifying key) */
+export type VerifyZkSide = {
+  present: boolean;
+  stampHashOk?: boolean;
+  verified?: boolean | null;
+  /** verifying-key registry outcome */
+  vkey?: "trusted" | "unknown" | "unpinned";
+  vkeyHash?: string;
+  /** nullifier-circuit proofs only */
+  nullifier?: string;
+};
+
+export type VerifyEntry = {
+  index: number;
+  prevHeadOk: boolean;
+  send: {
+    sigOk: boolean;
+    leafOk: boolean | "missing-window";
+    zk?: VerifyZkSide;
+    /** m-of-n entries only: distinct valid policy-signer signatures vs. threshold */
+    multisig?: { threshold: number; valid: number };
+    /** timelocked / escrowed entries only: the signed terms */
+    terms?: { unlockAtPulse?: number; refundAfterPulse?: number };
+  };
+  /** refund = the RECEIVE is the sender reclaiming an expired escrow */
+  receive?: { sigOk: boolean; leafOk: boolean | "missing-window"; zk?: VerifyZkSide; refund?: boolean };
+};
+
+export type VerifyReport = {
+  version: typeof VERIFY_REPORT_VERSION;
+  /** true when no issue has severity "error" */
+  ok: boolean;
+  count: number;
+  issues: VerifyIssue[];
+  entries: VerifyEntry[];
+  zk: { sendVerified: number; receiveVerified: number; unavailable: boolean; unknownVkeys?: number };
+};
+
+const DEFAULT_MESSAGES: Record<VerifyIssueCode, string> = {
+  PREV_HEAD_MISMATCH: "previousHeadRoot does not match the head snapshot",
+  NONCE_INVALID: "nonce invalid (expected 16-byte hex)",
+  SEND_LEAF_MISMATCH: "sender-side leaf hash mismatch",
+  SEND_SIG_INVALID: "send signature invalid",
+  RECEIVE_LEAF_MISMATCH: "receive leaf hash mismatch",
+  RECEIVE_SIG_INVALID: "receive signature invalid",
+  ZK_SEND_STAMP_MISMATCH: "ZK SEND stamp/bundle hash mismatch",
+  ZK_SEND_FAILED: "ZK SEND verification failed",
+  ZK_RECEIVE_STAMP_MISMATCH: "ZK RECEIVE stamp/bundle hash mismatch",
+  ZK_RECEIVE_FAILED: "ZK RECEIVE verification failed",
+  ZK_NULLIFIER_BINDING_MISMATCH: "ZK nullifier proof is not bound to this transfer's pulse, nonce and sigil",
+  ZK_NULLIFIER_REUSED: "ZK nullifier already used earlier in this lineage (replayed proof)",
+  ZK_NULLIFIER_OWNER_MISMATCH: "ZK nullifier proof does not open the sigil's owner commitment",
+  ZK_VKEY_NOT_PINNED: "ZK proof uses a registry verifying key that is not pinned for its circuit",
+  MULTISIG_POLICY_INVALID: "multisig policy is malformed",
+  MULTISIG_POLICY_UNAUTHORIZED: "multisig policy adoption is not signed by the owner key valid at its pulse",
+  MULTISIG_THRESHOLD_UNMET: "SEND lacks the multisig threshold of signer signatures",
+  MULTISIG_SIG_INVALID: "multisig co-signature invalid",
+  TIMELOCK_TERMS_INVALID: "timelock / escrow terms are malformed",
+  TIMELOCK_RECEIVE_EARLY: "received before unlockAtPulse",
+  ESCROW_RECEIVE_LATE: "received at or after refundAfterPulse",
+  ESCROW_REFUND_INVALID: "sender reclaim does not satisfy the escrow terms",
+  KEY_CHAIN_INVALID: "owner key chain statement invalid",
+  KEY_NOT_AUTHORIZED: "signed by a key that is not the owner key at that pulse",
+  KEY_REVOKED: "signed by an owner key revoked at that pulse",
+  MULTISIG_UNKNOWN_SIGNER: "SEND carries a signature from a key outside the multisig policy",
+  ZK_UNAVAILABLE: "ZK proof present but no verifier available for its proof scheme",
+  ZK_VKEY_UNKNOWN: "ZK proof uses a verifying key outside the local registry (not verified)",
+  SENDER_PULSE_DECREASED: "senderKaiPulse decreased",
+  PHI_ANCHOR_MISMATCH: "Φ anchor does not derive from creatorPublicKey",
+  PHI_ANCHOR_UNDECODABLE: "creatorPublicKey could not be decoded for the Φ anchor",
+};
+
+/** Build an issue with its canonical severity (severity is never chosen ad hoc). */
+export function verifyIssue(code: VerifyIssueCode, index: number | null, message?: string): VerifyIssue {
+  return { code, severity: VERIFY_ISSUE_CODES[code], index, message: message ?? DEFAULT_MESSAGES[code] };
+}
+
+export function isZkIssue(issue: VerifyIssue): boolean {
+  return issue.code.startsWith("ZK_");
+}
+
+/** Where an issue points, as shown to people (transfers are numbered from #1). */
+export function verifyIssueLocation(issue: VerifyIssue): string {
+  return issue.index === null ? "head" : `transfer #${issue.index + 1}`;
+}
+
+/** One-line rendering: "error SEND_SIG_INVALID transfer #3 — send signature invalid". */
+export function formatVerifyIssue(issue: VerifyIssue): string {
+  const at = verifyIssueLocation(issue);
+  return `${issue.severity} ${issue.code} ${at} — ${issue.message}`;
+}
+
+/** Short headline for badges and status lines. */
+export function summarizeVerifyReport(report: VerifyReport): string {
+  const by = (s: VerifySeverity) => report.issues.filter((i) => i.severity === s).length;
+  const errors = by("error");
+  const warnings = by("warning");
+  const head = report.ok
+    ? `${report.count} hardened transfer(s) verified`
+    : `${errors} error(s) across ${report.count} hardened transfer(s)`;
+  return warnings > 0 ? `${head} · ${warnings} warning(s)` : head;
+}
+
+/** Plain-text report (public verifier bundle, logs). */
+export function formatVerifyReport(report: VerifyReport): string {
+  return [`v${report.version} · ${summarizeVerifyReport(report)}`, ...report.issues.map(formatVerifyIssue)].join("\n");
+}
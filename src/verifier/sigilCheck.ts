@@ -0,0 +1,270 @@
+// src/verifier/sigilCheck.ts
+// Headless sigil verification: one SVG text in, one machine-readable report out.
+// Same checks as VerifierStamper (no DOM, no canvas, no wallet) so pipelines can
+// verify sigils under Node exactly as the browser would.
+
+import { SEGMENT_SIZE } from "../components/VerifierStamper/constants";
+import { phiFromPublicKey, sha256Hex } from "../components/VerifierStamper/crypto";
+import { buildMerkleRoot } from "../components/VerifierStamper/merkle";
+import {
+  applyHeadDefaults,
+  computeHeadWindowRoot,
+  computeKaiSignature,
+  derivePhiKeyFromSig,
+  sumSegments,
+} from "../components/VerifierStamper/sigilUtils";
+import { getAttr, getIntAttr, parseSvgText } from "../components/VerifierStamper/svg";
+import type { SigilMetadata } from "../components/VerifierStamper/types";
+import { verifySovereignOffline } from "../components/VerifierStamper/verifySovereignOffline";
+import { gunzipB64 } from "../lib/sigil/codec";
+import { blake3Hex } from "../lib/sigil/hash";
+import { formatVerifyIssue, isZkIssue, type VerifyIssue, type VerifyReport } from "./report";
+
+// ─────────────────────────────────────────────────────────────
+// REPORT SHAPE
+// ─────────────────────────────────────────────────────────────
+export const SIGIL_CHECKS = [
+  "metadata",
+  "kai-signature",
+  "phi-key",
+  "canonical-hash",
+  "segments",
+  "lineage-v14",
+  "zk",
+] as const;
+export type SigilCheckId = (typeof SIGIL_CHECKS)[number];
+
+/** pass / fail are verdicts; warn = readable but not provable offline; skip = nothing to check. */
+export type SigilCheckStatus = "pass" | "fail" | "warn" | "skip";
+
+export type SigilCheck = {
+  id: SigilCheckId;
+  status: SigilCheckStatus;
+  detail: string;
+  expected?: string;
+  actual?: string;
+};
+
+export type SigilCheckReport = {
+  ok: boolean;
+  pulse?: number;
+  kaiSignature?: string;
+  /** Validator-priority canonical: data-payload-hash › meta.canonicalHash › legacy sha256 */
+  canonical?: string;
+  transfers: number;
+  hardenedTransfers: number;
+  checks: SigilCheck[];
+  /** Full v14 engine report when the head carries hardened transfers */
+  lineage?: VerifyReport;
+};
+
+const pass = (id: SigilCheckId, detail: string): SigilCheck => ({ id, status: "pass", detail });
+const skip = (id: SigilCheckId, detail: string): SigilCheck => ({ id, status: "skip", detail });
+const warn = (id: SigilCheckId, detail: string): SigilCheck => ({ id, status: "warn", detail });
+const fail = (id: SigilCheckId, detail: string, expected?: string, actual?: string): SigilCheck => ({
+  id,
+  status: "fail",
+  detail,
+  ...(expected !== undefined ? { expected } : {}),
+  ...(actual !== undefined ? { actual } : {}),
+});
+
+const lower = (s: string) => s.toLowerCase();
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+
+// ─────────────────────────────────────────────────────────────
+// CHECKS
+// ─────────────────────────────────────────────────────────────
+/** Σ recompute with the validator's grace path (data-step-index-canonical). */
+async function checkKaiSignature(meta: SigilMetadata, svg: string): Promise<SigilCheck> {
+  if (!meta.kaiSignature) return skip("kai-signature", "unsigned sigil (no kaiSignature)");
+  const expected = await computeKaiSignature(meta);
+  if (!expected) return skip("kai-signature", "core fields missing; cannot recompute Σ");
+  if (lower(expected) === lower(meta.kaiSignature)) return pass("kai-signature", "Σ matches pulse|beat|step|day|intention");
+
+  const stepCanonical = getIntAttr(svg, "data-step-index-canonical");
+  const sigAttr = getAttr(svg, "data-kai-signature");
+  if (typeof stepCanonical === "number" && sigAttr) {
+    const alt = await computeKaiSignature({ ...meta, stepIndex: stepCanonical });
+    if (alt && lower(alt) === lower(sigAttr)) {
+      meta.stepIndex = stepCanonical;
+      meta.kaiSignature = sigAttr;
+      return pass("kai-signature", "Σ matches with data-step-index-canonical");
+    }
+  }
+  return fail("kai-signature", "content signature mismatch (Σ)", expected, meta.kaiSignature);
+}
+
+/** Φ key is informational in the browser too: mismatch warns, never fails. */
+async function checkPhiKey(meta: SigilMetadata): Promise<SigilCheck> {
+  if (!meta.userPhiKey) return skip("phi-key", "no userPhiKey");
+  const candidates: string[] = [];
+  if (meta.kaiSignature) candidates.push(await derivePhiKeyFromSig(meta.kaiSignature));
+  if (meta.creatorPublicKey) {
+    try {
+      candidates.push(await phiFromPublicKey(meta.creatorPublicKey));
+    } catch {
+      return warn("phi-key", "creatorPublicKey could not be decoded");
+    }
+  }
+  if (candidates.length === 0) return skip("phi-key", "nothing to derive Φ from");
+  return candidates.includes(meta.userPhiKey)
+    ? pass("phi-key", "Φ key derives from kaiSignature / creatorPublicKey")
+    : warn("phi-key", "Φ key does not derive from kaiSignature or creatorPublicKey (informational)");
+}
+
+/**
+ * Embedded Kai-Sigil payload (gzip+base64 canonical JSON) must BLAKE3 to
+ * integrity.payloadHash and to data-payload-hash; stamped heads only carry a
+ * declared canonicalHash, checked against the attribute or the legacy digest.
+ */
+async function checkCanonicalHash(meta: SigilMetadata, svg: string): Promise<SigilCheck> {
+  const attr = getAttr(svg, "data-payload-hash")?.toLowerCase();
+  const integrity = isObj(meta.integrity) ? meta.integrity : null;
+  const declared = integrity && isObj(integrity.payloadHash) ? integrity.payloadHash.value : undefined;
+
+  if (typeof meta.payload === "string" && typeof declared === "string") {
+    let hex: string;
+    try {
+      hex = await blake3Hex(gunzipB64(meta.payload));
+    } catch {
+      return fail("canonical-hash", "embedded payload is not valid gzip+base64");
+    }
+    if (hex !== lower(declared)) return fail("canonical-hash", "payload does not hash to integrity.payloadHash", hex, declared);
+    if (attr && attr !== hex) return fail("canonical-hash", "data-payload-hash differs from payload hash", hex, attr);
+    return pass("canonical-hash", "BLAKE3(canonical payload) matches integrity.payloadHash");
+  }
+
+  if (typeof meta.canonicalHash === "string") {
+    const declaredHash = lower(meta.canonicalHash);
+    if (attr) {
+      return declaredHash === attr
+        ? pass("canonical-hash", "canonicalHash matches data-payload-hash")
+        : fail("canonical-hash", "canonicalHash differs from data-payload-hash", attr, declaredHash);
+    }
+    const legacy = await sha256Hex(`${meta.pulse ?? 0}|${meta.beat ?? 0}|${meta.stepIndex ?? 0}|${meta.chakraDay ?? ""}`);
+    return declaredHash === legacy
+      ? pass("canonical-hash", "canonicalHash matches legacy pulse|beat|step|day digest")
+      : warn("canonical-hash", "canonicalHash cannot be recomputed offline (no payload embedded)");
+  }
+
+  return attr
+    ? warn("canonical-hash", "data-payload-hash present but no payload to recompute it from")
+    : skip("canonical-hash", "no canonical hash declared");
+}
+
+/** Segment roots, head-window root and cumulative counts. */
+async function checkSegments(meta: SigilMetadata): Promise<SigilCheck> {
+  const segments = meta.segments ?? [];
+  const transfers = meta.transfers ?? [];
+  if (segments.length === 0 && transfers.length === 0 && typeof meta.cumulativeTransfers !== "number") {
+    return skip("segments", "no transfers or segments");
+  }
+
+  if (segments.some((s, i) => s.index !== i)) {
+    return fail("segments", "segment indexes are not contiguous from 0");
+  }
+  if (segments.length > 0 && meta.segmentsMerkleRoot) {
+    const root = await buildMerkleRoot(
+      segments.map((s) => s.root),
+      meta.merkleVersion ?? 1
+    );
+    if (root !== meta.segmentsMerkleRoot) {
+      return fail("segments", "segmentsMerkleRoot does not match segment roots", root, meta.segmentsMerkleRoot);
+    }
+  }
+  if (transfers.length > 0 && meta.transfersWindowRoot) {
+    const root = await computeHeadWindowRoot(transfers, meta.merkleVersion ?? 1);
+    if (root !== meta.transfersWindowRoot) {
+      return fail("segments", "transfersWindowRoot does not match head-window transfers", root, meta.transfersWindowRoot);
+    }
+  }
+  const cumulative = sumSegments(meta) + transfers.length;
+  if (typeof meta.cumulativeTransfers === "number" && meta.cumulativeTransfers !== cumulative) {
+    return fail("segments", "cumulativeTransfers ≠ Σ segment counts + window", String(cumulative), String(meta.cumulativeTransfers));
+  }
+  const cap = meta.segmentSize ?? SEGMENT_SIZE;
+  if (transfers.length > cap) {
+    return fail("segments", `head window holds ${transfers.length} transfers (segmentSize ${cap})`);
+  }
+  return pass("segments", `${segments.length} segment(s), ${transfers.length} window transfer(s), merkle v${meta.merkleVersion ?? 1}`);
+}
+
+/** v14 lineage + ZK stamps from one engine report; ZK issue codes are reported separately. */
+function lineageAndZkChecks(report: VerifyReport | undefined): [SigilCheck, SigilCheck] {
+  if (!report) return [skip("lineage-v14", "no hardened transfers"), skip("zk", "no hardened transfers")];
+
+  const lineageIssues = report.issues.filter((x) => !isZkIssue(x) && x.severity !== "info");
+  const zkIssues = report.issues.filter((x) => isZkIssue(x) && x.severity === "error");
+  const join = (xs: VerifyIssue[]) => xs.map(formatVerifyIssue).join("; ");
+
+  let lineage: SigilCheck;
+  if (lineageIssues.some((x) => x.severity === "error")) lineage = fail("lineage-v14", join(lineageIssues));
+  else if (lineageIssues.length > 0) lineage = warn("lineage-v14", join(lineageIssues));
+  else lineage = pass("lineage-v14", `${report.count} hardened transfer(s): prev-head, leaves and signatures verified`);
+
+  const zkSides = report.entries.flatMap((e) => [e.send.zk, e.receive?.zk]).filter((z) => z?.present);
+  let zk: SigilCheck;
+  if (zkIssues.length > 0) zk = fail("zk", join(zkIssues));
+  else if (zkSides.length === 0) zk = skip("zk", "no ZK bundles");
+  else if (report.zk.unknownVkeys) {
+    zk = warn("zk", `${report.zk.unknownVkeys} proof(s) use a verifying key outside the registry; not verified`);
+  } else if (report.zk.unavailable) {
+    zk = warn("zk", `${zkSides.length} stamp(s) bound; proofs not verified (snarkjs unavailable)`);
+  } else zk = pass("zk", `${zkSides.length} proof(s) verified and bound to their stamps`);
+
+  return [lineage, zk];
+}
+
+// ─────────────────────────────────────────────────────────────
+// ENTRY
+// ─────────────────────────────────────────────────────────────
+/** Verify one sigil SVG (raw text). Never throws for bad input; failures land in `checks`. */
+export async function checkSigilSvg(svg: string): Promise<SigilCheckReport> {
+  const empty = { transfers: 0, hardenedTransfers: 0 };
+  if (!/<svg[\s>]/i.test(svg)) {
+    const checks = [fail("metadata", "not an SVG document")];
+    return { ok: false, ...empty, checks };
+  }
+
+  const { meta, contextOk, typeOk } = parseSvgText(svg);
+  const hasCore =
+    typeof meta.pulse === "number" &&
+    typeof meta.beat === "number" &&
+    typeof meta.stepIndex === "number" &&
+    typeof meta.chakraDay === "string";
+
+  const checks: SigilCheck[] = [];
+  if (!contextOk || !typeOk) checks.push(fail("metadata", "invalid sigil @context/type"));
+  else if (!hasCore) checks.push(fail("metadata", "missing core fields (pulse/beat/stepIndex/chakraDay)"));
+  else checks.push(pass("metadata", "context, type and core fields present"));
+
+  checks.push(await checkKaiSignature(meta, svg));
+  checks.push(await checkPhiKey(meta));
+  checks.push(await checkCanonicalHash(meta, svg));
+
+  // Declared values first, then the upload-path defaults the lineage pins
+  checks.push(await checkSegments(meta));
+  await applyHeadDefaults(meta);
+  const lineage = (meta.hardenedTransfers ?? []).length > 0 ? await verifySovereignOffline(meta) : undefined;
+  checks.push(...lineageAndZkChecks(lineage));
+
+  let canonical = getAttr(svg, "data-payload-hash")?.toLowerCase();
+  if (!canonical && typeof meta.canonicalHash === "string" && meta.canonicalHash.length >= 32) {
+    canonical = lower(meta.canonicalHash);
+  }
+  if (!canonical && hasCore) {
+    canonical = await sha256Hex(`${meta.pulse}|${meta.beat}|${meta.stepIndex}|${meta.chakraDay}`);
+  }
+
+  return {
+    ok: checks.every((c) => c.status !== "fail"),
+    pulse: meta.pulse,
+    kaiSignature: meta.kaiSignature,
+    canonical,
+    transfers: meta.transfers?.length ?? 0,
+    hardenedTransfers: meta.hardenedTransfers?.length ?? 0,
+    checks,
+    ...(lineage ? { lineage } : {}),
+  };
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the Kai-Klok API (e.g. a self-hosted `npm run serve:api`). */
+  readonly VITE_KAI_API_URL?: string;
+}
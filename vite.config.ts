@@ -1,7 +1,13 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      'kai-klok-core': fileURLToPath(new URL('./src/lib/kai-klok-core/index.ts', import.meta.url)),
+    },
+  },
 })
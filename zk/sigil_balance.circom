@@ -0,0 +1,68 @@
+pragma circom 2.0.0;
+
+include "poseidon.circom";
+include "comparators.circom";
+
+template SigilBalance(N, BITS) {
+    // ────────────────────────────────────────────────
+    // PRIVATE INPUTS: the glyph's ledger in micro-Φ
+    // ────────────────────────────────────────────────
+    signal input originalAmount;
+    signal input debits[N];          // cryptoLedger debits; unused slots are 0
+    signal input salt;               // random per head: the owner publishes the commitment, keeps the opening
+
+    // PUBLIC INPUTS: the claim and what it is bound to
+    signal input threshold;          // X in micro-Φ: available Φ ≥ X
+    signal input glyphHash;          // sigil canonicalHash, reduced into the field
+    signal input sealStamp;          // ValueSeal stamp, reduced into the field
+
+    // PUBLIC OUTPUT: commitment to the ledger the claim was proven over (= the glyph's published ledgerHead)
+    signal output ledgerCommitment;
+
+    // Range: every amount fits BITS bits, so the sums below cannot wrap the field
+    component origBits = Num2Bits(BITS);
+    origBits.in <== originalAmount;
+    component thresholdBits = Num2Bits(BITS);
+    thresholdBits.in <== threshold;
+
+    component debitBits[N];
+    var total = 0;
+    for (var i = 0; i < N; i++) {
+        debitBits[i] = Num2Bits(BITS);
+        debitBits[i].in <== debits[i];
+        total += debits[i];
+    }
+    signal totalDebited <== total;
+
+    // Enforce: Σ debits ≤ originalAmount and originalAmount − Σ debits ≥ threshold
+    component withinOriginal = LessEqThan(BITS + 6);   // N ≤ 64 debits
+    withinOriginal.in[0] <== totalDebited;
+    withinOriginal.in[1] <== originalAmount;
+    withinOriginal.out === 1;
+
+    component meetsThreshold = LessEqThan(BITS + 6);
+    meetsThreshold.in[0] <== threshold;
+    meetsThreshold.in[1] <== originalAmount - totalDebited;
+    meetsThreshold.out === 1;
+
+    // ledgerCommitment = Poseidon(glyphHash, originalAmount, Poseidon(debits[0..15]), …, salt)
+    component chunk[N \ 16];
+    component commit = Poseidon(N \ 16 + 3);
+    commit.inputs[0] <== glyphHash;
+    commit.inputs[1] <== originalAmount;
+    for (var c = 0; c < N \ 16; c++) {
+        chunk[c] = Poseidon(16);
+        for (var j = 0; j < 16; j++) {
+            chunk[c].inputs[j] <== debits[c * 16 + j];
+        }
+        commit.inputs[2 + c] <== chunk[c].out;
+    }
+    commit.inputs[N \ 16 + 2] <== salt;
+    ledgerCommitment <== commit.out;
+
+    // Bind the seal stamp into the proof (unused public inputs are otherwise malleable)
+    signal sealStampSquare <== sealStamp * sealStamp;
+}
+
+// Compile entry point — public signals: [ledgerCommitment, threshold, glyphHash, sealStamp]
+component main {public [threshold, glyphHash, sealStamp]} = SigilBalance(32, 52);
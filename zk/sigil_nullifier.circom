@@ -0,0 +1,35 @@
+pragma circom 2.0.0;
+
+include "poseidon.circom";
+
+template SigilNullifier() {
+    // ────────────────────────────────────────────────
+    // PRIVATE INPUT: the owner's harmonic secret (same as SigilProof)
+    // ────────────────────────────────────────────────
+    signal input secret;
+
+    // PUBLIC INPUTS: what the proof is bound to
+    signal input expectedHash;   // Poseidon(secret) — the owner commitment
+    signal input pulse;          // Kai pulse of the SEND / RECEIVE carrying the proof
+    signal input canonicalHash;  // sigil canonicalHash, reduced into the field
+    signal input nonce;          // transfer nonce, as a field element
+
+    // PUBLIC OUTPUT: one-time tag; verifiers reject a nullifier already in the lineage
+    signal output nullifier;
+
+    // Enforce: expectedHash == Poseidon(secret)
+    component commit = Poseidon(1);
+    commit.inputs[0] <== secret;
+    expectedHash === commit.out;
+
+    // nullifier = Poseidon(secret, canonicalHash, nonce, pulse)
+    component tag = Poseidon(4);
+    tag.inputs[0] <== secret;
+    tag.inputs[1] <== canonicalHash;
+    tag.inputs[2] <== nonce;
+    tag.inputs[3] <== pulse;
+    nullifier <== tag.out;
+}
+
+// Compile entry point — public signals: [nullifier, expectedHash, pulse, canonicalHash, nonce]
+component main {public [expectedHash, pulse, canonicalHash, nonce]} = SigilNullifier();